@@ -0,0 +1,191 @@
+/**
+ * Generate schema/jobs.schema.json from the job types in src/core/types.ts
+ *
+ * Usage:
+ *   npm run schema              Write the schema
+ *   npm run schema -- --check   Exit 1 if the schema is out of date
+ */
+
+import * as fs from 'node:fs';
+import * as path from 'node:path';
+import { fileURLToPath } from 'node:url';
+import ts from 'typescript';
+
+type JsonSchema = Record<string, unknown>;
+type Declaration = ts.InterfaceDeclaration | ts.TypeAliasDeclaration;
+
+const rootDir = path.resolve(path.dirname(fileURLToPath(import.meta.url)), '..');
+
+export const TYPES_PATH = path.join(rootDir, 'src', 'core', 'types.ts');
+export const SCHEMA_PATH = path.join(rootDir, 'schema', 'jobs.schema.json');
+
+/** The type the schema describes */
+const ROOT_TYPE = 'JobsFile';
+
+/**
+ * Get the doc comment text of a declaration or property, without tags
+ */
+function getDescription(node: ts.Node): string | undefined {
+  const docs = ts.getJSDocCommentsAndTags(node).filter(ts.isJSDoc);
+  const text = docs.map((doc) => ts.getTextOfJSDocComment(doc.comment) ?? '').join('\n').trim();
+  return text || undefined;
+}
+
+/**
+ * Build the JSON Schema for the jobs file from the declarations in a types file.
+ * Named types become definitions; interfaces do not allow unknown properties.
+ * @throws Error on type syntax the generator does not support
+ */
+export function generateJobsSchema(typesPath = TYPES_PATH): JsonSchema {
+  const source = ts.createSourceFile(typesPath, fs.readFileSync(typesPath, 'utf-8'), ts.ScriptTarget.ES2022, true);
+  const declarations = new Map<string, Declaration>();
+  for (const statement of source.statements) {
+    if (ts.isInterfaceDeclaration(statement) || ts.isTypeAliasDeclaration(statement)) {
+      declarations.set(statement.name.text, statement);
+    }
+  }
+
+  const definitions: Record<string, JsonSchema> = {};
+
+  const getDeclaration = (name: string): Declaration => {
+    const declaration = declarations.get(name);
+    if (!declaration) throw new Error(`Unknown type "${name}" in ${typesPath}`);
+    return declaration;
+  };
+
+  const define = (name: string): JsonSchema => {
+    if (!(name in definitions)) {
+      // Reserve the name first so self-referencing types terminate
+      definitions[name] = {};
+      definitions[name] = declarationSchema(getDeclaration(name));
+    }
+    return { $ref: `#/definitions/${name}` };
+  };
+
+  const typeSchema = (node: ts.TypeNode): JsonSchema => {
+    switch (node.kind) {
+      case ts.SyntaxKind.StringKeyword:
+        return { type: 'string' };
+      case ts.SyntaxKind.NumberKeyword:
+        return { type: 'number' };
+      case ts.SyntaxKind.BooleanKeyword:
+        return { type: 'boolean' };
+    }
+
+    if (ts.isParenthesizedTypeNode(node)) {
+      return typeSchema(node.type);
+    }
+
+    if (ts.isLiteralTypeNode(node)) {
+      if (ts.isStringLiteral(node.literal)) return { const: node.literal.text };
+      if (ts.isNumericLiteral(node.literal)) return { const: Number(node.literal.text) };
+    }
+
+    if (ts.isArrayTypeNode(node)) {
+      return { type: 'array', items: typeSchema(node.elementType) };
+    }
+
+    if (ts.isUnionTypeNode(node)) {
+      const members = node.types.map(typeSchema);
+      if (members.every((member) => typeof member.const === 'string')) {
+        return { type: 'string', enum: members.map((member) => member.const) };
+      }
+      return { anyOf: members };
+    }
+
+    if (ts.isTypeReferenceNode(node) && ts.isIdentifier(node.typeName)) {
+      const name = node.typeName.text;
+      const args = node.typeArguments ?? [];
+      if (name === 'Record' && args.length === 2 && args[0].kind === ts.SyntaxKind.StringKeyword) {
+        return { type: 'object', additionalProperties: typeSchema(args[1]) };
+      }
+      if (args.length === 0) {
+        return define(name);
+      }
+    }
+
+    throw new Error(`Unsupported type "${node.getText(source)}" in ${typesPath}`);
+  };
+
+  /** Collect an interface's properties, including those of the interfaces it extends */
+  const collectMembers = (declaration: ts.InterfaceDeclaration): ts.PropertySignature[] => {
+    const inherited = (declaration.heritageClauses ?? []).flatMap((clause) =>
+      clause.types.flatMap((base) => {
+        const baseDeclaration = getDeclaration(base.expression.getText(source));
+        if (!ts.isInterfaceDeclaration(baseDeclaration)) {
+          throw new Error(`Interface ${declaration.name.text} must extend an interface`);
+        }
+        return collectMembers(baseDeclaration);
+      }),
+    );
+    return [...inherited, ...declaration.members.filter(ts.isPropertySignature)];
+  };
+
+  const interfaceSchema = (declaration: ts.InterfaceDeclaration): JsonSchema => {
+    const properties: Record<string, JsonSchema> = {};
+    const required: string[] = [];
+    for (const member of collectMembers(declaration)) {
+      if (!member.type) continue;
+      const name = member.name.getText(source).replace(/^['"]|['"]$/g, '');
+      const description = getDescription(member);
+      properties[name] = { ...(description ? { description } : {}), ...typeSchema(member.type) };
+      if (!member.questionToken) required.push(name);
+    }
+    return {
+      type: 'object',
+      properties,
+      ...(required.length > 0 ? { required } : {}),
+      additionalProperties: false,
+    };
+  };
+
+  const declarationSchema = (declaration: Declaration): JsonSchema => {
+    const description = getDescription(declaration);
+    const schema = ts.isInterfaceDeclaration(declaration)
+      ? interfaceSchema(declaration)
+      : typeSchema(declaration.type);
+    return { ...(description ? { description } : {}), ...schema };
+  };
+
+  const root = declarationSchema(getDeclaration(ROOT_TYPE));
+  const sortedDefinitions = Object.fromEntries(
+    Object.keys(definitions).sort().map((name) => [name, definitions[name]]),
+  );
+
+  return {
+    $schema: 'http://json-schema.org/draft-07/schema#',
+    title: 'Agent Oven jobs file',
+    ...root,
+    definitions: sortedDefinitions,
+  };
+}
+
+/**
+ * Serialize a schema the way it is stored on disk
+ */
+export function formatSchema(schema: JsonSchema): string {
+  return JSON.stringify(schema, null, 2) + '\n';
+}
+
+function main(): void {
+  const content = formatSchema(generateJobsSchema());
+  const relative = path.relative(rootDir, SCHEMA_PATH);
+
+  if (process.argv.includes('--check')) {
+    const current = fs.existsSync(SCHEMA_PATH) ? fs.readFileSync(SCHEMA_PATH, 'utf-8') : '';
+    if (current !== content) {
+      console.error(`${relative} is out of date. Run \`npm run schema\` to regenerate it.`);
+      process.exit(1);
+    }
+    console.log(`${relative} is up to date`);
+    return;
+  }
+
+  fs.mkdirSync(path.dirname(SCHEMA_PATH), { recursive: true });
+  fs.writeFileSync(SCHEMA_PATH, content);
+  console.log(`Wrote ${relative}`);
+}
+
+if (process.argv[1] && path.resolve(process.argv[1]) === fileURLToPath(import.meta.url)) {
+  main();
+}
@@ -18,9 +18,9 @@ if (process.argv.length <= 2) {
   await launchTUI();
   // launchTUI waits until exit, so this won't reach below
 } else {
-  // Fire-and-forget update check (skip for init/scheduler-tick)
+  // Fire-and-forget update check (skip for init and the scheduler)
   const subcommand = process.argv[2];
-  const skipUpdateCheck = subcommand === 'init' || subcommand === 'scheduler-tick';
+  const skipUpdateCheck = subcommand === 'init' || subcommand === 'scheduler-tick' || subcommand === 'scheduler-run';
   const updatePromise: Promise<UpdateInfo | null> = skipUpdateCheck
     ? Promise.resolve(null)
     : checkForUpdate();
@@ -37,7 +37,14 @@ if (process.argv.length <= 2) {
     () => import('./cli/commands/status.js'),
     () => import('./cli/commands/list.js'),
     () => import('./cli/commands/add.js'),
+    () => import('./cli/commands/edit.js'),
     () => import('./cli/commands/show.js'),
+    () => import('./cli/commands/next.js'),
+    () => import('./cli/commands/validate.js'),
+    () => import('./cli/commands/apply.js'),
+    () => import('./cli/commands/export.js'),
+    () => import('./cli/commands/secret.js'),
+    () => import('./cli/commands/images.js'),
     () => import('./cli/commands/run.js'),
     () => import('./cli/commands/delete.js'),
     () => import('./cli/commands/toggle.js'),
@@ -46,6 +53,7 @@ if (process.argv.length <= 2) {
     () => import('./cli/commands/up.js'),
     () => import('./cli/commands/down.js'),
     () => import('./cli/commands/scheduler-tick.js'),
+    () => import('./cli/commands/scheduler-run.js'),
   ];
 
   for (const load of commandModules) {
@@ -75,9 +83,9 @@ if (process.argv.length <= 2) {
 
   await program.parseAsync();
 
-  // Print update notification after command completes
+  // Print update notification after command completes (not into piped output, e.g. `secret get`)
   const update = await updatePromise;
-  if (update?.updateAvailable) {
+  if (update?.updateAvailable && process.stdout.isTTY) {
     const { warn } = await import('./cli/utils/output.js');
     warn(
       `Update available: ${update.currentVersion} → ${update.latestVersion}. Run "npm i -g agent-oven" to update.`,
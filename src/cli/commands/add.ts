@@ -4,14 +4,25 @@
 
 import type { Command } from 'commander';
 import { requireConfig, handleError } from '../utils/errors.js';
-import { addJob, validateJob } from '../../core/jobs.js';
-import { validateCron, validateRandomWindow } from '../../core/scheduler.js';
-import { success, error } from '../utils/output.js';
-import type { AddJobOptions, Schedule, RandomWindowSchedule } from '../../core/types.js';
-
-function collectRepeatable(value: string, previous: string[]): string[] {
-  return [...previous, value];
-}
+import { addJob, listJobs, validateJob } from '../../core/jobs.js';
+import { pinJobImage } from '../../core/images.js';
+import { success, error, info } from '../utils/output.js';
+import {
+  collectRepeatable,
+  buildSchedule,
+  parseEnvPairs,
+  parseEnvSecretPairs,
+  parseLabelPairs,
+  parseBuildArgPairs,
+  parseCommand,
+} from '../utils/job-options.js';
+import type {
+  AddJobOptions,
+  CatchUpPolicy,
+  ConcurrencyPolicy,
+  ImagePullPolicy,
+  SecurityProfile,
+} from '../../core/types.js';
 
 export function register(program: Command): void {
   program
@@ -19,25 +30,55 @@ export function register(program: Command): void {
     .description('Add a new job')
     .requiredOption('--name <name>', 'Human-readable job name')
     .option('--type <type>', 'Job type (docker or agent-pipeline)', 'docker')
-    .option('--image <image>', 'Docker image (required for docker type)')
+    .option('--image <image>', 'Docker image (required for docker type, unless --build is given)')
+    .option('--build <context>', 'Build the job\'s own image from this context directory instead of --image (docker type)')
+    .option('--dockerfile <path>', 'Dockerfile for --build, relative to the context (default: Dockerfile)')
+    .option('--build-arg <kv>', 'Build argument KEY=VALUE for --build (repeatable)', collectRepeatable, [])
+    .option('--pull-policy <policy>', 'Pull the image before each run: always, if-not-present, or never (docker type)')
+    .option('--pin-digest', 'Refuse to run if the image digest changes from the current one (docker type)')
     .option('--command <cmd>', 'Command to run (required for docker type; JSON array or string)')
     .option('--repo <url>', 'Git repo URL (required for pipeline type)')
     .option('--pipeline <name>', 'Pipeline name (required for pipeline type)')
     .option('--branch <branch>', 'Git branch (default: main)')
-    .option('--schedule <cron>', 'Cron expression (mutually exclusive with --once, --random-window)')
+    .option('--schedule <cron>', 'Cron expression (mutually exclusive with --once, --random-window, --after)')
     .option('--once <datetime>', 'ISO 8601 datetime for one-time run')
     .option('--random-window <start-end>', 'Random window in HH:MM-HH:MM format (e.g. 09:30-10:00)')
-    .option('--random-window-days <days>', 'Days for random-window (cron weekday syntax, default: *)')
+    .option('--random-window-days <days>', 'Days for random-window (cron weekday syntax, e.g. MON-FRI, default: *)')
+    .option('--after <ids>', 'Run after these upstream jobs finish (comma-separated job IDs)')
+    .option('--on <outcome>', 'Upstream outcome that triggers an --after job: success, failure, or any (default: success)')
+    .option('--timezone <tz>', 'IANA timezone for the schedule (default: config timezone)')
     .option('-v, --volume <vol>', 'Volume mount (repeatable)', collectRepeatable, [])
     .option('-e, --env <kv>', 'Environment variable KEY=VALUE (repeatable)', collectRepeatable, [])
+    .option('--env-secret <kv>', 'Environment variable KEY=SECRET read from the secret store at run time (repeatable)', collectRepeatable, [])
     .option('--timeout <seconds>', 'Timeout in seconds', parseInt)
     .option('--cpus <n>', 'CPU limit', parseFloat)
     .option('--memory <size>', 'Memory limit (e.g., 512m, 2g)')
+    .option('--outputs', 'Mount an outputs directory at /outputs for dependent jobs to read')
+    .option('--network <name>', 'Docker network to connect to, or "none" (docker type)')
+    .option('--user <user>', 'User to run as: name, UID, or user:group (docker type)')
+    .option('--workdir <path>', 'Working directory inside the container (docker type)')
+    .option('--entrypoint <cmd>', 'Override the image entrypoint (docker type)')
+    .option('--read-only', 'Mount the root filesystem read-only (docker type)')
+    .option('--cap-drop <cap>', 'Linux capability to drop, e.g. ALL (repeatable, docker type)', collectRepeatable, [])
+    .option('--label <kv>', 'Container label KEY=VALUE (repeatable, docker type)', collectRepeatable, [])
+    .option('--shm-size <size>', 'Size of /dev/shm, e.g. 64m (docker type)')
+    .option('--pids-limit <n>', 'Maximum number of processes (docker type)', parseInt)
+    .option('--extra-arg <arg>', 'Further docker run option, e.g. --add-host=db:10.0.0.5 (repeatable, docker type)', collectRepeatable, [])
+    .option('--security <profile>', 'Security profile: strict, standard, or none (default: none)')
+    .option('--allow-domain <domain>', 'Domain a strict job may reach, e.g. registry.npmjs.org or *.example.com (repeatable)', collectRepeatable, [])
+    .option('--seccomp <file>', 'Seccomp profile (JSON) replacing Docker\'s default')
+    .option('--catch-up <policy>', 'Runs missed while the scheduler was down: none, latest, or all (default: latest)')
+    .option('--concurrency-policy <policy>', 'When the previous run is still going: skip, queue, or replace (default: skip)')
     .option('--disabled', 'Create job as disabled')
     .action(async (id: string, opts: {
       name: string;
       type: string;
       image?: string;
+      build?: string;
+      dockerfile?: string;
+      buildArg: string[];
+      pullPolicy?: string;
+      pinDigest?: boolean;
       command?: string;
       repo?: string;
       pipeline?: string;
@@ -46,72 +87,45 @@ export function register(program: Command): void {
       once?: string;
       randomWindow?: string;
       randomWindowDays?: string;
+      after?: string;
+      on?: string;
+      timezone?: string;
       volume: string[];
       env: string[];
+      envSecret: string[];
       timeout?: number;
       cpus?: number;
       memory?: string;
+      outputs?: boolean;
+      network?: string;
+      user?: string;
+      workdir?: string;
+      entrypoint?: string;
+      readOnly?: boolean;
+      capDrop: string[];
+      label: string[];
+      shmSize?: string;
+      pidsLimit?: number;
+      extraArg: string[];
+      security?: string;
+      allowDomain: string[];
+      seccomp?: string;
+      catchUp?: string;
+      concurrencyPolicy?: string;
       disabled?: boolean;
     }) => {
       try {
         const config = requireConfig();
 
-        // Build schedule — exactly one of --schedule, --once, --random-window required
-        const schedCount = [opts.schedule, opts.once, opts.randomWindow].filter(Boolean).length;
-        if (schedCount === 0) {
-          error('One of --schedule, --once, or --random-window is required');
-          process.exit(1);
-        }
-        if (schedCount > 1) {
-          error('--schedule, --once, and --random-window are mutually exclusive');
+        // Build schedule — exactly one of --schedule, --once, --random-window, --after required
+        if (opts.on && !opts.after) {
+          error('--on requires --after');
           process.exit(1);
         }
-
-        let schedule: Schedule;
-        if (opts.schedule) {
-          const cronErr = validateCron(opts.schedule);
-          if (cronErr) {
-            error(`Invalid cron expression: ${cronErr}`);
-            process.exit(1);
-          }
-          schedule = { type: 'cron', cron: opts.schedule };
-        } else if (opts.randomWindow) {
-          const rwMatch = opts.randomWindow.match(/^(\d{2}:\d{2})-(\d{2}:\d{2})$/);
-          if (!rwMatch) {
-            error('Invalid --random-window format (expected HH:MM-HH:MM)');
-            process.exit(1);
-          }
-          const rwSchedule: RandomWindowSchedule = {
-            type: 'random-window',
-            start: rwMatch[1],
-            end: rwMatch[2],
-            ...(opts.randomWindowDays ? { days: opts.randomWindowDays } : {}),
-          };
-          const rwErr = validateRandomWindow(rwSchedule);
-          if (rwErr) {
-            error(`Invalid random-window: ${rwErr}`);
-            process.exit(1);
-          }
-          schedule = rwSchedule;
-        } else {
-          const d = new Date(opts.once!);
-          if (isNaN(d.getTime())) {
-            error('Invalid datetime for --once');
-            process.exit(1);
-          }
-          schedule = { type: 'once', datetime: opts.once! };
-        }
+        const schedule = buildSchedule(opts);
 
         // Build env record
-        const env: Record<string, string> = {};
-        for (const kv of opts.env) {
-          const eqIdx = kv.indexOf('=');
-          if (eqIdx === -1) {
-            error(`Invalid env format: '${kv}' (expected KEY=VALUE)`);
-            process.exit(1);
-          }
-          env[kv.slice(0, eqIdx)] = kv.slice(eqIdx + 1);
-        }
+        const env = { ...parseEnvPairs(opts.env), ...parseEnvSecretPairs(opts.envSecret) };
 
         // Build resources
         const resources = (opts.timeout || opts.cpus || opts.memory) ? {
@@ -120,6 +134,10 @@ export function register(program: Command): void {
           memory: opts.memory,
         } : undefined;
 
+        const security = opts.security as SecurityProfile | undefined;
+        const catchUp = opts.catchUp as CatchUpPolicy | undefined;
+        const concurrencyPolicy = opts.concurrencyPolicy as ConcurrencyPolicy | undefined;
+
         // Build job options
         let jobOptions: AddJobOptions;
 
@@ -142,10 +160,20 @@ export function register(program: Command): void {
             enabled: !opts.disabled,
             ...(Object.keys(env).length > 0 ? { env } : {}),
             ...(resources ? { resources } : {}),
+            ...(opts.outputs ? { outputs: true } : {}),
+            ...(security ? { security } : {}),
+            ...(opts.allowDomain.length > 0 ? { allowedDomains: opts.allowDomain } : {}),
+            ...(opts.seccomp ? { seccomp: opts.seccomp } : {}),
+            ...(catchUp ? { catchUp } : {}),
+            ...(concurrencyPolicy ? { concurrencyPolicy } : {}),
           };
         } else {
-          if (!opts.image) {
-            error('--image is required for docker jobs');
+          if (!opts.image && !opts.build) {
+            error('--image or --build is required for docker jobs');
+            process.exit(1);
+          }
+          if (!opts.build && (opts.dockerfile || opts.buildArg.length > 0)) {
+            error('--dockerfile and --build-arg require --build');
             process.exit(1);
           }
           if (!opts.command) {
@@ -154,34 +182,52 @@ export function register(program: Command): void {
           }
 
           // Parse command: JSON array or single string
-          let command: string | string[];
-          if (opts.command.startsWith('[')) {
-            try {
-              command = JSON.parse(opts.command);
-            } catch {
-              error('Invalid JSON array for --command');
-              process.exit(1);
-            }
-          } else {
-            command = opts.command;
-          }
+          const command = parseCommand(opts.command);
+          const labels = parseLabelPairs(opts.label);
+          const buildArgs = parseBuildArgPairs(opts.buildArg);
+          const pullPolicy = opts.pullPolicy as ImagePullPolicy | undefined;
 
           jobOptions = {
             id,
             name: opts.name,
             type: 'docker',
-            image: opts.image,
+            ...(opts.image ? { image: opts.image } : {}),
+            ...(opts.build ? {
+              build: {
+                context: opts.build,
+                ...(opts.dockerfile ? { dockerfile: opts.dockerfile } : {}),
+                ...(Object.keys(buildArgs).length > 0 ? { args: buildArgs } : {}),
+              },
+            } : {}),
+            ...(pullPolicy ? { pullPolicy } : {}),
+            ...(opts.pinDigest ? { pinDigest: true } : {}),
             command,
             schedule,
             enabled: !opts.disabled,
             ...(opts.volume.length > 0 ? { volumes: opts.volume } : {}),
             ...(Object.keys(env).length > 0 ? { env } : {}),
             ...(resources ? { resources } : {}),
+            ...(opts.outputs ? { outputs: true } : {}),
+            ...(opts.network ? { network: opts.network } : {}),
+            ...(opts.user ? { user: opts.user } : {}),
+            ...(opts.workdir ? { workdir: opts.workdir } : {}),
+            ...(opts.entrypoint ? { entrypoint: opts.entrypoint } : {}),
+            ...(opts.readOnly ? { readOnly: true } : {}),
+            ...(opts.capDrop.length > 0 ? { capDrop: opts.capDrop } : {}),
+            ...(Object.keys(labels).length > 0 ? { labels } : {}),
+            ...(opts.shmSize ? { shmSize: opts.shmSize } : {}),
+            ...(opts.pidsLimit !== undefined ? { pidsLimit: opts.pidsLimit } : {}),
+            ...(opts.extraArg.length > 0 ? { extraArgs: opts.extraArg } : {}),
+            ...(security ? { security } : {}),
+            ...(opts.allowDomain.length > 0 ? { allowedDomains: opts.allowDomain } : {}),
+            ...(opts.seccomp ? { seccomp: opts.seccomp } : {}),
+            ...(catchUp ? { catchUp } : {}),
+            ...(concurrencyPolicy ? { concurrencyPolicy } : {}),
           };
         }
 
         // Validate
-        const errors = validateJob(jobOptions);
+        const errors = validateJob(jobOptions, listJobs(config));
         if (errors.length > 0) {
           for (const e of errors) {
             error(e);
@@ -191,6 +237,14 @@ export function register(program: Command): void {
 
         addJob(config, jobOptions);
         success(`Job '${id}' added`);
+
+        // Pin to the image as it is now; an image not pulled yet is pinned by its first run
+        if (jobOptions.type === 'docker' && jobOptions.pinDigest && jobOptions.image) {
+          const digest = await pinJobImage(config, id, jobOptions.image);
+          info(digest
+            ? `Pinned to ${digest}`
+            : `${jobOptions.image} is not present locally; the job will be pinned to the digest of its first run`);
+        }
       } catch (err) {
         handleError(err);
       }
@@ -0,0 +1,99 @@
+/**
+ * `agent-oven apply -f <path...>` — Reconcile jobs.json with definition files
+ */
+
+import chalk from 'chalk';
+import type { Command } from 'commander';
+import { requireConfig, handleError } from '../utils/errors.js';
+import { listJobs } from '../../core/jobs.js';
+import { readJobDefinitions, planApply, applyPlan, type JobChange } from '../../core/definitions.js';
+import { success, error, info } from '../utils/output.js';
+import { confirm } from '../utils/prompts.js';
+
+function formatValue(value: unknown): string {
+  return value === undefined ? '(unset)' : JSON.stringify(value);
+}
+
+/**
+ * Print a change as a diff line, with changed fields below updates
+ */
+function printChange(change: JobChange): void {
+  if (change.action === 'create') {
+    console.log(chalk.green(`+ create ${change.jobId}`));
+  } else if (change.action === 'delete') {
+    console.log(chalk.red(`- delete ${change.jobId}`));
+  } else {
+    console.log(chalk.yellow(`~ update ${change.jobId}`));
+    for (const field of change.fields) {
+      console.log(`    ${field.path}: ${formatValue(field.before)} → ${formatValue(field.after)}`);
+    }
+  }
+}
+
+export function register(program: Command): void {
+  program
+    .command('apply')
+    .description('Create, update (and with --prune, delete) jobs to match YAML or JSON definition files')
+    .requiredOption('-f, --file <paths...>', 'Definition files or directories')
+    .option('--prune', 'Delete jobs that are not in the definition files')
+    .option('--dry-run', 'Show the changes without making them')
+    .option('-y, --yes', 'Skip confirmation')
+    .action(async (opts: { file: string[]; prune?: boolean; dryRun?: boolean; yes?: boolean }) => {
+      try {
+        const config = requireConfig();
+
+        const { definitions, issues } = readJobDefinitions(opts.file);
+        if (issues.length > 0) {
+          for (const issue of issues) {
+            const location = issue.line ? `${issue.file}:${issue.line}` : issue.file;
+            console.log(`${location}  ${issue.path || '/'}  ${issue.message}`);
+          }
+          console.log();
+          error(`${issues.length} problem${issues.length === 1 ? '' : 's'} found; nothing was changed`);
+          process.exit(1);
+        }
+
+        const jobs = definitions.map((d) => d.job);
+        const plan = planApply(listJobs(config), jobs, { prune: opts.prune });
+        if (plan.errors.length > 0) {
+          for (const e of plan.errors) {
+            error(e);
+          }
+          process.exit(1);
+        }
+
+        for (const change of plan.changes) {
+          printChange(change);
+        }
+        if (plan.unchanged.length > 0) {
+          console.log(chalk.dim(`  ${plan.unchanged.length} unchanged`));
+        }
+
+        if (plan.changes.length === 0) {
+          success('Jobs are up to date');
+          return;
+        }
+
+        const count = (action: JobChange['action']) => plan.changes.filter((c) => c.action === action).length;
+        const summary = `${count('create')} to create, ${count('update')} to update, ${count('delete')} to delete`;
+        console.log();
+        if (opts.dryRun) {
+          info(`Dry run: ${summary}`);
+          return;
+        }
+
+        if (!opts.yes) {
+          const ok = await confirm(`Apply changes (${summary})?`);
+          if (!ok) {
+            info('Cancelled');
+            return;
+          }
+        }
+
+        applyPlan(config, plan, jobs, { prune: opts.prune });
+        success(`Applied: ${count('create')} created, ${count('update')} updated, ${count('delete')} deleted`);
+      } catch (err) {
+        handleError(err);
+      }
+    });
+}
@@ -4,8 +4,9 @@
 
 import type { Command } from 'commander';
 import { requireConfig, requireJob, handleError } from '../utils/errors.js';
-import { removeJob } from '../../core/jobs.js';
-import { success, info } from '../utils/output.js';
+import { listJobs, removeJob } from '../../core/jobs.js';
+import { getDependentJobs } from '../../core/dependencies.js';
+import { success, info, warn } from '../utils/output.js';
 import { confirm } from '../utils/prompts.js';
 
 export function register(program: Command): void {
@@ -20,6 +21,10 @@ export function register(program: Command): void {
         const job = requireJob(config, id);
 
         info(`Job '${id}' (${job.name}) — type: ${job.type}`);
+        const dependents = getDependentJobs(listJobs(config), id);
+        if (dependents.length > 0) {
+          warn(`Jobs that run after '${id}' will no longer be triggered: ${dependents.map((j) => j.id).join(', ')}`);
+        }
 
         if (!opts.yes) {
           const ok = await confirm(`Delete job '${id}'?`);
@@ -0,0 +1,473 @@
+/**
+ * `agent-oven edit <id>` — Change fields of an existing job
+ */
+
+import * as fs from 'node:fs';
+import * as os from 'node:os';
+import * as path from 'node:path';
+import { execa } from 'execa';
+import type { Command } from 'commander';
+import { requireConfig, requireJob, handleError } from '../utils/errors.js';
+import { listJobs, updateJob, replaceJob, validateJob, validateJobDocument } from '../../core/jobs.js';
+import { pinJobImage } from '../../core/images.js';
+import { updateJobState } from '../../core/state.js';
+import { success, error, warn, info } from '../utils/output.js';
+import { confirm } from '../utils/prompts.js';
+import {
+  collectRepeatable,
+  hasScheduleFlag,
+  applyTimezone,
+  buildSchedule,
+  parseEnvPairs,
+  parseEnvSecretPairs,
+  parseLabelPairs,
+  parseBuildArgPairs,
+  parseCommand,
+  type ScheduleFlags,
+} from '../utils/job-options.js';
+import type {
+  Config,
+  Job,
+  CatchUpPolicy,
+  ConcurrencyPolicy,
+  DependencyOutcome,
+  DockerBuildConfig,
+  ImagePullPolicy,
+  SecurityProfile,
+  UpdateJobOptions,
+} from '../../core/types.js';
+import { isDockerJob, isPipelineJob } from '../../core/types.js';
+
+interface EditOptions extends ScheduleFlags {
+  name?: string;
+  image?: string;
+  build?: string;
+  dockerfile?: string | false;
+  buildArg: string[];
+  unsetBuildArg: string[];
+  pullPolicy?: string | false;
+  pinDigest?: boolean;
+  command?: string;
+  repo?: string;
+  pipeline?: string;
+  branch?: string;
+  volume: string[];
+  removeVolume: string[];
+  env: string[];
+  envSecret: string[];
+  unsetEnv: string[];
+  timeout?: number;
+  cpus?: number;
+  memory?: string;
+  outputs?: boolean;
+  network?: string | false;
+  user?: string | false;
+  workdir?: string | false;
+  entrypoint?: string | false;
+  readOnly?: boolean;
+  capDrop: string[];
+  removeCapDrop: string[];
+  label: string[];
+  unsetLabel: string[];
+  shmSize?: string | false;
+  pidsLimit?: number | false;
+  extraArg: string[];
+  removeExtraArg: string[];
+  security?: string | false;
+  allowDomain: string[];
+  removeAllowDomain: string[];
+  seccomp?: string | false;
+  catchUp?: string;
+  concurrencyPolicy?: string;
+  enabled?: boolean;
+  disabled?: boolean;
+  editor?: boolean;
+}
+
+/**
+ * Check whether any option other than --editor was given
+ */
+function hasFieldOptions(opts: EditOptions): boolean {
+  return Object.entries(opts).some(([key, value]) =>
+    key !== 'editor' && (Array.isArray(value) ? value.length > 0 : value !== undefined));
+}
+
+/**
+ * Add and remove entries of a list field, such as a job's volumes.
+ * Returns undefined when the list ends up empty, removing the field.
+ */
+function updateList(
+  current: string[] | undefined,
+  add: string[],
+  remove: string[],
+  describe: (item: string) => string,
+): string[] | undefined {
+  const items = [...(current ?? [])];
+  for (const item of remove) {
+    const index = items.indexOf(item);
+    if (index === -1) {
+      warn(describe(item));
+    } else {
+      items.splice(index, 1);
+    }
+  }
+  for (const item of add) {
+    if (!items.includes(item)) items.push(item);
+  }
+  return items.length > 0 ? items : undefined;
+}
+
+/**
+ * Set and remove keys of a record field, such as a job's labels.
+ * Returns undefined when the record ends up empty, removing the field.
+ */
+function updateRecord<T>(
+  current: Record<string, T> | undefined,
+  set: Record<string, T>,
+  unset: string[],
+  describe: (key: string) => string,
+): Record<string, T> | undefined {
+  const values = { ...current, ...set };
+  for (const key of unset) {
+    if (!(key in values)) {
+      warn(describe(key));
+    }
+    delete values[key];
+  }
+  return Object.keys(values).length > 0 ? values : undefined;
+}
+
+/**
+ * Compute the field updates the command-line options make to a job.
+ * Fields set to undefined are removed from the job.
+ * @throws Error for options that do not apply to the job or invalid values
+ */
+function buildUpdates(job: Job, opts: EditOptions): Record<string, unknown> {
+  const updates: Record<string, unknown> = {};
+
+  if (opts.name !== undefined) updates.name = opts.name;
+
+  // Schedule: replace it, or adjust the current one
+  if (hasScheduleFlag(opts)) {
+    updates.schedule = buildSchedule(opts);
+  } else if (opts.timezone || opts.on || opts.randomWindowDays) {
+    const schedule = { ...job.schedule };
+    if (opts.on) {
+      if (schedule.type !== 'after') {
+        throw new Error('--on requires --after or a job with an after schedule');
+      }
+      schedule.on = opts.on as DependencyOutcome;
+    }
+    if (opts.randomWindowDays) {
+      if (schedule.type !== 'random-window') {
+        throw new Error('--random-window-days requires --random-window or a job with a random-window schedule');
+      }
+      schedule.days = opts.randomWindowDays;
+    }
+    if (opts.timezone) {
+      applyTimezone(schedule, opts.timezone);
+    }
+    updates.schedule = schedule;
+  }
+
+  // Type-specific fields
+  const dockerOnly = {
+    image: opts.image,
+    build: opts.build,
+    dockerfile: opts.dockerfile,
+    buildArg: opts.buildArg.length || undefined,
+    unsetBuildArg: opts.unsetBuildArg.length || undefined,
+    pullPolicy: opts.pullPolicy,
+    pinDigest: opts.pinDigest,
+    command: opts.command,
+    volume: opts.volume.length || undefined,
+    removeVolume: opts.removeVolume.length || undefined,
+    network: opts.network,
+    user: opts.user,
+    workdir: opts.workdir,
+    entrypoint: opts.entrypoint,
+    readOnly: opts.readOnly,
+    capDrop: opts.capDrop.length || undefined,
+    removeCapDrop: opts.removeCapDrop.length || undefined,
+    label: opts.label.length || undefined,
+    unsetLabel: opts.unsetLabel.length || undefined,
+    shmSize: opts.shmSize,
+    pidsLimit: opts.pidsLimit,
+    extraArg: opts.extraArg.length || undefined,
+    removeExtraArg: opts.removeExtraArg.length || undefined,
+  };
+  const pipelineOnly = { repo: opts.repo, pipeline: opts.pipeline, branch: opts.branch };
+  const flagName = (key: string) => `--${key.replace(/[A-Z]/g, (c) => `-${c.toLowerCase()}`)}`;
+
+  if (isDockerJob(job)) {
+    for (const [key, value] of Object.entries(pipelineOnly)) {
+      if (value !== undefined) throw new Error(`${flagName(key)} only applies to agent-pipeline jobs`);
+    }
+    if (opts.image !== undefined) {
+      updates.image = opts.image;
+      // A pre-built image replaces the job's own build
+      if (job.build) updates.build = undefined;
+    }
+
+    // Build: replace the context, or adjust the current build
+    const buildChanged = opts.dockerfile !== undefined || opts.buildArg.length > 0 || opts.unsetBuildArg.length > 0;
+    if (opts.build !== undefined || buildChanged) {
+      if (opts.build === undefined && !job.build) {
+        throw new Error('--dockerfile, --build-arg and --unset-build-arg require --build or a job that builds its own image');
+      }
+      const build: DockerBuildConfig = { ...job.build, context: opts.build ?? job.build!.context };
+      if (opts.dockerfile !== undefined) {
+        if (opts.dockerfile) build.dockerfile = opts.dockerfile;
+        else delete build.dockerfile;
+      }
+      if (opts.buildArg.length > 0 || opts.unsetBuildArg.length > 0) {
+        const args = updateRecord(build.args, parseBuildArgPairs(opts.buildArg), opts.unsetBuildArg,
+          (key) => `Build arg '${key}' is not set on job '${job.id}'`);
+        if (args) build.args = args;
+        else delete build.args;
+      }
+      updates.build = build;
+      // The job's own build replaces a pre-built image
+      if (opts.build !== undefined && opts.image === undefined && job.image) updates.image = undefined;
+    }
+
+    if (opts.pullPolicy !== undefined) updates.pullPolicy = (opts.pullPolicy || undefined) as ImagePullPolicy | undefined;
+    if (opts.pinDigest !== undefined) updates.pinDigest = opts.pinDigest || undefined;
+    if (opts.command !== undefined) updates.command = parseCommand(opts.command);
+
+    if (opts.volume.length > 0 || opts.removeVolume.length > 0) {
+      updates.volumes = updateList(job.volumes, opts.volume, opts.removeVolume,
+        (volume) => `Volume '${volume}' is not mounted by job '${job.id}'`);
+    }
+
+    // Container options; --no-<option> removes them
+    if (opts.network !== undefined) updates.network = opts.network || undefined;
+    if (opts.user !== undefined) updates.user = opts.user || undefined;
+    if (opts.workdir !== undefined) updates.workdir = opts.workdir || undefined;
+    if (opts.entrypoint !== undefined) updates.entrypoint = opts.entrypoint || undefined;
+    if (opts.readOnly !== undefined) updates.readOnly = opts.readOnly || undefined;
+    if (opts.shmSize !== undefined) updates.shmSize = opts.shmSize || undefined;
+    if (opts.pidsLimit !== undefined) updates.pidsLimit = opts.pidsLimit === false ? undefined : opts.pidsLimit;
+    if (opts.capDrop.length > 0 || opts.removeCapDrop.length > 0) {
+      updates.capDrop = updateList(job.capDrop, opts.capDrop, opts.removeCapDrop,
+        (cap) => `Capability '${cap}' is not dropped by job '${job.id}'`);
+    }
+    if (opts.label.length > 0 || opts.unsetLabel.length > 0) {
+      updates.labels = updateRecord(job.labels, parseLabelPairs(opts.label), opts.unsetLabel,
+        (key) => `Label '${key}' is not set on job '${job.id}'`);
+    }
+    if (opts.extraArg.length > 0 || opts.removeExtraArg.length > 0) {
+      // Extra args are appended as given, since options may repeat
+      const extraArgs = (job.extraArgs ?? []).filter((arg) => !opts.removeExtraArg.includes(arg));
+      for (const arg of opts.removeExtraArg) {
+        if (!job.extraArgs?.includes(arg)) warn(`Extra arg '${arg}' is not set on job '${job.id}'`);
+      }
+      extraArgs.push(...opts.extraArg);
+      updates.extraArgs = extraArgs.length > 0 ? extraArgs : undefined;
+    }
+  } else if (isPipelineJob(job)) {
+    for (const [key, value] of Object.entries(dockerOnly)) {
+      if (value !== undefined) throw new Error(`${flagName(key)} only applies to docker jobs`);
+    }
+    if (opts.pipeline !== undefined) updates.pipeline = opts.pipeline;
+    if (opts.repo !== undefined || opts.branch !== undefined) {
+      updates.source = {
+        ...job.source,
+        ...(opts.repo !== undefined ? { repo: opts.repo } : {}),
+        ...(opts.branch !== undefined ? { branch: opts.branch } : {}),
+      };
+    }
+  }
+
+  // Env: set, then remove
+  if (opts.env.length > 0 || opts.envSecret.length > 0 || opts.unsetEnv.length > 0) {
+    updates.env = updateRecord(job.env, { ...parseEnvPairs(opts.env), ...parseEnvSecretPairs(opts.envSecret) }, opts.unsetEnv,
+      (key) => `Env var '${key}' is not set on job '${job.id}'`);
+  }
+
+  if (opts.timeout !== undefined || opts.cpus !== undefined || opts.memory !== undefined) {
+    updates.resources = {
+      ...job.resources,
+      ...(opts.timeout !== undefined ? { timeout: opts.timeout } : {}),
+      ...(opts.cpus !== undefined ? { cpus: opts.cpus } : {}),
+      ...(opts.memory !== undefined ? { memory: opts.memory } : {}),
+    };
+  }
+
+  if (opts.outputs !== undefined) updates.outputs = opts.outputs || undefined;
+  if (opts.security !== undefined) updates.security = (opts.security || undefined) as SecurityProfile | undefined;
+  if (opts.seccomp !== undefined) updates.seccomp = opts.seccomp || undefined;
+  if (opts.allowDomain.length > 0 || opts.removeAllowDomain.length > 0) {
+    updates.allowedDomains = updateList(job.allowedDomains, opts.allowDomain, opts.removeAllowDomain,
+      (domain) => `Domain '${domain}' is not allowed for job '${job.id}'`);
+  }
+  if (opts.catchUp !== undefined) updates.catchUp = opts.catchUp as CatchUpPolicy;
+  if (opts.concurrencyPolicy !== undefined) updates.concurrencyPolicy = opts.concurrencyPolicy as ConcurrencyPolicy;
+
+  if (opts.enabled && opts.disabled) {
+    throw new Error('--enabled and --disabled are mutually exclusive');
+  }
+  if (opts.enabled) updates.enabled = true;
+  if (opts.disabled) updates.enabled = false;
+
+  return updates;
+}
+
+/**
+ * Open the job's JSON in $VISUAL / $EDITOR and apply it once it validates.
+ * Problems are listed after saving, with the option to edit again.
+ */
+async function editInEditor(config: Config, job: Job): Promise<void> {
+  const editor = process.env.VISUAL || process.env.EDITOR || 'vi';
+  // A private directory, so other users can neither read the job nor swap the file
+  const tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), 'agent-oven-'));
+  const tmpFile = path.join(tmpDir, `${job.id}.json`);
+  const original = JSON.stringify(job, null, 2) + '\n';
+
+  try {
+    fs.writeFileSync(tmpFile, original, { mode: 0o600, flag: 'wx' });
+    let edited: Job | null = null;
+    while (!edited) {
+      await execa(`${editor} ${JSON.stringify(tmpFile)}`, { shell: true, stdio: 'inherit' });
+      const content = fs.readFileSync(tmpFile, 'utf-8');
+      if (content === original) {
+        info('No changes made');
+        return;
+      }
+
+      const issues = validateJobDocument(content, listJobs(config), job);
+      if (issues.length > 0) {
+        for (const issue of issues) {
+          const location = issue.line ? `${tmpFile}:${issue.line}` : tmpFile;
+          console.log(`${location}  ${issue.path || '/'}  ${issue.message}`);
+        }
+        if (!process.stdin.isTTY || !(await confirm('Edit again?', false))) {
+          throw new Error('Changes discarded');
+        }
+        continue;
+      }
+
+      edited = JSON.parse(content) as Job;
+    }
+
+    // Fields deleted in the editor are removed
+    replaceJob(config, edited);
+    success(`Job '${job.id}' updated`);
+  } finally {
+    fs.rmSync(tmpDir, { recursive: true, force: true });
+  }
+}
+
+export function register(program: Command): void {
+  program
+    .command('edit <id>')
+    .description('Change fields of an existing job')
+    .option('--name <name>', 'Human-readable job name')
+    .option('--image <image>', 'Docker image, replacing the job\'s own build (docker jobs)')
+    .option('--build <context>', 'Build the job\'s own image from this context directory, replacing --image (docker jobs)')
+    .option('--dockerfile <path>', 'Dockerfile for the build, relative to the context (docker jobs)')
+    .option('--no-dockerfile', 'Build from the context\'s default Dockerfile')
+    .option('--build-arg <kv>', 'Set a build argument KEY=VALUE (repeatable, docker jobs)', collectRepeatable, [])
+    .option('--unset-build-arg <key>', 'Remove a build argument (repeatable)', collectRepeatable, [])
+    .option('--pull-policy <policy>', 'Pull the image before each run: always, if-not-present, or never (docker jobs)')
+    .option('--no-pull-policy', 'Use the default pull policy')
+    .option('--pin-digest', 'Pin the image to its current digest, refusing to run if it changes (docker jobs)')
+    .option('--no-pin-digest', 'Stop pinning the image digest')
+    .option('--command <cmd>', 'Command to run (docker jobs; JSON array or string)')
+    .option('--repo <url>', 'Git repo URL (pipeline jobs)')
+    .option('--pipeline <name>', 'Pipeline name (pipeline jobs)')
+    .option('--branch <branch>', 'Git branch (pipeline jobs)')
+    .option('--schedule <cron>', 'Replace the schedule with a cron expression')
+    .option('--once <datetime>', 'Replace the schedule with a one-time run at an ISO 8601 datetime')
+    .option('--random-window <start-end>', 'Replace the schedule with a random window in HH:MM-HH:MM format')
+    .option('--random-window-days <days>', 'Days for random-window (cron weekday syntax, e.g. MON-FRI)')
+    .option('--after <ids>', 'Replace the schedule to run after these upstream jobs (comma-separated job IDs)')
+    .option('--on <outcome>', 'Upstream outcome that triggers an after schedule: success, failure, or any')
+    .option('--timezone <tz>', 'IANA timezone for the schedule')
+    .option('-v, --volume <vol>', 'Add a volume mount (repeatable)', collectRepeatable, [])
+    .option('--remove-volume <vol>', 'Remove a volume mount (repeatable)', collectRepeatable, [])
+    .option('-e, --env <kv>', 'Set an environment variable KEY=VALUE (repeatable)', collectRepeatable, [])
+    .option('--env-secret <kv>', 'Set an environment variable KEY=SECRET read from the secret store at run time (repeatable)', collectRepeatable, [])
+    .option('--unset-env <key>', 'Remove an environment variable (repeatable)', collectRepeatable, [])
+    .option('--timeout <seconds>', 'Timeout in seconds', parseInt)
+    .option('--cpus <n>', 'CPU limit', parseFloat)
+    .option('--memory <size>', 'Memory limit (e.g., 512m, 2g)')
+    .option('--outputs', 'Mount an outputs directory at /outputs for dependent jobs to read')
+    .option('--no-outputs', 'Stop mounting an outputs directory')
+    .option('--network <name>', 'Docker network to connect to, or "none" (docker jobs)')
+    .option('--no-network', 'Use the default network')
+    .option('--user <user>', 'User to run as: name, UID, or user:group (docker jobs)')
+    .option('--no-user', 'Run as the image\'s default user')
+    .option('--workdir <path>', 'Working directory inside the container (docker jobs)')
+    .option('--no-workdir', 'Use the image\'s working directory')
+    .option('--entrypoint <cmd>', 'Override the image entrypoint (docker jobs)')
+    .option('--no-entrypoint', 'Use the image\'s entrypoint')
+    .option('--read-only', 'Mount the root filesystem read-only (docker jobs)')
+    .option('--no-read-only', 'Mount the root filesystem writable')
+    .option('--cap-drop <cap>', 'Drop a Linux capability, e.g. ALL (repeatable, docker jobs)', collectRepeatable, [])
+    .option('--remove-cap-drop <cap>', 'Stop dropping a Linux capability (repeatable)', collectRepeatable, [])
+    .option('--label <kv>', 'Set a container label KEY=VALUE (repeatable, docker jobs)', collectRepeatable, [])
+    .option('--unset-label <key>', 'Remove a container label (repeatable)', collectRepeatable, [])
+    .option('--shm-size <size>', 'Size of /dev/shm, e.g. 64m (docker jobs)')
+    .option('--no-shm-size', 'Use docker\'s default /dev/shm size')
+    .option('--pids-limit <n>', 'Maximum number of processes (docker jobs)', parseInt)
+    .option('--no-pids-limit', 'Remove the process limit')
+    .option('--extra-arg <arg>', 'Add a further docker run option, e.g. --add-host=db:10.0.0.5 (repeatable, docker jobs)', collectRepeatable, [])
+    .option('--remove-extra-arg <arg>', 'Remove a docker run option added with --extra-arg (repeatable)', collectRepeatable, [])
+    .option('--security <profile>', 'Security profile: strict, standard, or none')
+    .option('--no-security', 'Use the default security profile (none)')
+    .option('--allow-domain <domain>', 'Add a domain a strict job may reach (repeatable)', collectRepeatable, [])
+    .option('--remove-allow-domain <domain>', 'Remove a domain a strict job may reach (repeatable)', collectRepeatable, [])
+    .option('--seccomp <file>', 'Seccomp profile (JSON) replacing Docker\'s default')
+    .option('--no-seccomp', 'Use Docker\'s default seccomp profile')
+    .option('--catch-up <policy>', 'Runs missed while the scheduler was down: none, latest, or all')
+    .option('--concurrency-policy <policy>', 'When the previous run is still going: skip, queue, or replace')
+    .option('--enabled', 'Enable the job')
+    .option('--disabled', 'Disable the job')
+    .option('--editor', "Edit the job's JSON in $EDITOR, validating it on save")
+    .action(async (id: string, opts: EditOptions) => {
+      try {
+        const config = requireConfig();
+        const job = requireJob(config, id);
+
+        if (opts.editor) {
+          if (hasFieldOptions(opts)) {
+            error('--editor cannot be combined with other options');
+            process.exit(1);
+          }
+          await editInEditor(config, job);
+          return;
+        }
+
+        const updates = buildUpdates(job, opts);
+        if (Object.keys(updates).length === 0) {
+          error('Nothing to change. Pass the fields to update, or --editor to edit the job as JSON');
+          process.exit(1);
+        }
+
+        // Validate the job as it will be saved
+        const errors = validateJob({ ...job, ...updates } as Job, listJobs(config));
+        if (errors.length > 0) {
+          for (const e of errors) {
+            error(e);
+          }
+          process.exit(1);
+        }
+
+        const updated = updateJob(config, id, updates as UpdateJobOptions);
+        success(`Job '${id}' updated`);
+
+        // Pin to the image as it is now; an image not pulled yet is pinned by its next run
+        if (opts.pinDigest === false) {
+          updateJobState(config, id, { pinnedDigest: undefined, pinnedImage: undefined });
+        } else if (opts.pinDigest && isDockerJob(updated) && updated.image) {
+          const digest = await pinJobImage(config, id, updated.image);
+          info(digest
+            ? `Pinned to ${digest}`
+            : `${updated.image} is not present locally; the job will be pinned to the digest of its next run`);
+        }
+      } catch (err) {
+        handleError(err);
+      }
+    });
+}
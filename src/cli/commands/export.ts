@@ -0,0 +1,48 @@
+/**
+ * `agent-oven export [ids...]` — Write job definitions as YAML or JSON
+ */
+
+import * as fs from 'node:fs';
+import * as path from 'node:path';
+import type { Command } from 'commander';
+import { requireConfig, requireJob, handleError } from '../utils/errors.js';
+import { listJobs } from '../../core/jobs.js';
+import { formatJobDefinitions, type DefinitionFormat } from '../../core/definitions.js';
+import { success } from '../utils/output.js';
+
+export function register(program: Command): void {
+  program
+    .command('export [ids...]')
+    .description('Write job definitions (all jobs if no ids) for use with apply')
+    .option('--format <format>', 'Output format: yaml or json', 'yaml')
+    .option('-o, --output <path>', 'Write to a file, or to one file per job in an existing directory (default: stdout)')
+    .action(async (ids: string[], opts: { format: string; output?: string }) => {
+      try {
+        const config = requireConfig();
+        if (opts.format !== 'yaml' && opts.format !== 'json') {
+          throw new Error(`Unknown format "${opts.format}" (expected yaml or json)`);
+        }
+        const format: DefinitionFormat = opts.format;
+
+        const jobs = ids.length > 0 ? ids.map((id) => requireJob(config, id)) : listJobs(config);
+
+        if (!opts.output) {
+          process.stdout.write(formatJobDefinitions(jobs, format));
+          return;
+        }
+
+        if (fs.existsSync(opts.output) && fs.statSync(opts.output).isDirectory()) {
+          for (const job of jobs) {
+            fs.writeFileSync(path.join(opts.output, `${job.id}.${format}`), formatJobDefinitions([job], format));
+          }
+          success(`Exported ${jobs.length} job(s) to ${opts.output}`);
+          return;
+        }
+
+        fs.writeFileSync(opts.output, formatJobDefinitions(jobs, format));
+        success(`Exported ${jobs.length} job(s) to ${opts.output}`);
+      } catch (err) {
+        handleError(err);
+      }
+    });
+}
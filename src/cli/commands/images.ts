@@ -0,0 +1,195 @@
+/**
+ * `agent-oven images <action>` — Manage the agent-oven/* Docker images
+ */
+
+import type { Command } from 'commander';
+import chalk from 'chalk';
+import { requireConfig, handleError } from '../utils/errors.js';
+import { listJobs } from '../../core/jobs.js';
+import {
+  discoverImages,
+  buildImage,
+  listLocalImages,
+  summarizeImages,
+  findUnusedImages,
+  removeImages,
+  parseImageRef,
+  IMAGE_PREFIX,
+  type ImageSummary,
+} from '../../core/images.js';
+import { formatRelativeTime } from '../../core/scheduler.js';
+import type { Config } from '../../core/types.js';
+import { success, error, info, warn, printTable, formatBytes } from '../utils/output.js';
+import { confirm } from '../utils/prompts.js';
+
+/**
+ * Get the images/ directory name of a built-in image, given as
+ * `base-tasks` or `agent-oven/base-tasks`; exits if it has no Dockerfile
+ */
+function requireBuildName(config: Config, image: string): string {
+  const { name } = parseImageRef(image);
+  const buildName = name.startsWith(IMAGE_PREFIX) ? name.slice(IMAGE_PREFIX.length) : name;
+  const available = discoverImages(config.projectDir);
+  if (!available.includes(buildName)) {
+    error(`No Dockerfile for image '${image}' in ${config.projectDir}/images (available: ${available.join(', ') || 'none'})`);
+    process.exit(1);
+  }
+  return buildName;
+}
+
+/**
+ * Build images one after another, streaming docker's output.
+ * Exits with code 1 if any build fails.
+ */
+async function buildImages(config: Config, names: string[], rebuild: boolean): Promise<void> {
+  const failed: string[] = [];
+  for (const name of names) {
+    info(`${rebuild ? 'Rebuilding' : 'Building'} ${IMAGE_PREFIX}${name}...`);
+    const result = await buildImage(config.projectDir, name, (line) => console.log(chalk.dim(`  ${line}`)), { rebuild });
+    if (result.success) {
+      success(`Built ${IMAGE_PREFIX}${name}`);
+    } else {
+      error(`Failed to build ${IMAGE_PREFIX}${name}: ${result.error}`);
+      failed.push(name);
+    }
+  }
+  if (failed.length > 0) {
+    process.exit(1);
+  }
+}
+
+/** How the list table shows each image status */
+const STATUS_LABELS: Record<ImageSummary['status'], string> = {
+  'up-to-date': 'up to date',
+  stale: 'stale',
+  'not-built': 'not built',
+  unknown: 'unknown',
+  'no-source': 'no Dockerfile',
+};
+
+export function register(program: Command): void {
+  const cmd = program
+    .command('images')
+    .description('Manage the agent-oven/* Docker images');
+
+  cmd
+    .command('list')
+    .alias('ls')
+    .description('List built-in and local agent-oven images')
+    .option('--json', 'Output as JSON')
+    .action(async (opts: { json?: boolean }) => {
+      try {
+        const config = requireConfig();
+        const summaries = summarizeImages(config.projectDir, await listLocalImages(), listJobs(config));
+
+        if (opts.json) {
+          console.log(JSON.stringify(summaries, null, 2));
+          return;
+        }
+
+        if (summaries.length === 0) {
+          info('No agent-oven images found.');
+          return;
+        }
+
+        printTable(
+          ['IMAGE', 'SIZE', 'BUILT', 'STATUS', 'USED BY'],
+          summaries.map((s) => [
+            s.ref,
+            s.local ? formatBytes(s.local.size) : '-',
+            s.local ? formatRelativeTime(new Date(s.local.created)) : '-',
+            STATUS_LABELS[s.status],
+            s.usedBy.join(', ') || '-',
+          ]),
+        );
+
+        for (const s of summaries.filter((s) => s.usedBy.length > 0)) {
+          const buildName = parseImageRef(s.ref).name.slice(IMAGE_PREFIX.length);
+          if (s.status === 'not-built') {
+            warn(`${s.ref} is used by ${s.usedBy.join(', ')} but is not built (run \`agent-oven images build ${buildName}\`)`);
+          } else if (s.status === 'stale') {
+            warn(`${s.ref} is older than its Dockerfile (run \`agent-oven images build ${buildName}\`)`);
+          }
+        }
+      } catch (err) {
+        handleError(err);
+      }
+    });
+
+  cmd
+    .command('build [name]')
+    .description('Build an image from images/<name>, or every built-in image that is not built or stale')
+    .action(async (name: string | undefined) => {
+      try {
+        const config = requireConfig();
+        let names: string[];
+        if (name) {
+          names = [requireBuildName(config, name)];
+        } else {
+          const summaries = summarizeImages(config.projectDir, await listLocalImages(), []);
+          names = summaries
+            .filter((s) => s.status === 'not-built' || s.status === 'stale')
+            .map((s) => parseImageRef(s.ref).name.slice(IMAGE_PREFIX.length));
+          if (names.length === 0) {
+            success('All built-in images are up to date');
+            return;
+          }
+        }
+        await buildImages(config, names, false);
+      } catch (err) {
+        handleError(err);
+      }
+    });
+
+  cmd
+    .command('rebuild [name]')
+    .description('Rebuild an image without the build cache, pulling newer base images')
+    .option('--all', 'Rebuild every built-in image')
+    .action(async (name: string | undefined, opts: { all?: boolean }) => {
+      try {
+        const config = requireConfig();
+        if (!name && !opts.all) {
+          error('Name an image to rebuild, or use --all');
+          process.exit(1);
+        }
+        const names = name ? [requireBuildName(config, name)] : discoverImages(config.projectDir);
+        await buildImages(config, names, true);
+      } catch (err) {
+        handleError(err);
+      }
+    });
+
+  cmd
+    .command('prune')
+    .description('Remove agent-oven images no job uses, and untagged leftovers of earlier builds')
+    .option('--built-in', 'Also remove built-in images no job uses')
+    .option('-y, --yes', 'Skip confirmation')
+    .action(async (opts: { builtIn?: boolean; yes?: boolean }) => {
+      try {
+        const config = requireConfig();
+        const unused = findUnusedImages(config.projectDir, listJobs(config), await listLocalImages(), opts.builtIn);
+
+        if (unused.length > 0) {
+          console.log('Images no job uses:');
+          for (const image of unused) {
+            console.log(`  ${image.name}:${image.tag} (${formatBytes(image.size)})`);
+          }
+          if (!opts.yes) {
+            const ok = await confirm(`Remove ${unused.length} image(s)?`);
+            if (!ok) {
+              info('Cancelled');
+              return;
+            }
+          }
+        }
+
+        const failed = await removeImages(unused);
+        for (const { ref, error: message } of failed) {
+          warn(`Could not remove ${ref}: ${message}`);
+        }
+        success(`Removed ${unused.length - failed.length} unused image(s) and untagged leftovers of earlier builds`);
+      } catch (err) {
+        handleError(err);
+      }
+    });
+}
@@ -30,8 +30,8 @@ export function register(program: Command): void {
         }
 
         const rows = jobs.map((job) => {
-          const schedule = describeSchedule(job.schedule);
-          const next = getNextRun(job.schedule);
+          const schedule = describeSchedule(job.schedule, config.timezone);
+          const next = getNextRun(job.schedule, config.timezone, job.id);
           const nextStr = next ? formatRelativeTime(next) : '—';
           const enabled = job.enabled !== false;
           const status = enabled ? 'enabled' : 'disabled';
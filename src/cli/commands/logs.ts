@@ -5,8 +5,9 @@
 import * as fs from 'node:fs';
 import type { Command } from 'commander';
 import { requireConfig, handleError } from '../utils/errors.js';
-import { readSchedulerLog, getJobLogFiles, readJobLog } from '../../core/docker.js';
+import { readSchedulerLog, getJobLogFiles, readJobLog, readJobLogEvents } from '../../core/docker.js';
 import { getJob } from '../../core/jobs.js';
+import { getLogFormat, renderJobLog } from '../../core/job-log.js';
 import { error, info } from '../utils/output.js';
 
 export function register(program: Command): void {
@@ -17,11 +18,13 @@ export function register(program: Command): void {
     .option('--all', 'List available log files for a job')
     .option('--run <n>', 'Nth most recent run (default: 1)', '1')
     .option('-f, --follow', 'Follow log output')
+    .option('--json', 'Print the events of a JSON-lines job log, one per line')
     .action(async (id: string | undefined, opts: {
       lines: string;
       all?: boolean;
       run: string;
       follow?: boolean;
+      json?: boolean;
     }) => {
       try {
         const config = requireConfig();
@@ -29,6 +32,11 @@ export function register(program: Command): void {
         const runIndex = parseInt(opts.run, 10) - 1;
 
         if (!id) {
+          if (opts.json) {
+            error('--json applies to job logs; pass a job id');
+            process.exit(1);
+          }
+
           // Scheduler log
           if (opts.follow) {
             await followLog(config, null, lines);
@@ -72,6 +80,19 @@ export function register(program: Command): void {
 
         const logFile = logFiles[runIndex];
 
+        if (opts.json) {
+          // Fails for text logs
+          const events = readJobLogEvents(logFile);
+          if (opts.follow) {
+            await followLog(config, logFile, lines, true);
+          } else {
+            for (const event of events.slice(-lines)) {
+              console.log(JSON.stringify(event));
+            }
+          }
+          return;
+        }
+
         if (opts.follow) {
           await followLog(config, logFile, lines);
         } else {
@@ -87,9 +108,10 @@ export function register(program: Command): void {
 }
 
 /**
- * Tail -f behavior: print last N lines, then poll for new content
+ * Tail -f behavior: print last N lines, then poll for new content.
+ * JSON-lines job logs are rendered as text unless `json` is set.
  */
-async function followLog(_config: unknown, logFile: string | null, lines: number): Promise<void> {
+async function followLog(_config: unknown, logFile: string | null, lines: number, json = false): Promise<void> {
   let filePath: string;
   if (logFile) {
     filePath = logFile;
@@ -103,14 +125,25 @@ async function followLog(_config: unknown, logFile: string | null, lines: number
     info('Waiting for log file...');
   }
 
+  const format = getLogFormat(filePath);
+  const render = (content: string): string => (json ? content : renderJobLog(content, format));
+
   let lastSize = 0;
+  // Incomplete last line of a JSON-lines log, printed once it is complete
+  let pending = '';
 
   // Print initial content
   if (fs.existsSync(filePath)) {
     const content = fs.readFileSync(filePath, 'utf-8');
-    const allLines = content.split('\n');
-    console.log(allLines.slice(-lines).join('\n'));
     lastSize = Buffer.byteLength(content, 'utf-8');
+    let complete = content;
+    if (format === 'jsonl') {
+      const end = content.lastIndexOf('\n') + 1;
+      complete = content.slice(0, end);
+      pending = content.slice(end);
+    }
+    const allLines = render(complete).split('\n');
+    console.log(allLines.slice(-lines).join('\n'));
   }
 
   // Poll for new content
@@ -122,8 +155,16 @@ async function followLog(_config: unknown, logFile: string | null, lines: number
       const buf = Buffer.alloc(stat.size - lastSize);
       fs.readSync(fd, buf, 0, buf.length, lastSize);
       fs.closeSync(fd);
-      process.stdout.write(buf.toString('utf-8'));
       lastSize = stat.size;
+
+      if (format === 'jsonl') {
+        pending += buf.toString('utf-8');
+        const end = pending.lastIndexOf('\n') + 1;
+        process.stdout.write(render(pending.slice(0, end)));
+        pending = pending.slice(end);
+      } else {
+        process.stdout.write(buf.toString('utf-8'));
+      }
     }
   }, 500);
 
@@ -0,0 +1,73 @@
+/**
+ * `agent-oven next [id]` — Preview upcoming runs
+ */
+
+import type { Command } from 'commander';
+import { requireConfig, requireJob, handleError } from '../utils/errors.js';
+import { printTable, info, warn, error } from '../utils/output.js';
+import { listJobs } from '../../core/jobs.js';
+import { describeSchedule, formatDateTime, formatRelativeTime, getNextRuns } from '../../core/scheduler.js';
+import type { Job } from '../../core/types.js';
+
+export function register(program: Command): void {
+  program
+    .command('next [id]')
+    .description('Show upcoming runs (all enabled jobs if no id)')
+    .option('-c, --count <n>', 'Number of runs to show', '10')
+    .option('--json', 'Output as JSON')
+    .action(async (id: string | undefined, opts: { count: string; json?: boolean }) => {
+      try {
+        const config = requireConfig();
+        const count = parseInt(opts.count, 10);
+        if (!/^\d+$/.test(opts.count) || count < 1) {
+          error(`Invalid count "${opts.count}" (expected a positive integer)`);
+          process.exit(1);
+        }
+
+        let jobs: Job[];
+        if (id) {
+          const job = requireJob(config, id);
+          if (job.enabled === false && !opts.json) {
+            warn(`Job '${id}' is disabled; these runs happen only once it is enabled`);
+          }
+          jobs = [job];
+        } else {
+          jobs = listJobs(config).filter((job) => job.enabled !== false);
+        }
+
+        const now = new Date();
+        const runs = jobs
+          .flatMap((job) => getNextRuns(job.schedule, job.id, count, now, config.timezone).map((at) => ({ job, at })))
+          .sort((a, b) => a.at.getTime() - b.at.getTime())
+          .slice(0, count);
+
+        if (opts.json) {
+          console.log(JSON.stringify(runs.map(({ job, at }) => ({ jobId: job.id, at: at.toISOString() })), null, 2));
+          return;
+        }
+
+        if (runs.length === 0) {
+          info(id ? `No upcoming runs for '${id}'` : 'No upcoming runs');
+        } else {
+          const rows = runs.map(({ job, at }) => [
+            formatDateTime(at, config.timezone),
+            formatRelativeTime(at),
+            job.id,
+            describeSchedule(job.schedule, config.timezone),
+          ]);
+          printTable(['TIME', 'WHEN', 'JOB', 'SCHEDULE'], rows);
+        }
+
+        // Dependent jobs have no clock time; say when they run instead
+        const dependents = jobs.filter((job) => job.schedule.type === 'after');
+        if (dependents.length > 0) {
+          console.log();
+          for (const job of dependents) {
+            info(`${job.id}: ${describeSchedule(job.schedule, config.timezone)}`);
+          }
+        }
+      } catch (err) {
+        handleError(err);
+      }
+    });
+}
@@ -5,7 +5,9 @@
 import type { Command } from 'commander';
 import { requireConfig, requireJob, handleError } from '../utils/errors.js';
 import { runJob } from '../../core/docker.js';
-import { success, error, info } from '../utils/output.js';
+import { sendNotifications } from '../../core/notifications.js';
+import { success, error, info, warn } from '../utils/output.js';
+import type { OutputLine } from '../../core/types.js';
 
 export function register(program: Command): void {
   program
@@ -26,16 +28,31 @@ export function register(program: Command): void {
           info(`Running job '${id}'...`);
         }
 
-        const result = await runJob(config, job, { detach });
+        // Stream foreground output to the terminal as it arrives
+        let streamed = false;
+        const onOutput = (line: OutputLine): void => {
+          streamed = true;
+          (line.stream === 'stderr' ? process.stderr : process.stdout).write(`${line.text}\n`);
+        };
+
+        const startedAt = Date.now();
+        const result = await runJob(config, job, { detach, trigger: 'manual', ...(detach ? {} : { onOutput }) });
+
+        // Detached runs finish later; only foreground results are final
+        if (!detach) {
+          const deliveries = await sendNotifications(job, result, Date.now() - startedAt);
+          for (const delivery of deliveries) {
+            if (!delivery.success) {
+              warn(`${delivery.channel} notification failed: ${delivery.error}`);
+            }
+          }
+        }
 
         if (result.success) {
           success(`Job '${id}' completed (exit code: ${result.exitCode})`);
-          if (opts.wait && result.output) {
-            console.log(result.output);
-          }
         } else {
           error(`Job '${id}' failed (exit code: ${result.exitCode})`);
-          if (result.output) {
+          if (result.output && !streamed) {
             console.error(result.output);
           }
           process.exit(result.exitCode || 1);
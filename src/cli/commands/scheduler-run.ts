@@ -0,0 +1,35 @@
+/**
+ * `agent-oven scheduler-run <id>` — Run a due job for the scheduler (internal)
+ *
+ * Hidden from `--help` output. Each scheduler tick starts one of these per
+ * due job in the background, so the tick itself does not wait for jobs.
+ */
+
+import type { Command } from 'commander';
+import { loadConfig } from '../../core/config.js';
+import { runScheduledWorker } from '../../core/scheduler-runner.js';
+import type { PendingRetry } from '../../core/types.js';
+
+export function register(program: Command): void {
+  program
+    .command('scheduler-run <id>', { hidden: true })
+    .description('Run a due job for the scheduler (started by scheduler-tick)')
+    .option('--runs <n>', 'Number of runs to start back to back', '1')
+    .option('--retry <json>', 'Pending retry this run is an attempt of')
+    .option('--image-tag <tag>', 'Tag of the image the job builds')
+    .action(async (id: string, opts: { runs: string; retry?: string; imageTag?: string }) => {
+      try {
+        const config = loadConfig();
+        const exitCode = await runScheduledWorker(config, id, {
+          runs: Math.max(1, parseInt(opts.runs, 10) || 1),
+          ...(opts.retry ? { retry: JSON.parse(opts.retry) as PendingRetry } : {}),
+          ...(opts.imageTag ? { imageTag: opts.imageTag } : {}),
+        });
+        process.exit(exitCode);
+      } catch (err) {
+        const message = err instanceof Error ? err.message : String(err);
+        console.error(`Scheduled run of ${id} failed: ${message}`);
+        process.exit(1);
+      }
+    });
+}
@@ -0,0 +1,116 @@
+/**
+ * `agent-oven secret <action>` — Manage the encrypted secret store
+ */
+
+import type { Command } from 'commander';
+import { requireConfig, handleError } from '../utils/errors.js';
+import { listJobs } from '../../core/jobs.js';
+import { setSecret, getSecret, listSecrets, removeSecret, getSecretReferences } from '../../core/secrets.js';
+import { success, error, info, warn, printTable } from '../utils/output.js';
+import { confirm, promptHidden, readStdin } from '../utils/prompts.js';
+
+export function register(program: Command): void {
+  const cmd = program
+    .command('secret')
+    .description('Manage secrets that job env vars reference with {"secret": "<name>"}');
+
+  cmd
+    .command('set <name> [value]')
+    .description('Store a secret (prompts for the value, or reads it from stdin, if not given)')
+    .action(async (name: string, value: string | undefined) => {
+      try {
+        const config = requireConfig();
+
+        let secretValue = value;
+        if (secretValue === undefined) {
+          secretValue = process.stdin.isTTY
+            ? await promptHidden(`Value for '${name}':`)
+            : (await readStdin()).replace(/\r?\n$/, '');
+        }
+        if (!secretValue) {
+          error('Secret value must not be empty');
+          process.exit(1);
+        }
+
+        setSecret(config, name, secretValue);
+        success(`Secret '${name}' saved`);
+      } catch (err) {
+        handleError(err);
+      }
+    });
+
+  cmd
+    .command('get <name>')
+    .description('Print a secret value')
+    .action(async (name: string) => {
+      try {
+        const config = requireConfig();
+        const value = getSecret(config, name);
+        // No trailing newline when piped, so the value can be captured as-is
+        process.stdout.write(process.stdout.isTTY ? `${value}\n` : value);
+      } catch (err) {
+        handleError(err);
+      }
+    });
+
+  cmd
+    .command('list')
+    .alias('ls')
+    .description('List stored secrets and the jobs that use them')
+    .action(async () => {
+      try {
+        const config = requireConfig();
+        const secrets = listSecrets(config);
+        const references = getSecretReferences(listJobs(config));
+
+        if (secrets.length === 0) {
+          info('No secrets stored. Add one with `agent-oven secret set <name>`.');
+        } else {
+          printTable(
+            ['NAME', 'UPDATED', 'USED BY'],
+            secrets.map((s) => [s.name, s.updatedAt, (references.get(s.name) ?? []).join(', ') || '-']),
+          );
+        }
+
+        const missing = [...references.keys()].filter((name) => !secrets.some((s) => s.name === name));
+        for (const name of missing) {
+          warn(`Secret '${name}' is used by ${references.get(name)!.join(', ')} but is not set`);
+        }
+      } catch (err) {
+        handleError(err);
+      }
+    });
+
+  cmd
+    .command('rm <name>')
+    .alias('delete')
+    .description('Remove a secret')
+    .option('-y, --yes', 'Skip confirmation')
+    .action(async (name: string, opts: { yes?: boolean }) => {
+      try {
+        const config = requireConfig();
+        if (!listSecrets(config).some((s) => s.name === name)) {
+          error(`Secret '${name}' not found`);
+          process.exit(1);
+        }
+
+        const users = getSecretReferences(listJobs(config)).get(name) ?? [];
+        if (users.length > 0) {
+          warn(`Jobs that use '${name}' will fail to start until it is set again: ${users.join(', ')}`);
+        }
+
+        if (!opts.yes) {
+          const ok = await confirm(`Remove secret '${name}'?`);
+          if (!ok) {
+            info('Cancelled');
+            return;
+          }
+        }
+
+        removeSecret(config, name);
+        success(`Secret '${name}' removed`);
+      } catch (err) {
+        handleError(err);
+      }
+    });
+}
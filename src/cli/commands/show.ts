@@ -4,9 +4,17 @@
 
 import type { Command } from 'commander';
 import { requireConfig, requireJob, handleError } from '../utils/errors.js';
+import { listJobs } from '../../core/jobs.js';
+import { getJobState } from '../../core/state.js';
+import { getJobOutputsDir } from '../../core/config.js';
+import { formatDependencyGraph } from '../../core/dependencies.js';
 import { describeSchedule, getNextRun, formatRelativeTime } from '../../core/scheduler.js';
 import { getRecentExecutions } from '../../core/docker.js';
-import { isDockerJob, isPipelineJob } from '../../core/types.js';
+import { getPendingRetry, getRetryDelay } from '../../core/retries.js';
+import { describeEnvValue } from '../../core/secrets.js';
+import { getSecurityProfile, getAllowedDomains } from '../../core/sandbox.js';
+import { isDockerJob, isPipelineJob, isEnvRef } from '../../core/types.js';
+import { formatDuration } from '../utils/output.js';
 
 export function register(program: Command): void {
   program
@@ -29,12 +37,48 @@ export function register(program: Command): void {
         console.log(`  Status:     ${job.enabled !== false ? 'enabled' : 'disabled'}`);
 
         if (isDockerJob(job)) {
-          console.log(`  Image:      ${job.image}`);
+          if (job.image) {
+            console.log(`  Image:      ${job.image}`);
+          }
+          if (job.pullPolicy) {
+            console.log(`  Pull:       ${job.pullPolicy}`);
+          }
+          if (job.pinDigest) {
+            const { pinnedDigest, pinnedImage } = getJobState(config, job.id);
+            const pinned = pinnedImage === job.image ? pinnedDigest : undefined;
+            console.log(`  Pinned:     ${pinned ?? 'to the digest of the next run'}`);
+          }
+          if (job.build) {
+            const buildNotes = [
+              ...(job.build.dockerfile ? [`dockerfile: ${job.build.dockerfile}`] : []),
+              ...(job.build.args ? [`args: ${Object.keys(job.build.args).join(', ')}`] : []),
+            ];
+            console.log(`  Build:      ${job.build.context}${buildNotes.length > 0 ? ` (${buildNotes.join('; ')})` : ''}`);
+          }
           const cmd = Array.isArray(job.command) ? job.command.join(' ') : job.command;
           console.log(`  Command:    ${cmd}`);
           if (job.volumes && job.volumes.length > 0) {
             console.log(`  Volumes:    ${job.volumes.join(', ')}`);
           }
+          if (job.network) console.log(`  Network:    ${job.network}`);
+          if (job.user) console.log(`  User:       ${job.user}`);
+          if (job.workdir) console.log(`  Workdir:    ${job.workdir}`);
+          if (job.entrypoint) console.log(`  Entrypoint: ${job.entrypoint}`);
+          const runOptions: string[] = [];
+          if (job.readOnly) runOptions.push('read-only');
+          if (job.capDrop?.length) runOptions.push(`cap-drop=${job.capDrop.join(',')}`);
+          if (job.shmSize) runOptions.push(`shm-size=${job.shmSize}`);
+          if (job.pidsLimit) runOptions.push(`pids-limit=${job.pidsLimit}`);
+          if (runOptions.length > 0) {
+            console.log(`  Options:    ${runOptions.join(', ')}`);
+          }
+          if (job.labels && Object.keys(job.labels).length > 0) {
+            const labels = Object.entries(job.labels).map(([key, value]) => `${key}=${value}`);
+            console.log(`  Labels:     ${labels.join(', ')}`);
+          }
+          if (job.extraArgs && job.extraArgs.length > 0) {
+            console.log(`  Extra args: ${job.extraArgs.join(' ')}`);
+          }
         }
 
         if (isPipelineJob(job)) {
@@ -46,8 +90,19 @@ export function register(program: Command): void {
           }
         }
 
-        console.log(`  Schedule:   ${describeSchedule(job.schedule)}`);
-        const next = getNextRun(job.schedule);
+        const security = getSecurityProfile(job);
+        const securityNotes = [
+          ...(job.security ? [] : ['default']),
+          ...(security === 'strict' ? [`egress: ${getAllowedDomains(job).join(', ') || 'none'}`] : []),
+          ...(job.seccomp ? [`seccomp: ${job.seccomp}`] : []),
+        ];
+        console.log(`  Security:   ${security}${securityNotes.length > 0 ? ` (${securityNotes.join('; ')})` : ''}`);
+
+        console.log(`  Schedule:   ${describeSchedule(job.schedule, config.timezone)}`);
+        if (job.catchUp) {
+          console.log(`  Catch-up:   ${job.catchUp}`);
+        }
+        const next = getNextRun(job.schedule, config.timezone, job.id);
         if (next) {
           console.log(`  Next run:   ${formatRelativeTime(next)}`);
         }
@@ -63,21 +118,63 @@ export function register(program: Command): void {
         }
 
         if (job.env && Object.keys(job.env).length > 0) {
-          console.log(`  Env keys:   ${Object.keys(job.env).join(', ')}`);
+          const keys = Object.entries(job.env).map(([key, value]) =>
+            isEnvRef(value) ? `${key} (${describeEnvValue(value)})` : key);
+          console.log(`  Env keys:   ${keys.join(', ')}`);
         }
 
-        if (job.last_run) {
-          console.log(`  Last run:   ${job.last_run}`);
+        if (job.outputs) {
+          console.log(`  Outputs:    ${getJobOutputsDir(config, job.id)} → /outputs`);
+        }
+
+        const state = getJobState(config, job.id);
+        if (state.lastRun) {
+          const exit = state.lastExitCode !== undefined ? ` (exit ${state.lastExitCode})` : '';
+          console.log(`  Last run:   ${state.lastRun}${exit}`);
+        }
+        if (state.consecutiveFailures) {
+          console.log(`  Failures:   ${state.consecutiveFailures} in a row`);
+        }
+
+        if (job.retry) {
+          const codes = job.retry.exitCodes?.length ? `exit ${job.retry.exitCodes.join(',')}` : 'any failure';
+          console.log(
+            `  Retry:      up to ${job.retry.maxAttempts} attempts on ${codes}, first after ${getRetryDelay(job.retry, 2)}s`,
+          );
+          const pending = getPendingRetry(config, job.id);
+          if (pending) {
+            console.log(
+              `  Retrying:   attempt ${pending.attempt}/${job.retry.maxAttempts} ${formatRelativeTime(new Date(pending.dueAt))} (last exit ${pending.lastExitCode})`,
+            );
+          }
+        }
+
+        const graph = formatDependencyGraph(listJobs(config), job.id);
+        if (graph.length > 0) {
+          console.log('\n  Dependencies:');
+          for (const line of graph) {
+            console.log(`    ${line}`);
+          }
         }
 
         // Recent executions
-        const recent = getRecentExecutions(config, 5)
-          .filter((e) => e.jobId === job.id);
+        const recent = getRecentExecutions(config, 5, job.id);
         if (recent.length > 0) {
           console.log('\n  Recent runs:');
           for (const entry of recent) {
-            const code = entry.exitCode === 'running' ? 'running' : `exit ${entry.exitCode}`;
-            console.log(`    ${entry.timestamp}  ${code}`);
+            const code = entry.exitCode === 'running'
+              ? 'running'
+              : `exit ${entry.exitCode}${entry.signal ? ` (${entry.signal})` : ''}`;
+            const details = [
+              code,
+              entry.failureReason ?? null,
+              entry.durationMs !== undefined ? formatDuration(Math.round(entry.durationMs / 1000)) : null,
+              entry.trigger ?? null,
+              entry.attempt ? `attempt ${entry.attempt}` : null,
+              entry.imageDigest ? entry.imageDigest.replace(/^sha256:/, '').slice(0, 12) : null,
+              entry.error ?? null,
+            ].filter(Boolean).join('  ');
+            console.log(`    ${entry.timestamp}  ${details}`);
           }
         }
 
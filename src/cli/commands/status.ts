@@ -63,6 +63,19 @@ export function register(program: Command): void {
           console.log('  Running:      0 containers');
         }
 
+        // Recent runs, with why failed ones failed
+        if (status.recentExecutions.length > 0) {
+          console.log('  Recent runs:');
+          for (const entry of status.recentExecutions) {
+            const outcome = entry.exitCode === 'running'
+              ? 'running'
+              : `exit ${entry.exitCode}${entry.signal ? ` (${entry.signal})` : ''}`;
+            const icon = entry.exitCode === 'running' ? ' ' : statusIcon(entry.exitCode === 0);
+            const reason = entry.failureReason ? `  ${entry.failureReason}` : '';
+            console.log(`    ${icon} ${entry.jobId.padEnd(20)} ${entry.timestamp}  ${outcome}${reason}`);
+          }
+        }
+
         console.log();
       } catch (err) {
         handleError(err);
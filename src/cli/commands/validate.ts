@@ -0,0 +1,47 @@
+/**
+ * `agent-oven validate [file]` — Check jobs.json for problems
+ */
+
+import * as fs from 'node:fs';
+import * as path from 'node:path';
+import type { Command } from 'commander';
+import { requireConfig, handleError } from '../utils/errors.js';
+import { success, error } from '../utils/output.js';
+import { getJobsFilePath } from '../../core/config.js';
+import { validateJobsDocument } from '../../core/jobs.js';
+
+export function register(program: Command): void {
+  program
+    .command('validate [file]')
+    .description('Check a jobs file against the schema (defaults to the configured jobs.json)')
+    .option('--json', 'Output as JSON')
+    .action(async (file: string | undefined, opts: { json?: boolean }) => {
+      try {
+        const jobsPath = file ? path.resolve(file) : getJobsFilePath(requireConfig());
+        if (!fs.existsSync(jobsPath)) {
+          throw new Error(`${jobsPath} does not exist`);
+        }
+
+        const issues = validateJobsDocument(fs.readFileSync(jobsPath, 'utf-8'));
+
+        if (opts.json) {
+          console.log(JSON.stringify({ file: jobsPath, valid: issues.length === 0, issues }, null, 2));
+        } else if (issues.length === 0) {
+          success(`${jobsPath} is valid`);
+        } else {
+          for (const issue of issues) {
+            const location = issue.line ? `${jobsPath}:${issue.line}` : jobsPath;
+            console.log(`${location}  ${issue.path || '/'}  ${issue.message}`);
+          }
+          console.log();
+          error(`${issues.length} problem${issues.length === 1 ? '' : 's'} found`);
+        }
+
+        if (issues.length > 0) {
+          process.exit(1);
+        }
+      } catch (err) {
+        handleError(err);
+      }
+    });
+}
@@ -0,0 +1,90 @@
+import {
+  buildSchedule,
+  parseEnvPairs,
+  parseEnvSecretPairs,
+  parseLabelPairs,
+  parseBuildArgPairs,
+  parseCommand,
+  applyTimezone,
+} from '../job-options.js';
+
+describe('buildSchedule', () => {
+  it('builds each schedule type', () => {
+    expect(buildSchedule({ schedule: '0 9 * * *', timezone: 'Europe/Berlin' })).toEqual({
+      type: 'cron',
+      cron: '0 9 * * *',
+      timezone: 'Europe/Berlin',
+    });
+    expect(buildSchedule({ randomWindow: '09:00-10:00', randomWindowDays: 'MON-FRI' })).toEqual({
+      type: 'random-window',
+      start: '09:00',
+      end: '10:00',
+      days: 'MON-FRI',
+    });
+    expect(buildSchedule({ after: 'a, b', on: 'any' })).toEqual({ type: 'after', jobs: ['a', 'b'], on: 'any' });
+  });
+
+  it('requires exactly one schedule flag', () => {
+    expect(() => buildSchedule({})).toThrow('One of --schedule, --once, --random-window, or --after is required');
+    expect(() => buildSchedule({ schedule: '* * * * *', once: '2025-06-15T10:00:00' })).toThrow('mutually exclusive');
+  });
+
+  it('rejects invalid values', () => {
+    expect(() => buildSchedule({ schedule: '0 25 * * *' })).toThrow('Invalid cron expression');
+    expect(() => buildSchedule({ randomWindow: '9-10' })).toThrow('Invalid --random-window format');
+    expect(() => buildSchedule({ once: 'tomorrow' })).toThrow('Invalid datetime for --once');
+  });
+});
+
+describe('applyTimezone', () => {
+  it('rejects after schedules and unknown timezones', () => {
+    expect(() => applyTimezone({ type: 'after', jobs: ['a'] }, 'UTC')).toThrow('does not apply to --after');
+    expect(() => applyTimezone({ type: 'cron', cron: '* * * * *' }, 'Nowhere/City')).toThrow('Invalid timezone');
+  });
+});
+
+describe('parseEnvPairs', () => {
+  it('splits on the first =', () => {
+    expect(parseEnvPairs(['A=1', 'B=x=y', 'C='])).toEqual({ A: '1', B: 'x=y', C: '' });
+  });
+
+  it('rejects pairs without =', () => {
+    expect(() => parseEnvPairs(['A'])).toThrow("Invalid env format: 'A' (expected KEY=VALUE)");
+  });
+});
+
+describe('parseEnvSecretPairs', () => {
+  it('builds secret references', () => {
+    expect(parseEnvSecretPairs(['SLACK=slack-token'])).toEqual({ SLACK: { secret: 'slack-token' } });
+  });
+
+  it('rejects pairs without a secret name', () => {
+    expect(() => parseEnvSecretPairs(['SLACK='])).toThrow("Invalid env secret format: 'SLACK=' (expected KEY=SECRET)");
+  });
+});
+
+describe('parseLabelPairs', () => {
+  it('splits on the first =', () => {
+    expect(parseLabelPairs(['team=data', 'url=a=b', 'empty='])).toEqual({ team: 'data', url: 'a=b', empty: '' });
+  });
+
+  it('rejects pairs without = or a name', () => {
+    expect(() => parseLabelPairs(['team'])).toThrow("Invalid label format: 'team' (expected KEY=VALUE)");
+    expect(() => parseLabelPairs(['=data'])).toThrow('Invalid label format');
+  });
+});
+
+describe('parseBuildArgPairs', () => {
+  it('splits on the first = and names build args in errors', () => {
+    expect(parseBuildArgPairs(['PIP_EXTRA=a==1.0'])).toEqual({ PIP_EXTRA: 'a==1.0' });
+    expect(() => parseBuildArgPairs(['VERSION'])).toThrow("Invalid build arg format: 'VERSION'");
+  });
+});
+
+describe('parseCommand', () => {
+  it('parses JSON arrays and keeps plain strings', () => {
+    expect(parseCommand('["echo", "hi"]')).toEqual(['echo', 'hi']);
+    expect(parseCommand('echo hi')).toBe('echo hi');
+    expect(() => parseCommand('[echo')).toThrow('Invalid JSON array for --command');
+  });
+});
@@ -1,4 +1,4 @@
-import { formatDuration, statusIcon } from '../output.js';
+import { formatBytes, formatDuration, statusIcon } from '../output.js';
 
 describe('formatDuration', () => {
   it('formats 0 seconds', () => {
@@ -72,3 +72,15 @@ describe('statusIcon', () => {
     expect(typeof statusIcon(false)).toBe('string');
   });
 });
+
+describe('formatBytes', () => {
+  it('formats small sizes in bytes', () => {
+    expect(formatBytes(512)).toBe('512B');
+  });
+
+  it('uses decimal units like docker', () => {
+    expect(formatBytes(7_800_000)).toBe('7.8MB');
+    expect(formatBytes(1_234_000_000)).toBe('1.2GB');
+    expect(formatBytes(245_000_000)).toBe('245MB');
+  });
+});
@@ -0,0 +1,177 @@
+/**
+ * Parsing of the job flags shared by `add` and `edit`
+ */
+
+import { validateCron, validateRandomWindow, isValidTimezone } from '../../core/scheduler.js';
+import type { DependencyOutcome, EnvVars, RandomWindowSchedule, Schedule } from '../../core/types.js';
+
+export function collectRepeatable(value: string, previous: string[]): string[] {
+  return [...previous, value];
+}
+
+/** Schedule flags accepted by `add` and `edit` */
+export interface ScheduleFlags {
+  schedule?: string;
+  once?: string;
+  randomWindow?: string;
+  randomWindowDays?: string;
+  after?: string;
+  on?: string;
+  timezone?: string;
+}
+
+/**
+ * Check whether any of the flags that choose a schedule type was given
+ */
+export function hasScheduleFlag(opts: ScheduleFlags): boolean {
+  return [opts.schedule, opts.once, opts.randomWindow, opts.after].some(Boolean);
+}
+
+/**
+ * Set a schedule's timezone override
+ * @throws Error for after schedules and unknown timezones
+ */
+export function applyTimezone(schedule: Schedule, timezone: string): void {
+  if (schedule.type === 'after') {
+    throw new Error('--timezone does not apply to --after schedules');
+  }
+  if (!isValidTimezone(timezone)) {
+    throw new Error(`Invalid timezone: ${timezone}`);
+  }
+  schedule.timezone = timezone;
+}
+
+/**
+ * Build a schedule from exactly one of --schedule, --once, --random-window or --after
+ * @throws Error if the flags conflict or a value is invalid
+ */
+export function buildSchedule(opts: ScheduleFlags): Schedule {
+  const schedCount = [opts.schedule, opts.once, opts.randomWindow, opts.after].filter(Boolean).length;
+  if (schedCount === 0) {
+    throw new Error('One of --schedule, --once, --random-window, or --after is required');
+  }
+  if (schedCount > 1) {
+    throw new Error('--schedule, --once, --random-window, and --after are mutually exclusive');
+  }
+
+  let schedule: Schedule;
+  if (opts.schedule) {
+    const cronErr = validateCron(opts.schedule);
+    if (cronErr) {
+      throw new Error(`Invalid cron expression: ${cronErr}`);
+    }
+    schedule = { type: 'cron', cron: opts.schedule };
+  } else if (opts.randomWindow) {
+    const rwMatch = opts.randomWindow.match(/^(\d{2}:\d{2})-(\d{2}:\d{2})$/);
+    if (!rwMatch) {
+      throw new Error('Invalid --random-window format (expected HH:MM-HH:MM)');
+    }
+    const rwSchedule: RandomWindowSchedule = {
+      type: 'random-window',
+      start: rwMatch[1],
+      end: rwMatch[2],
+      ...(opts.randomWindowDays ? { days: opts.randomWindowDays } : {}),
+    };
+    const rwErr = validateRandomWindow(rwSchedule);
+    if (rwErr) {
+      throw new Error(`Invalid random-window: ${rwErr}`);
+    }
+    schedule = rwSchedule;
+  } else if (opts.after) {
+    schedule = {
+      type: 'after',
+      jobs: opts.after.split(',').map((j) => j.trim()).filter(Boolean),
+      ...(opts.on ? { on: opts.on as DependencyOutcome } : {}),
+    };
+  } else {
+    const d = new Date(opts.once!);
+    if (isNaN(d.getTime())) {
+      throw new Error('Invalid datetime for --once');
+    }
+    schedule = { type: 'once', datetime: opts.once! };
+  }
+
+  if (opts.timezone) {
+    applyTimezone(schedule, opts.timezone);
+  }
+  return schedule;
+}
+
+/**
+ * Parse KEY=VALUE pairs into an env record
+ * @throws Error for a pair without '='
+ */
+export function parseEnvPairs(pairs: string[]): EnvVars {
+  const env: EnvVars = {};
+  for (const kv of pairs) {
+    const eqIdx = kv.indexOf('=');
+    if (eqIdx === -1) {
+      throw new Error(`Invalid env format: '${kv}' (expected KEY=VALUE)`);
+    }
+    env[kv.slice(0, eqIdx)] = kv.slice(eqIdx + 1);
+  }
+  return env;
+}
+
+/**
+ * Parse KEY=SECRET pairs into env references to stored secrets
+ * @throws Error for a pair without '=' or a secret name
+ */
+export function parseEnvSecretPairs(pairs: string[]): EnvVars {
+  const env: EnvVars = {};
+  for (const kv of pairs) {
+    const eqIdx = kv.indexOf('=');
+    if (eqIdx === -1 || eqIdx === kv.length - 1) {
+      throw new Error(`Invalid env secret format: '${kv}' (expected KEY=SECRET)`);
+    }
+    env[kv.slice(0, eqIdx)] = { secret: kv.slice(eqIdx + 1) };
+  }
+  return env;
+}
+
+/**
+ * Parse KEY=VALUE pairs, splitting on the first '='
+ * @throws Error for a pair without '=' or a name, naming what the pairs are for
+ */
+function parseNamedPairs(pairs: string[], what: string): Record<string, string> {
+  const values: Record<string, string> = {};
+  for (const kv of pairs) {
+    const eqIdx = kv.indexOf('=');
+    if (eqIdx <= 0) {
+      throw new Error(`Invalid ${what} format: '${kv}' (expected KEY=VALUE)`);
+    }
+    values[kv.slice(0, eqIdx)] = kv.slice(eqIdx + 1);
+  }
+  return values;
+}
+
+/**
+ * Parse KEY=VALUE pairs into container labels
+ * @throws Error for a pair without '=' or a name
+ */
+export function parseLabelPairs(pairs: string[]): Record<string, string> {
+  return parseNamedPairs(pairs, 'label');
+}
+
+/**
+ * Parse KEY=VALUE pairs into image build args
+ * @throws Error for a pair without '=' or a name
+ */
+export function parseBuildArgPairs(pairs: string[]): Record<string, string> {
+  return parseNamedPairs(pairs, 'build arg');
+}
+
+/**
+ * Parse a --command value: a JSON array or a single string
+ * @throws Error for an invalid JSON array
+ */
+export function parseCommand(value: string): string | string[] {
+  if (!value.startsWith('[')) {
+    return value;
+  }
+  try {
+    return JSON.parse(value) as string[];
+  } catch {
+    throw new Error('Invalid JSON array for --command');
+  }
+}
@@ -59,3 +59,17 @@ export function formatDuration(seconds: number): string {
   const rm = m % 60;
   return rm > 0 ? `${h}h ${rm}m` : `${h}h`;
 }
+
+/**
+ * Format a byte count the way docker does (decimal units)
+ */
+export function formatBytes(bytes: number): string {
+  const units = ['B', 'kB', 'MB', 'GB', 'TB'];
+  let value = bytes;
+  let unit = 0;
+  while (value >= 1000 && unit < units.length - 1) {
+    value /= 1000;
+    unit++;
+  }
+  return unit === 0 ? `${value}${units[0]}` : `${value.toFixed(value < 10 ? 1 : 0)}${units[unit]}`;
+}
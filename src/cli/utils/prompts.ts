@@ -26,3 +26,35 @@ export function confirm(message: string, defaultNo = true): Promise<boolean> {
     });
   });
 }
+
+/**
+ * Ask for a value without echoing what is typed (for secrets)
+ */
+export function promptHidden(message: string): Promise<string> {
+  return new Promise((resolve) => {
+    const rl = readline.createInterface({
+      input: process.stdin,
+      output: process.stdout,
+      terminal: true,
+    });
+
+    rl.question(`${message} `, (answer) => {
+      rl.close();
+      process.stdout.write('\n');
+      resolve(answer);
+    });
+    // Mute output once the prompt has been written
+    (rl as unknown as { _writeToOutput: (s: string) => void })._writeToOutput = () => {};
+  });
+}
+
+/**
+ * Read all of stdin (for values piped into a command)
+ */
+export async function readStdin(): Promise<string> {
+  const chunks: Buffer[] = [];
+  for await (const chunk of process.stdin) {
+    chunks.push(chunk as Buffer);
+  }
+  return Buffer.concat(chunks).toString('utf-8');
+}
@@ -99,6 +99,24 @@ describe('generateAuthArgs', () => {
     expect(result.envVars).toEqual({});
   });
 
+  it('host-login: mounts every credential read-only when asked', () => {
+    const config = makeAuthConfig({
+      claudeCredPath: '/home/user/.claude',
+      ghCredPath: '/home/user/.config/gh',
+    });
+    vi.mocked(fs.existsSync).mockImplementation(
+      (p) => p === '/home/user/.claude' || p === '/home/user/.claude.json' || p === '/home/user/.config/gh',
+    );
+
+    const result = generateAuthArgs('host-login', config, undefined, true);
+
+    expect(result.volumes).toEqual([
+      '/home/user/.claude:/root/.claude:ro',
+      '/home/user/.claude.json:/root/.claude.json:ro',
+      '/home/user/.config/gh:/root/.config/gh:ro',
+    ]);
+  });
+
   it('host-login: mounts claude dir without .claude.json when json file missing', () => {
     const config = makeAuthConfig({
       claudeCredPath: '/home/user/.claude',
@@ -176,6 +176,54 @@ describe('loadConfig', () => {
     );
   });
 
+  it('defaults maxConcurrentJobs to 4', () => {
+    vi.mocked(fs.existsSync).mockReturnValue(false);
+
+    expect(loadConfig().maxConcurrentJobs).toBe(4);
+  });
+
+  it('loads maxConcurrentJobs from the config file', () => {
+    vi.mocked(fs.existsSync).mockImplementation((p) => String(p) === CONFIG_PATH);
+    vi.mocked(fs.readFileSync).mockReturnValue(JSON.stringify({ maxConcurrentJobs: 2 }));
+
+    expect(loadConfig().maxConcurrentJobs).toBe(2);
+  });
+
+  it('falls back to the default for an invalid maxConcurrentJobs', () => {
+    vi.mocked(fs.existsSync).mockImplementation((p) => String(p) === CONFIG_PATH);
+    vi.mocked(fs.readFileSync).mockReturnValue(JSON.stringify({ maxConcurrentJobs: 0 }));
+
+    expect(loadConfig().maxConcurrentJobs).toBe(4);
+    expect(consoleErrorSpy).toHaveBeenCalledWith(expect.stringContaining('maxConcurrentJobs'));
+  });
+
+  it('drops invalid redaction patterns with a warning', () => {
+    vi.mocked(fs.existsSync).mockImplementation((p) => String(p) === CONFIG_PATH);
+    vi.mocked(fs.readFileSync).mockReturnValue(JSON.stringify({
+      redaction: { patterns: ['token-[a-z]+', '('], keys: ['DSN'] },
+    }));
+
+    expect(loadConfig().redaction).toEqual({ patterns: ['token-[a-z]+'], keys: ['DSN'] });
+    expect(consoleErrorSpy).toHaveBeenCalledWith(expect.stringContaining('Ignoring redaction pattern'));
+  });
+
+  it('ignores an unknown logFormat with a warning', () => {
+    vi.mocked(fs.existsSync).mockImplementation((p) => String(p) === CONFIG_PATH);
+    vi.mocked(fs.readFileSync).mockReturnValue(JSON.stringify({ logFormat: 'xml' }));
+
+    expect(loadConfig().logFormat).toBeUndefined();
+    expect(consoleErrorSpy).toHaveBeenCalledWith(expect.stringContaining('Invalid logFormat "xml"'));
+  });
+
+  it('only turns on autoBuildImages when it is set to true', () => {
+    vi.mocked(fs.existsSync).mockImplementation((p) => String(p) === CONFIG_PATH);
+    vi.mocked(fs.readFileSync).mockReturnValue(JSON.stringify({ autoBuildImages: true }));
+    expect(loadConfig().autoBuildImages).toBe(true);
+
+    vi.mocked(fs.readFileSync).mockReturnValue(JSON.stringify({ autoBuildImages: 'yes' }));
+    expect(loadConfig().autoBuildImages).toBeUndefined();
+  });
+
   it('falls back to cwd when saved projectDir no longer exists', () => {
     const savedConfig = { projectDir: '/gone/project' };
     const existsMap: Record<string, boolean> = {
@@ -0,0 +1,165 @@
+import { describe, expect, it } from 'vitest';
+import {
+  parseCron,
+  parseCronField,
+  matchesCronDate,
+  matchesCronWeekday,
+  describeCronExpression,
+  type CronDateParts,
+} from '../cron.js';
+
+function dateParts(iso: string): CronDateParts {
+  const date = new Date(`${iso}T00:00:00Z`);
+  return {
+    year: date.getUTCFullYear(),
+    month: date.getUTCMonth() + 1,
+    day: date.getUTCDate(),
+    weekday: date.getUTCDay(),
+  };
+}
+
+function describeText(expression: string): string {
+  return describeCronExpression(parseCron(expression));
+}
+
+// ─── parseCronField ─────────────────────────────────────────
+
+describe('parseCronField', () => {
+  it('parses values, ranges, steps and lists', () => {
+    expect(parseCronField('minute', '0,15-20,*/10,5/30').items).toEqual([
+      { kind: 'value', value: 0 },
+      { kind: 'range', start: 15, end: 20, step: 1, wildcard: false },
+      { kind: 'range', start: 0, end: 59, step: 10, wildcard: true },
+      { kind: 'range', start: 5, end: 59, step: 30, wildcard: false },
+    ]);
+  });
+
+  it('parses names case-insensitively', () => {
+    expect(parseCronField('month', 'jan-Mar').items).toEqual([
+      { kind: 'range', start: 1, end: 3, step: 1, wildcard: false },
+    ]);
+    expect(parseCronField('weekday', 'SUN').items).toEqual([{ kind: 'value', value: 0 }]);
+  });
+
+  it('parses day and weekday specials', () => {
+    expect(parseCronField('day', 'L,L-2,15W,LW').items).toEqual([
+      { kind: 'lastDay', offset: 0 },
+      { kind: 'lastDay', offset: 2 },
+      { kind: 'nearestWeekday', day: 15 },
+      { kind: 'lastWeekday' },
+    ]);
+    expect(parseCronField('weekday', 'FRI#2,7L').items).toEqual([
+      { kind: 'nthOfMonth', weekday: 5, nth: 2 },
+      { kind: 'lastOfMonth', weekday: 0 },
+    ]);
+  });
+
+  it('accepts ? only in the day and weekday fields', () => {
+    expect(parseCronField('day', '?').items).toEqual([{ kind: 'any' }]);
+    expect(() => parseCronField('hour', '?')).toThrow('Invalid value: ?');
+  });
+
+  it('rejects specials in other fields', () => {
+    expect(() => parseCronField('hour', 'L')).toThrow('Invalid value: L');
+    expect(() => parseCronField('day', '1#2')).toThrow('Invalid value: 1#2');
+    expect(() => parseCronField('weekday', 'JAN')).toThrow('Invalid value: JAN');
+  });
+
+  it('rejects an out-of-range occurrence', () => {
+    expect(() => parseCronField('weekday', '1#6')).toThrow('Occurrence 6 out of range (1-5)');
+  });
+});
+
+// ─── parseCron ──────────────────────────────────────────────
+
+describe('parseCron', () => {
+  it('expands macros', () => {
+    const cron = parseCron('@Monthly');
+    expect(cron.macro).toBe('@monthly');
+    expect(cron.day.source).toBe('1');
+    expect(cron.hasSeconds).toBe(false);
+  });
+
+  it('reads a leading seconds field', () => {
+    const cron = parseCron('30 0 9 * * *');
+    expect(cron.hasSeconds).toBe(true);
+    expect(cron.second.items).toEqual([{ kind: 'value', value: 30 }]);
+    expect(cron.hour.source).toBe('9');
+  });
+
+  it('rejects seconds that would fire more than once a minute', () => {
+    expect(() => parseCron('*/10 * * * * *')).toThrow('second: Only a single value is supported');
+  });
+
+  it('prefixes field errors with the field name', () => {
+    expect(() => parseCron('0 9 * * MON-FOO')).toThrow('weekday: Invalid range: MON-FOO');
+  });
+});
+
+// ─── matching ───────────────────────────────────────────────
+
+describe('matchesCronDate', () => {
+  it('finds the weekday nearest a day without leaving the month', () => {
+    // 2025-11-01 is a Saturday, so 1W runs on Monday the 3rd
+    const cron = parseCron('0 0 1W * *');
+    expect(matchesCronDate(cron, dateParts('2025-11-03'))).toBe(true);
+    expect(matchesCronDate(cron, dateParts('2025-11-01'))).toBe(false);
+    // 2025-06-15 is a Sunday, so 15W runs on Monday the 16th
+    expect(matchesCronDate(parseCron('0 0 15W * *'), dateParts('2025-06-16'))).toBe(true);
+  });
+
+  it('finds the last weekday of the month', () => {
+    // 2025-05-31 is a Saturday
+    const cron = parseCron('0 0 LW * *');
+    expect(matchesCronDate(cron, dateParts('2025-05-30'))).toBe(true);
+    expect(matchesCronDate(cron, dateParts('2025-05-31'))).toBe(false);
+  });
+
+  it('counts back from the last day', () => {
+    expect(matchesCronDate(parseCron('0 0 L-1 * *'), dateParts('2025-02-27'))).toBe(true);
+  });
+
+  it('ORs a restricted day with a restricted weekday', () => {
+    const cron = parseCron('0 0 L * MON');
+    expect(matchesCronDate(cron, dateParts('2025-06-30'))).toBe(true);
+    expect(matchesCronDate(cron, dateParts('2025-06-09'))).toBe(true);
+    expect(matchesCronDate(cron, dateParts('2025-06-10'))).toBe(false);
+  });
+});
+
+describe('matchesCronWeekday', () => {
+  it('matches the last weekday of its kind in the month', () => {
+    const field = parseCronField('weekday', '5L');
+    expect(matchesCronWeekday(field, dateParts('2025-06-27'))).toBe(true);
+    expect(matchesCronWeekday(field, dateParts('2025-06-20'))).toBe(false);
+  });
+
+  it('treats 7 as Sunday', () => {
+    expect(matchesCronWeekday(parseCronField('weekday', '6-7'), dateParts('2025-06-15'))).toBe(true);
+  });
+});
+
+// ─── describeCronExpression ─────────────────────────────────
+
+describe('describeCronExpression', () => {
+  it('describes times', () => {
+    expect(describeText('0 * * * *')).toBe('Every hour');
+    expect(describeText('15 * * * *')).toBe('Every hour at minute 15');
+    expect(describeText('0 9-17 * * MON-FRI')).toBe('Every hour from 09:00 to 17:00 on Mon to Fri');
+    expect(describeText('0,30 9 * * *')).toBe('Every day at 09:00 and 09:30');
+    expect(describeText('30 0 9 * * *')).toBe('Every day at 09:00:30');
+  });
+
+  it('describes day specials', () => {
+    expect(describeText('0 9 15W * *')).toBe('The weekday nearest day 15 of every month at 09:00');
+    expect(describeText('0 9 LW * *')).toBe('The last weekday of every month at 09:00');
+    expect(describeText('0 18 * * 5L')).toBe('The last Fri of the month at 18:00');
+    expect(describeText('0 9 * * 2#3')).toBe('The third Tue of the month at 09:00');
+  });
+
+  it('describes months', () => {
+    expect(describeText('@yearly')).toBe('Every year on Jan 1 at 00:00');
+    expect(describeText('0 9 * JAN-MAR *')).toBe('Every day in Jan to Mar at 09:00');
+    expect(describeText('*/5 * * * *')).toBe('Every 5 minutes');
+  });
+});
@@ -0,0 +1,207 @@
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import * as fs from 'node:fs';
+import * as os from 'node:os';
+import * as path from 'node:path';
+import {
+  readJobDefinitions,
+  planApply,
+  applyPlan,
+  diffJobFields,
+  formatJobDefinitions,
+} from '../definitions.js';
+import { addJob, listJobs } from '../jobs.js';
+import { getJobsBackupDir } from '../config.js';
+import type { Config, DockerJob } from '../types.js';
+import { makeConfig, makeDockerJob, makePipelineJob } from './fixtures.js';
+
+let dir: string;
+
+beforeEach(() => {
+  dir = fs.mkdtempSync(path.join(os.tmpdir(), 'oven-defs-'));
+});
+
+afterEach(() => {
+  fs.rmSync(dir, { recursive: true, force: true });
+});
+
+function write(name: string, content: string): string {
+  const file = path.join(dir, name);
+  fs.mkdirSync(path.dirname(file), { recursive: true });
+  fs.writeFileSync(file, content);
+  return file;
+}
+
+// ─── readJobDefinitions ─────────────────────────────────────
+
+describe('readJobDefinitions', () => {
+  it('reads YAML documents, lists and JSON jobs files from a directory', () => {
+    write('a.yaml', 'id: a\nname: A\nimage: alpine\ncommand: [echo]\nschedule: { type: cron, cron: "0 * * * *" }\n');
+    write('nested/b.yml', [
+      '- id: b',
+      '  name: B',
+      '  type: docker',
+      '  image: alpine',
+      '  command: echo',
+      '  schedule: { type: after, jobs: [a] }',
+      '---',
+      formatJobDefinitions([makePipelineJob({ id: 'c' })], 'yaml'),
+    ].join('\n'));
+    write('d.json', formatJobDefinitions([makeDockerJob({ id: 'd' })], 'json'));
+    write('notes.txt', 'ignored');
+
+    const { definitions, issues } = readJobDefinitions([dir]);
+    expect(issues).toEqual([]);
+    expect(definitions.map(({ job }) => job.id)).toEqual(['a', 'd', 'b', 'c']);
+    expect(definitions[0].job.type).toBe('docker');
+    expect(definitions[2].file).toBe(path.join(dir, 'nested', 'b.yml'));
+  });
+
+  it('reports problems with their file and line', () => {
+    const file = write('jobs.yaml', [
+      'id: a',
+      'name: A',
+      'image: alpine',
+      'command: echo',
+      'schedul: { type: cron, cron: "0 * * * *" }',
+      '---',
+      'id: b',
+    ].join('\n'));
+
+    const { definitions, issues } = readJobDefinitions([file]);
+    expect(definitions).toEqual([]);
+    expect(issues).toContainEqual({
+      file,
+      path: '/schedul',
+      line: 5,
+      jobId: 'a',
+      message: 'Unknown property "schedul" (did you mean "schedule"?)',
+    });
+    expect(issues).toContainEqual({ file, path: '', line: 7, jobId: 'b', message: 'Missing required property "name"' });
+  });
+
+  it('reports jobs defined twice', () => {
+    write('one.json', JSON.stringify(makeDockerJob({ id: 'a' })));
+    const second = write('two.json', JSON.stringify([makeDockerJob({ id: 'a' })]));
+
+    const { definitions, issues } = readJobDefinitions([dir]);
+    expect(definitions).toHaveLength(1);
+    expect(issues).toEqual([{
+      file: second,
+      path: '/0/id',
+      line: 1,
+      jobId: 'a',
+      message: `Job "a" is also defined in ${path.join(dir, 'one.json')}`,
+    }]);
+  });
+
+  it('reports syntax errors', () => {
+    const file = write('bad.yaml', 'id: [a\n');
+    const { issues } = readJobDefinitions([file]);
+    expect(issues).toHaveLength(1);
+    expect(issues[0].message).toMatch(/^Invalid YAML: /);
+  });
+
+  it('fails for a missing path', () => {
+    expect(() => readJobDefinitions([path.join(dir, 'missing')])).toThrow('does not exist');
+  });
+});
+
+// ─── planApply ──────────────────────────────────────────────
+
+describe('diffJobFields', () => {
+  it('lists changed fields by path, ignoring key order', () => {
+    const before = makeDockerJob({ env: { A: '1', B: '2' }, volumes: ['/a:/a'] });
+    const after = { ...makeDockerJob({ env: { B: '2', A: '3' } }), catchUp: 'none' } as DockerJob;
+    expect(diffJobFields(before, after)).toEqual([
+      { path: 'env.A', before: '1', after: '3' },
+      { path: 'volumes', before: ['/a:/a'] },
+      { path: 'catchUp', after: 'none' },
+    ]);
+  });
+});
+
+describe('planApply', () => {
+  const current = [makeDockerJob({ id: 'same' }), makeDockerJob({ id: 'changed' }), makeDockerJob({ id: 'extra' })];
+
+  it('creates, updates and leaves undefined jobs alone', () => {
+    const plan = planApply(current, [
+      makeDockerJob({ id: 'same' }),
+      makeDockerJob({ id: 'changed', name: 'Renamed' }),
+      makeDockerJob({ id: 'new' }),
+    ]);
+    expect(plan.changes.map(({ action, jobId }) => `${action} ${jobId}`)).toEqual(['update changed', 'create new']);
+    expect(plan.changes[0].fields).toEqual([{ path: 'name', before: 'Test Docker Job', after: 'Renamed' }]);
+    expect(plan.unchanged).toEqual(['same']);
+    expect(plan.errors).toEqual([]);
+  });
+
+  it('deletes undefined jobs when pruning', () => {
+    const plan = planApply(current, [makeDockerJob({ id: 'same' })], { prune: true });
+    expect(plan.changes.map(({ action, jobId }) => `${action} ${jobId}`)).toEqual(['delete changed', 'delete extra']);
+  });
+
+  it('reports dependencies broken by the changes', () => {
+    const dependent = makeDockerJob({ id: 'report', schedule: { type: 'after', jobs: ['extra'] } });
+    const plan = planApply([...current, dependent], [makeDockerJob({ id: 'same' }), dependent], { prune: true });
+    expect(plan.errors).toEqual(['report: Upstream job "extra" does not exist']);
+  });
+});
+
+describe('applyPlan', () => {
+  let config: Config;
+
+  beforeEach(() => {
+    config = makeConfig({ projectDir: dir });
+  });
+
+  it('makes the planned changes', () => {
+    addJob(config, makeDockerJob({ id: 'a', env: { A: '1' } }));
+    addJob(config, makeDockerJob({ id: 'b' }));
+
+    const definitions = [makeDockerJob({ id: 'a' }), makeDockerJob({ id: 'c' })];
+    const plan = planApply(listJobs(config), definitions, { prune: true });
+    applyPlan(config, plan, definitions, { prune: true });
+
+    expect(listJobs(config)).toEqual(definitions);
+    expect(planApply(listJobs(config), definitions).changes).toEqual([]);
+  });
+
+  it('writes jobs.json once, keeping the version from before the apply as the latest backup', () => {
+    addJob(config, makeDockerJob({ id: 'old' }));
+    const before = fs.readFileSync(path.join(dir, 'jobs.json'), 'utf-8');
+
+    const definitions = ['a', 'b', 'c', 'd', 'e', 'f', 'g'].map((id) => makeDockerJob({ id }));
+    const plan = planApply(listJobs(config), definitions, { prune: true });
+    applyPlan(config, plan, definitions, { prune: true });
+
+    expect(listJobs(config).map((job) => job.id)).toEqual(['a', 'b', 'c', 'd', 'e', 'f', 'g']);
+    expect(fs.readFileSync(path.join(getJobsBackupDir(config), 'jobs.json.1'), 'utf-8')).toBe(before);
+  });
+
+  it('changes nothing when jobs.json changed after the plan was made', () => {
+    addJob(config, makeDockerJob({ id: 'a' }));
+    const definitions = [makeDockerJob({ id: 'a', env: { A: '1' } }), makeDockerJob({ id: 'b' })];
+    const plan = planApply(listJobs(config), definitions);
+
+    addJob(config, makeDockerJob({ id: 'b', command: ['true'] }));
+
+    expect(() => applyPlan(config, plan, definitions)).toThrow('jobs.json changed since the plan was made');
+    expect(listJobs(config)).toEqual([makeDockerJob({ id: 'a' }), makeDockerJob({ id: 'b', command: ['true'] })]);
+  });
+
+  it('refuses a plan with errors', () => {
+    expect(() => applyPlan(config, { changes: [], unchanged: [], errors: ['x: broken'] }, []))
+      .toThrow('Cannot apply: x: broken');
+  });
+});
+
+// ─── formatJobDefinitions ───────────────────────────────────
+
+describe('formatJobDefinitions', () => {
+  it('writes YAML that reads back as the same jobs', () => {
+    const jobs = [makeDockerJob({ id: 'a', env: { TOKEN: '007' } }), makePipelineJob({ id: 'b' })];
+    const file = write('export.yaml', formatJobDefinitions(jobs, 'yaml'));
+
+    expect(readJobDefinitions([file]).definitions.map(({ job }) => job)).toEqual(jobs);
+  });
+});
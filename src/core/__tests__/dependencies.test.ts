@@ -0,0 +1,177 @@
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import * as fs from 'node:fs';
+import * as os from 'node:os';
+import * as path from 'node:path';
+import {
+  getDependentJobs,
+  outcomeMatches,
+  findDependencyCycle,
+  validateDependencies,
+  dependenciesSatisfied,
+  formatDependencyGraph,
+} from '../dependencies.js';
+import { recordRunStart } from '../history.js';
+import { schedulePendingRetry } from '../retries.js';
+import { updateLastRun } from '../state.js';
+import type { Config, DependencyOutcome, DockerJob } from '../types.js';
+import { makeConfig, makeDockerJob } from './fixtures.js';
+
+function afterJob(id: string, upstream: string[], on?: DependencyOutcome, overrides?: Partial<DockerJob>): DockerJob {
+  return makeDockerJob({ id, schedule: { type: 'after', jobs: upstream, ...(on ? { on } : {}) }, ...overrides });
+}
+
+// ─── outcomeMatches ─────────────────────────────────────────
+
+describe('outcomeMatches', () => {
+  it('defaults to success', () => {
+    expect(outcomeMatches(undefined, 0)).toBe(true);
+    expect(outcomeMatches(undefined, 1)).toBe(false);
+  });
+
+  it('matches failures and any outcome', () => {
+    expect(outcomeMatches('failure', 2)).toBe(true);
+    expect(outcomeMatches('failure', 0)).toBe(false);
+    expect(outcomeMatches('any', 0)).toBe(true);
+    expect(outcomeMatches('any', 137)).toBe(true);
+  });
+});
+
+// ─── dependency graph ───────────────────────────────────────
+
+describe('getDependentJobs', () => {
+  it('finds jobs with an after schedule listing the job', () => {
+    const jobs = [makeDockerJob({ id: 'fetch' }), afterJob('process', ['fetch']), afterJob('report', ['process'])];
+    expect(getDependentJobs(jobs, 'fetch').map((j) => j.id)).toEqual(['process']);
+    expect(getDependentJobs(jobs, 'report')).toEqual([]);
+  });
+});
+
+describe('findDependencyCycle', () => {
+  it('returns null for an acyclic graph', () => {
+    const jobs = [makeDockerJob({ id: 'a' }), afterJob('b', ['a']), afterJob('c', ['a', 'b'])];
+    expect(findDependencyCycle(jobs)).toBeNull();
+  });
+
+  it('returns the jobs along a cycle in run order', () => {
+    const jobs = [afterJob('a', ['c']), afterJob('b', ['a']), afterJob('c', ['b'])];
+    expect(findDependencyCycle(jobs)).toEqual(['a', 'b', 'c', 'a']);
+  });
+
+  it('detects a job depending on itself', () => {
+    expect(findDependencyCycle([afterJob('a', ['a'])])).toEqual(['a', 'a']);
+  });
+});
+
+describe('validateDependencies', () => {
+  const jobs = [makeDockerJob({ id: 'fetch' }), afterJob('process', ['fetch'])];
+
+  it('accepts known upstream jobs', () => {
+    expect(validateDependencies(afterJob('report', ['process']), jobs)).toEqual([]);
+  });
+
+  it('ignores jobs without an after schedule', () => {
+    expect(validateDependencies(makeDockerJob({ id: 'other' }), jobs)).toEqual([]);
+  });
+
+  it('reports unknown upstream jobs', () => {
+    expect(validateDependencies(afterJob('report', ['missing']), jobs)).toContain(
+      'Upstream job "missing" does not exist',
+    );
+  });
+
+  it('reports a cycle created by the job', () => {
+    // Editing fetch to run after process closes the loop
+    expect(validateDependencies(afterJob('fetch', ['process']), jobs)).toContain(
+      'Dependency cycle: fetch -> process -> fetch',
+    );
+  });
+});
+
+describe('formatDependencyGraph', () => {
+  const jobs = [
+    makeDockerJob({ id: 'fetch' }),
+    afterJob('process', ['fetch']),
+    afterJob('report', ['process']),
+    afterJob('alert', ['process'], 'failure'),
+    makeDockerJob({ id: 'standalone' }),
+  ];
+
+  it('renders the chain from the furthest upstream job', () => {
+    expect(formatDependencyGraph(jobs, 'process')).toEqual([
+      'fetch',
+      '└─▶ process  ← this job',
+      '    ├─▶ report',
+      '    └─▶ alert (on failure)',
+    ]);
+  });
+
+  it('returns no lines for a job without dependencies', () => {
+    expect(formatDependencyGraph(jobs, 'standalone')).toEqual([]);
+  });
+
+  it('marks missing upstream jobs', () => {
+    expect(formatDependencyGraph([afterJob('orphan', ['gone'])], 'orphan')).toEqual([
+      'gone (missing)',
+      '└─▶ orphan  ← this job',
+    ]);
+  });
+});
+
+// ─── dependenciesSatisfied ──────────────────────────────────
+
+describe('dependenciesSatisfied', () => {
+  let config: Config;
+
+  beforeEach(() => {
+    const projectDir = fs.mkdtempSync(path.join(os.tmpdir(), 'oven-deps-'));
+    config = makeConfig({ projectDir });
+  });
+
+  afterEach(() => {
+    fs.rmSync(config.projectDir, { recursive: true, force: true });
+  });
+
+  function recordRun(jobId: string, finishedAt: string, exitCode: number): void {
+    recordRunStart(config, {
+      runId: `${jobId}-${finishedAt}`,
+      jobId,
+      startedAt: finishedAt,
+      finishedAt,
+      exitCode,
+      logFile: '/dev/null',
+    });
+  }
+
+  it('checks the finished upstream outcome', () => {
+    const job = afterJob('process', ['fetch']);
+    expect(dependenciesSatisfied(config, job, { jobId: 'fetch', exitCode: 0 })).toBe(true);
+    expect(dependenciesSatisfied(config, job, { jobId: 'fetch', exitCode: 1 })).toBe(false);
+    expect(dependenciesSatisfied(config, afterJob('alert', ['fetch'], 'failure'), { jobId: 'fetch', exitCode: 1 }))
+      .toBe(true);
+  });
+
+  it('waits for every upstream job to finish since the last run', () => {
+    const job = afterJob('merge', ['a', 'b']);
+    updateLastRun(config, 'merge', '2025-06-15T10:00:00Z');
+    expect(dependenciesSatisfied(config, job, { jobId: 'a', exitCode: 0 })).toBe(false);
+
+    recordRun('b', '2025-06-15T09:00:00.000Z', 0);
+    expect(dependenciesSatisfied(config, job, { jobId: 'a', exitCode: 0 })).toBe(false);
+
+    recordRun('b', '2025-06-15T11:00:00.000Z', 0);
+    expect(dependenciesSatisfied(config, job, { jobId: 'a', exitCode: 0 })).toBe(true);
+  });
+
+  it('requires the other upstream outcomes to match', () => {
+    const job = afterJob('merge', ['a', 'b']);
+    recordRun('b', '2025-06-15T11:00:00.000Z', 1);
+    expect(dependenciesSatisfied(config, job, { jobId: 'a', exitCode: 0 })).toBe(false);
+  });
+
+  it('waits while another upstream job has a retry pending', () => {
+    const job = afterJob('merge', ['a', 'b'], 'any');
+    recordRun('b', '2025-06-15T11:00:00.000Z', 1);
+    schedulePendingRetry(config, { jobId: 'b', attempt: 2, dueAt: '2025-06-15T11:01:00.000Z', lastExitCode: 1 });
+    expect(dependenciesSatisfied(config, job, { jobId: 'a', exitCode: 0 })).toBe(false);
+  });
+});
@@ -1,4 +1,7 @@
 import { EventEmitter } from 'node:events';
+import * as os from 'node:os';
+import * as path from 'node:path';
+import { Readable } from 'node:stream';
 import { beforeEach, afterEach, describe, expect, it, vi } from 'vitest';
 
 vi.mock('execa', () => ({
@@ -19,18 +22,45 @@ vi.mock('node:fs', () => ({
   readFileSync: vi.fn(() => ''),
   readdirSync: vi.fn(() => []),
   statSync: vi.fn(() => ({ isDirectory: () => true })),
+  rmSync: vi.fn(),
+  mkdtempSync: vi.fn((prefix: string) => `${prefix}Ab12Cd`),
+  linkSync: vi.fn(),
+  renameSync: vi.fn(),
+  fsyncSync: vi.fn(),
+}));
+
+// The build hash reads the job's build context from disk
+vi.mock('../images.js', async (importOriginal) => ({
+  ...await importOriginal<typeof import('../images.js')>(),
+  getJobImageTag: vi.fn(() => 'agent-oven/job-test-docker:0123456789ab'),
 }));
 
 import * as fs from 'node:fs';
+import { execa } from 'execa';
 import { spawn } from 'node:child_process';
-import { runJob } from '../docker.js';
+import { runJob, getRunningContainers, stopJob, isJobRunning, removeLeakedContainers, removeStaleEnvFiles } from '../docker.js';
+import { getJobImageTag } from '../images.js';
 import { makeConfig, makeDockerJob, makePipelineJob } from './fixtures.js';
+import type { PipelineJob } from '../types.js';
 
 class FakeChild extends EventEmitter {
   unref = vi.fn();
 }
 
 const spawnMock = vi.mocked(spawn);
+const execaMock = vi.mocked(execa);
+
+/**
+ * A docker subprocess as execa returns it with buffer: false — output is
+ * only available from its streams
+ */
+function streamingRun(output: { stdout?: string; stderr?: string; exitCode?: number }) {
+  const result = { exitCode: output.exitCode ?? 0, failed: (output.exitCode ?? 0) !== 0, timedOut: false };
+  return Object.assign(Promise.resolve(result), {
+    stdout: Readable.from([output.stdout ?? '']),
+    stderr: Readable.from([output.stderr ?? '']),
+  });
+}
 
 describe('runJob (detached)', () => {
   beforeEach(() => {
@@ -123,3 +153,1019 @@ describe('runJob (detached)', () => {
     expect(spawnMock).toHaveBeenCalledTimes(1);
   });
 });
+
+describe('container identity', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.mocked(fs.existsSync).mockReturnValue(false);
+    execaMock.mockResolvedValue({ stdout: '', stderr: '', exitCode: 0 } as any);
+  });
+
+  function dockerRunArgs(): string[] {
+    const call = execaMock.mock.calls.find(([, args]) => (args as string[])[0] === 'run');
+    return call![1] as string[];
+  }
+
+  it('gives each run a unique container name and job/run labels', async () => {
+    const result = await runJob(makeConfig(), makeDockerJob());
+
+    const args = dockerRunArgs();
+    const name = args.find((a) => a.startsWith('--name='))!;
+    expect(name).toMatch(/^--name=oven-test-docker-[0-9a-f]{8}$/);
+    expect(result.runId!.startsWith(name.slice('--name=oven-test-docker-'.length))).toBe(true);
+    expect(args).toContain('agent-oven.job=test-docker');
+    expect(args).toContain(`agent-oven.run=${result.runId}`);
+  });
+
+  it('uses a different container name for every run', async () => {
+    await runJob(makeConfig(), makeDockerJob());
+    const first = dockerRunArgs().find((a) => a.startsWith('--name='));
+    execaMock.mockClear();
+    await runJob(makeConfig(), makeDockerJob());
+    const second = dockerRunArgs().find((a) => a.startsWith('--name='));
+
+    expect(first).not.toBe(second);
+  });
+
+  it('reads job and run IDs from container labels', async () => {
+    execaMock.mockResolvedValue({
+      stdout: [
+        'oven-backup-1a2b3c4d\tUp 2 minutes\talpine\tbackup\t1a2b3c4d-0000',
+        'oven-legacy-job\tUp 1 hour\talpine\t\t',
+      ].join('\n'),
+    } as any);
+
+    const containers = await getRunningContainers();
+
+    expect(containers).toEqual([
+      { name: 'oven-backup-1a2b3c4d', status: 'Up 2 minutes', image: 'alpine', jobId: 'backup', runId: '1a2b3c4d-0000' },
+      { name: 'oven-legacy-job', status: 'Up 1 hour', image: 'alpine', jobId: 'legacy-job' },
+    ]);
+  });
+
+  it('stops every running container of a job', async () => {
+    execaMock.mockResolvedValueOnce({
+      stdout: [
+        'oven-backup-11111111\tUp\talpine\tbackup\t11111111',
+        'oven-backup-22222222\tUp\talpine\tbackup\t22222222',
+        'oven-backup-nightly-33333333\tUp\talpine\tbackup-nightly\t33333333',
+      ].join('\n'),
+    } as any);
+
+    await stopJob('backup');
+
+    expect(execaMock).toHaveBeenLastCalledWith(
+      'docker',
+      ['stop', 'oven-backup-11111111', 'oven-backup-22222222'],
+      { reject: false },
+    );
+  });
+
+  it('does not call docker stop when the job has no running containers', async () => {
+    execaMock.mockResolvedValueOnce({ stdout: '' } as any);
+
+    await stopJob('backup');
+
+    expect(execaMock).toHaveBeenCalledTimes(1);
+    expect(await isJobRunning('backup')).toBe(false);
+  });
+});
+
+describe('output volumes', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.mocked(fs.existsSync).mockReturnValue(false);
+    execaMock.mockResolvedValue({ stdout: '', stderr: '', exitCode: 0 } as any);
+  });
+
+  function dockerRunArgs(): string[] {
+    const call = execaMock.mock.calls.find(([, args]) => (args as string[])[0] === 'run');
+    return call![1] as string[];
+  }
+
+  it('mounts the outputs directory of a job with outputs', async () => {
+    await runJob(makeConfig(), makeDockerJob({ id: 'fetch', outputs: true }));
+
+    expect(fs.mkdirSync).toHaveBeenCalledWith('/tmp/test-project/outputs/fetch', { recursive: true });
+    expect(dockerRunArgs()).toContain('/tmp/test-project/outputs/fetch:/outputs');
+  });
+
+  it('mounts upstream outputs read-only for dependent jobs', async () => {
+    vi.mocked(fs.existsSync).mockImplementation((p) => p === '/tmp/test-project/outputs/fetch');
+    const job = makeDockerJob({ id: 'process', schedule: { type: 'after', jobs: ['fetch', 'other'] } });
+
+    await runJob(makeConfig(), job);
+
+    const args = dockerRunArgs();
+    expect(args).toContain('/tmp/test-project/outputs/fetch:/inputs/fetch:ro');
+    expect(args.some((a) => a.includes('/inputs/other'))).toBe(false);
+    expect(args.some((a) => a.endsWith(':/outputs'))).toBe(false);
+  });
+});
+
+describe('run options', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.mocked(fs.existsSync).mockReturnValue(false);
+    execaMock.mockResolvedValue({ stdout: '', stderr: '', exitCode: 0 } as any);
+  });
+
+  function dockerRunArgs(): string[] {
+    const call = execaMock.mock.calls.find(([, args]) => (args as string[])[0] === 'run');
+    return call![1] as string[];
+  }
+
+  it('passes the run options of a docker job before the image', async () => {
+    await runJob(makeConfig(), makeDockerJob({
+      image: 'alpine',
+      command: ['echo', 'hi'],
+      network: 'none',
+      user: '1000:1000',
+      workdir: '/work',
+      entrypoint: '/bin/sh',
+      readOnly: true,
+      capDrop: ['ALL'],
+      labels: { team: 'data' },
+      shmSize: '64m',
+      pidsLimit: 100,
+      extraArgs: ['--add-host', 'db:10.0.0.5'],
+    }));
+
+    const args = dockerRunArgs();
+    expect(args.slice(args.indexOf('--network=none'))).toEqual([
+      '--network=none',
+      '--user=1000:1000',
+      '--workdir=/work',
+      '--entrypoint=/bin/sh',
+      '--read-only',
+      '--cap-drop=ALL',
+      '--label', 'team=data',
+      '--shm-size=64m',
+      '--pids-limit=100',
+      '--add-host', 'db:10.0.0.5',
+      'alpine', 'echo', 'hi',
+    ]);
+  });
+
+  it('adds no options a job does not set', async () => {
+    await runJob(makeConfig(), makeDockerJob());
+
+    expect(dockerRunArgs().some((a) => /^--(network|user|workdir|entrypoint|read-only|cap-drop|shm-size|pids-limit)/.test(a)))
+      .toBe(false);
+  });
+
+  it('refuses to start a job whose extra args were not validated', async () => {
+    const result = await runJob(makeConfig(), makeDockerJob({ extraArgs: ['--privileged'] }));
+
+    expect(result.success).toBe(false);
+    expect(result.output).toBe('Extra arg "--privileged" grants host privileges');
+    expect(execaMock.mock.calls.some(([, args]) => (args as string[])[0] === 'run')).toBe(false);
+  });
+});
+
+describe('image builds', () => {
+  const TAG = 'agent-oven/job-test-docker:0123456789ab';
+  const buildJob = () => makeDockerJob({ image: undefined, build: { context: 'jobs/report', args: { EXTRA: 'pandas' } } });
+
+  function mockDocker(build: { exists?: boolean; stderr?: string; exitCode?: number }) {
+    execaMock.mockImplementation(((_cmd: string, args: string[]) => {
+      if (args[0] === 'image' && args[1] === 'inspect') return Promise.resolve({ stdout: '', stderr: '', exitCode: build.exists ? 0 : 1 });
+      if (args[0] === 'build') return streamingRun({ stderr: build.stderr ?? '', exitCode: build.exitCode });
+      if (args[0] === 'run') return streamingRun({ stdout: 'ok\n' });
+      return Promise.resolve({ stdout: '', stderr: '', exitCode: 0 });
+    }) as any);
+  }
+
+  function dockerCalls(): string[][] {
+    return execaMock.mock.calls.map(([, args]) => args as string[]);
+  }
+
+  function logContent(): string {
+    return [...vi.mocked(fs.writeFileSync).mock.calls, ...vi.mocked(fs.appendFileSync).mock.calls]
+      .filter(([file]) => /\/logs\/jobs\/.*\.log$/.test(String(file)))
+      .map(([, content]) => String(content))
+      .join('');
+  }
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.mocked(fs.existsSync).mockReturnValue(false);
+  });
+
+  it('builds a missing image, logs the build and runs the built image', async () => {
+    mockDocker({ stderr: '#5 [2/2] RUN pip install pandas\n' });
+    const onOutput = vi.fn();
+
+    const result = await runJob(makeConfig(), buildJob(), { onOutput });
+
+    expect(result.success).toBe(true);
+    const build = dockerCalls().find((args) => args[0] === 'build')!;
+    expect(build.slice(0, 3)).toEqual(['build', '-t', TAG]);
+    expect(build).toEqual(expect.arrayContaining(['--build-arg', 'EXTRA=pandas']));
+    const run = dockerCalls().find((args) => args[0] === 'run')!;
+    expect(run.slice(run.indexOf(TAG))).toEqual([TAG, 'echo', 'hello']);
+    expect(logContent()).toMatch(/Z build \| #5 \[2\/2\] RUN pip install pandas\n/);
+    expect(onOutput).toHaveBeenCalledWith(expect.objectContaining({ stream: 'build', text: '#5 [2/2] RUN pip install pandas' }));
+  });
+
+  it('reuses the image built from the same content', async () => {
+    mockDocker({ exists: true });
+
+    const result = await runJob(makeConfig(), buildJob());
+
+    expect(result.success).toBe(true);
+    expect(dockerCalls().some((args) => args[0] === 'build')).toBe(false);
+    expect(dockerCalls().find((args) => args[0] === 'run')).toContain(TAG);
+  });
+
+  it('runs the image tag the caller already computed', async () => {
+    mockDocker({ exists: true });
+    const precomputed = 'agent-oven/job-test-docker:fedcba987654';
+
+    await runJob(makeConfig(), buildJob(), { imageTag: precomputed });
+
+    expect(getJobImageTag).not.toHaveBeenCalled();
+    expect(dockerCalls().find((args) => args[0] === 'run')).toContain(precomputed);
+  });
+
+  it('fails the run as a build error without starting a container', async () => {
+    mockDocker({ stderr: 'ERROR: pip install failed\n', exitCode: 1 });
+
+    const result = await runJob(makeConfig(), buildJob());
+
+    expect(result.success).toBe(false);
+    expect(result.output).toBe('docker build failed (exit code 1): ERROR: pip install failed');
+    expect(dockerCalls().some((args) => args[0] === 'run')).toBe(false);
+    expect(logContent()).toContain('build | ERROR: pip install failed');
+    expect(logContent()).toContain('=== Error: Image build failed ===');
+    const history = vi.mocked(fs.appendFileSync).mock.calls.map(([, content]) => String(content)).join('');
+    expect(history).toContain('"failureReason":"build-error"');
+  });
+});
+
+describe('image pulls', () => {
+  const DIGEST = `alpine@sha256:${'a'.repeat(64)}`;
+  const OTHER_DIGEST = `alpine@sha256:${'b'.repeat(64)}`;
+
+  function mockDocker(image: { digest?: string; stderr?: string; exitCode?: number }) {
+    let digest = image.digest;
+    execaMock.mockImplementation(((_cmd: string, args: string[]) => {
+      if (args[0] === 'image' && args[1] === 'inspect') {
+        return Promise.resolve({ stdout: digest ?? '', stderr: '', exitCode: digest ? 0 : 1 });
+      }
+      if (args[0] === 'pull') {
+        if (!image.exitCode) digest = DIGEST;
+        return streamingRun({ stdout: image.stderr ?? '', exitCode: image.exitCode });
+      }
+      if (args[0] === 'run') return streamingRun({ stdout: 'ok\n' });
+      return Promise.resolve({ stdout: '', stderr: '', exitCode: 0 });
+    }) as any);
+  }
+
+  function dockerCalls(): string[][] {
+    return execaMock.mock.calls.map(([, args]) => args as string[]);
+  }
+
+  function logContent(): string {
+    return [...vi.mocked(fs.writeFileSync).mock.calls, ...vi.mocked(fs.appendFileSync).mock.calls]
+      .filter(([file]) => /\/logs\/jobs\/.*\.log$/.test(String(file)))
+      .map(([, content]) => String(content))
+      .join('');
+  }
+
+  function history(): string {
+    return vi.mocked(fs.appendFileSync).mock.calls
+      .filter(([file]) => String(file).endsWith('runs.jsonl'))
+      .map(([, content]) => String(content))
+      .join('');
+  }
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.mocked(fs.existsSync).mockReturnValue(false);
+  });
+
+  it('leaves pulling to docker run without a pull policy', async () => {
+    mockDocker({ digest: DIGEST });
+
+    await runJob(makeConfig(), makeDockerJob());
+
+    expect(dockerCalls().some((args) => args[0] === 'pull')).toBe(false);
+    expect(logContent()).not.toContain('=== Image:');
+  });
+
+  it('pulls before every run with the always policy, logging the pull and the digest', async () => {
+    mockDocker({ digest: OTHER_DIGEST, stderr: 'Status: Downloaded newer image for alpine\n' });
+    const onOutput = vi.fn();
+
+    const result = await runJob(makeConfig(), makeDockerJob({ pullPolicy: 'always' }), { onOutput });
+
+    expect(result.success).toBe(true);
+    expect(dockerCalls()[0]).toEqual(['pull', 'alpine']);
+    expect(logContent()).toContain(`=== Image: alpine (${DIGEST}) ===`);
+    expect(logContent()).toMatch(/Z pull \| Status: Downloaded newer image for alpine\n/);
+    expect(onOutput).toHaveBeenCalledWith(expect.objectContaining({ stream: 'pull' }));
+    expect(history()).toContain(`"imageDigest":"${DIGEST}"`);
+  });
+
+  it('pulls only a missing image with the if-not-present policy', async () => {
+    mockDocker({ digest: DIGEST });
+
+    await runJob(makeConfig(), makeDockerJob({ pullPolicy: 'if-not-present' }));
+
+    expect(dockerCalls().some((args) => args[0] === 'pull')).toBe(false);
+    expect(logContent()).toContain(`=== Image: alpine (${DIGEST}) ===`);
+  });
+
+  it('fails the run as a pull error when the image is missing with the never policy', async () => {
+    mockDocker({});
+
+    const result = await runJob(makeConfig(), makeDockerJob({ pullPolicy: 'never' }));
+
+    expect(result.success).toBe(false);
+    expect(result.output).toContain("not present locally and the job's pull policy is never");
+    expect(dockerCalls().some((args) => args[0] === 'pull' || args[0] === 'run')).toBe(false);
+    expect(history()).toContain('"failureReason":"pull-error"');
+  });
+
+  it('fails the run as a pull error when the pull fails', async () => {
+    mockDocker({ stderr: 'Error response from daemon: manifest unknown\n', exitCode: 1 });
+
+    const result = await runJob(makeConfig(), makeDockerJob({ pullPolicy: 'always' }));
+
+    expect(result.success).toBe(false);
+    expect(result.output).toBe('docker pull failed (exit code 1): Error response from daemon: manifest unknown');
+    expect(logContent()).toContain('=== Error: Image pull failed ===');
+    expect(history()).toContain('"failureReason":"pull-error"');
+  });
+
+  /** Give the job a pin in state.json */
+  function mockPin(pin: { pinnedDigest: string; pinnedImage: string }) {
+    vi.mocked(fs.existsSync).mockImplementation((file) => String(file).endsWith('state.json'));
+    vi.mocked(fs.readFileSync).mockImplementation(((file: string) =>
+      String(file).endsWith('state.json') ? JSON.stringify({ 'test-docker': pin }) : '') as any);
+  }
+
+  function writtenState(): any {
+    const call = vi.mocked(fs.writeFileSync).mock.calls.find(([file]) => /state\.json\.\d+\.tmp$/.test(String(file)));
+    return call ? JSON.parse(String(call[1])) : undefined;
+  }
+
+  it('pins a job that is not pinned yet in state.json, not in jobs.json', async () => {
+    mockDocker({ digest: DIGEST });
+
+    const result = await runJob(makeConfig(), makeDockerJob({ pinDigest: true }));
+
+    expect(result.success).toBe(true);
+    expect(writtenState()).toEqual({ 'test-docker': { pinnedDigest: DIGEST, pinnedImage: 'alpine' } });
+    expect(vi.mocked(fs.writeFileSync).mock.calls.some(([file]) => String(file).includes('jobs.json'))).toBe(false);
+  });
+
+  it('runs a pinned job while the digest is unchanged', async () => {
+    mockDocker({ digest: DIGEST });
+    mockPin({ pinnedDigest: DIGEST, pinnedImage: 'alpine' });
+
+    const result = await runJob(makeConfig(), makeDockerJob({ pinDigest: true }));
+
+    expect(result.success).toBe(true);
+    expect(writtenState()).toBeUndefined();
+  });
+
+  it('pins again once the job runs a different image', async () => {
+    mockDocker({ digest: OTHER_DIGEST });
+    mockPin({ pinnedDigest: DIGEST, pinnedImage: 'alpine:3.19' });
+
+    const result = await runJob(makeConfig(), makeDockerJob({ pinDigest: true }));
+
+    expect(result.success).toBe(true);
+    expect(writtenState()).toEqual({ 'test-docker': { pinnedDigest: OTHER_DIGEST, pinnedImage: 'alpine' } });
+  });
+
+  it('refuses to run a pinned job when the digest changed', async () => {
+    mockDocker({ digest: OTHER_DIGEST });
+    mockPin({ pinnedDigest: DIGEST, pinnedImage: 'alpine' });
+
+    const result = await runJob(makeConfig(), makeDockerJob({ pinDigest: true }));
+
+    expect(result.success).toBe(false);
+    expect(result.output).toBe(`Image alpine is now ${OTHER_DIGEST}, but the job is pinned to ${DIGEST}`);
+    expect(dockerCalls().some((args) => args[0] === 'run')).toBe(false);
+    expect(logContent()).toContain('=== Error: Image digest changed ===');
+    expect(history()).toContain('"failureReason":"digest-mismatch"');
+  });
+});
+
+describe('security profiles', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.mocked(fs.existsSync).mockReturnValue(false);
+    execaMock.mockResolvedValue({ stdout: '', stderr: '', exitCode: 0 } as any);
+  });
+
+  function dockerCalls(): string[][] {
+    return execaMock.mock.calls.map(([, args]) => args as string[]);
+  }
+
+  function dockerRunArgs(): string[] {
+    return dockerCalls().find((args) => args[0] === 'run' && args.some((a) => a.startsWith('--name=oven-')))!;
+  }
+
+  function pipelineJob(overrides: Partial<PipelineJob> = {}): PipelineJob {
+    return makePipelineJob({ auth: 'api-key', env: { ANTHROPIC_API_KEY: 'test-key', GH_TOKEN: 'test-token' }, ...overrides });
+  }
+
+  it('runs pipeline jobs with Docker defaults unless they choose a profile', async () => {
+    await runJob(makeConfig(), pipelineJob());
+
+    expect(dockerRunArgs().some((a) => a.startsWith('--security-opt') || a.startsWith('--cap-drop'))).toBe(false);
+  });
+
+  it('applies the standard profile to pipeline jobs that choose it', async () => {
+    await runJob(makeConfig(), pipelineJob({ security: 'standard' }));
+
+    const args = dockerRunArgs();
+    expect(args).toContain('--security-opt=no-new-privileges');
+    expect(args).toContain('--cap-drop=NET_RAW');
+    expect(args).not.toContain('--read-only');
+  });
+
+  it('passes a job\'s seccomp profile, resolved from the project directory', async () => {
+    const config = makeConfig();
+    await runJob(config, makeDockerJob({ seccomp: 'seccomp/job.json' }));
+
+    expect(dockerRunArgs()).toContain(`--security-opt=seccomp=${path.join(config.projectDir, 'seccomp/job.json')}`);
+  });
+
+  it('refuses to start a pipeline job that was not validated', async () => {
+    const result = await runJob(makeConfig(), pipelineJob({ security: 'none', allowedDomains: ['example.com'] }));
+
+    expect(result.success).toBe(false);
+    expect(result.output).toBe('Allowed domains only apply to the strict security profile');
+    expect(dockerCalls().some((args) => args[0] === 'run')).toBe(false);
+  });
+
+  it('runs docker jobs with Docker defaults unless they choose a profile', async () => {
+    await runJob(makeConfig(), makeDockerJob());
+
+    expect(dockerRunArgs().some((a) => a.startsWith('--security-opt') || a.startsWith('--cap-drop'))).toBe(false);
+  });
+
+  it('locks down strict jobs and gives them no network without allowed domains', async () => {
+    await runJob(makeConfig(), makeDockerJob({ security: 'strict' }));
+
+    const args = dockerRunArgs();
+    expect(args).toEqual(expect.arrayContaining([
+      '--cap-drop=ALL',
+      '--security-opt=no-new-privileges',
+      '--read-only',
+      '--tmpfs=/tmp:rw,exec,nosuid,nodev',
+      '--network=none',
+    ]));
+    expect(dockerCalls().some((call) => call[0] === 'network')).toBe(false);
+  });
+
+  it('routes strict pipeline jobs through an egress proxy on an internal network, then removes both', async () => {
+    const result = await runJob(makeConfig(), pipelineJob({ security: 'strict', allowedDomains: ['registry.npmjs.org'] }));
+
+    const network = `oven_egress_${result.runId!.slice(0, 8)}`;
+    const calls = dockerCalls();
+    expect(calls[0]).toEqual(['network', 'create', '--internal', '--label', `agent-oven.egress=${result.runId}`, network]);
+    const proxyRun = calls[1];
+    expect(proxyRun).toContain(`--name=${network}`);
+    expect(proxyRun).toContain(
+      'AGENT_OVEN_EGRESS_ALLOW=["api.anthropic.com","github.com","*.github.com","*.githubusercontent.com","registry.npmjs.org"]',
+    );
+    expect(calls[2]).toEqual(['network', 'connect', '--alias=egress-proxy', network, network]);
+
+    const args = dockerRunArgs();
+    expect(args).toContain(`--network=${network}`);
+    expect(args).toContain('--tmpfs=/workspace:rw,exec,nosuid,nodev');
+    const envFile = vi.mocked(fs.writeFileSync).mock.calls.find(([file]) => String(file).endsWith('.env'));
+    expect(String(envFile![1])).toContain('HTTPS_PROXY=http://egress-proxy:3128\n');
+
+    expect(calls.slice(-2)).toEqual([['rm', '-f', network], ['network', 'rm', network]]);
+  });
+
+  it('fails the run without starting it when the egress proxy cannot start', async () => {
+    execaMock.mockImplementation(((_cmd: string, args: string[]) =>
+      Promise.resolve(args[0] === 'run'
+        ? { stdout: '', stderr: 'Unable to find image', exitCode: 125 }
+        : { stdout: '', stderr: '', exitCode: 0 })) as any);
+
+    const result = await runJob(makeConfig(), pipelineJob({ security: 'strict' }));
+
+    expect(result.success).toBe(false);
+    expect(result.output).toBe('docker run -d failed: Unable to find image');
+    const calls = dockerCalls();
+    expect(calls.filter((args) => args[0] === 'run')).toHaveLength(1);
+    expect(calls.slice(-2)).toEqual([['rm', '-f', expect.stringMatching(/^oven_egress_/)], ['network', 'rm', expect.stringMatching(/^oven_egress_/)]]);
+  });
+
+  it('removes the egress proxy of detached runs when they finish', async () => {
+    const child = new FakeChild();
+    spawnMock.mockReturnValue(child as any);
+
+    const resultPromise = runJob(makeConfig(), pipelineJob({ security: 'strict' }), { detach: true });
+    await vi.waitFor(() => expect(spawnMock).toHaveBeenCalled());
+    child.emit('exit', 1, null);
+    const result = await resultPromise;
+
+    const script = spawnMock.mock.calls[0][1]![1];
+    const network = `oven_egress_${result.runId!.slice(0, 8)}`;
+    expect(script).toContain(`docker rm -f '${network}' >/dev/null 2>&1; docker network rm '${network}'`);
+  });
+});
+
+describe('job env', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.mocked(fs.existsSync).mockReturnValue(false);
+    execaMock.mockResolvedValue({ stdout: '', stderr: '', exitCode: 0 } as any);
+    process.env.OVEN_TEST_TOKEN = 'host-secret';
+  });
+
+  afterEach(() => {
+    delete process.env.OVEN_TEST_TOKEN;
+  });
+
+  function dockerRunArgs(): string[] {
+    const call = execaMock.mock.calls.find(([, args]) => (args as string[])[0] === 'run');
+    return call![1] as string[];
+  }
+
+  function writtenFile(suffix: string): string {
+    const call = vi.mocked(fs.writeFileSync).mock.calls.find(([file]) => String(file).endsWith(suffix));
+    return String(call?.[1] ?? '');
+  }
+
+  it('passes resolved env through an env file, not the command line', async () => {
+    const job = makeDockerJob({ env: { LEVEL: 'debug', TOKEN: { fromEnv: 'OVEN_TEST_TOKEN' } } });
+
+    await runJob(makeConfig(), job);
+
+    const args = dockerRunArgs();
+    const envFileArg = args.find((a) => a.startsWith('--env-file='))!;
+    const envDir = path.join(os.tmpdir(), 'agent-oven-env-Ab12Cd');
+    expect(envFileArg).toBe(`--env-file=${path.join(envDir, 'run.env')}`);
+    expect(args).not.toContain('-e');
+    expect(writtenFile('.env')).toBe('LEVEL=debug\nTOKEN=host-secret\n');
+    expect(vi.mocked(fs.writeFileSync)).toHaveBeenCalledWith(envFileArg.slice('--env-file='.length), expect.any(String), { mode: 0o600, flag: 'wx' });
+    expect(fs.rmSync).toHaveBeenCalledWith(envDir, { recursive: true, force: true });
+  });
+
+  it('removes the env file of detached runs when they finish', async () => {
+    const child = new FakeChild();
+    spawnMock.mockReturnValue(child as any);
+
+    const resultPromise = runJob(makeConfig(), makeDockerJob({ env: { LEVEL: 'debug' } }), { detach: true });
+    await vi.waitFor(() => expect(spawnMock).toHaveBeenCalled());
+    child.emit('exit', 1, null);
+    await resultPromise;
+
+    const script = spawnMock.mock.calls[0][1]![1];
+    expect(script).toContain(`rm -rf '${path.join(os.tmpdir(), 'agent-oven-env-Ab12Cd')}'`);
+    expect(script).not.toMatch(/logs\/jobs\/[^']*\.env/);
+  });
+
+  it('names env vars in the log header without their values', async () => {
+    const job = makeDockerJob({ env: { LEVEL: 'debug', TOKEN: { fromEnv: 'OVEN_TEST_TOKEN' } } });
+
+    await runJob(makeConfig(), job);
+
+    const header = writtenFile('.log');
+    expect(header).toContain('=== Env: LEVEL, TOKEN (host env OVEN_TEST_TOKEN) ===');
+    expect(header).not.toContain('debug');
+    expect(header).not.toContain('host-secret');
+  });
+
+  it('writes api-key auth values to the env file', async () => {
+    const job = makePipelineJob({
+      auth: 'api-key',
+      env: { ANTHROPIC_API_KEY: 'sk-test', GH_TOKEN: { fromEnv: 'OVEN_TEST_TOKEN' } },
+    });
+
+    await runJob(makeConfig(), job);
+
+    expect(writtenFile('.env')).toBe('ANTHROPIC_API_KEY=sk-test\nGH_TOKEN=host-secret\n');
+    expect(dockerRunArgs().join(' ')).not.toContain('sk-test');
+    expect(writtenFile('.log')).not.toContain('sk-test');
+  });
+
+  it('fails the run without starting docker when a reference cannot be resolved', async () => {
+    const job = makeDockerJob({ env: { TOKEN: { fromEnv: 'OVEN_TEST_MISSING' } } });
+
+    const result = await runJob(makeConfig(), job);
+
+    expect(result.success).toBe(false);
+    expect(result.output).toBe('Env var TOKEN: Host env var OVEN_TEST_MISSING is not set');
+    expect(execaMock.mock.calls.some(([, args]) => (args as string[])[0] === 'run')).toBe(false);
+    expect(writtenFile('.log')).toContain('=== Error: Env resolution failed ===');
+  });
+});
+
+describe('redaction', () => {
+  const KEY = 'sk-test-anthropic-key';
+  const TOKEN = 'gh-test-token-value';
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.mocked(fs.existsSync).mockReturnValue(false);
+  });
+
+  /** Everything written to disk except the env file docker reads the values from */
+  function writtenToDisk(): string {
+    return [...vi.mocked(fs.writeFileSync).mock.calls, ...vi.mocked(fs.appendFileSync).mock.calls]
+      .filter(([file]) => !String(file).endsWith('.env'))
+      .map(([, content]) => String(content))
+      .join('\n');
+  }
+
+  function apiKeyJob() {
+    return makePipelineJob({ auth: 'api-key', env: { ANTHROPIC_API_KEY: KEY, GH_TOKEN: TOKEN } });
+  }
+
+  it('keeps api-key mode values out of logs and run history when output echoes them', async () => {
+    execaMock.mockImplementation(((_cmd: string, args: string[]) => {
+      if (args[0] !== 'run') return Promise.resolve({ stdout: '', stderr: '', exitCode: 0 });
+      return streamingRun({ stdout: `using key ${KEY}\n`, stderr: `token=${TOKEN}`, exitCode: 1 });
+    }) as any);
+
+    const result = await runJob(makeConfig(), apiKeyJob());
+
+    const disk = writtenToDisk();
+    expect(disk).toContain('using key [REDACTED]');
+    expect(disk).not.toContain(KEY);
+    expect(disk).not.toContain(TOKEN);
+    expect(result.output).not.toContain(KEY);
+  });
+
+  it('masks values in docker errors', async () => {
+    execaMock.mockImplementation((async (_cmd: string, args: string[]) => {
+      if (args[0] !== 'run') return { stdout: '', stderr: '', exitCode: 0 };
+      throw Object.assign(new Error(`docker failed with ${KEY}`), { exitCode: 125, stderr: `bad ${TOKEN}` });
+    }) as any);
+
+    const result = await runJob(makeConfig(), apiKeyJob());
+
+    expect(writtenToDisk()).not.toMatch(new RegExp(`${KEY}|${TOKEN}`));
+    expect(result.output).toBe('bad [REDACTED]');
+  });
+
+  it('filters detached output and passes the rules outside the command line', async () => {
+    const child = new FakeChild();
+    spawnMock.mockReturnValue(child as any);
+
+    const resultPromise = runJob(makeConfig(), apiKeyJob(), { detach: true });
+    child.emit('exit', 1, null);
+    await resultPromise;
+
+    const [, shellArgs, spawnOptions] = spawnMock.mock.calls[0] as any[];
+    expect(shellArgs[1]).toContain("'stderr' 'text' >&4 )");
+    expect(shellArgs[1]).toContain("'stderr' 'text' >&4 )");
+    expect(shellArgs[1]).not.toContain(KEY);
+    expect(JSON.parse(spawnOptions.env.AGENT_OVEN_REDACT).values).toEqual(expect.arrayContaining([KEY, TOKEN]));
+    expect(writtenToDisk()).not.toContain(KEY);
+  });
+});
+
+describe('streaming output', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.mocked(fs.existsSync).mockReturnValue(false);
+    execaMock.mockImplementation(((_cmd: string, args: string[]) => {
+      if (args[0] !== 'run') return Promise.resolve({ stdout: '', stderr: '', exitCode: 0 });
+      return streamingRun({ stdout: 'first\nsecond\n', stderr: 'warning: slow\n' });
+    }) as any);
+  });
+
+  function appendedLines(): string[] {
+    return vi.mocked(fs.appendFileSync).mock.calls.flatMap(([, content]) => String(content).split('\n'));
+  }
+
+  it('appends each line to the log with its time and stream', async () => {
+    await runJob(makeConfig(), makeDockerJob());
+
+    const lines = appendedLines();
+    expect(lines).toContainEqual(expect.stringMatching(/^\d{4}-\d\d-\d\dT[\d:.]+Z stdout \| first$/));
+    expect(lines).toContainEqual(expect.stringMatching(/ stdout \| second$/));
+    expect(lines).toContainEqual(expect.stringMatching(/ stderr \| warning: slow$/));
+    expect(lines.findIndex((line) => line.endsWith('| second')))
+      .toBeLessThan(lines.findIndex((line) => line.startsWith('=== Finished')));
+  });
+
+  it('passes each line to onOutput and returns stdout as the output', async () => {
+    const onOutput = vi.fn();
+    const result = await runJob(makeConfig(), makeDockerJob(), { onOutput });
+
+    expect(onOutput.mock.calls.map(([line]) => `${line.stream}:${line.text}`).sort())
+      .toEqual(['stderr:warning: slow', 'stdout:first', 'stdout:second']);
+    expect(result.success).toBe(true);
+    expect(result.output).toBe('first\nsecond');
+  });
+
+  it('records a failure when docker cannot be started', async () => {
+    execaMock.mockImplementation(((_cmd: string, args: string[]) => {
+      if (args[0] !== 'run') return Promise.resolve({ stdout: '', stderr: '', exitCode: 0 });
+      return Promise.resolve({ failed: true, timedOut: false, shortMessage: 'spawn docker ENOENT' });
+    }) as any);
+
+    const result = await runJob(makeConfig(), makeDockerJob());
+
+    expect(result.success).toBe(false);
+    expect(result.exitCode).toBe(1);
+    expect(result.output).toBe('spawn docker ENOENT');
+  });
+});
+
+/** `docker inspect` output for a finished container */
+function containerState(overrides: Record<string, unknown> = {}): string {
+  return JSON.stringify({
+    status: 'exited',
+    exitCode: 0,
+    oomKilled: false,
+    error: '',
+    startedAt: '2026-01-15T09:00:00.5Z',
+    finishedAt: '2026-01-15T09:01:00Z',
+    ...overrides,
+  }) + '\n';
+}
+
+describe('structured logs', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.mocked(fs.existsSync).mockReturnValue(false);
+    execaMock.mockImplementation(((_cmd: string, args: string[]) => {
+      if (args[0] === 'run') return streamingRun({ stdout: 'hello\n', exitCode: 137 });
+      if (args[0] === 'inspect') return Promise.resolve({ stdout: containerState({ exitCode: 137, oomKilled: true }), exitCode: 0 });
+      return Promise.resolve({ stdout: '', stderr: '', exitCode: 0 });
+    }) as any);
+  });
+
+  function writtenEvents(): any[] {
+    return [...vi.mocked(fs.writeFileSync).mock.calls, ...vi.mocked(fs.appendFileSync).mock.calls]
+      .filter(([file]) => /\/logs\/jobs\/.*\.jsonl$/.test(String(file)))
+      .flatMap(([, content]) => String(content).trimEnd().split('\n'))
+      .map((line) => JSON.parse(line));
+  }
+
+  it('writes a .jsonl log of events with logFormat jsonl', async () => {
+    const result = await runJob(makeConfig({ logFormat: 'jsonl' }), makeDockerJob({ env: { MODE: 'fast' } }));
+
+    expect(result.logFile).toMatch(/\.jsonl$/);
+    const events = writtenEvents();
+    expect(events.map((event) => event.type)).toEqual(['run_started', 'output', 'run_finished']);
+    expect(events[0]).toMatchObject({
+      jobId: 'test-docker',
+      jobType: 'docker',
+      runId: result.runId,
+      image: 'alpine',
+      env: ['MODE'],
+      args: expect.arrayContaining(['alpine']),
+    });
+    expect(events[1]).toMatchObject({ stream: 'stdout', text: 'hello' });
+    expect(events[2]).toMatchObject({ exitCode: 137, oomKilled: true, durationMs: expect.any(Number) });
+  });
+
+  it('notes an OOM kill in text logs', async () => {
+    await runJob(makeConfig(), makeDockerJob());
+
+    expect(vi.mocked(fs.appendFileSync).mock.calls.map(([, content]) => String(content)).join(''))
+      .toContain('=== OOM Killed ===');
+  });
+
+  it('writes the detached finish as a run_finished event', async () => {
+    const child = new FakeChild();
+    spawnMock.mockReturnValue(child as any);
+
+    const resultPromise = runJob(makeConfig({ logFormat: 'jsonl' }), makeDockerJob(), { detach: true });
+    child.emit('exit', 1, null);
+    await resultPromise;
+
+    const script = (spawnMock.mock.calls[0] as any[])[1][1] as string;
+    expect(script).toContain("'stdout' 'jsonl'");
+    expect(script).toContain('{"type":"run_finished"');
+  });
+});
+
+describe('container lifecycle', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.mocked(fs.existsSync).mockReturnValue(false);
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  /** Run history events appended while the test ran */
+  function historyEvents(): any[] {
+    return vi.mocked(fs.appendFileSync).mock.calls
+      .filter(([file]) => String(file).endsWith('runs.jsonl'))
+      .map(([, content]) => JSON.parse(String(content)));
+  }
+
+  it('records the final state of the container in the run history, then removes it', async () => {
+    execaMock.mockImplementation(((_cmd: string, args: string[]) => {
+      if (args[0] === 'run') return streamingRun({ exitCode: 2 });
+      if (args[0] === 'inspect') return Promise.resolve({ stdout: containerState({ exitCode: 2 }), exitCode: 0 });
+      return Promise.resolve({ stdout: '', stderr: '', exitCode: 0 });
+    }) as any);
+
+    const result = await runJob(makeConfig(), makeDockerJob());
+
+    const runArgs = execaMock.mock.calls.find(([, args]) => (args as string[])[0] === 'run')![1] as string[];
+    const name = runArgs.find((arg) => arg.startsWith('--name='))!.slice('--name='.length);
+    expect(runArgs).not.toContain('--rm');
+    expect(execaMock).toHaveBeenCalledWith('docker', ['inspect', '--format', expect.stringContaining('.State.OOMKilled'), name], expect.anything());
+    expect(execaMock).toHaveBeenCalledWith('docker', ['rm', '-f', name], expect.anything());
+
+    const finish = historyEvents().find((event) => event.exitCode !== undefined);
+    expect(finish).toMatchObject({ runId: result.runId, exitCode: 2, container: { status: 'exited', exitCode: 2, oomKilled: false } });
+    expect(finish).not.toHaveProperty('timedOut');
+  });
+
+  it('stops the container itself when the run times out', async () => {
+    vi.useFakeTimers({ toFake: ['setTimeout', 'clearTimeout'] });
+    let exit: (code: number) => void = () => {};
+    execaMock.mockImplementation(((_cmd: string, args: string[]) => {
+      if (args[0] === 'run') {
+        const done = new Promise((resolve) => {
+          exit = (exitCode) => resolve({ exitCode, failed: true, timedOut: false });
+        });
+        return Object.assign(done, { stdout: Readable.from([]), stderr: Readable.from([]), kill: vi.fn() });
+      }
+      if (args[0] === 'stop') {
+        exit(143);
+        return Promise.resolve({ exitCode: 0 });
+      }
+      if (args[0] === 'inspect') return Promise.resolve({ stdout: containerState({ exitCode: 143 }), exitCode: 0 });
+      return Promise.resolve({ stdout: '', stderr: '', exitCode: 0 });
+    }) as any);
+
+    const resultPromise = runJob(makeConfig(), makeDockerJob({ resources: { timeout: 60 } }));
+    await vi.advanceTimersByTimeAsync(60_000);
+    const result = await resultPromise;
+
+    expect(execaMock).toHaveBeenCalledWith('docker', ['stop', '--time=10', expect.stringMatching(/^oven-test-docker-/)], expect.anything());
+    expect(result).toMatchObject({ success: false, exitCode: 143 });
+    expect(historyEvents().find((event) => event.exitCode !== undefined))
+      .toMatchObject({ exitCode: 143, timedOut: true, error: 'Timed out after 60s' });
+  });
+
+  it('kills the docker client when there is no container to stop yet', async () => {
+    vi.useFakeTimers({ toFake: ['setTimeout', 'clearTimeout'] });
+    let exit: (code: number) => void = () => {};
+    const kill = vi.fn(() => {
+      exit(143);
+      return true;
+    });
+    execaMock.mockImplementation(((_cmd: string, args: string[]) => {
+      if (args[0] === 'run') {
+        const done = new Promise((resolve) => {
+          exit = (exitCode) => resolve({ exitCode, failed: true, timedOut: false });
+        });
+        return Object.assign(done, { stdout: Readable.from([]), stderr: Readable.from([]), kill });
+      }
+      if (args[0] === 'stop') return Promise.resolve({ exitCode: 1, stderr: 'No such container' });
+      return Promise.resolve({ stdout: '', stderr: '', exitCode: 1 });
+    }) as any);
+
+    const resultPromise = runJob(makeConfig(), makeDockerJob({ resources: { timeout: 5 } }));
+    await vi.advanceTimersByTimeAsync(5_000);
+    await resultPromise;
+
+    expect(kill).toHaveBeenCalled();
+    expect(historyEvents().find((event) => event.exitCode !== undefined)).toMatchObject({ timedOut: true });
+  });
+
+  it('records why runs failed before docker was started', async () => {
+    execaMock.mockResolvedValue({ stdout: '', stderr: '', exitCode: 0 } as any);
+
+    await runJob(makeConfig(), makePipelineJob()); // no host credentials
+    await runJob(makeConfig(), makeDockerJob({ env: { TOKEN: { secret: 'missing' } } }));
+
+    expect(historyEvents().map((event) => event.failureReason)).toEqual(['auth-error', 'startup-error']);
+  });
+
+  it('enforces the timeout of detached runs with a watchdog', async () => {
+    const child = new FakeChild();
+    spawnMock.mockReturnValue(child as any);
+
+    const resultPromise = runJob(makeConfig(), makeDockerJob({ resources: { timeout: 90 } }), { detach: true });
+    child.emit('exit', 1, null);
+    await resultPromise;
+
+    const script = (spawnMock.mock.calls[0] as any[])[1][1] as string;
+    expect(script).toMatch(/^\(sleep 90; touch '[^']+\.timeout'; docker stop --time=10 'oven-test-docker-/);
+    expect(script).toContain('"timedOut":%s,"container":%s');
+  });
+
+  it('appends the detached finish to the run history through its lock', async () => {
+    const child = new FakeChild();
+    spawnMock.mockReturnValue(child as any);
+
+    const config = makeConfig();
+    const resultPromise = runJob(config, makeDockerJob(), { detach: true });
+    child.emit('exit', 1, null);
+    await resultPromise;
+
+    const script = (spawnMock.mock.calls[0] as any[])[1][1] as string;
+    const historyPath = path.join(config.projectDir, 'logs', 'runs.jsonl');
+    const append = script.split('\n').find((line) => line.startsWith(`printf '%s\\n' "$EVENT" |`))!;
+    expect(append).toContain('m.appendHistoryLines(process.argv[1], lines)');
+    expect(append).toMatch(new RegExp(`'${historyPath}' 2>/dev/null \\|\\| printf '%s\\\\n' "\\$EVENT" >> '${historyPath}'$`));
+  });
+});
+
+describe('removeLeakedContainers', () => {
+  const NOW = Date.parse('2026-03-01T12:00:00Z');
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  /** Answer the docker commands housekeeping runs */
+  function mockDocker(output: { running?: string; exited?: string; inspect?: string; proxies?: string; networks?: string; psExitCode?: number }) {
+    execaMock.mockImplementation(((_cmd: string, args: string[]) => {
+      const reply = (stdout = '', exitCode = 0) => Promise.resolve({ stdout, stderr: '', exitCode });
+      if (args[0] === 'ps' && args.includes('label=agent-oven.run')) return reply(output.running, output.psExitCode);
+      if (args[0] === 'ps' && args.includes('label=agent-oven.job')) return reply(output.exited);
+      if (args[0] === 'ps' && args.includes('label=agent-oven.egress')) return reply(output.proxies);
+      if (args[0] === 'network' && args[1] === 'ls') return reply(output.networks);
+      if (args[0] === 'inspect') return reply(output.inspect);
+      return reply();
+    }) as any);
+  }
+
+  it('removes job containers that exited a while ago, keeping recent ones for their run to read', async () => {
+    mockDocker({
+      exited: 'oven-old-1\noven-new-2',
+      inspect: '/oven-old-1\t2026-03-01T11:00:00.123456789Z\n/oven-new-2\t2026-03-01T11:58:00Z',
+    });
+
+    const removed = await removeLeakedContainers(NOW);
+
+    expect(removed).toEqual({ containers: ['oven-old-1'], egressProxies: [] });
+    expect(execaMock).toHaveBeenCalledWith('docker', ['rm', '-f', 'oven-old-1'], expect.anything());
+  });
+
+  it('removes the egress proxies and networks of runs that are no longer running', async () => {
+    mockDocker({
+      running: 'run-active',
+      proxies: [
+        'oven_egress_run-acti\trun-active\t2026-03-01 10:00:00 +0000 UTC',
+        'oven_egress_run-gone\trun-gone\t2026-03-01 06:00:00 -0500 EST',
+        'oven_egress_run-new0\trun-new\t2026-03-01 11:50:00 +0000 UTC',
+      ].join('\n'),
+      networks: [
+        'oven_egress_run-gone\trun-gone\t2026-03-01 11:00:00.5 +0000 UTC',
+        'oven_egress_run-left\trun-left\t2026-03-01 10:00:00 +0000 UTC',
+      ].join('\n'),
+    });
+
+    const removed = await removeLeakedContainers(NOW);
+
+    expect(removed.egressProxies).toEqual(['oven_egress_run-gone', 'oven_egress_run-left']);
+    for (const name of removed.egressProxies) {
+      expect(execaMock).toHaveBeenCalledWith('docker', ['rm', '-f', name], expect.anything());
+      expect(execaMock).toHaveBeenCalledWith('docker', ['network', 'rm', name], expect.anything());
+    }
+    expect(execaMock).not.toHaveBeenCalledWith('docker', ['rm', '-f', 'oven_egress_run-acti'], expect.anything());
+  });
+
+  it('removes nothing when docker cannot tell which runs are active', async () => {
+    mockDocker({ psExitCode: 1, proxies: 'oven_egress_run-gone\trun-gone\t2026-03-01 06:00:00 +0000 UTC' });
+
+    await expect(removeLeakedContainers(NOW)).rejects.toThrow('docker ps failed');
+    expect(execaMock.mock.calls.some(([, args]) => (args as string[]).includes('rm'))).toBe(false);
+  });
+});
+
+describe('removeStaleEnvFiles', () => {
+  const NOW = new Date('2026-03-01T12:00:00Z');
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it('removes env directories older than an hour and env files left in the job logs', () => {
+    const config = makeConfig();
+    const jobsLogDir = path.join(config.projectDir, 'logs', 'jobs');
+    vi.mocked(fs.existsSync).mockReturnValue(true);
+    vi.mocked(fs.readdirSync).mockImplementation(((dir: string) => {
+      if (dir === os.tmpdir()) return ['agent-oven-env-old', 'agent-oven-env-new', 'agent-oven-abc', 'other'];
+      if (dir === jobsLogDir) return ['j'];
+      return ['20260301-100000.log', '20260301-100000.env'];
+    }) as any);
+    vi.mocked(fs.statSync).mockImplementation(((file: string) => ({
+      mtimeMs: NOW.getTime() - (file.endsWith('old') ? 2 : 0.5) * 60 * 60 * 1000,
+    })) as any);
+
+    expect(removeStaleEnvFiles(config, NOW)).toBe(2);
+
+    expect(vi.mocked(fs.rmSync).mock.calls).toEqual([
+      [path.join(os.tmpdir(), 'agent-oven-env-old'), { recursive: true, force: true }],
+      [path.join(jobsLogDir, 'j', '20260301-100000.env'), { force: true }],
+    ]);
+  });
+});
@@ -0,0 +1,297 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+
+// Lets a test look at the history lock the moment the pruned history replaces the store
+vi.mock('node:fs', async (importOriginal) => {
+  const actual = await importOriginal<typeof import('node:fs')>();
+  return { ...actual, renameSync: vi.fn(actual.renameSync) };
+});
+
+import * as fs from 'node:fs';
+import * as os from 'node:os';
+import * as path from 'node:path';
+import {
+  createRunId,
+  recordRunStart,
+  recordRunDetails,
+  recordRunFinish,
+  parseRunHistory,
+  readRunHistory,
+  listRuns,
+  getRunDuration,
+  getFailureReason,
+  getExitSignal,
+  importLegacyLogs,
+  pruneRunHistory,
+} from '../history.js';
+import { getRunHistoryPath } from '../config.js';
+import type { Config, RunRecord } from '../types.js';
+import { makeConfig } from './fixtures.js';
+
+let config: Config;
+
+beforeEach(() => {
+  const projectDir = fs.mkdtempSync(path.join(os.tmpdir(), 'oven-history-'));
+  config = makeConfig({ projectDir });
+});
+
+afterEach(() => {
+  fs.rmSync(config.projectDir, { recursive: true, force: true });
+});
+
+function startRun(overrides?: Partial<RunRecord>): RunRecord {
+  const record: RunRecord = {
+    runId: createRunId(),
+    jobId: 'job-a',
+    startedAt: '2025-06-15T10:00:00.000Z',
+    trigger: 'scheduler',
+    logFile: '/tmp/run.log',
+    ...overrides,
+  };
+  recordRunStart(config, record);
+  return record;
+}
+
+function writeLegacyLog(jobId: string, fileName: string, content: string): string {
+  const dir = path.join(config.projectDir, 'logs', 'jobs', jobId);
+  fs.mkdirSync(dir, { recursive: true });
+  const file = path.join(dir, fileName);
+  fs.writeFileSync(file, content);
+  return file;
+}
+
+// ─── recording ──────────────────────────────────────────────
+
+describe('run recording', () => {
+  it('generates unique run ids', () => {
+    expect(createRunId()).not.toBe(createRunId());
+  });
+
+  it('appends start and finish events to logs/runs.jsonl', () => {
+    const run = startRun();
+    recordRunFinish(config, run.runId, run.jobId, { exitCode: 0, finishedAt: '2025-06-15T10:01:30.000Z' });
+
+    const lines = fs.readFileSync(getRunHistoryPath(config), 'utf-8').trim().split('\n');
+    expect(lines).toHaveLength(2);
+    expect(JSON.parse(lines[1])).toMatchObject({ runId: run.runId, exitCode: 0 });
+  });
+
+  it('merges events for the same run', () => {
+    const run = startRun();
+    recordRunDetails(config, run.runId, run.jobId, { imageDigest: 'sha256:abc' });
+    recordRunFinish(config, run.runId, run.jobId, {
+      exitCode: 137,
+      containerId: 'c0ffee',
+      error: 'Timed out after 60s',
+      finishedAt: '2025-06-15T10:01:00.000Z',
+    });
+
+    const [record] = readRunHistory(config);
+    expect(record).toMatchObject({
+      runId: run.runId,
+      jobId: 'job-a',
+      trigger: 'scheduler',
+      imageDigest: 'sha256:abc',
+      containerId: 'c0ffee',
+      exitCode: 137,
+      error: 'Timed out after 60s',
+    });
+    expect(getRunDuration(record)).toBe(60_000);
+  });
+
+  it('leaves unfinished runs without exit code or duration', () => {
+    startRun();
+    const [record] = readRunHistory(config);
+    expect(record.exitCode).toBeUndefined();
+    expect(getRunDuration(record)).toBeUndefined();
+  });
+});
+
+// ─── reading ────────────────────────────────────────────────
+
+describe('parseRunHistory', () => {
+  it('skips malformed and partial lines', () => {
+    const content = [
+      JSON.stringify({ runId: 'r1', jobId: 'a', startedAt: '2025-01-01T00:00:00Z', logFile: 'x' }),
+      '{"runId":"r2","jobId"',
+      'not json',
+      '',
+    ].join('\n');
+    expect(parseRunHistory(content).map((r) => r.runId)).toEqual(['r1']);
+  });
+
+  it('ignores empty-string values written by the detached shell wrapper', () => {
+    const content = [
+      JSON.stringify({ runId: 'r1', jobId: 'a', startedAt: '2025-01-01T00:00:00Z', logFile: 'x' }),
+      JSON.stringify({ runId: 'r1', jobId: 'a', finishedAt: '2025-01-01T00:00:05Z', exitCode: 0, containerId: '' }),
+    ].join('\n');
+    const [record] = parseRunHistory(content);
+    expect(record.exitCode).toBe(0);
+    expect(record).not.toHaveProperty('containerId');
+  });
+
+  it('ignores a null container state when the container could not be inspected', () => {
+    const content = [
+      JSON.stringify({ runId: 'r1', jobId: 'a', startedAt: '2025-01-01T00:00:00Z', logFile: 'x' }),
+      '{"runId":"r1","jobId":"a","exitCode":125,"timedOut":false,"container":null}',
+    ].join('\n');
+    const [record] = parseRunHistory(content);
+    expect(record).not.toHaveProperty('container');
+    expect(record.timedOut).toBe(false);
+  });
+});
+
+// ─── failure classification ─────────────────────────────────
+
+describe('getFailureReason', () => {
+  const base: RunRecord = { runId: 'r1', jobId: 'a', startedAt: '2025-01-01T00:00:00Z', logFile: 'x' };
+  const container = {
+    status: 'exited',
+    exitCode: 1,
+    oomKilled: false,
+    error: '',
+    startedAt: '2025-01-01T00:00:01Z',
+    finishedAt: '2025-01-01T00:01:00Z',
+  };
+
+  it('has no reason for running and successful runs', () => {
+    expect(getFailureReason(base)).toBeUndefined();
+    expect(getFailureReason({ ...base, exitCode: 0, container: { ...container, exitCode: 0 } })).toBeUndefined();
+  });
+
+  it('prefers a recorded reason', () => {
+    expect(getFailureReason({ ...base, exitCode: 1, failureReason: 'auth-error' })).toBe('auth-error');
+  });
+
+  it('classifies timeouts before OOM kills', () => {
+    const oom = { ...container, exitCode: 137, oomKilled: true };
+    expect(getFailureReason({ ...base, exitCode: 137, timedOut: true, container: oom })).toBe('timeout');
+    expect(getFailureReason({ ...base, exitCode: 137, container: oom })).toBe('oom');
+  });
+
+  it('tells containers that never started from non-zero exits', () => {
+    const notStarted = { ...container, exitCode: 127, startedAt: '0001-01-01T00:00:00Z' };
+    expect(getFailureReason({ ...base, exitCode: 127, container: notStarted })).toBe('startup-error');
+    expect(getFailureReason({ ...base, exitCode: 1, container })).toBe('nonzero');
+  });
+
+  it('falls back to docker run exit codes without a container state', () => {
+    expect(getFailureReason({ ...base, exitCode: 125 })).toBe('startup-error');
+    expect(getFailureReason({ ...base, exitCode: 3 })).toBe('nonzero');
+  });
+});
+
+describe('getExitSignal', () => {
+  it('names the signal for exit codes above 128', () => {
+    expect(getExitSignal(137)).toBe('SIGKILL');
+    expect(getExitSignal(143)).toBe('SIGTERM');
+    expect(getExitSignal(1)).toBeUndefined();
+    expect(getExitSignal(undefined)).toBeUndefined();
+  });
+});
+
+describe('listRuns', () => {
+  it('returns runs newest first, filtered by job, limited', () => {
+    startRun({ runId: 'a1', jobId: 'job-a', startedAt: '2025-06-15T08:00:00.000Z' });
+    startRun({ runId: 'b1', jobId: 'job-b', startedAt: '2025-06-15T09:00:00.000Z' });
+    startRun({ runId: 'a2', jobId: 'job-a', startedAt: '2025-06-15T10:00:00.000Z' });
+    startRun({ runId: 'a3', jobId: 'job-a', startedAt: '2025-06-15T11:00:00.000Z' });
+
+    expect(listRuns(config).map((r) => r.runId)).toEqual(['a3', 'a2', 'b1', 'a1']);
+    expect(listRuns(config, { jobId: 'job-a', limit: 2 }).map((r) => r.runId)).toEqual(['a3', 'a2']);
+  });
+
+  it('returns an empty list without history or logs', () => {
+    expect(listRuns(config)).toEqual([]);
+  });
+});
+
+// ─── legacy import ──────────────────────────────────────────
+
+describe('importLegacyLogs', () => {
+  it('imports finished and running runs from log banners', () => {
+    const finished = writeLegacyLog('job-a', '20250615-100000.log', [
+      '=== Job: job-a ===',
+      '=== Started: 2025-06-15T17:00:00.000Z ===',
+      'hello',
+      '=== Finished: 2025-06-15T17:00:42.000Z ===',
+      '=== Exit Code: 2 ===',
+    ].join('\n'));
+    writeLegacyLog('job-b', '20250616-090000.log', '=== Job: job-b ===\n=== Started: 2025-06-16T16:00:00.000Z ===\n');
+
+    expect(importLegacyLogs(config)).toBe(2);
+
+    const runs = listRuns(config);
+    expect(runs[0].jobId).toBe('job-b');
+    expect(runs[0].exitCode).toBeUndefined();
+    expect(runs[1]).toMatchObject({
+      runId: 'legacy-job-a-20250615-100000',
+      jobId: 'job-a',
+      startedAt: '2025-06-15T17:00:00.000Z',
+      finishedAt: '2025-06-15T17:00:42.000Z',
+      exitCode: 2,
+      logFile: finished,
+    });
+    expect(runs[1].trigger).toBeUndefined();
+  });
+
+  it('falls back to the file name when the Started banner is missing', () => {
+    writeLegacyLog('job-a', '20250615-100000.log', 'output only\n=== Exit Code: 0 ===\n');
+    importLegacyLogs(config);
+
+    const [run] = listRuns(config);
+    expect(run.startedAt).toBe(new Date(2025, 5, 15, 10, 0, 0).toISOString());
+    expect(run.exitCode).toBe(0);
+  });
+
+  it('runs automatically on first read and only once', () => {
+    writeLegacyLog('job-a', '20250615-100000.log', '=== Exit Code: 0 ===\n');
+
+    expect(listRuns(config)).toHaveLength(1);
+    writeLegacyLog('job-a', '20250615-110000.log', '=== Exit Code: 0 ===\n');
+    expect(importLegacyLogs(config)).toBe(0);
+    expect(listRuns(config)).toHaveLength(1);
+  });
+});
+
+// ─── pruning ────────────────────────────────────────────────
+
+describe('pruneRunHistory', () => {
+  it('drops runs started before the cutoff and compacts events', () => {
+    const old = startRun({ runId: 'old', startedAt: '2025-01-01T00:00:00.000Z' });
+    recordRunFinish(config, old.runId, old.jobId, { exitCode: 0 });
+    const recent = startRun({ runId: 'recent', startedAt: '2025-06-01T00:00:00.000Z' });
+    recordRunFinish(config, recent.runId, recent.jobId, { exitCode: 1 });
+
+    expect(pruneRunHistory(config, new Date('2025-03-01T00:00:00Z'))).toBe(1);
+
+    const lines = fs.readFileSync(getRunHistoryPath(config), 'utf-8').trim().split('\n');
+    expect(lines).toHaveLength(1);
+    expect(JSON.parse(lines[0])).toMatchObject({ runId: 'recent', exitCode: 1 });
+  });
+
+  it('holds the history lock while the compacted file replaces the store', async () => {
+    const { renameSync } = await vi.importActual<typeof import('node:fs')>('node:fs');
+    const old = startRun({ runId: 'old', startedAt: '2025-01-01T00:00:00.000Z' });
+    recordRunFinish(config, old.runId, old.jobId, { exitCode: 0 });
+    startRun({ runId: 'running', startedAt: '2025-06-01T00:00:00.000Z' });
+    const lockPath = `${getRunHistoryPath(config)}.lock`;
+    let lockOwner: string | undefined;
+    vi.mocked(fs.renameSync).mockImplementationOnce((from, to) => {
+      lockOwner = fs.readFileSync(lockPath, 'utf-8');
+      renameSync(from, to);
+    });
+
+    expect(pruneRunHistory(config, new Date('2025-03-01T00:00:00Z'))).toBe(1);
+
+    expect(lockOwner).toBe(String(process.pid));
+    expect(fs.existsSync(lockPath)).toBe(false);
+    startRun({ runId: 'new', startedAt: '2025-06-02T00:00:00.000Z' });
+    expect(readRunHistory(config).map((r) => r.runId)).toEqual(['running', 'new']);
+    expect(fs.readdirSync(path.dirname(lockPath)).filter((f) => f.endsWith('.tmp'))).toEqual([]);
+  });
+
+  it('leaves the file untouched when nothing is pruned', () => {
+    startRun({ runId: 'recent', startedAt: '2025-06-01T00:00:00.000Z' });
+    expect(pruneRunHistory(config, new Date('2025-03-01T00:00:00Z'))).toBe(0);
+  });
+});
@@ -0,0 +1,333 @@
+import { vi } from 'vitest';
+import * as fs from 'node:fs';
+import * as os from 'node:os';
+import * as path from 'node:path';
+import { fileURLToPath } from 'node:url';
+
+vi.mock('execa', () => ({
+  execa: vi.fn(),
+}));
+
+import { execa } from 'execa';
+import {
+  getBuiltInImages,
+  getJobImages,
+  parseImageRef,
+  hashImageContext,
+  getJobImageTag,
+  buildJobImage,
+  pullImage,
+  getImageDigest,
+  listLocalImages,
+  summarizeImages,
+  findMissingImages,
+  findUnusedImages,
+  buildImage,
+  CONTEXT_HASH_LABEL,
+  type LocalImage,
+} from '../images.js';
+import { makeDockerJob, makePipelineJob } from './fixtures.js';
+
+const REPO_ROOT = path.resolve(path.dirname(fileURLToPath(import.meta.url)), '../../..');
+
+let projectDir: string;
+
+function writeImage(name: string, files: Record<string, string>): void {
+  const dir = path.join(projectDir, 'images', name);
+  fs.mkdirSync(dir, { recursive: true });
+  for (const [file, content] of Object.entries(files)) {
+    fs.mkdirSync(path.dirname(path.join(dir, file)), { recursive: true });
+    fs.writeFileSync(path.join(dir, file), content);
+  }
+}
+
+function localImage(name: string, overrides?: Partial<LocalImage>): LocalImage {
+  return { name, tag: 'latest', id: `sha256:${name}`, size: 1000, created: '2026-01-15T09:00:00Z', ...overrides };
+}
+
+beforeEach(() => {
+  vi.mocked(execa).mockReset();
+  projectDir = fs.mkdtempSync(path.join(os.tmpdir(), 'agent-oven-images-'));
+});
+
+afterEach(() => {
+  fs.rmSync(projectDir, { recursive: true, force: true });
+});
+
+// ─── getBuiltInImages ───────────────────────────────────────
+
+describe('getBuiltInImages', () => {
+  it('returns the images shipped in images/', () => {
+    const images = getBuiltInImages(REPO_ROOT);
+    expect(images).toContain('agent-oven/base-tasks');
+    expect(images).toContain('agent-oven/python-tasks');
+    expect(images).toContain('agent-oven/node-tasks');
+    expect(images).toContain('agent-oven/pipeline-runner');
+    expect(images).toHaveLength(4);
+  });
+
+  it('only counts directories with a Dockerfile', () => {
+    writeImage('tools', { Dockerfile: 'FROM alpine\n' });
+    writeImage('notes', { 'README.md': 'not an image' });
+    expect(getBuiltInImages(projectDir)).toEqual(['agent-oven/tools']);
+  });
+});
+
+// ─── References ─────────────────────────────────────────────
+
+describe('parseImageRef', () => {
+  it('defaults the tag to latest', () => {
+    expect(parseImageRef('agent-oven/base-tasks')).toEqual({ name: 'agent-oven/base-tasks', tag: 'latest' });
+    expect(parseImageRef('agent-oven/base-tasks:v2')).toEqual({ name: 'agent-oven/base-tasks', tag: 'v2' });
+    expect(parseImageRef('localhost:5000/tools')).toEqual({ name: 'localhost:5000/tools', tag: 'latest' });
+  });
+});
+
+describe('getJobImages', () => {
+  it('returns the agent-oven images a job runs', () => {
+    expect(getJobImages(projectDir, makeDockerJob({ image: 'agent-oven/base-tasks' }))).toEqual(['agent-oven/base-tasks:latest']);
+    expect(getJobImages(projectDir, makeDockerJob({ image: 'alpine' }))).toEqual([]);
+    expect(getJobImages(projectDir, makePipelineJob())).toEqual(['agent-oven/pipeline-runner:latest']);
+  });
+
+  it('includes the egress proxy image for strict jobs with allowed domains', () => {
+    expect(getJobImages(projectDir, makeDockerJob({ security: 'strict', allowedDomains: ['example.com'] })))
+      .toEqual(['agent-oven/pipeline-runner:latest']);
+    expect(getJobImages(projectDir, makeDockerJob({ security: 'strict' }))).toEqual([]);
+  });
+});
+
+// ─── Staleness ──────────────────────────────────────────────
+
+describe('hashImageContext', () => {
+  it('changes when any file in the build context changes', () => {
+    writeImage('tools', { Dockerfile: 'FROM alpine\n', 'entrypoint.sh': 'echo hi\n' });
+    const before = hashImageContext(projectDir, 'tools');
+    expect(hashImageContext(projectDir, 'tools')).toBe(before);
+
+    writeImage('tools', { 'entrypoint.sh': 'echo bye\n' });
+    expect(hashImageContext(projectDir, 'tools')).not.toBe(before);
+  });
+});
+
+describe('getJobImageTag', () => {
+  it('tags a job image with the hash of its context, Dockerfile and build args', () => {
+    writeImage('report', { Dockerfile: 'FROM python\n', 'requirements.txt': 'pandas\n' });
+    const build = { context: 'images/report' };
+    const tag = getJobImageTag(projectDir, 'Report', build);
+
+    expect(tag).toMatch(/^agent-oven\/job-report:[0-9a-f]{12}$/);
+    expect(getJobImageTag(projectDir, 'Report', build)).toBe(tag);
+    expect(getJobImageTag(projectDir, 'Report', { ...build, args: { EXTRA: 'numpy' } })).not.toBe(tag);
+
+    writeImage('report', { 'requirements.txt': 'pandas\nnumpy\n' });
+    expect(getJobImageTag(projectDir, 'Report', build)).not.toBe(tag);
+  });
+
+  it('leaves out the files the context\'s .dockerignore excludes', () => {
+    writeImage('report', {
+      Dockerfile: 'FROM python\n',
+      'main.py': 'print(1)\n',
+      '.dockerignore': '# build output\n/node_modules\n**/*.log\ncache/\n!cache/keep.txt\n',
+      'node_modules/dep/index.js': 'v1',
+      'logs/run.log': 'a',
+      'debug.log': 'a',
+      'cache/blob': 'a',
+      'cache/keep.txt': 'a',
+    });
+    const build = { context: 'images/report' };
+    const tag = getJobImageTag(projectDir, 'report', build);
+
+    writeImage('report', { 'node_modules/dep/index.js': 'v2', 'logs/run.log': 'b', 'debug.log': 'b', 'cache/blob': 'b' });
+    expect(getJobImageTag(projectDir, 'report', build)).toBe(tag);
+
+    writeImage('report', { 'cache/keep.txt': 'b' });
+    expect(getJobImageTag(projectDir, 'report', build)).not.toBe(tag);
+  });
+
+  it('throws when the context or Dockerfile is missing', () => {
+    expect(() => getJobImageTag(projectDir, 'report', { context: 'missing' })).toThrow('is not a directory');
+    writeImage('report', { 'requirements.txt': 'pandas\n' });
+    expect(() => getJobImageTag(projectDir, 'report', { context: 'images/report' })).toThrow('Dockerfile');
+  });
+});
+
+describe('summarizeImages', () => {
+  it('compares local images with their sources', () => {
+    writeImage('fresh', { Dockerfile: 'FROM alpine\n' });
+    writeImage('old', { Dockerfile: 'FROM alpine\n' });
+    writeImage('unbuilt', { Dockerfile: 'FROM alpine\n' });
+    writeImage('unlabeled', { Dockerfile: 'FROM alpine\n' });
+    const local = [
+      localImage('agent-oven/fresh', { contextHash: hashImageContext(projectDir, 'fresh') }),
+      localImage('agent-oven/old', { contextHash: 'abc' }),
+      localImage('agent-oven/unlabeled'),
+      localImage('agent-oven/custom'),
+    ];
+    const jobs = [makeDockerJob({ id: 'a', image: 'agent-oven/old' }), makeDockerJob({ id: 'b', image: 'agent-oven/old:latest' })];
+
+    expect(summarizeImages(projectDir, local, jobs).map((s) => [s.ref, s.status, s.usedBy])).toEqual([
+      ['agent-oven/custom:latest', 'no-source', []],
+      ['agent-oven/fresh:latest', 'up-to-date', []],
+      ['agent-oven/old:latest', 'stale', ['a', 'b']],
+      ['agent-oven/unbuilt:latest', 'not-built', []],
+      ['agent-oven/unlabeled:latest', 'unknown', []],
+    ]);
+  });
+});
+
+describe('findMissingImages', () => {
+  it('groups the jobs using each missing image and names the built-in image to build', () => {
+    writeImage('pipeline-runner', { Dockerfile: 'FROM node\n' });
+    const jobs = [
+      makePipelineJob({ id: 'p1' }),
+      makePipelineJob({ id: 'p2' }),
+      makeDockerJob({ id: 'd1', image: 'agent-oven/custom' }),
+      makeDockerJob({ id: 'd2', image: 'agent-oven/base-tasks' }),
+      makeDockerJob({ id: 'd3', image: 'alpine' }),
+    ];
+
+    expect(findMissingImages(projectDir, jobs, [localImage('agent-oven/base-tasks')])).toEqual([
+      { ref: 'agent-oven/pipeline-runner:latest', buildName: 'pipeline-runner', jobIds: ['p1', 'p2'] },
+      { ref: 'agent-oven/custom:latest', jobIds: ['d1'] },
+    ]);
+  });
+});
+
+describe('findMissingImages with job builds', () => {
+  it('leaves out images jobs build when they run', () => {
+    writeImage('report', { Dockerfile: 'FROM python\n' });
+    const job = makeDockerJob({ id: 'report', image: undefined, build: { context: 'images/report' } });
+
+    expect(getJobImages(projectDir, job)).toEqual([getJobImageTag(projectDir, 'report', { context: 'images/report' })]);
+    expect(findMissingImages(projectDir, [job], [])).toEqual([]);
+  });
+
+  it('uses the build tags it is given instead of hashing the build context again', () => {
+    const job = makeDockerJob({ id: 'report', image: undefined, build: { context: 'images/missing' } });
+    const buildTags = new Map([['report', 'agent-oven/job-report:0123456789ab']]);
+
+    expect(getJobImages(projectDir, job, buildTags)).toEqual(['agent-oven/job-report:0123456789ab']);
+    expect(findMissingImages(projectDir, [job], [], buildTags)).toEqual([]);
+  });
+});
+
+describe('findUnusedImages', () => {
+  it('includes images built from earlier versions of a job\'s build context', () => {
+    writeImage('report', { Dockerfile: 'FROM python\n' });
+    const job = makeDockerJob({ id: 'report', image: undefined, build: { context: 'images/report' } });
+    const current = parseImageRef(getJobImageTag(projectDir, 'report', { context: 'images/report' }));
+    const local = [localImage(current.name, { tag: current.tag }), localImage(current.name, { tag: 'aaaaaaaaaaaa' })];
+
+    expect(findUnusedImages(projectDir, [job], local).map((i) => i.tag)).toEqual(['aaaaaaaaaaaa']);
+  });
+
+  it('keeps images jobs use, and built-in images unless asked', () => {
+    writeImage('base-tasks', { Dockerfile: 'FROM alpine\n' });
+    const local = [localImage('agent-oven/base-tasks'), localImage('agent-oven/custom'), localImage('agent-oven/old-tool')];
+    const jobs = [makeDockerJob({ image: 'agent-oven/custom' })];
+
+    expect(findUnusedImages(projectDir, jobs, local).map((i) => i.name)).toEqual(['agent-oven/old-tool']);
+    expect(findUnusedImages(projectDir, jobs, local, true).map((i) => i.name))
+      .toEqual(['agent-oven/base-tasks', 'agent-oven/old-tool']);
+  });
+});
+
+// ─── Docker ─────────────────────────────────────────────────
+
+describe('listLocalImages', () => {
+  it('lists each agent-oven tag with its size, build date and context hash', async () => {
+    vi.mocked(execa)
+      .mockResolvedValueOnce({ exitCode: 0, stdout: 'sha256:aaa\nsha256:bbb\n', stderr: '' } as never)
+      .mockResolvedValueOnce({
+        exitCode: 0,
+        stdout: [
+          `["agent-oven/base-tasks:latest","mirror/base:1"]\tsha256:aaa\t2026-01-15T09:00:00Z\t7800000\t{"${CONTEXT_HASH_LABEL}":"abc"}`,
+          '["agent-oven/custom:v2"]\tsha256:bbb\t2026-01-10T09:00:00Z\t1200\tnull',
+        ].join('\n'),
+        stderr: '',
+      } as never);
+
+    expect(await listLocalImages()).toEqual([
+      {
+        name: 'agent-oven/base-tasks',
+        tag: 'latest',
+        id: 'sha256:aaa',
+        size: 7800000,
+        created: '2026-01-15T09:00:00Z',
+        contextHash: 'abc',
+      },
+      { name: 'agent-oven/custom', tag: 'v2', id: 'sha256:bbb', size: 1200, created: '2026-01-10T09:00:00Z' },
+    ]);
+    expect(vi.mocked(execa).mock.calls[1][1]).toEqual(expect.arrayContaining(['sha256:aaa', 'sha256:bbb']));
+  });
+
+  it('throws when docker cannot list images', async () => {
+    vi.mocked(execa).mockResolvedValueOnce({ exitCode: 1, stdout: '', stderr: 'Cannot connect' } as never);
+    await expect(listLocalImages()).rejects.toThrow('docker image ls failed: Cannot connect');
+  });
+});
+
+describe('buildImage', () => {
+  it('labels the image with its context hash, and skips the cache on rebuild', async () => {
+    writeImage('tools', { Dockerfile: 'FROM alpine\n' });
+    vi.mocked(execa).mockReturnValue(Promise.resolve({ exitCode: 0 }) as never);
+
+    expect(await buildImage(projectDir, 'tools', undefined, { rebuild: true })).toEqual({ success: true });
+    expect(vi.mocked(execa).mock.calls[0][1]).toEqual([
+      'build',
+      '-t', 'agent-oven/tools',
+      '--label', `${CONTEXT_HASH_LABEL}=${hashImageContext(projectDir, 'tools')}`,
+      '--pull', '--no-cache',
+      path.join(projectDir, 'images', 'tools'),
+    ]);
+  });
+});
+
+describe('buildJobImage', () => {
+  it('builds with the job\'s Dockerfile and build args', async () => {
+    vi.mocked(execa).mockReturnValue(Promise.resolve({ exitCode: 0 }) as never);
+
+    const build = { context: 'jobs/report', dockerfile: 'docker/Dockerfile', args: { EXTRA: 'pandas' } };
+    expect(await buildJobImage(projectDir, build, 'agent-oven/job-report:0123456789ab')).toEqual({ success: true });
+    expect(vi.mocked(execa).mock.calls[0][1]).toEqual([
+      'build',
+      '-t', 'agent-oven/job-report:0123456789ab',
+      '-f', path.join(projectDir, 'jobs/report/docker/Dockerfile'),
+      '--label', `${CONTEXT_HASH_LABEL}=0123456789ab`,
+      '--build-arg', 'EXTRA=pandas',
+      path.join(projectDir, 'jobs/report'),
+    ]);
+  });
+
+  it('describes a failed build by its exit code', async () => {
+    vi.mocked(execa).mockReturnValue(Promise.resolve({ exitCode: 1 }) as never);
+
+    expect(await buildJobImage(projectDir, { context: 'x' }, 'agent-oven/job-x:0')).toEqual({
+      success: false,
+      error: 'docker build failed (exit code 1)',
+    });
+  });
+});
+
+describe('pullImage', () => {
+  it('describes a failed pull by its exit code', async () => {
+    vi.mocked(execa).mockReturnValue(Promise.resolve({ exitCode: 1 }) as never);
+
+    expect(await pullImage('python:3.12')).toEqual({ success: false, error: 'docker pull failed (exit code 1)' });
+    expect(vi.mocked(execa).mock.calls[0][1]).toEqual(['pull', 'python:3.12']);
+  });
+});
+
+describe('getImageDigest', () => {
+  it('returns the repository digest of a local image, or undefined for a missing one', async () => {
+    vi.mocked(execa).mockResolvedValueOnce({ stdout: 'python@sha256:abc\n', exitCode: 0 } as never);
+    expect(await getImageDigest('python:3.12')).toBe('python@sha256:abc');
+    expect(vi.mocked(execa).mock.calls[0][1]).toEqual([
+      'image', 'inspect', '--format', '{{if .RepoDigests}}{{index .RepoDigests 0}}{{else}}{{.Id}}{{end}}', 'python:3.12',
+    ]);
+
+    vi.mocked(execa).mockResolvedValueOnce({ stdout: '', exitCode: 1 } as never);
+    expect(await getImageDigest('python:3.13')).toBeUndefined();
+  });
+});
@@ -0,0 +1,140 @@
+import { describe, expect, it } from 'vitest';
+import {
+  formatLogEvent,
+  getLogFormat,
+  isJobLogFile,
+  mapLogEventStrings,
+  parseLogEvents,
+  renderJobLog,
+  replaceLogExtension,
+} from '../job-log.js';
+import type { JobLogEvent } from '../types.js';
+
+const STARTED: JobLogEvent = {
+  type: 'run_started',
+  timestamp: '2026-01-15T09:00:00.000Z',
+  jobId: 'nightly',
+  jobType: 'agent-pipeline',
+  runId: 'run-1',
+  pipeline: 'review',
+  repo: 'https://github.com/org/repo',
+  branch: 'main',
+  authMode: 'api-key',
+  security: 'strict',
+  allowedDomains: ['api.anthropic.com', 'github.com'],
+  env: ['ANTHROPIC_API_KEY (auth)', 'SLACK_TOKEN (secret "slack")'],
+  image: 'agent-oven/pipeline-runner',
+  args: ['run', '--name=oven-nightly-run1', 'agent-oven/pipeline-runner'],
+};
+
+const EVENTS: JobLogEvent[] = [
+  STARTED,
+  { type: 'warning', timestamp: '2026-01-15T09:00:00.000Z', message: 'GH_TOKEN is not set' },
+  { type: 'output', timestamp: '2026-01-15T09:00:01.500Z', stream: 'stdout', text: 'Cloning...' },
+  { type: 'output', timestamp: '2026-01-15T09:00:02.000Z', stream: 'stderr', text: 'warning: slow' },
+  { type: 'run_finished', timestamp: '2026-01-15T09:05:00.000Z', exitCode: 137, durationMs: 300000, oomKilled: true },
+];
+
+// ─── File names ─────────────────────────────────────────────
+
+describe('log file names', () => {
+  it('tells the format from the extension', () => {
+    expect(getLogFormat('/logs/jobs/a/20260115-090000.log')).toBe('text');
+    expect(getLogFormat('/logs/jobs/a/20260115-090000.jsonl')).toBe('jsonl');
+  });
+
+  it('recognizes logs of both formats and nothing else', () => {
+    expect(['a.log', 'a.jsonl', 'a.cid', 'a.env', 'a.exit'].filter(isJobLogFile)).toEqual(['a.log', 'a.jsonl']);
+  });
+
+  it('replaces either extension', () => {
+    expect(replaceLogExtension('/x/20260115-090000.log', '.cid')).toBe('/x/20260115-090000.cid');
+    expect(replaceLogExtension('/x/20260115-090000.jsonl', '.env')).toBe('/x/20260115-090000.env');
+  });
+});
+
+// ─── formatLogEvent ─────────────────────────────────────────
+
+describe('formatLogEvent', () => {
+  it('writes text logs with banners and tagged output lines', () => {
+    expect(EVENTS.map((event) => formatLogEvent(event, 'text')).join('')).toBe([
+      '=== Job: nightly ===',
+      '=== Type: agent-pipeline ===',
+      '=== Pipeline: review ===',
+      '=== Repo: https://github.com/org/repo (main) ===',
+      '=== Auth: api-key ===',
+      '=== Security: strict (egress: api.anthropic.com, github.com) ===',
+      '=== Env: ANTHROPIC_API_KEY (auth), SLACK_TOKEN (secret "slack") ===',
+      '=== Started: 2026-01-15T09:00:00.000Z ===',
+      '=== Command: docker run --name=oven-nightly-run1 agent-oven/pipeline-runner ===',
+      '=== WARNING: GH_TOKEN is not set ===',
+      '2026-01-15T09:00:01.500Z stdout | Cloning...',
+      '2026-01-15T09:00:02.000Z stderr | warning: slow',
+      '',
+      '=== Finished: 2026-01-15T09:05:00.000Z ===',
+      '=== Exit Code: 137 ===',
+      '=== OOM Killed ===',
+      '',
+    ].join('\n'));
+  });
+
+  it('writes JSON-lines logs with one event per line', () => {
+    const content = EVENTS.map((event) => formatLogEvent(event, 'jsonl')).join('');
+
+    expect(content.trimEnd().split('\n')).toHaveLength(EVENTS.length);
+    expect(parseLogEvents(content)).toEqual(EVENTS);
+  });
+
+  it('shows the image digest when it was resolved before the run', () => {
+    const text = formatLogEvent({ ...STARTED, imageDigest: 'sha256:abc' }, 'text');
+    expect(text).toContain('=== Image: agent-oven/pipeline-runner (sha256:abc) ===\n=== Started:');
+  });
+
+  it('puts the detail of a failure before it is marked finished', () => {
+    const text = formatLogEvent({
+      type: 'run_finished',
+      timestamp: '2026-01-15T09:00:00.000Z',
+      exitCode: 1,
+      durationMs: 0,
+      error: 'Env resolution failed',
+      detail: 'Env var TOKEN: Secret "x" is not set',
+    }, 'text');
+
+    expect(text).toBe([
+      'Env var TOKEN: Secret "x" is not set',
+      '',
+      '=== Finished: 2026-01-15T09:00:00.000Z ===',
+      '=== Exit Code: 1 ===',
+      '=== Error: Env resolution failed ===',
+      '',
+    ].join('\n'));
+  });
+});
+
+// ─── Reading ────────────────────────────────────────────────
+
+describe('parseLogEvents', () => {
+  it('skips lines that are not events, such as a line still being written', () => {
+    const content = `${JSON.stringify(STARTED)}\nnot json\n{"text":"no type"}\n{"type":"output","timest`;
+    expect(parseLogEvents(content)).toEqual([STARTED]);
+  });
+});
+
+describe('renderJobLog', () => {
+  it('renders JSON-lines logs the way text logs are written', () => {
+    const jsonl = EVENTS.map((event) => formatLogEvent(event, 'jsonl')).join('');
+    const text = EVENTS.map((event) => formatLogEvent(event, 'text')).join('');
+
+    expect(renderJobLog(jsonl, 'jsonl')).toBe(text);
+    expect(renderJobLog(text, 'text')).toBe(text);
+  });
+});
+
+describe('mapLogEventStrings', () => {
+  it('applies the function to nested strings only', () => {
+    const masked = mapLogEventStrings(STARTED, (text) => text.replace('slack', '[REDACTED]'));
+
+    expect(masked).toMatchObject({ env: ['ANTHROPIC_API_KEY (auth)', 'SLACK_TOKEN (secret "[REDACTED]")'] });
+    expect(STARTED).toMatchObject({ env: ['ANTHROPIC_API_KEY (auth)', 'SLACK_TOKEN (secret "slack")'] });
+  });
+});
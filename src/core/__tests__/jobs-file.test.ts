@@ -0,0 +1,77 @@
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import * as fs from 'node:fs';
+import * as os from 'node:os';
+import * as path from 'node:path';
+import { addJob, listJobs, removeJob, updateJob, JOBS_FILE_BACKUPS } from '../jobs.js';
+import { getJobState } from '../state.js';
+import type { AddJobOptions, Config } from '../types.js';
+import { makeConfig, makeDockerJob } from './fixtures.js';
+
+// jobs.test.ts mocks node:fs; these tests exercise the on-disk write path
+
+let config: Config;
+let jobsPath: string;
+
+beforeEach(() => {
+  const projectDir = fs.mkdtempSync(path.join(os.tmpdir(), 'oven-jobs-'));
+  config = makeConfig({ projectDir });
+  jobsPath = path.join(projectDir, 'jobs.json');
+});
+
+afterEach(() => {
+  fs.rmSync(config.projectDir, { recursive: true, force: true });
+});
+
+describe('jobs.json writes', () => {
+  it('replaces the file without leaving temp or lock files behind', () => {
+    addJob(config, makeDockerJob({ id: 'a' }) as AddJobOptions);
+
+    expect(listJobs(config).map((job) => job.id)).toEqual(['a']);
+    expect(fs.readdirSync(config.projectDir).sort()).toEqual(['jobs.json']);
+  });
+
+  it('migrates last_run values into state.json once', () => {
+    const legacy = { ...makeDockerJob({ id: 'a' }), last_run: '2025-06-15T10:00:00Z' };
+    fs.writeFileSync(jobsPath, JSON.stringify({ jobs: [legacy] }));
+
+    expect(listJobs(config)[0]).not.toHaveProperty('last_run');
+    expect(getJobState(config, 'a').lastRun).toBe('2025-06-15T10:00:00Z');
+    expect(JSON.parse(fs.readFileSync(jobsPath, 'utf-8')).jobs[0]).not.toHaveProperty('last_run');
+  });
+
+  it('keeps the $schema reference', () => {
+    fs.writeFileSync(jobsPath, JSON.stringify({ $schema: './schema/jobs.schema.json', jobs: [] }));
+    addJob(config, makeDockerJob({ id: 'a' }) as AddJobOptions);
+
+    expect(JSON.parse(fs.readFileSync(jobsPath, 'utf-8')).$schema).toBe('./schema/jobs.schema.json');
+  });
+
+  it('keeps a rolling backup of previous versions', () => {
+    addJob(config, makeDockerJob({ id: 'a' }) as AddJobOptions);
+    for (let i = 0; i < JOBS_FILE_BACKUPS + 2; i++) {
+      updateJob(config, 'a', { name: `Version ${i}` });
+    }
+
+    const backupDir = path.join(config.projectDir, 'backups');
+    expect(fs.readdirSync(backupDir)).toHaveLength(JOBS_FILE_BACKUPS);
+    const newest = JSON.parse(fs.readFileSync(path.join(backupDir, 'jobs.json.1'), 'utf-8'));
+    expect(newest.jobs[0].name).toBe(`Version ${JOBS_FILE_BACKUPS}`);
+  });
+
+  it('refuses to edit a corrupt file and points at the backups', () => {
+    fs.writeFileSync(jobsPath, '{"jobs": [');
+
+    expect(() => addJob(config, makeDockerJob({ id: 'a' }) as AddJobOptions)).toThrow(
+      `Fix the file or restore a backup from ${path.join(config.projectDir, 'backups')}`,
+    );
+    expect(fs.readFileSync(jobsPath, 'utf-8')).toBe('{"jobs": [');
+  });
+
+  it('releases the lock when an edit fails', () => {
+    addJob(config, makeDockerJob({ id: 'a' }) as AddJobOptions);
+
+    expect(() => removeJob(config, 'ghost')).toThrow('not found');
+    expect(fs.existsSync(`${jobsPath}.lock`)).toBe(false);
+    expect(() => removeJob(config, 'a')).not.toThrow();
+  });
+});
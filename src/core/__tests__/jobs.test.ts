@@ -4,17 +4,17 @@ import * as fs from 'node:fs';
 
 import {
   validateJob,
-  getBuiltInImages,
   listJobs,
   getJob,
   addJob,
   updateJob,
   removeJob,
   toggleJob,
-  updateLastRun,
   getJobStats,
+  validateJobsDocument,
+  validateJobDocument,
 } from '../jobs.js';
-import type { Job, DockerJob, PipelineJob, AddJobOptions } from '../types.js';
+import type { Job, JobState, DockerJob, PipelineJob, AddJobOptions } from '../types.js';
 import { makeConfig, makeDockerJob, makePipelineJob } from './fixtures.js';
 
 // ─── validateJob ────────────────────────────────────────────
@@ -94,6 +94,39 @@ describe('validateJob', () => {
     expect(errors).toContain('Docker image is required');
   });
 
+  it('accepts a build config instead of an image', () => {
+    const { image, ...noImage } = validDockerJob;
+    expect(validateJob({ ...noImage, build: { context: 'jobs/report', args: { EXTRA: 'pandas' } } })).toEqual([]);
+  });
+
+  it('reports build configs that are incomplete or set alongside an image', () => {
+    expect(validateJob({ ...validDockerJob, build: { context: 'jobs/report' } }))
+      .toEqual(['Set either image or build, not both']);
+
+    const { image, ...noImage } = validDockerJob;
+    expect(validateJob({ ...noImage, build: { context: '', dockerfile: '', args: { 'BAD-NAME': 'x' } } })).toEqual([
+      'Build context is required',
+      'Dockerfile must be a non-empty path',
+      'Invalid build arg name "BAD-NAME"',
+    ]);
+  });
+
+  it('accepts a pull policy and digest pinning', () => {
+    expect(validateJob({ ...validDockerJob, pullPolicy: 'always', pinDigest: true })).toEqual([]);
+  });
+
+  it('reports invalid pull policies, and pulls or pins of built images', () => {
+    expect(validateJob({ ...validDockerJob, pullPolicy: 'sometimes' as never })).toEqual([
+      'Pull policy must be one of: always, if-not-present, never',
+    ]);
+
+    const { image, ...noImage } = validDockerJob;
+    expect(validateJob({ ...noImage, build: { context: 'jobs/report' }, pullPolicy: 'never', pinDigest: true })).toEqual([
+      'Pull policy does not apply to jobs that build their own image',
+      'Jobs that build their own image cannot pin its digest',
+    ]);
+  });
+
   // Docker-specific: missing command
   it('reports missing docker command', () => {
     const { command, ...noCommand } = validDockerJob;
@@ -131,7 +164,12 @@ describe('validateJob', () => {
   // Cron schedule with wrong fields
   it('reports cron with wrong number of fields', () => {
     const errors = validateJob({ ...validDockerJob, schedule: { type: 'cron', cron: '* * *' } });
-    expect(errors.some((e) => e.includes('5 fields'))).toBe(true);
+    expect(errors).toContain('Invalid cron expression: Expected 5 or 6 fields, got 3');
+  });
+
+  it('reports invalid cron fields', () => {
+    const errors = validateJob({ ...validDockerJob, schedule: { type: 'cron', cron: '0 25 * * *' } });
+    expect(errors).toContain('Invalid cron expression: hour: Value 25 out of range (0-23)');
   });
 
   // Once schedule with invalid datetime
@@ -178,6 +216,201 @@ describe('validateJob', () => {
     expect(errors).toEqual([]);
   });
 
+  // Schedule timezone validation
+  it('accepts a valid schedule timezone', () => {
+    const errors = validateJob({ ...validDockerJob, schedule: { type: 'cron', cron: '0 9 * * *', timezone: 'Europe/Berlin' } });
+    expect(errors).toEqual([]);
+  });
+
+  it('reports an invalid schedule timezone', () => {
+    const errors = validateJob({ ...validDockerJob, schedule: { type: 'cron', cron: '0 9 * * *', timezone: 'Nowhere/City' } });
+    expect(errors.some((e) => e.includes('Invalid schedule timezone'))).toBe(true);
+  });
+
+  // Notifications validation
+  it('accepts valid notification settings', () => {
+    const errors = validateJob({
+      ...validDockerJob,
+      notifications: { slack: 'https://hooks.slack.com/services/x', webhook: 'http://localhost:8080/hook', command: 'notify-send done' },
+    });
+    expect(errors).toEqual([]);
+  });
+
+  it('reports non-http notification URLs', () => {
+    const errors = validateJob({ ...validDockerJob, notifications: { slack: 'hooks.slack.com/x' } });
+    expect(errors).toContain('Notification slack must be an http(s) URL');
+  });
+
+  it('reports empty notification command', () => {
+    const errors = validateJob({ ...validDockerJob, notifications: { command: '  ' } });
+    expect(errors).toContain('Notification command must not be empty');
+  });
+
+  it('accepts each concurrency policy', () => {
+    for (const concurrencyPolicy of ['skip', 'queue', 'replace'] as const) {
+      expect(validateJob({ ...validDockerJob, concurrencyPolicy })).toEqual([]);
+    }
+  });
+
+  it('accepts a retry policy', () => {
+    const errors = validateJob({ ...validDockerJob, retry: { maxAttempts: 3, delay: 30, exitCodes: [75] } });
+    expect(errors).toEqual([]);
+  });
+
+  it('reports invalid retry policy', () => {
+    const errors = validateJob({ ...validDockerJob, retry: { maxAttempts: 0 } });
+    expect(errors).toContain('Retry maxAttempts must be a positive integer');
+  });
+
+  it('reports unknown concurrency policy', () => {
+    const errors = validateJob({ ...validDockerJob, concurrencyPolicy: 'parallel' as never });
+    expect(errors).toContain('Concurrency policy must be one of: skip, queue, replace');
+  });
+
+  it('accepts each catch-up policy', () => {
+    for (const catchUp of ['none', 'latest', 'all'] as const) {
+      expect(validateJob({ ...validDockerJob, catchUp })).toEqual([]);
+    }
+  });
+
+  it('reports unknown catch-up policy', () => {
+    const errors = validateJob({ ...validDockerJob, catchUp: 'oldest' as never });
+    expect(errors).toContain('Catch-up policy must be one of: none, latest, all');
+  });
+
+  it('accepts an after schedule', () => {
+    const schedule = { type: 'after' as const, jobs: ['fetch'], on: 'any' as const };
+    expect(validateJob({ ...validDockerJob, schedule })).toEqual([]);
+  });
+
+  it('reports an after schedule without upstream jobs', () => {
+    const errors = validateJob({ ...validDockerJob, schedule: { type: 'after', jobs: [] } });
+    expect(errors).toContain('At least one upstream job is required for an after schedule');
+  });
+
+  it('reports unknown dependency outcome', () => {
+    const errors = validateJob({ ...validDockerJob, schedule: { type: 'after', jobs: ['fetch'], on: 'done' as never } });
+    expect(errors).toContain('Dependency outcome must be one of: success, failure, any');
+  });
+
+  it('checks dependencies against the configured jobs when given', () => {
+    const fetch = makeDockerJob({ id: 'fetch', schedule: { type: 'after', jobs: ['my-job'] } });
+    const job = { ...validDockerJob, schedule: { type: 'after' as const, jobs: ['fetch'] } };
+
+    expect(validateJob(job)).toEqual([]);
+    expect(validateJob(job, [fetch])).toContain('Dependency cycle: my-job -> fetch -> my-job');
+  });
+
+  // Docker run options
+  it('accepts docker run options', () => {
+    const errors = validateJob({
+      ...validDockerJob,
+      network: 'none',
+      user: '1000:1000',
+      workdir: '/work',
+      entrypoint: '/bin/sh',
+      readOnly: true,
+      capDrop: ['ALL'],
+      labels: { 'com.example.team': 'data' },
+      shmSize: '64m',
+      pidsLimit: 100,
+      extraArgs: ['--add-host', 'db:10.0.0.5', '--tmpfs=/tmp'],
+    });
+    expect(errors).toEqual([]);
+  });
+
+  it('reports invalid docker run options', () => {
+    const errors = validateJob({
+      ...validDockerJob,
+      network: 'container:web',
+      user: 'root user',
+      workdir: 'work',
+      capDrop: ['NET RAW'],
+      labels: { 'agent-oven.job': 'other' },
+      shmSize: 'lots',
+      pidsLimit: 0,
+    });
+    expect(errors).toEqual([
+      'Invalid network "container:web"',
+      'Invalid user "root user" (expected a name or UID, optionally with :group)',
+      'Workdir must be an absolute path',
+      'Invalid capability "NET RAW"',
+      'Label names starting with "agent-oven." are reserved',
+      'Invalid shm size "lots" (e.g. 64m, 1g)',
+      'Pids limit must be a positive integer',
+    ]);
+  });
+
+  it('reports extra args that agent-oven sets, fields cover, or that grant host privileges', () => {
+    const errors = validateJob({
+      ...validDockerJob,
+      extraArgs: ['--rm', '--network=host', '-v', '/:/host', '--privileged', '-it'],
+    });
+    expect(errors).toEqual([
+      'Extra arg "--rm" is set by agent-oven',
+      'Extra arg "--network" is covered by the "network" field',
+      'Extra arg "-v" is covered by the "volumes" field',
+      'Extra arg "--privileged" grants host privileges',
+      'Extra arg "-i" is set by agent-oven',
+    ]);
+  });
+
+  it('reports extra args that mount host files or set reserved labels', () => {
+    const errors = validateJob({
+      ...validDockerJob,
+      extraArgs: [
+        '--mount', 'type=bind,source=/var/run/docker.sock,target=/var/run/docker.sock',
+        '--volumes-from=other', '--label-file=labels.txt', '--group-add=docker', '--runtime=runc', '--sysctl', 'net.ipv4.ip_forward=1',
+        '--device-cgroup-rule=a *:* rwm', '--cgroup-parent=/', '--pull=never',
+      ],
+    });
+    expect(errors).toEqual([
+      'Extra arg "--mount" is covered by the "volumes" field',
+      'Extra arg "--volumes-from" grants host privileges',
+      'Extra arg "--label-file" is covered by the "labels" field',
+      'Extra arg "--group-add" grants host privileges',
+      'Extra arg "--runtime" grants host privileges',
+      'Extra arg "--sysctl" grants host privileges',
+      'Extra arg "--device-cgroup-rule" grants host privileges',
+      'Extra arg "--cgroup-parent" grants host privileges',
+      'Extra arg "--pull" is covered by the "pullPolicy" field',
+    ]);
+  });
+
+  it('reports extra args that do not start with an option', () => {
+    const errors = validateJob({ ...validDockerJob, extraArgs: ['ubuntu', '--init'] });
+    expect(errors).toEqual(['Extra args must start with an option, got "ubuntu"']);
+  });
+
+  // Security profiles
+  it('accepts a strict profile with allowed domains', () => {
+    const errors = validateJob({ ...validPipelineJob, security: 'strict', allowedDomains: ['registry.npmjs.org', '*.pypi.org'] });
+    expect(errors).toEqual([]);
+  });
+
+  it('reports unknown security profiles and invalid allowed domains', () => {
+    expect(validateJob({ ...validDockerJob, security: 'paranoid' as any }))
+      .toEqual(['Security profile must be one of: strict, standard, none']);
+    expect(validateJob({ ...validDockerJob, security: 'strict', allowedDomains: ['https://example.com'] }))
+      .toEqual(['Invalid domain "https://example.com" (expected a host name like example.com or *.example.com)']);
+  });
+
+  it('reports allowed domains without the strict profile', () => {
+    const errors = validateJob({ ...validPipelineJob, allowedDomains: ['registry.npmjs.org'] });
+    expect(errors).toEqual(['Allowed domains only apply to the strict security profile']);
+  });
+
+  it('reports a network on strict docker jobs', () => {
+    const errors = validateJob({ ...validDockerJob, security: 'strict', network: 'host' });
+    expect(errors).toEqual(['Strict jobs cannot choose a network (use allowedDomains for network access)']);
+  });
+
+  it('reports a seccomp profile that turns syscall filtering off', () => {
+    expect(validateJob({ ...validPipelineJob, seccomp: 'seccomp/agent.json' })).toEqual([]);
+    expect(validateJob({ ...validDockerJob, seccomp: 'unconfined' }))
+      .toEqual(['Seccomp profile "unconfined" disables syscall filtering (remove the field for Docker\'s default profile)']);
+  });
+
   // Legacy timeout validation
   it('reports negative legacy timeout', () => {
     const errors = validateJob({ ...validDockerJob, timeout: -1 });
@@ -221,19 +454,104 @@ describe('validateJob', () => {
   });
 });
 
-// ─── getBuiltInImages ───────────────────────────────────────
+// ─── validateJobsDocument ───────────────────────────────────
+
+describe('validateJobsDocument', () => {
+  function document(jobs: unknown[]): string {
+    return JSON.stringify({ jobs }, null, 2);
+  }
+
+  it('accepts valid and legacy jobs', () => {
+    const legacy: Record<string, unknown> = { ...makeDockerJob({ id: 'legacy' }), last_run: '2025-06-15T10:00:00Z' };
+    delete legacy.type;
+    expect(validateJobsDocument(document([makeDockerJob(), makePipelineJob(), legacy]))).toEqual([]);
+  });
+
+  it('reports misspelled properties with their line', () => {
+    const job: Record<string, unknown> = { ...makeDockerJob(), schedul: { type: 'cron', cron: '0 * * * *' } };
+    delete job.schedule;
+    const content = document([job]);
+    const line = content.split('\n').findIndex((text) => text.includes('"schedul"')) + 1;
+
+    expect(validateJobsDocument(content)).toEqual([
+      { path: '/jobs/0', line: 3, jobId: 'test-docker', message: 'Missing required property "schedule"' },
+      {
+        path: '/jobs/0/schedul',
+        line,
+        jobId: 'test-docker',
+        message: 'Unknown property "schedul" (did you mean "schedule"?)',
+      },
+    ]);
+  });
+
+  it('reports invalid settings of structurally valid jobs', () => {
+    const issues = validateJobsDocument(document([makeDockerJob({ schedule: { type: 'cron', cron: '0 25 * * *' } })]));
+    expect(issues).toHaveLength(1);
+    expect(issues[0]).toMatchObject({ path: '/jobs/0/schedule/cron', jobId: 'test-docker' });
+    expect(issues[0].message).toMatch(/^Invalid cron expression: /);
+  });
+
+  it('checks env references', () => {
+    const issues = validateJobsDocument(document([
+      makeDockerJob({ id: 'a', env: { TOKEN: { secret: 'slack-token' }, HOST: { fromEnv: 'HOME' }, KEY: { file: '~/.key' } } }),
+      makeDockerJob({ id: 'b', env: { TOKEN: { fromEnv: 1 } as never } }),
+      makeDockerJob({ id: 'c', env: { TOKEN: { secret: 'bad name' } } }),
+    ]));
+    expect(issues.map(({ jobId, path, message }) => ({ jobId, path, message }))).toEqual([
+      { jobId: 'b', path: '/jobs/1/env/TOKEN/fromEnv', message: 'Expected string, got number' },
+      {
+        jobId: 'c',
+        path: '/jobs/2/env/TOKEN/secret',
+        message: 'Invalid secret name "bad name" (use letters, digits, \'.\', \'_\' and \'-\')',
+      },
+    ]);
+  });
+
+  it('reports duplicate job IDs and unknown upstream jobs', () => {
+    const issues = validateJobsDocument(document([
+      makeDockerJob({ id: 'a' }),
+      makeDockerJob({ id: 'a' }),
+      makeDockerJob({ id: 'b', schedule: { type: 'after', jobs: ['missing'] } }),
+    ]));
+    expect(issues.map(({ path, message }) => ({ path, message }))).toEqual([
+      { path: '/jobs/1/id', message: 'Duplicate job ID "a" (also used by /jobs/0)' },
+      { path: '/jobs/2/schedule/jobs', message: 'Upstream job "missing" does not exist' },
+    ]);
+  });
+
+  it('reports syntax errors with their line', () => {
+    const issues = validateJobsDocument('{\n  "jobs": [\n    {"id": "a",}\n  ]\n}\n');
+    expect(issues).toHaveLength(1);
+    expect(issues[0].line).toBe(3);
+    expect(issues[0].message).toMatch(/^Invalid JSON: /);
+  });
+});
+
+// ─── validateJobDocument ────────────────────────────────────
+
+describe('validateJobDocument', () => {
+  const original = makeDockerJob({ id: 'web' });
+
+  it('accepts an edited job', () => {
+    const edited = { ...original, name: 'Website' };
+    expect(validateJobDocument(JSON.stringify(edited, null, 2), [original], original)).toEqual([]);
+  });
 
-describe('getBuiltInImages', () => {
-  it('returns expected images', () => {
-    const images = getBuiltInImages();
-    expect(images).toContain('agent-oven/base-tasks');
-    expect(images).toContain('agent-oven/python-tasks');
-    expect(images).toContain('agent-oven/node-tasks');
-    expect(images).toContain('agent-oven/pipeline-runner');
+  it('reports schema and settings problems relative to the job', () => {
+    const text = JSON.stringify({ ...original, volume: [] }, null, 2);
+    expect(validateJobDocument(text, [original], original)).toEqual([
+      { path: '/volume', line: 14, message: 'Unknown property "volume" (did you mean "volumes"?)' },
+    ]);
+
+    const issues = validateJobDocument(JSON.stringify({ ...original, catchUp: 'none', name: '' }), [original]);
+    expect(issues).toEqual([{ path: '/name', line: 1, message: 'Job name is required' }]);
   });
 
-  it('returns exactly 4 images', () => {
-    expect(getBuiltInImages()).toHaveLength(4);
+  it('does not allow the ID or type to change', () => {
+    const renamed = JSON.stringify({ ...original, id: 'other' }, null, 2);
+    expect(validateJobDocument(renamed, [original], original)).toEqual([
+      { path: '/id', line: 3, message: 'The job ID cannot be changed (expected "web")' },
+    ]);
   });
 });
 
@@ -241,9 +559,23 @@ describe('getBuiltInImages', () => {
 
 const config = makeConfig();
 
-function mockJobsFile(jobs: Job[]): void {
+function mockJobsFile(jobs: Job[], states: Record<string, JobState> = {}): void {
   vi.mocked(fs.existsSync).mockReturnValue(true);
-  vi.mocked(fs.readFileSync).mockReturnValue(JSON.stringify({ jobs }));
+  vi.mocked(fs.readFileSync).mockImplementation((file) =>
+    String(file).endsWith('state.json') ? JSON.stringify(states) : JSON.stringify({ jobs }));
+}
+
+/** Parse the content written to the temp file that replaces a store file */
+function writtenFile(name: 'jobs.json' | 'state.json'): any {
+  const call = vi.mocked(fs.writeFileSync).mock.calls.find(([file]) => {
+    const base = String(file).split('/').pop()!;
+    return base.startsWith(`${name}.`) && base.endsWith('.tmp');
+  });
+  return JSON.parse(call![1] as string);
+}
+
+function writtenJobsFile(): { jobs: Job[] } {
+  return writtenFile('jobs.json');
 }
 
 // ─── listJobs ─────────────────────────────────────────────────
@@ -262,16 +594,16 @@ describe('listJobs', () => {
     expect(listJobs(config)).toEqual([]);
   });
 
-  it('returns [] on readFileSync error', () => {
+  it('throws on readFileSync error', () => {
     vi.mocked(fs.existsSync).mockReturnValue(true);
     vi.mocked(fs.readFileSync).mockImplementation(() => { throw new Error('EACCES'); });
-    expect(listJobs(config)).toEqual([]);
+    expect(() => listJobs(config)).toThrow('Failed to read /tmp/test-project/jobs.json: EACCES');
   });
 
-  it('returns [] on corrupt JSON', () => {
+  it('throws on corrupt JSON instead of returning no jobs', () => {
     vi.mocked(fs.existsSync).mockReturnValue(true);
     vi.mocked(fs.readFileSync).mockReturnValue('not valid json');
-    expect(listJobs(config)).toEqual([]);
+    expect(() => listJobs(config)).toThrow('/tmp/test-project/jobs.json is corrupted');
   });
 
   it('normalizes legacy jobs without type field to docker', () => {
@@ -283,10 +615,10 @@ describe('listJobs', () => {
     expect(jobs[0]!.type).toBe('docker');
   });
 
-  it('returns [] when jobs key is missing', () => {
+  it('throws when jobs key is missing', () => {
     vi.mocked(fs.existsSync).mockReturnValue(true);
     vi.mocked(fs.readFileSync).mockReturnValue(JSON.stringify({ notJobs: [] }));
-    expect(listJobs(config)).toEqual([]);
+    expect(() => listJobs(config)).toThrow('missing "jobs" array');
   });
 });
 
@@ -312,12 +644,12 @@ describe('getJob', () => {
 describe('addJob', () => {
   beforeEach(() => { vi.resetAllMocks(); });
 
-  it('adds valid docker job and returns it with last_run: null', () => {
+  it('adds valid docker job and returns it without runtime state', () => {
     mockJobsFile([]);
     const result = addJob(config, makeDockerJob({ id: 'new-job' }) as AddJobOptions);
     expect(result.id).toBe('new-job');
-    expect(result.last_run).toBeNull();
-    const written = JSON.parse(vi.mocked(fs.writeFileSync).mock.calls[0]![1] as string);
+    expect(result).not.toHaveProperty('last_run');
+    const written = writtenJobsFile();
     expect(written.jobs).toHaveLength(1);
     expect(written.jobs[0].id).toBe('new-job');
   });
@@ -326,13 +658,13 @@ describe('addJob', () => {
     mockJobsFile([]);
     const result = addJob(config, makePipelineJob({ id: 'new-pipeline' }) as AddJobOptions);
     expect(result.id).toBe('new-pipeline');
-    expect(vi.mocked(fs.writeFileSync)).toHaveBeenCalledOnce();
+    expect(vi.mocked(fs.renameSync)).toHaveBeenCalledWith(expect.stringMatching(/\.tmp$/), '/tmp/test-project/jobs.json');
   });
 
   it('throws "already exists" for duplicate ID', () => {
     mockJobsFile([makeDockerJob({ id: 'dup' })]);
     expect(() => addJob(config, makeDockerJob({ id: 'dup' }) as AddJobOptions)).toThrow('already exists');
-    expect(vi.mocked(fs.writeFileSync)).not.toHaveBeenCalled();
+    expect(vi.mocked(fs.renameSync)).not.toHaveBeenCalled();
   });
 
   it('throws "Missing required fields" when schedule missing', () => {
@@ -370,7 +702,7 @@ describe('updateJob', () => {
     const result = updateJob(config, 'upd', { name: 'Updated' });
     expect(result.name).toBe('Updated');
     expect(result.id).toBe('upd');
-    const written = JSON.parse(vi.mocked(fs.writeFileSync).mock.calls[0]![1] as string);
+    const written = writtenJobsFile();
     expect(written.jobs[0].name).toBe('Updated');
     expect(written.jobs[0].image).toBe('alpine');
   });
@@ -389,7 +721,7 @@ describe('removeJob', () => {
   it('removes correct job and writes shorter array', () => {
     mockJobsFile([makeDockerJob({ id: 'keep' }), makeDockerJob({ id: 'remove-me' })]);
     removeJob(config, 'remove-me');
-    const written = JSON.parse(vi.mocked(fs.writeFileSync).mock.calls[0]![1] as string);
+    const written = writtenJobsFile();
     expect(written.jobs).toHaveLength(1);
     expect(written.jobs[0].id).toBe('keep');
   });
@@ -426,24 +758,28 @@ describe('toggleJob', () => {
   });
 });
 
-// ─── updateLastRun ────────────────────────────────────────────
+// ─── last_run migration ───────────────────────────────────────
 
-describe('updateLastRun', () => {
+describe('last_run migration', () => {
   beforeEach(() => { vi.resetAllMocks(); });
-  afterEach(() => { vi.useRealTimers(); });
 
-  it('uses provided timestamp verbatim', () => {
-    mockJobsFile([makeDockerJob({ id: 'lr' })]);
-    const result = updateLastRun(config, 'lr', '2025-01-15T12:00:00');
-    expect(result.last_run).toBe('2025-01-15T12:00:00');
+  it('moves last_run from job definitions into state.json', () => {
+    const legacy = { ...makeDockerJob({ id: 'old' }), last_run: '2025-06-15T10:00:00Z' } as Job;
+    mockJobsFile([legacy]);
+
+    const jobs = listJobs(config);
+    expect(jobs[0]).not.toHaveProperty('last_run');
+    expect(writtenFile('state.json')).toEqual({ old: { lastRun: '2025-06-15T10:00:00Z' } });
+    expect(writtenJobsFile().jobs[0]).not.toHaveProperty('last_run');
   });
 
-  it('generates UTC ISO timestamp without ms when no timestamp given', () => {
-    vi.useFakeTimers();
-    vi.setSystemTime(new Date('2025-06-15T10:30:00.000Z'));
-    mockJobsFile([makeDockerJob({ id: 'lr' })]);
-    const result = updateLastRun(config, 'lr');
-    expect(result.last_run).toBe('2025-06-15T10:30:00Z');
+  it('keeps a newer last run already in state.json', () => {
+    const legacy = { ...makeDockerJob({ id: 'old' }), last_run: '2025-06-15T10:00:00Z' } as Job;
+    mockJobsFile([legacy], { old: { lastRun: '2025-06-16T10:00:00Z' } });
+
+    listJobs(config);
+    expect(vi.mocked(fs.writeFileSync).mock.calls.some(([file]) => String(file).includes('state.json.'))).toBe(false);
+    expect(writtenJobsFile().jobs[0]).not.toHaveProperty('last_run');
   });
 });
 
@@ -461,14 +797,14 @@ describe('getJobStats', () => {
     mockJobsFile([
       makeDockerJob({ id: 'j1', enabled: true, schedule: { type: 'cron', cron: '0 * * * *' } }),
       makeDockerJob({ id: 'j2', enabled: false, schedule: { type: 'cron', cron: '0 * * * *' } }),
-      makeDockerJob({ id: 'j3', schedule: { type: 'once', datetime: '2025-12-25T10:00:00' }, last_run: null }),
-      makeDockerJob({ id: 'j4', schedule: { type: 'once', datetime: '2025-12-26T10:00:00' }, last_run: '2025-12-26T10:00:00' }),
-    ]);
+      makeDockerJob({ id: 'j3', schedule: { type: 'once', datetime: '2025-12-25T10:00:00' } }),
+      makeDockerJob({ id: 'j4', schedule: { type: 'once', datetime: '2025-12-26T10:00:00' } }),
+    ], { j4: { lastRun: '2025-12-26T10:00:00Z' } });
     const stats = getJobStats(config);
     expect(stats.total).toBe(4);
     expect(stats.enabled).toBe(3); // j1, j3, j4 (enabled !== false)
     expect(stats.cron).toBe(2);    // j1, j2
-    expect(stats.oncePending).toBe(1); // j3 (once + no last_run)
+    expect(stats.oncePending).toBe(1); // j3 (once + never run)
     expect(stats.randomWindow).toBe(0);
   });
 
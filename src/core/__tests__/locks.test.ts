@@ -0,0 +1,112 @@
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import * as fs from 'node:fs';
+import * as os from 'node:os';
+import * as path from 'node:path';
+import { acquireLock, acquireLockSync, releaseLock, readLockOwner } from '../locks.js';
+
+let dir: string;
+let lockPath: string;
+
+beforeEach(() => {
+  dir = fs.mkdtempSync(path.join(os.tmpdir(), 'oven-locks-'));
+  lockPath = path.join(dir, 'locks', 'job.lock');
+});
+
+afterEach(() => {
+  fs.rmSync(dir, { recursive: true, force: true });
+});
+
+describe('acquireLock', () => {
+  it('creates the lock file with this process as owner', () => {
+    expect(acquireLock(lockPath)).toBe(true);
+    expect(readLockOwner(lockPath)).toBe(process.pid);
+  });
+
+  it('refuses a lock held by a live process', () => {
+    expect(acquireLock(lockPath)).toBe(true);
+    expect(acquireLock(lockPath)).toBe(false);
+  });
+
+  it('takes over a stale lock from an exited process', () => {
+    fs.mkdirSync(path.dirname(lockPath), { recursive: true });
+    // PIDs are capped well below this on Linux and macOS
+    fs.writeFileSync(lockPath, '99999999');
+
+    expect(acquireLock(lockPath)).toBe(true);
+    expect(readLockOwner(lockPath)).toBe(process.pid);
+  });
+
+  it('treats an empty or unreadable lock as held while it is fresh', () => {
+    fs.mkdirSync(path.dirname(lockPath), { recursive: true });
+    fs.writeFileSync(lockPath, '');
+    expect(acquireLock(lockPath)).toBe(false);
+
+    fs.writeFileSync(lockPath, 'garbage');
+    expect(acquireLock(lockPath)).toBe(false);
+  });
+
+  it('takes over an unreadable lock that has not been touched for a while', () => {
+    fs.mkdirSync(path.dirname(lockPath), { recursive: true });
+    fs.writeFileSync(lockPath, 'garbage');
+    const old = new Date(Date.now() - 60_000);
+    fs.utimesSync(lockPath, old, old);
+
+    expect(acquireLock(lockPath)).toBe(true);
+    expect(readLockOwner(lockPath)).toBe(process.pid);
+  });
+
+  it('leaves a stale lock to the process already taking it over', () => {
+    fs.mkdirSync(path.dirname(lockPath), { recursive: true });
+    fs.writeFileSync(lockPath, '99999999');
+    fs.writeFileSync(`${lockPath}.takeover`, String(process.ppid));
+
+    expect(acquireLock(lockPath)).toBe(false);
+    expect(readLockOwner(lockPath)).toBe(99999999);
+  });
+
+  it('leaves no temp files behind', () => {
+    fs.mkdirSync(path.dirname(lockPath), { recursive: true });
+    fs.writeFileSync(lockPath, '99999999');
+
+    expect(acquireLock(lockPath)).toBe(true);
+    expect(acquireLock(lockPath)).toBe(false);
+    expect(fs.readdirSync(path.dirname(lockPath))).toEqual(['job.lock']);
+  });
+});
+
+describe('releaseLock', () => {
+  it('removes a lock held by this process', () => {
+    acquireLock(lockPath);
+    releaseLock(lockPath);
+
+    expect(fs.existsSync(lockPath)).toBe(false);
+    expect(acquireLock(lockPath)).toBe(true);
+  });
+
+  it('leaves a lock held by another process', () => {
+    fs.mkdirSync(path.dirname(lockPath), { recursive: true });
+    fs.writeFileSync(lockPath, String(process.ppid));
+
+    releaseLock(lockPath);
+    expect(fs.existsSync(lockPath)).toBe(true);
+  });
+});
+
+describe('acquireLockSync', () => {
+  it('acquires a free lock', () => {
+    acquireLockSync(lockPath, 100);
+    expect(readLockOwner(lockPath)).toBe(process.pid);
+  });
+
+  it('times out while another live process holds the lock', () => {
+    fs.mkdirSync(path.dirname(lockPath), { recursive: true });
+    fs.writeFileSync(lockPath, String(process.ppid));
+
+    expect(() => acquireLockSync(lockPath, 50)).toThrow(`held by PID ${process.ppid}`);
+  });
+
+  it('refuses to wait on a lock this process already holds', () => {
+    acquireLock(lockPath);
+    expect(() => acquireLockSync(lockPath, 5_000)).toThrow('already held by this process');
+  });
+});
@@ -0,0 +1,217 @@
+import { afterAll, afterEach, beforeAll, describe, expect, it } from 'vitest';
+import * as fs from 'node:fs';
+import * as http from 'node:http';
+import * as os from 'node:os';
+import * as path from 'node:path';
+import type { AddressInfo } from 'node:net';
+import {
+  shouldNotify,
+  buildNotificationPayload,
+  formatSlackMessage,
+  sendNotifications,
+} from '../notifications.js';
+import type { JobRunResult } from '../types.js';
+import { makeDockerJob } from './fixtures.js';
+
+interface ReceivedRequest {
+  url: string;
+  contentType: string | undefined;
+  body: unknown;
+}
+
+// ─── Local HTTP stand-in ────────────────────────────────────
+
+let server: http.Server;
+let baseUrl: string;
+let received: ReceivedRequest[] = [];
+
+beforeAll(async () => {
+  server = http.createServer((req, res) => {
+    let data = '';
+    req.on('data', (chunk) => { data += chunk; });
+    req.on('end', () => {
+      received.push({
+        url: req.url ?? '',
+        contentType: req.headers['content-type'],
+        body: JSON.parse(data),
+      });
+      res.statusCode = req.url === '/fail' ? 500 : 200;
+      res.end('ok');
+    });
+  });
+  await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+  const { port } = server.address() as AddressInfo;
+  baseUrl = `http://127.0.0.1:${port}`;
+});
+
+afterAll(async () => {
+  await new Promise<void>((resolve) => server.close(() => resolve()));
+});
+
+const tempDirs: string[] = [];
+
+afterEach(() => {
+  received = [];
+  for (const dir of tempDirs.splice(0)) {
+    fs.rmSync(dir, { recursive: true, force: true });
+  }
+});
+
+function makeResult(overrides?: Partial<JobRunResult>): JobRunResult {
+  const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'oven-notify-'));
+  tempDirs.push(dir);
+  const logFile = path.join(dir, 'run.log');
+  fs.writeFileSync(logFile, '=== Job: test-docker ===\nboom: something broke\n=== Exit Code: 3 ===\n');
+  return { success: false, exitCode: 3, logFile, ...overrides };
+}
+
+// ─── shouldNotify ───────────────────────────────────────────
+
+describe('shouldNotify', () => {
+  it('returns false without notification config', () => {
+    expect(shouldNotify(undefined, false)).toBe(false);
+  });
+
+  it('returns false when no channel is configured', () => {
+    expect(shouldNotify({ onFailure: true, onSuccess: true }, false)).toBe(false);
+  });
+
+  it('notifies on failure by default', () => {
+    expect(shouldNotify({ webhook: 'http://x' }, false)).toBe(true);
+  });
+
+  it('does not notify on success by default', () => {
+    expect(shouldNotify({ webhook: 'http://x' }, true)).toBe(false);
+  });
+
+  it('respects onFailure: false', () => {
+    expect(shouldNotify({ webhook: 'http://x', onFailure: false }, false)).toBe(false);
+  });
+
+  it('respects onSuccess: true', () => {
+    expect(shouldNotify({ webhook: 'http://x', onSuccess: true }, true)).toBe(true);
+  });
+});
+
+// ─── payload formatting ─────────────────────────────────────
+
+describe('buildNotificationPayload', () => {
+  it('includes job id, exit code, duration, and log tail', () => {
+    const result = makeResult();
+    const payload = buildNotificationPayload(makeDockerJob(), result, 4200);
+
+    expect(payload.jobId).toBe('test-docker');
+    expect(payload.status).toBe('failure');
+    expect(payload.exitCode).toBe(3);
+    expect(payload.durationMs).toBe(4200);
+    expect(payload.logFile).toBe(result.logFile);
+    expect(payload.logTail).toContain('boom: something broke');
+  });
+
+  it('uses an empty log tail when the log file is missing', () => {
+    const payload = buildNotificationPayload(
+      makeDockerJob(),
+      { success: true, exitCode: 0, logFile: '/nonexistent/run.log' },
+      0,
+    );
+    expect(payload.status).toBe('success');
+    expect(payload.logTail).toBe('');
+  });
+});
+
+describe('formatSlackMessage', () => {
+  it('summarizes the run in the message text', () => {
+    const payload = buildNotificationPayload(makeDockerJob(), makeResult(), 95_000);
+    const { text } = formatSlackMessage(payload);
+
+    expect(text).toContain('Test Docker Job');
+    expect(text).toContain('`test-docker`');
+    expect(text).toContain('failed');
+    expect(text).toContain('Exit code: 3');
+    expect(text).toContain('Duration: 1m 35s');
+    expect(text).toContain('boom: something broke');
+  });
+});
+
+// ─── sendNotifications ──────────────────────────────────────
+
+describe('sendNotifications', () => {
+  it('posts a Slack message to the incoming webhook', async () => {
+    const job = makeDockerJob({ notifications: { slack: `${baseUrl}/slack` } });
+    const results = await sendNotifications(job, makeResult(), 1000);
+
+    expect(results).toEqual([{ channel: 'slack', success: true }]);
+    expect(received).toHaveLength(1);
+    expect(received[0].url).toBe('/slack');
+    expect(received[0].contentType).toBe('application/json');
+    expect((received[0].body as { text: string }).text).toContain('test-docker');
+  });
+
+  it('posts the JSON payload to a generic webhook', async () => {
+    const job = makeDockerJob({ notifications: { webhook: `${baseUrl}/hook` } });
+    await sendNotifications(job, makeResult(), 1500);
+
+    expect(received).toHaveLength(1);
+    expect(received[0].body).toMatchObject({
+      jobId: 'test-docker',
+      status: 'failure',
+      exitCode: 3,
+      durationMs: 1500,
+    });
+  });
+
+  it('runs a local command with the payload on stdin and in env vars', async () => {
+    const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'oven-notify-cmd-'));
+    tempDirs.push(dir);
+    const outFile = path.join(dir, 'out.json');
+    const envFile = path.join(dir, 'env.txt');
+    const job = makeDockerJob({
+      notifications: {
+        command: `cat > '${outFile}'; echo "$AGENT_OVEN_JOB_ID $AGENT_OVEN_EXIT_CODE" > '${envFile}'`,
+      },
+    });
+
+    const results = await sendNotifications(job, makeResult(), 10);
+
+    expect(results).toEqual([{ channel: 'command', success: true }]);
+    expect(JSON.parse(fs.readFileSync(outFile, 'utf-8'))).toMatchObject({ jobId: 'test-docker', exitCode: 3 });
+    expect(fs.readFileSync(envFile, 'utf-8').trim()).toBe('test-docker 3');
+  });
+
+  it('delivers to every configured channel', async () => {
+    const job = makeDockerJob({
+      notifications: { slack: `${baseUrl}/slack`, webhook: `${baseUrl}/hook`, command: 'true' },
+    });
+    const results = await sendNotifications(job, makeResult(), 10);
+
+    expect(results.map((r) => r.channel)).toEqual(['slack', 'webhook', 'command']);
+    expect(results.every((r) => r.success)).toBe(true);
+    expect(received.map((r) => r.url).sort()).toEqual(['/hook', '/slack']);
+  });
+
+  it('reports HTTP errors without throwing', async () => {
+    const job = makeDockerJob({ notifications: { webhook: `${baseUrl}/fail` } });
+    const results = await sendNotifications(job, makeResult(), 10);
+
+    expect(results).toHaveLength(1);
+    expect(results[0].success).toBe(false);
+    expect(results[0].error).toContain('500');
+  });
+
+  it('reports a failing command without throwing', async () => {
+    const job = makeDockerJob({ notifications: { command: 'echo nope >&2; exit 4' } });
+    const results = await sendNotifications(job, makeResult(), 10);
+
+    expect(results[0]).toMatchObject({ channel: 'command', success: false });
+    expect(results[0].error).toContain('code 4');
+    expect(results[0].error).toContain('nope');
+  });
+
+  it('sends nothing for a successful run unless onSuccess is set', async () => {
+    const job = makeDockerJob({ notifications: { webhook: `${baseUrl}/hook` } });
+    const results = await sendNotifications(job, makeResult({ success: true, exitCode: 0 }), 10);
+
+    expect(results).toEqual([]);
+    expect(received).toHaveLength(0);
+  });
+});
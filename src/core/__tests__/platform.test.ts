@@ -114,6 +114,11 @@ describe('DarwinAdapter', () => {
       expect(content).toContain('scheduler-tick');
       expect(content).toContain('/opt/agent-oven/logs/scheduler.log');
     });
+
+    it('leaves the job workers a tick starts running when the tick exits', async () => {
+      const content = await adapter.generateDaemonConfig('/opt/agent-oven');
+      expect(content).toMatch(/<key>AbandonProcessGroup<\/key>\s*<true\/>/);
+    });
   });
 
   describe('getRuntimeStatus', () => {
@@ -177,11 +182,25 @@ describe('DarwinAdapter', () => {
     <array>
         <string>/opt/homebrew/bin/node</string>
         <string>/opt/agent-oven/dist/cli.js</string>
-    </array>`,
+    </array>
+    <key>AbandonProcessGroup</key>
+    <true/>`,
       );
       expect(adapter.validateDaemonConfig()).toBeNull();
     });
 
+    it('returns a diagnostic when launchd would stop the job workers of a tick', () => {
+      mockedExistsSync.mockReturnValue(true);
+      mockedReadFileSync.mockReturnValue(
+        `<key>ProgramArguments</key>
+    <array>
+        <string>/opt/homebrew/bin/node</string>
+        <string>/opt/agent-oven/dist/cli.js</string>
+    </array>`,
+      );
+      expect(adapter.validateDaemonConfig()).toContain('job workers');
+    });
+
     it('returns a diagnostic when the Node binary is missing', () => {
       mockedExistsSync.mockImplementation((p: fs.PathLike) => {
         if (String(p) === plistPath) return true;
@@ -291,6 +310,8 @@ describe('LinuxAdapter', () => {
       expect(content).toContain('[Service]');
       expect(content).toContain('Type=oneshot');
       expect(content).toContain('scheduler-tick');
+      // Job workers outlive the tick that starts them
+      expect(content).toContain('KillMode=process');
       expect(content).toContain('[Timer]');
       expect(content).toContain('OnUnitActiveSec=60s');
       expect(content).toContain('timers.target');
@@ -336,11 +357,19 @@ describe('LinuxAdapter', () => {
     it('returns null when the binary in ExecStart exists', () => {
       mockedExistsSync.mockReturnValue(true);
       mockedReadFileSync.mockReturnValue(
-        `[Service]\nType=oneshot\nExecStart=/usr/bin/node /opt/agent-oven/dist/cli.js scheduler-tick\n`,
+        `[Service]\nType=oneshot\nExecStart=/usr/bin/node /opt/agent-oven/dist/cli.js scheduler-tick\nKillMode=process\n`,
       );
       expect(adapter.validateDaemonConfig()).toBeNull();
     });
 
+    it('returns a diagnostic when systemd would stop the job workers of a tick', () => {
+      mockedExistsSync.mockReturnValue(true);
+      mockedReadFileSync.mockReturnValue(
+        `[Service]\nType=oneshot\nExecStart=/usr/bin/node /opt/agent-oven/dist/cli.js scheduler-tick\n`,
+      );
+      expect(adapter.validateDaemonConfig()).toContain('job workers');
+    });
+
     it('returns a diagnostic when the binary in ExecStart is missing', () => {
       mockedExistsSync.mockImplementation((p: fs.PathLike) => {
         if (String(p) === servicePath) return true;
@@ -0,0 +1,117 @@
+import { afterEach, describe, expect, it } from 'vitest';
+import { spawnSync } from 'node:child_process';
+import {
+  createRedactor,
+  getRunRedactionRules,
+  getSchedulerRedactionRules,
+  validateRedactPattern,
+  REDACT_FILTER_SCRIPT,
+  REDACT_RULES_ENV,
+  REDACTED,
+  type RedactionRules,
+} from '../redact.js';
+import { makeConfig, makeDockerJob } from './fixtures.js';
+
+// ─── createRedactor ─────────────────────────────────────────
+
+describe('createRedactor', () => {
+  it('masks literal values, longest first', () => {
+    const redact = createRedactor({ values: ['abcd', 'abcdef', 'a.b*c'], patterns: [] });
+    expect(redact('x abcdef y abcd z a.b*c a-bbc')).toBe(`x ${REDACTED} y ${REDACTED} z ${REDACTED} a-bbc`);
+  });
+
+  it('masks pattern matches', () => {
+    const redact = createRedactor({ values: [], patterns: ['id-\\d+'] });
+    expect(redact('user id-42 and id-7')).toBe(`user ${REDACTED} and ${REDACTED}`);
+  });
+
+  it('leaves text alone without rules', () => {
+    expect(createRedactor({ values: [], patterns: [] })('text')).toBe('text');
+  });
+});
+
+describe('validateRedactPattern', () => {
+  it('reports invalid regular expressions', () => {
+    expect(validateRedactPattern('token-[a-z]+')).toBeNull();
+    expect(validateRedactPattern('(')).toMatch(/^Invalid pattern "\(": /);
+  });
+});
+
+// ─── Rules ──────────────────────────────────────────────────
+
+describe('getRunRedactionRules', () => {
+  it('masks resolved references, secret-looking keys, configured keys and auth values', () => {
+    const config = makeConfig({ redaction: { keys: ['DSN'], patterns: ['custom-\\d+'] } });
+    const rules = getRunRedactionRules(
+      config,
+      { LEVEL: 'debug', API_TOKEN: 'plain-token', DSN: 'postgres://x', REF: { secret: 'ref' }, ID: 'id' },
+      { LEVEL: 'debug', API_TOKEN: 'plain-token', DSN: 'postgres://x', REF: 'resolved-ref', ID: 'id' },
+      { ANTHROPIC_API_KEY: 'sk-auth-value' },
+    );
+
+    expect(rules.values).toEqual(['plain-token', 'postgres://x', 'resolved-ref', 'sk-auth-value']);
+    expect(rules.patterns).toContain('custom-\\d+');
+  });
+
+  it('masks well-known token formats by default', () => {
+    const redact = createRedactor(getRunRedactionRules(makeConfig(), {}, {}));
+    expect(redact('key sk-ant-REDACTED')).toBe(`key ${REDACTED}`);
+    expect(redact(`token ghp_${'a'.repeat(36)}`)).toBe(`token ${REDACTED}`);
+  });
+});
+
+describe('getSchedulerRedactionRules', () => {
+  afterEach(() => {
+    delete process.env.OVEN_TEST_TOKEN;
+    delete process.env.OVEN_TEST_PLAIN;
+  });
+
+  it('masks the scheduler env and secret values jobs define', () => {
+    process.env.OVEN_TEST_TOKEN = 'host-token-value';
+    process.env.OVEN_TEST_PLAIN = 'referenced-value';
+    const jobs = [makeDockerJob({ env: { DB_PASSWORD: 'hunter22', REF: { fromEnv: 'OVEN_TEST_PLAIN' }, LEVEL: 'debug' } })];
+
+    const { values } = getSchedulerRedactionRules(makeConfig({ projectDir: '/nonexistent' }), jobs);
+
+    expect(values).toEqual(expect.arrayContaining(['host-token-value', 'hunter22', 'referenced-value']));
+    expect(values).not.toContain('debug');
+  });
+});
+
+// ─── Detached output filter ─────────────────────────────────
+
+describe('REDACT_FILTER_SCRIPT', () => {
+  function filter(input: string, rules: RedactionRules, stream = 'stdout', format = 'text'): string {
+    const result = spawnSync(process.execPath, ['-e', REDACT_FILTER_SCRIPT, stream, format], {
+      input,
+      encoding: 'utf-8',
+      env: { ...process.env, [REDACT_RULES_ENV]: JSON.stringify(rules) },
+    });
+    return result.stdout;
+  }
+
+  it('masks like createRedactor, including an unterminated last line', () => {
+    const rules = { values: ['abcd', 'abcdef', 'a.b*c'], patterns: ['id-\\d+'] };
+    const input = 'x abcdef y\nabcd a.b*c\nid-42 without newline';
+
+    const texts = filter(input, rules).trimEnd().split('\n').map((line) => line.slice(line.indexOf(' | ') + 3));
+    expect(texts).toEqual(createRedactor(rules)(input).split('\n'));
+  });
+
+  it('writes output events for JSON-lines logs', () => {
+    const output = filter('using abcd\n', { values: ['abcd'], patterns: [] }, 'stdout', 'jsonl');
+
+    expect(JSON.parse(output)).toEqual({
+      type: 'output',
+      timestamp: expect.stringMatching(/Z$/),
+      stream: 'stdout',
+      text: 'using [REDACTED]',
+    });
+  });
+
+  it('prefixes each line with its time and stream', () => {
+    const output = filter('one\ntwo\n', { values: [], patterns: [] }, 'stderr');
+
+    expect(output).toMatch(/^\d{4}-\d\d-\d\dT[\d:.]+Z stderr \| one\n\S+ stderr \| two\n$/);
+  });
+});
@@ -0,0 +1,159 @@
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import * as fs from 'node:fs';
+import * as os from 'node:os';
+import * as path from 'node:path';
+import {
+  shouldRetry,
+  getRetryDelay,
+  validateRetry,
+  readPendingRetries,
+  getPendingRetry,
+  schedulePendingRetry,
+  clearPendingRetry,
+} from '../retries.js';
+import { getRetryStatePath } from '../config.js';
+import type { Config, PendingRetry } from '../types.js';
+import { makeConfig } from './fixtures.js';
+
+// ─── shouldRetry ────────────────────────────────────────────
+
+describe('shouldRetry', () => {
+  it('never retries without a retry policy', () => {
+    expect(shouldRetry(undefined, 1, 1)).toBe(false);
+  });
+
+  it('never retries a successful run', () => {
+    expect(shouldRetry({ maxAttempts: 3 }, 0, 1)).toBe(false);
+  });
+
+  it('retries any failure until maxAttempts is reached', () => {
+    const retry = { maxAttempts: 3 };
+    expect(shouldRetry(retry, 1, 1)).toBe(true);
+    expect(shouldRetry(retry, 137, 2)).toBe(true);
+    expect(shouldRetry(retry, 1, 3)).toBe(false);
+  });
+
+  it('only retries listed exit codes', () => {
+    const retry = { maxAttempts: 3, exitCodes: [75, 124] };
+    expect(shouldRetry(retry, 75, 1)).toBe(true);
+    expect(shouldRetry(retry, 1, 1)).toBe(false);
+  });
+
+  it('does not retry with maxAttempts of 1', () => {
+    expect(shouldRetry({ maxAttempts: 1 }, 1, 1)).toBe(false);
+  });
+});
+
+// ─── getRetryDelay ──────────────────────────────────────────
+
+describe('getRetryDelay', () => {
+  it('defaults to 60s doubling with each retry', () => {
+    const retry = { maxAttempts: 5 };
+    expect(getRetryDelay(retry, 2)).toBe(60);
+    expect(getRetryDelay(retry, 3)).toBe(120);
+    expect(getRetryDelay(retry, 4)).toBe(240);
+  });
+
+  it('uses the configured delay and backoff factor', () => {
+    const retry = { maxAttempts: 4, delay: 30, backoff: 3 };
+    expect(getRetryDelay(retry, 2)).toBe(30);
+    expect(getRetryDelay(retry, 3)).toBe(90);
+  });
+
+  it('keeps a constant delay with backoff 1', () => {
+    const retry = { maxAttempts: 4, delay: 10, backoff: 1 };
+    expect(getRetryDelay(retry, 4)).toBe(10);
+  });
+});
+
+// ─── validateRetry ──────────────────────────────────────────
+
+describe('validateRetry', () => {
+  it('accepts a complete policy', () => {
+    expect(validateRetry({ maxAttempts: 3, delay: 30, backoff: 2, exitCodes: [1, 75] })).toEqual([]);
+  });
+
+  it('reports invalid values', () => {
+    expect(validateRetry({ maxAttempts: 0 })).toContain('Retry maxAttempts must be a positive integer');
+    expect(validateRetry({ maxAttempts: 2, delay: -1 })).toContain(
+      'Retry delay must be a non-negative number of seconds',
+    );
+    expect(validateRetry({ maxAttempts: 2, backoff: 0.5 })).toContain('Retry backoff must be a number >= 1');
+    expect(validateRetry({ maxAttempts: 2, exitCodes: [0] })).toContain(
+      'Retry exitCodes must be a list of non-zero exit codes',
+    );
+  });
+});
+
+// ─── pending retries ────────────────────────────────────────
+
+describe('pending retries', () => {
+  let config: Config;
+
+  beforeEach(() => {
+    const projectDir = fs.mkdtempSync(path.join(os.tmpdir(), 'oven-retries-'));
+    config = makeConfig({ projectDir });
+  });
+
+  afterEach(() => {
+    fs.rmSync(config.projectDir, { recursive: true, force: true });
+  });
+
+  function makeRetry(overrides?: Partial<PendingRetry>): PendingRetry {
+    return {
+      jobId: 'scraper',
+      attempt: 2,
+      dueAt: '2025-06-15T10:01:00.000Z',
+      retryOf: 'run-1',
+      lastExitCode: 1,
+      ...overrides,
+    };
+  }
+
+  it('returns nothing before any retry is scheduled', () => {
+    expect(readPendingRetries(config)).toEqual({});
+    expect(getPendingRetry(config, 'scraper')).toBeUndefined();
+  });
+
+  it('persists scheduled retries to logs/retries.json', () => {
+    schedulePendingRetry(config, makeRetry());
+
+    expect(fs.existsSync(getRetryStatePath(config))).toBe(true);
+    expect(getPendingRetry(config, 'scraper')).toEqual(makeRetry());
+  });
+
+  it('keeps one pending retry per job', () => {
+    schedulePendingRetry(config, makeRetry());
+    schedulePendingRetry(config, makeRetry({ attempt: 3 }));
+    schedulePendingRetry(config, makeRetry({ jobId: 'other' }));
+
+    const retries = readPendingRetries(config);
+    expect(Object.keys(retries).sort()).toEqual(['other', 'scraper']);
+    expect(retries.scraper.attempt).toBe(3);
+  });
+
+  it('writes retries.json in place of the old file and releases its lock', () => {
+    schedulePendingRetry(config, makeRetry());
+    schedulePendingRetry(config, makeRetry({ jobId: 'other' }));
+    clearPendingRetry(config, 'other');
+
+    expect(fs.readdirSync(path.dirname(getRetryStatePath(config)))).toEqual(['retries.json']);
+    expect(Object.keys(readPendingRetries(config))).toEqual(['scraper']);
+  });
+
+  it('clears a pending retry', () => {
+    schedulePendingRetry(config, makeRetry());
+    schedulePendingRetry(config, makeRetry({ jobId: 'other' }));
+    clearPendingRetry(config, 'scraper');
+
+    expect(getPendingRetry(config, 'scraper')).toBeUndefined();
+    expect(getPendingRetry(config, 'other')).toBeDefined();
+  });
+
+  it('treats a corrupt state file as empty', () => {
+    fs.mkdirSync(path.dirname(getRetryStatePath(config)), { recursive: true });
+    fs.writeFileSync(getRetryStatePath(config), '{not json');
+
+    expect(readPendingRetries(config)).toEqual({});
+  });
+});
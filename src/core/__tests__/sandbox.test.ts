@@ -0,0 +1,68 @@
+import * as os from 'node:os';
+import * as path from 'node:path';
+import { describe, expect, it } from 'vitest';
+import {
+  getSecurityProfile,
+  getAllowedDomains,
+  resolveSeccompProfile,
+  securityArgs,
+  validateAllowedDomain,
+  PIPELINE_ALLOWED_DOMAINS,
+} from '../sandbox.js';
+import { makeDockerJob, makePipelineJob } from './fixtures.js';
+
+describe('getSecurityProfile', () => {
+  it('defaults to none for pipeline and docker jobs', () => {
+    expect(getSecurityProfile(makePipelineJob())).toBe('none');
+    expect(getSecurityProfile(makeDockerJob())).toBe('none');
+    expect(getSecurityProfile(makeDockerJob({ security: 'strict' }))).toBe('strict');
+  });
+});
+
+describe('getAllowedDomains', () => {
+  it('adds the Claude API and GitHub for pipeline jobs', () => {
+    expect(getAllowedDomains(makePipelineJob({ allowedDomains: ['registry.npmjs.org', 'github.com'] })))
+      .toEqual([...PIPELINE_ALLOWED_DOMAINS, 'registry.npmjs.org']);
+    expect(getAllowedDomains(makeDockerJob())).toEqual([]);
+  });
+});
+
+describe('validateAllowedDomain', () => {
+  it('accepts host names and subdomain wildcards only', () => {
+    expect(validateAllowedDomain('registry.npmjs.org')).toBeNull();
+    expect(validateAllowedDomain('*.example.com')).toBeNull();
+    expect(validateAllowedDomain('example.com:443')).toContain('Invalid domain');
+    expect(validateAllowedDomain('*example.com')).toContain('Invalid domain');
+  });
+});
+
+describe('securityArgs', () => {
+  it('makes the root filesystem read-only under strict, with tmpfs for writable paths', () => {
+    expect(securityArgs('strict', ['/workspace'])).toEqual([
+      '--cap-drop=ALL',
+      '--security-opt=no-new-privileges',
+      '--read-only',
+      '--tmpfs=/tmp:rw,exec,nosuid,nodev',
+      '--tmpfs=/workspace:rw,exec,nosuid,nodev',
+    ]);
+  });
+
+  it('keeps Docker defaults under none', () => {
+    expect(securityArgs('none')).toEqual([]);
+    expect(securityArgs('standard')).toContain('--security-opt=no-new-privileges');
+  });
+
+  it('replaces the default seccomp profile under any profile', () => {
+    for (const profile of ['strict', 'standard', 'none'] as const) {
+      expect(securityArgs(profile, [], '/etc/seccomp.json')).toContain('--security-opt=seccomp=/etc/seccomp.json');
+    }
+  });
+});
+
+describe('resolveSeccompProfile', () => {
+  it('resolves profiles from the project directory or the home directory', () => {
+    expect(resolveSeccompProfile('/project', 'seccomp/agent.json')).toBe('/project/seccomp/agent.json');
+    expect(resolveSeccompProfile('/project', '/etc/seccomp.json')).toBe('/etc/seccomp.json');
+    expect(resolveSeccompProfile('/project', '~/seccomp.json')).toBe(path.join(os.homedir(), 'seccomp.json'));
+  });
+});
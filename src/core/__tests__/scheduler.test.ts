@@ -6,7 +6,11 @@ import {
   describeOnce,
   onceShouldRun,
   shouldRunNow,
+  evaluateSchedule,
+  CATCH_UP_MAX_LOOKBACK_DAYS,
+  CATCH_UP_MAX_RUNS,
   getNextRun,
+  getNextRuns,
   formatRelativeTime,
   randomWindowShouldRun,
   validateRandomWindow,
@@ -14,6 +18,8 @@ import {
   deterministicHash,
   parseHHMM,
   parseStoredTimestamp,
+  parseScheduleDatetime,
+  isValidTimezone,
 } from '../scheduler.js';
 import type { RandomWindowSchedule } from '../types.js';
 
@@ -196,20 +202,60 @@ describe('cronMatches', () => {
 
   // Error handling
   it('throws on wrong field count (too few)', () => {
-    expect(() => cronMatches('* * *', new Date())).toThrow('expected 5 fields, got 3');
+    expect(() => cronMatches('* * *', new Date())).toThrow('Expected 5 or 6 fields, got 3');
   });
 
   it('throws on wrong field count (too many)', () => {
-    expect(() => cronMatches('* * * * * *', new Date())).toThrow('expected 5 fields, got 6');
+    expect(() => cronMatches('* * * * * * *', new Date())).toThrow('Expected 5 or 6 fields, got 7');
   });
 
   it('throws on empty string', () => {
-    expect(() => cronMatches('', new Date())).toThrow('expected 5 fields');
+    expect(() => cronMatches('', new Date())).toThrow('Expected 5 or 6 fields');
   });
 
-  // Edge: non-matching field returns false (not an error)
-  it('returns false for unrecognized field value', () => {
-    expect(cronMatches('abc * * * *', new Date('2025-06-15T10:30:00'))).toBe(false);
+  it('throws on unrecognized field value', () => {
+    expect(() => cronMatches('abc * * * *', new Date('2025-06-15T10:30:00'))).toThrow(
+      'Invalid cron expression: minute: Invalid value: abc',
+    );
+  });
+
+  // Extended dialect
+  it('matches month and weekday names', () => {
+    // 2025-06-16 is a Monday
+    expect(cronMatches('0 9 * JUN MON-FRI', new Date('2025-06-16T09:00:00'))).toBe(true);
+    expect(cronMatches('0 9 * jun sat,sun', new Date('2025-06-16T09:00:00'))).toBe(false);
+    expect(cronMatches('0 9 * JUL *', new Date('2025-06-16T09:00:00'))).toBe(false);
+  });
+
+  it('matches macros', () => {
+    expect(cronMatches('@daily', new Date('2025-06-15T00:00:00'))).toBe(true);
+    expect(cronMatches('@hourly', new Date('2025-06-15T13:00:00'))).toBe(true);
+    expect(cronMatches('@hourly', new Date('2025-06-15T13:01:00'))).toBe(false);
+    // 2025-06-15 is a Sunday
+    expect(cronMatches('@weekly', new Date('2025-06-15T00:00:00'))).toBe(true);
+    expect(cronMatches('@weekly', new Date('2025-06-16T00:00:00'))).toBe(false);
+  });
+
+  it('matches the last day of the month (L)', () => {
+    expect(cronMatches('0 0 L * *', new Date('2025-06-30T00:00:00'))).toBe(true);
+    expect(cronMatches('0 0 L * *', new Date('2025-06-29T00:00:00'))).toBe(false);
+    expect(cronMatches('0 0 L * *', new Date('2024-02-29T00:00:00'))).toBe(true);
+  });
+
+  it('matches the nth weekday of the month (#)', () => {
+    // First Monday of June 2025 is the 2nd
+    expect(cronMatches('0 9 * * 1#1', new Date('2025-06-02T09:00:00'))).toBe(true);
+    expect(cronMatches('0 9 * * 1#1', new Date('2025-06-09T09:00:00'))).toBe(false);
+  });
+
+  it('treats a step on a single value as running to the field maximum', () => {
+    expect(cronMatches('5/15 * * * *', new Date('2025-06-15T10:50:00'))).toBe(true);
+    expect(cronMatches('5/15 * * * *', new Date('2025-06-15T10:00:00'))).toBe(false);
+  });
+
+  it('matches 6-field expressions to the minute', () => {
+    expect(cronMatches('30 0 9 * * *', new Date('2025-06-15T09:00:00'))).toBe(true);
+    expect(cronMatches('30 0 9 * * *', new Date('2025-06-15T09:01:00'))).toBe(false);
   });
 });
 
@@ -232,8 +278,26 @@ describe('validateCron', () => {
     expect(validateCron('5-10/2 * * * *')).toBeNull();
   });
 
-  it('rejects unsupported start+step syntax', () => {
-    expect(validateCron('1/2 * * * *')).toContain('Invalid step expression');
+  it('returns null for start+step syntax: 1/2 * * * *', () => {
+    expect(validateCron('1/2 * * * *')).toBeNull();
+  });
+
+  it('returns null for names, macros and L/W/# forms', () => {
+    expect(validateCron('0 9 * JAN-MAR MON-FRI')).toBeNull();
+    expect(validateCron('@daily')).toBeNull();
+    expect(validateCron('@WEEKLY')).toBeNull();
+    expect(validateCron('0 9 * * 1#1')).toBeNull();
+    expect(validateCron('0 0 L * *')).toBeNull();
+    expect(validateCron('0 0 15W * *')).toBeNull();
+    expect(validateCron('0 18 * * 5L')).toBeNull();
+  });
+
+  it('returns null for a 6-field expression with seconds', () => {
+    expect(validateCron('30 0 9 * * *')).toBeNull();
+  });
+
+  it('reports an unknown macro', () => {
+    expect(validateCron('@fortnightly')).toBe('Unknown macro: @fortnightly');
   });
 
   it('returns null for valid cron with commas: 0,30 * * * *', () => {
@@ -245,11 +309,11 @@ describe('validateCron', () => {
   });
 
   it('reports wrong field count (too few)', () => {
-    expect(validateCron('* * *')).toBe('Expected 5 fields, got 3');
+    expect(validateCron('* * *')).toBe('Expected 5 or 6 fields, got 3');
   });
 
   it('reports wrong field count (too many)', () => {
-    expect(validateCron('* * * * * *')).toBe('Expected 5 fields, got 6');
+    expect(validateCron('* * * * * * *')).toBe('Expected 5 or 6 fields, got 7');
   });
 
   it('reports out-of-range minute (60)', () => {
@@ -374,11 +438,16 @@ describe('describeCron', () => {
     expect(describeCron('30 10 15 * *')).toBe('Day 15 of every month at 10:30');
   });
 
-  it('returns generic for complex expressions', () => {
-    const result = describeCron('0 9 1 6 *');
-    expect(result).toContain('hour 9');
-    expect(result).toContain('day 1');
-    expect(result).toContain('month 6');
+  it('describes a yearly date', () => {
+    expect(describeCron('0 9 1 6 *')).toBe('Every year on Jun 1 at 09:00');
+  });
+
+  it('describes names, macros and L/W/# forms', () => {
+    expect(describeCron('0 9 * * MON-FRI')).toBe('Mon to Fri at 09:00');
+    expect(describeCron('@hourly')).toBe('Every hour');
+    expect(describeCron('@weekly')).toBe('Every Sun at 00:00');
+    expect(describeCron('0 9 * * 1#1')).toBe('The first Mon of the month at 09:00');
+    expect(describeCron('0 0 L * *')).toBe('The last day of every month at 00:00');
   });
 
   it('returns invalid for wrong field count', () => {
@@ -400,6 +469,12 @@ describe('describeSchedule', () => {
     expect(result).toContain('past');
     vi.useRealTimers();
   });
+
+  it('describes after schedules by upstream jobs and outcome', () => {
+    expect(describeSchedule({ type: 'after', jobs: ['fetch'] })).toBe('After fetch succeeds');
+    expect(describeSchedule({ type: 'after', jobs: ['a', 'b'], on: 'failure' })).toBe('After a, b fail');
+    expect(describeSchedule({ type: 'after', jobs: ['fetch'], on: 'any' }, 'Asia/Tokyo')).toBe('After fetch finishes');
+  });
 });
 
 // ─── describeOnce ───────────────────────────────────────────
@@ -993,7 +1068,346 @@ describe('describeRandomWindow', () => {
 // ─── getNextRun with random-window ──────────────────────────
 
 describe('getNextRun with random-window', () => {
-  it('returns null for random-window schedule', () => {
+  it('returns null for random-window schedule without a job ID', () => {
     expect(getNextRun({ type: 'random-window', start: '09:00', end: '10:00' })).toBeNull();
   });
+
+  it('returns the picked minute of the next window for a job', () => {
+    const next = getNextRun({ type: 'random-window', start: '09:00', end: '10:00' }, undefined, 'job');
+    expect(next).not.toBeNull();
+    expect(next!.getHours()).toBe(9);
+  });
+});
+
+// ─── getNextRuns ────────────────────────────────────────────
+
+describe('getNextRuns', () => {
+  const from = new Date(2025, 5, 15, 10, 30);
+
+  it('returns the next N cron runs in order', () => {
+    expect(getNextRuns({ type: 'cron', cron: '0 9 * * MON-FRI' }, 'job', 3, from)).toEqual([
+      new Date(2025, 5, 16, 9, 0),
+      new Date(2025, 5, 17, 9, 0),
+      new Date(2025, 5, 18, 9, 0),
+    ]);
+  });
+
+  it('finds monthly and yearly runs beyond a week', () => {
+    expect(getNextRuns({ type: 'cron', cron: '0 0 1 * *' }, 'job', 2, from)).toEqual([
+      new Date(2025, 6, 1, 0, 0),
+      new Date(2025, 7, 1, 0, 0),
+    ]);
+    expect(getNextRuns({ type: 'cron', cron: '@yearly' }, 'job', 1, from)).toEqual([new Date(2026, 0, 1, 0, 0)]);
+  });
+
+  it('finds far-future runs such as Feb 29', () => {
+    expect(getNextRuns({ type: 'cron', cron: '0 12 29 2 *' }, 'job', 2, from)).toEqual([
+      new Date(2028, 1, 29, 12, 0),
+      new Date(2032, 1, 29, 12, 0),
+    ]);
+  });
+
+  it('returns no runs for a cron that never matches', () => {
+    expect(getNextRuns({ type: 'cron', cron: '0 0 31 2 *' }, 'job', 1, from)).toEqual([]);
+  });
+
+  it('returns the runs the scheduler would fire for random-window schedules', () => {
+    const schedule: RandomWindowSchedule = { type: 'random-window', start: '23:00', end: '01:00', days: 'MON-FRI' };
+    const runs = getNextRuns(schedule, 'nightly', 4, from);
+    expect(runs).toHaveLength(4);
+    for (const run of runs) {
+      expect(run > from).toBe(true);
+      expect(randomWindowShouldRun(schedule, null, run, 'nightly')).toBe(true);
+    }
+    // 2025-06-15 is a Sunday, so the first window starts Monday night
+    expect(runs[0] >= new Date(2025, 5, 16, 23, 0)).toBe(true);
+  });
+
+  it('includes a window already open when its minute is still ahead', () => {
+    const schedule: RandomWindowSchedule = { type: 'random-window', start: '10:00', end: '12:00' };
+    const [today] = getNextRuns(schedule, 'job', 1, new Date(2025, 5, 15, 10, 0));
+    expect(today.getDate()).toBe(15);
+  });
+
+  it('returns the datetime for once schedules and nothing for after schedules', () => {
+    expect(getNextRuns({ type: 'once', datetime: '2025-12-25T10:00:00' }, 'job', 5, from)).toEqual([
+      new Date('2025-12-25T10:00:00'),
+    ]);
+    expect(getNextRuns({ type: 'after', jobs: ['fetch'] }, 'job', 5, from)).toEqual([]);
+  });
+
+  it('evaluates in the schedule timezone', () => {
+    expect(getNextRuns({ type: 'cron', cron: '0 9 * * *', timezone: 'Asia/Tokyo' }, 'job', 1, from)).toEqual([
+      new Date('2025-06-16T00:00:00Z'),
+    ]);
+  });
+});
+
+describe('after schedules', () => {
+  it('are never due from the clock', () => {
+    const schedule = { type: 'after' as const, jobs: ['fetch'] };
+    expect(shouldRunNow(schedule, '2025-06-01T00:00:00Z', new Date(2025, 5, 15, 9, 0), 'job')).toBe(false);
+    expect(getNextRun(schedule)).toBeNull();
+  });
+});
+
+// ─── timezone-aware evaluation ──────────────────────────────
+
+describe('timezone-aware evaluation', () => {
+  const LA = 'America/Los_Angeles';
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('matches cron fields against the wall clock of the given timezone', () => {
+    // 16:00 UTC = 09:00 PDT
+    expect(cronMatches('0 9 * * *', new Date('2025-06-15T16:00:00Z'), LA)).toBe(true);
+    expect(cronMatches('0 9 * * *', new Date('2025-06-15T09:00:00Z'), LA)).toBe(false);
+  });
+
+  it('uses the weekday of the given timezone', () => {
+    // Monday 03:00 UTC = Sunday 20:00 PDT
+    expect(cronMatches('0 20 * * 0', new Date('2025-06-16T03:00:00Z'), LA)).toBe(true);
+    expect(cronMatches('0 20 * * 1', new Date('2025-06-16T03:00:00Z'), LA)).toBe(false);
+  });
+
+  it('uses the day of month of the given timezone', () => {
+    // 2025-07-01 02:00 UTC = 2025-06-30 19:00 PDT
+    expect(cronMatches('0 19 30 6 *', new Date('2025-07-01T02:00:00Z'), LA)).toBe(true);
+  });
+
+  describe('spring-forward gap (2025-03-09, 02:00 PST → 03:00 PDT)', () => {
+    it('fires a skipped fixed time at the first minute after the gap', () => {
+      // 10:00 UTC = 03:00 PDT, first minute after the gap
+      expect(cronMatches('30 2 * * *', new Date('2025-03-09T10:00:00Z'), LA)).toBe(true);
+    });
+
+    it('does not fire the skipped time before or later after the gap', () => {
+      expect(cronMatches('30 2 * * *', new Date('2025-03-09T09:59:00Z'), LA)).toBe(false);
+      expect(cronMatches('30 2 * * *', new Date('2025-03-09T10:01:00Z'), LA)).toBe(false);
+      expect(cronMatches('30 2 * * *', new Date('2025-03-09T10:30:00Z'), LA)).toBe(false);
+    });
+
+    it('fires a skipped fixed time exactly once across the night', () => {
+      let fires = 0;
+      for (let t = Date.parse('2025-03-09T07:00:00Z'); t < Date.parse('2025-03-09T13:00:00Z'); t += 60_000) {
+        if (cronMatches('30 2 * * *', new Date(t), LA)) fires++;
+      }
+      expect(fires).toBe(1);
+    });
+
+    it('does not shift wildcard-hour expressions into the gap', () => {
+      // Hourly at :30 runs at 01:30 PST and 03:30 PDT only
+      const hits: string[] = [];
+      for (let t = Date.parse('2025-03-09T09:00:00Z'); t < Date.parse('2025-03-09T11:00:00Z'); t += 60_000) {
+        if (cronMatches('30 * * * *', new Date(t), LA)) hits.push(new Date(t).toISOString());
+      }
+      expect(hits).toEqual(['2025-03-09T09:30:00.000Z', '2025-03-09T10:30:00.000Z']);
+    });
+  });
+
+  describe('fall-back repeated hour (2025-11-02, 02:00 PDT → 01:00 PST)', () => {
+    it('fires a repeated fixed time only on its first occurrence', () => {
+      // 08:30 UTC = 01:30 PDT (first), 09:30 UTC = 01:30 PST (second)
+      expect(cronMatches('30 1 * * *', new Date('2025-11-02T08:30:00Z'), LA)).toBe(true);
+      expect(cronMatches('30 1 * * *', new Date('2025-11-02T09:30:00Z'), LA)).toBe(false);
+    });
+
+    it('fires times after the repeated hour normally', () => {
+      // 10:00 UTC = 02:00 PST
+      expect(cronMatches('0 2 * * *', new Date('2025-11-02T10:00:00Z'), LA)).toBe(true);
+    });
+
+    it('lets wildcard-hour expressions follow the wall clock through both occurrences', () => {
+      expect(cronMatches('30 * * * *', new Date('2025-11-02T08:30:00Z'), LA)).toBe(true);
+      expect(cronMatches('30 * * * *', new Date('2025-11-02T09:30:00Z'), LA)).toBe(true);
+    });
+  });
+
+  it('shouldRunNow evaluates cron schedules in the configured timezone', () => {
+    const schedule = { type: 'cron' as const, cron: '0 9 * * *' };
+    expect(shouldRunNow(schedule, null, new Date('2025-06-15T16:00:00Z'), 'job', LA)).toBe(true);
+    expect(shouldRunNow(schedule, null, new Date('2025-06-15T16:00:00Z'), 'job', 'UTC')).toBe(false);
+  });
+
+  it('shouldRunNow catches up in the configured timezone using last_run', () => {
+    const schedule = { type: 'cron' as const, cron: '0 9 * * *' };
+    // Ran yesterday at 09:00 PDT; now it is 09:05 PDT
+    expect(shouldRunNow(schedule, '2025-06-14T16:00:00Z', new Date('2025-06-15T16:05:00Z'), 'job', LA)).toBe(true);
+    expect(shouldRunNow(schedule, '2025-06-15T16:00:00Z', new Date('2025-06-15T16:05:00Z'), 'job', LA)).toBe(false);
+  });
+
+  it('prefers the schedule timezone over the configured default', () => {
+    const schedule = { type: 'cron' as const, cron: '0 9 * * *', timezone: 'Asia/Tokyo' };
+    // 00:00 UTC = 09:00 JST
+    expect(shouldRunNow(schedule, null, new Date('2025-06-15T00:00:00Z'), 'job', LA)).toBe(true);
+    expect(shouldRunNow(schedule, null, new Date('2025-06-15T16:00:00Z'), 'job', LA)).toBe(false);
+  });
+
+  it('evaluates random windows on the wall clock of the timezone', () => {
+    const schedule: RandomWindowSchedule = { type: 'random-window', start: '09:00', end: '10:00' };
+    const hits: Date[] = [];
+    // Scan the whole UTC day covering the LA window (16:00-17:00 UTC)
+    for (let t = Date.parse('2025-06-15T00:00:00Z'); t < Date.parse('2025-06-16T00:00:00Z'); t += 60_000) {
+      if (randomWindowShouldRun(schedule, null, new Date(t), 'tz-job', LA)) hits.push(new Date(t));
+    }
+    expect(hits).toHaveLength(1);
+    expect(hits[0].getTime()).toBeGreaterThanOrEqual(Date.parse('2025-06-15T16:00:00Z'));
+    expect(hits[0].getTime()).toBeLessThan(Date.parse('2025-06-15T17:00:00Z'));
+  });
+
+  it('getNextRun predicts the next cron run in the timezone', () => {
+    vi.useFakeTimers();
+    vi.setSystemTime(new Date('2025-06-15T12:00:00Z'));
+    const result = getNextRun({ type: 'cron', cron: '0 9 * * *' }, LA);
+    expect(result).toEqual(new Date('2025-06-15T16:00:00Z'));
+  });
+
+  it('reads one-time datetimes without an offset in the timezone', () => {
+    expect(parseScheduleDatetime('2025-06-15T09:00:00', LA)).toEqual(new Date('2025-06-15T16:00:00Z'));
+    expect(getNextRun({ type: 'once', datetime: '2025-01-15T09:00:00' }, LA)).toEqual(new Date('2025-01-15T17:00:00Z'));
+  });
+
+  it('keeps explicit offsets in one-time datetimes', () => {
+    expect(parseScheduleDatetime('2025-06-15T09:00:00Z', LA)).toEqual(new Date('2025-06-15T09:00:00Z'));
+    expect(parseScheduleDatetime('2025-06-15T09:00:00+02:00', LA)).toEqual(new Date('2025-06-15T07:00:00Z'));
+  });
+
+  it('resolves one-time datetimes inside a DST gap to after the transition', () => {
+    expect(parseScheduleDatetime('2025-03-09T02:30:00', LA)).toEqual(new Date('2025-03-09T10:30:00Z'));
+  });
+
+  it('onceShouldRun compares against the datetime in the timezone', () => {
+    vi.useFakeTimers();
+    vi.setSystemTime(new Date('2025-06-15T15:59:00Z'));
+    expect(onceShouldRun('2025-06-15T09:00:00', null, LA)).toBe(false);
+    vi.setSystemTime(new Date('2025-06-15T16:00:00Z'));
+    expect(onceShouldRun('2025-06-15T09:00:00', null, LA)).toBe(true);
+  });
+
+  it('names a non-local timezone in schedule descriptions', () => {
+    const desc = describeSchedule({ type: 'cron', cron: '0 9 * * *', timezone: 'Pacific/Chatham' });
+    expect(desc).toBe('Every day at 09:00 (Pacific/Chatham)');
+  });
+
+  it('describes one-time schedules in the timezone', () => {
+    const desc = describeSchedule({ type: 'once', datetime: '2099-06-15T09:00:00', timezone: 'Pacific/Chatham' });
+    expect(desc).toContain('09:00');
+    expect(desc).toContain('(Pacific/Chatham)');
+  });
+
+  it('validates IANA timezone names', () => {
+    expect(isValidTimezone('America/Los_Angeles')).toBe(true);
+    expect(isValidTimezone('UTC')).toBe(true);
+    expect(isValidTimezone('Mars/Olympus_Mons')).toBe(false);
+    expect(isValidTimezone('')).toBe(false);
+  });
+});
+
+// ─── catch-up after downtime ────────────────────────────────
+
+describe('evaluateSchedule catch-up', () => {
+  const LA = 'America/Los_Angeles';
+  const daily = { type: 'cron' as const, cron: '0 9 * * *' };
+  // Ran Friday 09:00 PDT, machine asleep until Monday 08:00 PDT
+  const fridayRun = '2025-06-13T16:00:30Z';
+  const mondayMorning = new Date('2025-06-16T15:00:00Z');
+  const iso = (dates: Date[]) => dates.map((d) => d.toISOString());
+
+  it('reports every missed slot since last_run', () => {
+    const result = evaluateSchedule(daily, fridayRun, mondayMorning, 'job', LA);
+    expect(iso(result.missedSlots)).toEqual(['2025-06-14T16:00:00.000Z', '2025-06-15T16:00:00.000Z']);
+  });
+
+  it('latest runs once for the newest missed slot (default)', () => {
+    const result = evaluateSchedule(daily, fridayRun, mondayMorning, 'job', LA);
+    expect(iso(result.runSlots)).toEqual(['2025-06-15T16:00:00.000Z']);
+    expect(iso(result.skippedSlots)).toEqual(['2025-06-14T16:00:00.000Z']);
+  });
+
+  it('none skips every missed slot', () => {
+    const result = evaluateSchedule(daily, fridayRun, mondayMorning, 'job', LA, 'none');
+    expect(result.runSlots).toEqual([]);
+    expect(result.skippedSlots).toHaveLength(2);
+    expect(shouldRunNow(daily, fridayRun, mondayMorning, 'job', LA, 'none')).toBe(false);
+  });
+
+  it('all runs once per missed slot, oldest first', () => {
+    const result = evaluateSchedule(daily, fridayRun, mondayMorning, 'job', LA, 'all');
+    expect(iso(result.runSlots)).toEqual(['2025-06-14T16:00:00.000Z', '2025-06-15T16:00:00.000Z']);
+    expect(result.skippedSlots).toEqual([]);
+  });
+
+  it('all replays at most CATCH_UP_MAX_RUNS of the newest slots', () => {
+    const hourly = { type: 'cron' as const, cron: '0 * * * *' };
+    const result = evaluateSchedule(hourly, '2025-06-15T00:00:30Z', new Date('2025-06-15T20:30:00Z'), 'job', LA, 'all');
+    expect(result.missedSlots).toHaveLength(20);
+    expect(result.runSlots).toHaveLength(CATCH_UP_MAX_RUNS);
+    expect(result.runSlots[CATCH_UP_MAX_RUNS - 1].toISOString()).toBe('2025-06-15T20:00:00.000Z');
+    expect(result.skippedSlots).toHaveLength(20 - CATCH_UP_MAX_RUNS);
+  });
+
+  it('runs the on-time slot and skips older missed slots with latest and none', () => {
+    const mondayNine = new Date('2025-06-16T16:00:00Z');
+    for (const policy of ['latest', 'none'] as const) {
+      const result = evaluateSchedule(daily, fridayRun, mondayNine, 'job', LA, policy);
+      expect(iso(result.runSlots)).toEqual(['2025-06-16T16:00:00.000Z']);
+      expect(result.skippedSlots).toHaveLength(2);
+    }
+  });
+
+  it('includes the on-time slot after missed slots with all', () => {
+    const result = evaluateSchedule(daily, fridayRun, new Date('2025-06-16T16:00:00Z'), 'job', LA, 'all');
+    expect(result.runSlots).toHaveLength(3);
+  });
+
+  it('finds missed slots older than a day', () => {
+    const monthly = { type: 'cron' as const, cron: '0 3 1 * *' };
+    const result = evaluateSchedule(monthly, '2025-05-01T10:00:30Z', new Date('2025-06-03T12:00:00Z'), 'job', LA);
+    expect(iso(result.runSlots)).toEqual(['2025-06-01T10:00:00.000Z']);
+  });
+
+  it('stops searching after CATCH_UP_MAX_LOOKBACK_DAYS', () => {
+    const result = evaluateSchedule(daily, '2025-01-01T00:00:00Z', mondayMorning, 'job', LA);
+    expect(result.missedSlots).toHaveLength(CATCH_UP_MAX_LOOKBACK_DAYS);
+  });
+
+  it('has nothing to catch up without a valid last_run', () => {
+    for (const lastRun of [null, 'garbage']) {
+      const result = evaluateSchedule(daily, lastRun, mondayMorning, 'job', LA);
+      expect(result.missedSlots).toEqual([]);
+      expect(result.runSlots).toEqual([]);
+    }
+  });
+
+  it('reports a fixed time skipped by spring-forward at the first minute after the gap', () => {
+    const nightly = { type: 'cron' as const, cron: '30 2 * * *' };
+    // 2025-03-09 02:30 does not exist in LA; it fires at 03:00 PDT (10:00Z)
+    const result = evaluateSchedule(nightly, '2025-03-08T10:30:30Z', new Date('2025-03-09T20:00:00Z'), 'job', LA);
+    expect(iso(result.missedSlots)).toEqual(['2025-03-09T10:00:00.000Z']);
+  });
+
+  it('catches up a missed random-window run', () => {
+    const schedule: RandomWindowSchedule = { type: 'random-window', start: '09:00', end: '10:00' };
+    // Last run Friday in its window; now Monday 08:00 PDT, before the window
+    const result = evaluateSchedule(schedule, fridayRun, mondayMorning, 'rw-job', LA);
+
+    expect(result.missedSlots).toHaveLength(2);
+    expect(result.runSlots).toEqual([result.missedSlots[1]]);
+    const sunday = result.runSlots[0].getTime();
+    expect(sunday).toBeGreaterThanOrEqual(Date.parse('2025-06-15T16:00:00Z'));
+    expect(sunday).toBeLessThan(Date.parse('2025-06-15T17:00:00Z'));
+  });
+
+  it('always runs an overdue one-time schedule', () => {
+    const once = { type: 'once' as const, datetime: '2025-06-14T10:00:00Z' };
+    vi.useFakeTimers();
+    vi.setSystemTime(mondayMorning);
+    try {
+      expect(evaluateSchedule(once, null, mondayMorning, 'job', LA, 'none').runSlots).toHaveLength(1);
+    } finally {
+      vi.useRealTimers();
+    }
+  });
 });
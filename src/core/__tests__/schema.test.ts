@@ -0,0 +1,94 @@
+import { describe, expect, it } from 'vitest';
+import * as fs from 'node:fs';
+import {
+  getJobsSchema,
+  validateSchema,
+  getJsonLocations,
+  findJsonLocation,
+  type JsonSchema,
+} from '../schema.js';
+import { generateJobsSchema, formatSchema, SCHEMA_PATH } from '../../../scripts/generate-schema.js';
+import { makeDockerJob, makePipelineJob } from './fixtures.js';
+
+// ─── generated schema ───────────────────────────────────────
+
+describe('jobs schema', () => {
+  it('is up to date with types.ts (run `npm run schema`)', () => {
+    expect(fs.readFileSync(SCHEMA_PATH, 'utf-8')).toBe(formatSchema(generateJobsSchema()));
+  });
+
+  it('accepts the job fixtures', () => {
+    const file = { $schema: './schema/jobs.schema.json', jobs: [makeDockerJob(), makePipelineJob()] };
+    expect(validateSchema(file, getJobsSchema())).toEqual([]);
+  });
+
+  it('checks schedules by their type', () => {
+    const job = makeDockerJob({ schedule: { type: 'once' } as never });
+    expect(validateSchema({ jobs: [job] }, getJobsSchema())).toEqual([
+      { path: '/jobs/0/schedule', message: 'Missing required property "datetime"' },
+    ]);
+
+    const unknown = makeDockerJob({ schedule: { type: 'weekly' } as never });
+    expect(validateSchema({ jobs: [unknown] }, getJobsSchema())).toEqual([
+      { path: '/jobs/0/schedule/type', message: 'Must be one of: cron, once, random-window, after' },
+    ]);
+  });
+});
+
+// ─── validateSchema ─────────────────────────────────────────
+
+describe('validateSchema', () => {
+  const schema: JsonSchema = {
+    type: 'object',
+    properties: {
+      name: { type: 'string' },
+      mode: { type: 'string', enum: ['fast', 'slow'] },
+      command: { anyOf: [{ type: 'string' }, { type: 'array', items: { type: 'string' } }] },
+      env: { type: 'object', additionalProperties: { type: 'string' } },
+    },
+    required: ['name'],
+    additionalProperties: false,
+  };
+
+  it('reports wrong types, enum values and missing properties', () => {
+    expect(validateSchema({ mode: 'medium', env: { A: 1 } }, schema)).toEqual([
+      { path: '', message: 'Missing required property "name"' },
+      { path: '/mode', message: 'Must be one of: fast, slow' },
+      { path: '/env/A', message: 'Expected string, got number' },
+    ]);
+  });
+
+  it('reports the matching branch of a union', () => {
+    expect(validateSchema({ name: 'a', command: ['ls', 1] }, schema)).toEqual([
+      { path: '/command/1', message: 'Expected string, got number' },
+    ]);
+    expect(validateSchema({ name: 'a', command: 5 }, schema)).toEqual([
+      { path: '/command', message: 'Expected string or array, got number' },
+    ]);
+  });
+
+  it('suggests the closest known property', () => {
+    expect(validateSchema({ name: 'a', Nmae: 'b', color: 'red' }, schema)).toEqual([
+      { path: '/Nmae', message: 'Unknown property "Nmae" (did you mean "name"?)' },
+      { path: '/color', message: 'Unknown property "color"' },
+    ]);
+  });
+});
+
+// ─── locations ──────────────────────────────────────────────
+
+describe('getJsonLocations', () => {
+  const text = '{\n  "jobs": [\n    {\n      "id": "a",\n      "env": { "a/b": "1" }\n    }\n  ]\n}\n';
+
+  it('locates properties by their key and array items by their value', () => {
+    const locations = getJsonLocations(text);
+    expect(locations.get('/jobs')).toEqual({ line: 2, column: 3 });
+    expect(locations.get('/jobs/0')).toEqual({ line: 3, column: 5 });
+    expect(locations.get('/jobs/0/id')).toEqual({ line: 4, column: 7 });
+    expect(locations.get('/jobs/0/env/a~1b')).toEqual({ line: 5, column: 16 });
+  });
+
+  it('falls back to the closest parent', () => {
+    expect(findJsonLocation(getJsonLocations(text), '/jobs/0/schedule')).toEqual({ line: 3, column: 5 });
+  });
+});
@@ -0,0 +1,140 @@
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import * as fs from 'node:fs';
+import * as os from 'node:os';
+import * as path from 'node:path';
+import {
+  setSecret,
+  getSecret,
+  listSecrets,
+  removeSecret,
+  getSecretReferences,
+  resolveJobEnv,
+  formatEnvFile,
+  SECRET_KEY_ENV,
+} from '../secrets.js';
+import { getSecretsPath, getSecretKeyPath } from '../config.js';
+import type { Config } from '../types.js';
+import { makeConfig, makeDockerJob } from './fixtures.js';
+
+let dir: string;
+let config: Config;
+const savedEnv = { xdg: process.env.XDG_CONFIG_HOME, key: process.env[SECRET_KEY_ENV] };
+
+beforeEach(() => {
+  dir = fs.mkdtempSync(path.join(os.tmpdir(), 'oven-secrets-'));
+  process.env.XDG_CONFIG_HOME = path.join(dir, 'config');
+  delete process.env[SECRET_KEY_ENV];
+  config = makeConfig({ projectDir: path.join(dir, 'project') });
+});
+
+afterEach(() => {
+  fs.rmSync(dir, { recursive: true, force: true });
+  for (const [name, value] of [['XDG_CONFIG_HOME', savedEnv.xdg], [SECRET_KEY_ENV, savedEnv.key]] as const) {
+    if (value === undefined) delete process.env[name];
+    else process.env[name] = value;
+  }
+});
+
+// ─── Secret store ───────────────────────────────────────────
+
+describe('secret store', () => {
+  it('stores values encrypted and reads them back', () => {
+    setSecret(config, 'slack-token', 'xoxb-123');
+
+    expect(getSecret(config, 'slack-token')).toBe('xoxb-123');
+    expect(fs.readFileSync(getSecretsPath(config), 'utf-8')).not.toContain('xoxb-123');
+  });
+
+  it('creates the key file readable only by the owner', () => {
+    setSecret(config, 'a', 'value');
+
+    expect(fs.statSync(getSecretKeyPath()).mode & 0o777).toBe(0o600);
+  });
+
+  it('replaces, lists and removes secrets', () => {
+    setSecret(config, 'b', 'one');
+    setSecret(config, 'a', 'two');
+    setSecret(config, 'b', 'three');
+
+    expect(listSecrets(config).map((s) => s.name)).toEqual(['a', 'b']);
+    expect(getSecret(config, 'b')).toBe('three');
+    expect(removeSecret(config, 'b')).toBe(true);
+    expect(removeSecret(config, 'b')).toBe(false);
+    expect(() => getSecret(config, 'b')).toThrow('Secret "b" is not set');
+  });
+
+  it('rejects invalid names', () => {
+    expect(() => setSecret(config, 'bad name', 'x')).toThrow('Invalid secret name');
+  });
+
+  it('fails to decrypt with another key or a moved value', () => {
+    setSecret(config, 'a', 'one');
+    setSecret(config, 'b', 'two');
+
+    const secretsPath = getSecretsPath(config);
+    const file = JSON.parse(fs.readFileSync(secretsPath, 'utf-8'));
+    file.secrets.b = file.secrets.a;
+    fs.writeFileSync(secretsPath, JSON.stringify(file));
+    expect(() => getSecret(config, 'b')).toThrow('cannot be decrypted');
+
+    process.env[SECRET_KEY_ENV] = 'other passphrase';
+    expect(() => getSecret(config, 'a')).toThrow('cannot be decrypted');
+  });
+
+  it('uses a passphrase from the environment instead of the key file', () => {
+    process.env[SECRET_KEY_ENV] = 'correct horse';
+    setSecret(config, 'a', 'value');
+
+    expect(fs.existsSync(getSecretKeyPath())).toBe(false);
+    expect(getSecret(config, 'a')).toBe('value');
+  });
+});
+
+// ─── Env resolution ─────────────────────────────────────────
+
+describe('resolveJobEnv', () => {
+  it('resolves plain values, secrets, host env vars and files', () => {
+    setSecret(config, 'token', 's3cret');
+    fs.mkdirSync(config.projectDir, { recursive: true });
+    fs.writeFileSync(path.join(config.projectDir, 'key.txt'), 'from-file\n');
+    process.env.OVEN_TEST_HOST = 'from-host';
+
+    try {
+      expect(resolveJobEnv(config, {
+        PLAIN: 'value',
+        SECRET: { secret: 'token' },
+        HOST: { fromEnv: 'OVEN_TEST_HOST' },
+        FILE: { file: 'key.txt' },
+      })).toEqual({ PLAIN: 'value', SECRET: 's3cret', HOST: 'from-host', FILE: 'from-file' });
+    } finally {
+      delete process.env.OVEN_TEST_HOST;
+    }
+  });
+
+  it('names the env var that cannot be resolved', () => {
+    expect(() => resolveJobEnv(config, { TOKEN: { secret: 'missing' } }))
+      .toThrow('Env var TOKEN: Secret "missing" is not set');
+    expect(() => resolveJobEnv(config, { KEY: { file: '/nonexistent/key' } }))
+      .toThrow(/^Env var KEY: Cannot read \/nonexistent\/key/);
+  });
+});
+
+describe('getSecretReferences', () => {
+  it('maps secret names to the jobs that use them', () => {
+    const jobs = [
+      makeDockerJob({ id: 'a', env: { T: { secret: 'token' }, U: 'plain' } }),
+      makeDockerJob({ id: 'b', env: { T: { secret: 'token' }, H: { fromEnv: 'HOME' } } }),
+    ];
+    expect(getSecretReferences(jobs)).toEqual(new Map([['token', ['a', 'b']]]));
+  });
+});
+
+describe('formatEnvFile', () => {
+  it('writes one KEY=VALUE line per variable', () => {
+    expect(formatEnvFile({ A: '1', B: 'x=y z' })).toBe('A=1\nB=x=y z\n');
+  });
+
+  it('rejects values with line breaks', () => {
+    expect(() => formatEnvFile({ PEM: 'a\nb' })).toThrow('Env var PEM contains a line break');
+  });
+});
@@ -0,0 +1,124 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import * as fs from 'node:fs';
+import * as os from 'node:os';
+import * as path from 'node:path';
+import {
+  readJobStates,
+  getJobState,
+  updateJobState,
+  updateLastRun,
+  recordJobResult,
+  recordScheduledRun,
+  getScheduledThrough,
+  clearJobState,
+  migrateLastRuns,
+} from '../state.js';
+import { evaluateSchedule } from '../scheduler.js';
+import type { Config } from '../types.js';
+import { makeConfig } from './fixtures.js';
+
+let config: Config;
+let statePath: string;
+
+beforeEach(() => {
+  const projectDir = fs.mkdtempSync(path.join(os.tmpdir(), 'oven-state-'));
+  config = makeConfig({ projectDir });
+  statePath = path.join(projectDir, 'state.json');
+});
+
+afterEach(() => {
+  vi.useRealTimers();
+  fs.rmSync(config.projectDir, { recursive: true, force: true });
+});
+
+describe('readJobStates', () => {
+  it('returns no state when the file is missing', () => {
+    expect(readJobStates(config)).toEqual({});
+    expect(getJobState(config, 'job')).toEqual({});
+  });
+
+  it('treats a corrupt file as no state', () => {
+    fs.writeFileSync(statePath, '{"job": ');
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    expect(readJobStates(config)).toEqual({});
+  });
+});
+
+describe('updateLastRun', () => {
+  it('uses provided timestamp verbatim', () => {
+    expect(updateLastRun(config, 'lr', '2025-01-15T12:00:00').lastRun).toBe('2025-01-15T12:00:00');
+    expect(getJobState(config, 'lr').lastRun).toBe('2025-01-15T12:00:00');
+  });
+
+  it('generates UTC ISO timestamp without ms when no timestamp given', () => {
+    vi.useFakeTimers();
+    vi.setSystemTime(new Date('2025-06-15T10:30:00.000Z'));
+    expect(updateLastRun(config, 'lr').lastRun).toBe('2025-06-15T10:30:00Z');
+  });
+});
+
+describe('recordJobResult', () => {
+  it('counts consecutive failures until a success', () => {
+    const at = new Date('2025-06-15T10:30:00.000Z');
+    recordJobResult(config, 'job', 1, at);
+    expect(recordJobResult(config, 'job', 2, at)).toEqual({
+      lastRun: '2025-06-15T10:30:00Z',
+      lastExitCode: 2,
+      consecutiveFailures: 2,
+    });
+    expect(recordJobResult(config, 'job', 0, at).consecutiveFailures).toBe(0);
+  });
+
+  it('keeps other state values', () => {
+    updateJobState(config, 'job', { nextRandomWindowRun: '2025-06-16T09:12:00.000Z' });
+    recordJobResult(config, 'job', 0);
+    expect(getJobState(config, 'job').nextRandomWindowRun).toBe('2025-06-16T09:12:00.000Z');
+  });
+});
+
+describe('recordScheduledRun', () => {
+  it('keeps a slot whose run is still going out of the next ticks and of catch-up', () => {
+    const schedule = { type: 'cron' as const, cron: '0 10 * * *' };
+    updateLastRun(config, 'job', '2025-06-14T10:30:00Z');
+
+    // The 10:00 tick starts the run
+    recordScheduledRun(config, 'job', new Date('2025-06-15T10:00:00Z'));
+    const state = getJobState(config, 'job');
+    expect(state.lastScheduledRun).toBe('2025-06-15T10:00:00Z');
+    expect(getScheduledThrough(state)).toBe('2025-06-15T10:00:00Z');
+
+    // The 10:01 tick, with the run still going
+    const evaluation = evaluateSchedule(schedule, getScheduledThrough(state), new Date('2025-06-15T10:01:00Z'), 'job', 'UTC');
+    expect(evaluation.runSlots).toEqual([]);
+    expect(evaluation.missedSlots).toEqual([]);
+  });
+
+  it('is overtaken by the finish time of the run', () => {
+    recordScheduledRun(config, 'job', new Date('2025-06-15T10:00:00Z'));
+    recordJobResult(config, 'job', 0, new Date('2025-06-15T10:30:00Z'));
+    expect(getScheduledThrough(getJobState(config, 'job'))).toBe('2025-06-15T10:30:00Z');
+    expect(getScheduledThrough({})).toBeUndefined();
+  });
+});
+
+describe('clearJobState', () => {
+  it('drops only the given job', () => {
+    updateLastRun(config, 'a', '2025-06-15T10:00:00Z');
+    updateLastRun(config, 'b', '2025-06-15T10:00:00Z');
+    clearJobState(config, 'a');
+    expect(Object.keys(readJobStates(config))).toEqual(['b']);
+  });
+});
+
+describe('migrateLastRuns', () => {
+  it('moves values without overwriting newer state', () => {
+    updateLastRun(config, 'a', '2025-06-16T10:00:00Z');
+    const moved = migrateLastRuns(config, { a: '2025-06-15T10:00:00Z', b: '2025-06-15T11:00:00Z' });
+
+    expect(moved).toBe(1);
+    expect(readJobStates(config)).toEqual({
+      a: { lastRun: '2025-06-16T10:00:00Z' },
+      b: { lastRun: '2025-06-15T11:00:00Z' },
+    });
+  });
+});
@@ -31,11 +31,13 @@ export function resolveAuthMode(job: PipelineJob, authConfig: AuthConfig): AuthM
 
 /**
  * Generate Docker volume mounts and env vars for auth.
+ * With `readOnly`, every credential mount is read-only.
  */
 export function generateAuthArgs(
   authMode: AuthMode,
   authConfig: AuthConfig,
   jobEnv?: Record<string, string>,
+  readOnly = false,
 ): { volumes: string[]; envVars: Record<string, string> } {
   const volumes: string[] = [];
   const envVars: Record<string, string> = {};
@@ -45,15 +47,17 @@ export function generateAuthArgs(
     // .claude and .claude.json need read-write: Claude Code writes debug logs,
     // task tracking, and uses atomic-rename on .claude.json
     // .config/gh is read-only: gh CLI only reads credentials
+    // Strict runs get all of them read-only, so the job cannot change them
+    const mode = readOnly ? ':ro' : '';
     const claudePath = authConfig.claudeCredPath;
     const claudeJsonPath = `${claudePath}.json`; // ~/.claude.json (sibling config file)
     const ghPath = authConfig.ghCredPath;
 
     if (fs.existsSync(claudePath)) {
-      volumes.push(`${claudePath}:/root/.claude`);
+      volumes.push(`${claudePath}:/root/.claude${mode}`);
     }
     if (fs.existsSync(claudeJsonPath)) {
-      volumes.push(`${claudeJsonPath}:/root/.claude.json`);
+      volumes.push(`${claudeJsonPath}:/root/.claude.json${mode}`);
     }
     if (fs.existsSync(ghPath)) {
       volumes.push(`${ghPath}:/root/.config/gh:ro`);
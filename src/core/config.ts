@@ -7,6 +7,9 @@ import * as fs from 'node:fs';
 import * as path from 'node:path';
 import * as os from 'node:os';
 import type { Config, ColimaConfig, DockerDefaults, AuthConfig } from './types.js';
+import { isValidTimezone } from './scheduler.js';
+import { validateRedactPattern } from './redact.js';
+import { LOG_FORMATS } from './job-log.js';
 
 /** Default Colima configuration */
 const DEFAULT_COLIMA: ColimaConfig = {
@@ -28,11 +31,15 @@ const DEFAULT_AUTH: AuthConfig = {
   ghCredPath: path.join(os.homedir(), '.config', 'gh'),
 };
 
+/** Default number of jobs a scheduler tick runs concurrently */
+export const DEFAULT_MAX_CONCURRENT_JOBS = 4;
+
 /** Default configuration */
 const DEFAULT_CONFIG: Omit<Config, 'projectDir'> = {
   colima: DEFAULT_COLIMA,
   docker: DEFAULT_DOCKER,
   timezone: Intl.DateTimeFormat().resolvedOptions().timeZone,
+  maxConcurrentJobs: DEFAULT_MAX_CONCURRENT_JOBS,
   auth: DEFAULT_AUTH,
 };
 
@@ -119,13 +126,51 @@ export function loadConfig(): Config {
     projectDir = detectProjectDir() ?? process.cwd();
   }
 
+  // Fall back to the host timezone if the saved one is not a valid IANA name
+  let timezone = savedConfig.timezone ?? DEFAULT_CONFIG.timezone;
+  if (!isValidTimezone(timezone)) {
+    console.error(`Warning: Invalid timezone "${timezone}" in ${configPath}, using ${DEFAULT_CONFIG.timezone}`);
+    timezone = DEFAULT_CONFIG.timezone;
+  }
+
+  let maxConcurrentJobs = savedConfig.maxConcurrentJobs ?? DEFAULT_MAX_CONCURRENT_JOBS;
+  if (!Number.isInteger(maxConcurrentJobs) || maxConcurrentJobs < 1) {
+    console.error(
+      `Warning: Invalid maxConcurrentJobs "${maxConcurrentJobs}" in ${configPath}, using ${DEFAULT_MAX_CONCURRENT_JOBS}`,
+    );
+    maxConcurrentJobs = DEFAULT_MAX_CONCURRENT_JOBS;
+  }
+
+  // Drop redaction patterns that are not valid regular expressions
+  let redaction = savedConfig.redaction;
+  if (redaction?.patterns) {
+    const patterns = redaction.patterns.filter((pattern) => {
+      const patternError = validateRedactPattern(pattern);
+      if (patternError) {
+        console.error(`Warning: Ignoring redaction pattern in ${configPath}: ${patternError}`);
+      }
+      return !patternError;
+    });
+    redaction = { ...redaction, patterns };
+  }
+
+  let logFormat = savedConfig.logFormat;
+  if (logFormat !== undefined && !LOG_FORMATS.includes(logFormat)) {
+    console.error(`Warning: Invalid logFormat "${logFormat}" in ${configPath}, using text`);
+    logFormat = undefined;
+  }
+
   // Merge with defaults
   const config: Config = {
     projectDir,
     colima: { ...DEFAULT_COLIMA, ...savedConfig.colima },
     docker: { ...DEFAULT_DOCKER, ...savedConfig.docker },
-    timezone: savedConfig.timezone ?? DEFAULT_CONFIG.timezone,
+    timezone,
+    maxConcurrentJobs,
     auth: { ...DEFAULT_AUTH, ...savedConfig.auth },
+    ...(redaction ? { redaction } : {}),
+    ...(logFormat ? { logFormat } : {}),
+    ...(savedConfig.autoBuildImages === true ? { autoBuildImages: true } : {}),
   };
 
   return config;
@@ -153,6 +198,36 @@ export function getJobsFilePath(config: Config): string {
   return path.join(config.projectDir, 'jobs.json');
 }
 
+/**
+ * Get the path to state.json (runtime state such as last run times, keyed by job ID)
+ */
+export function getJobStatePath(config: Config): string {
+  return path.join(config.projectDir, 'state.json');
+}
+
+/**
+ * Get the path to the directory holding rolling backups of jobs.json
+ */
+export function getJobsBackupDir(config: Config): string {
+  return path.join(config.projectDir, 'backups');
+}
+
+/**
+ * Get the path to the encrypted secret store
+ */
+export function getSecretsPath(config: Config): string {
+  return path.join(config.projectDir, 'secrets.json');
+}
+
+/**
+ * Get the path to the key that encrypts the secret store. It is kept in the
+ * config directory, apart from the store, so copying the project directory
+ * does not copy the key.
+ */
+export function getSecretKeyPath(): string {
+  return path.join(getConfigDir(), 'secret.key');
+}
+
 /**
  * Get the path to the logs directory
  */
@@ -167,6 +242,34 @@ export function getJobLogsDir(config: Config, jobId: string): string {
   return path.join(getLogsDir(config), 'jobs', jobId);
 }
 
+/**
+ * Get the path to a job's outputs directory (mounted at /outputs when the job sets `outputs`)
+ */
+export function getJobOutputsDir(config: Config, jobId: string): string {
+  return path.join(config.projectDir, 'outputs', jobId);
+}
+
+/**
+ * Get the path to the run history store
+ */
+export function getRunHistoryPath(config: Config): string {
+  return path.join(getLogsDir(config), 'runs.jsonl');
+}
+
+/**
+ * Get the path to the pending retries file
+ */
+export function getRetryStatePath(config: Config): string {
+  return path.join(getLogsDir(config), 'retries.json');
+}
+
+/**
+ * Get the path to the directory holding per-job run locks
+ */
+export function getRunLocksDir(config: Config): string {
+  return path.join(getLogsDir(config), 'locks');
+}
+
 /**
  * Get the path to the scheduler log
  */
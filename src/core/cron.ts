@@ -0,0 +1,625 @@
+/**
+ * Cron expression parser
+ * Expressions are tokenized and parsed into an AST that is shared by
+ * schedule matching, validation and human-readable descriptions.
+ *
+ * Supported syntax:
+ * - 5 fields (minute hour day month weekday), or 6 with a leading seconds field
+ * - `*`, values, ranges (`1-5`), lists (`1,15`) and steps (`*\/15`, `1-30/5`, `5/15`)
+ * - month names (JAN-DEC) and weekday names (SUN-SAT), case-insensitive
+ * - day field: `L` (last day), `L-3` (3 days before the last day),
+ *   `15W` (weekday nearest the 15th), `LW` (last weekday)
+ * - weekday field: `5L` (last Friday of the month), `1#2` (second Monday)
+ * - `?` as an alias for `*` in the day and weekday fields
+ * - macros: @yearly, @annually, @monthly, @weekly, @daily, @midnight, @hourly
+ */
+
+export type CronFieldName = 'second' | 'minute' | 'hour' | 'day' | 'month' | 'weekday';
+
+/** One comma-separated element of a cron field */
+export type CronItem =
+  /** `*` or `?` */
+  | { kind: 'any' }
+  | { kind: 'value'; value: number }
+  /** `a-b`, `a-b/n`, `a/n` (to the field maximum) or `*\/n` (`wildcard`) */
+  | { kind: 'range'; start: number; end: number; step: number; wildcard: boolean }
+  /** Day field: `L` (offset 0) or `L-n` */
+  | { kind: 'lastDay'; offset: number }
+  /** Day field: `nW` */
+  | { kind: 'nearestWeekday'; day: number }
+  /** Day field: `LW` */
+  | { kind: 'lastWeekday' }
+  /** Weekday field: `nL` */
+  | { kind: 'lastOfMonth'; weekday: number }
+  /** Weekday field: `n#k` */
+  | { kind: 'nthOfMonth'; weekday: number; nth: number };
+
+/** A parsed cron field */
+export interface CronField {
+  name: CronFieldName;
+  /** Field text as written (after macro expansion) */
+  source: string;
+  items: CronItem[];
+}
+
+/** A parsed cron expression */
+export interface CronExpression {
+  /** Macro the expression was written as (e.g. "@daily") */
+  macro?: string;
+  /** Whether the expression has a seconds field */
+  hasSeconds: boolean;
+  second: CronField;
+  minute: CronField;
+  hour: CronField;
+  day: CronField;
+  month: CronField;
+  weekday: CronField;
+}
+
+/** Calendar fields a cron date is matched against */
+export interface CronDateParts {
+  year: number;
+  /** 1-12 */
+  month: number;
+  day: number;
+  /** 0=Sunday, 6=Saturday */
+  weekday: number;
+}
+
+interface FieldSpec {
+  min: number;
+  max: number;
+  names?: readonly string[];
+  /** Value of the first name in `names` */
+  namesStart?: number;
+}
+
+const MONTH_NAMES = ['JAN', 'FEB', 'MAR', 'APR', 'MAY', 'JUN', 'JUL', 'AUG', 'SEP', 'OCT', 'NOV', 'DEC'] as const;
+const WEEKDAY_NAMES = ['SUN', 'MON', 'TUE', 'WED', 'THU', 'FRI', 'SAT'] as const;
+
+const FIELD_SPECS: Record<CronFieldName, FieldSpec> = {
+  second: { min: 0, max: 59 },
+  minute: { min: 0, max: 59 },
+  hour: { min: 0, max: 23 },
+  day: { min: 1, max: 31 },
+  month: { min: 1, max: 12, names: MONTH_NAMES, namesStart: 1 },
+  // 0 and 7 are both Sunday
+  weekday: { min: 0, max: 7, names: WEEKDAY_NAMES, namesStart: 0 },
+};
+
+const MACROS: Record<string, string> = {
+  '@yearly': '0 0 1 1 *',
+  '@annually': '0 0 1 1 *',
+  '@monthly': '0 0 1 * *',
+  '@weekly': '0 0 * * 0',
+  '@daily': '0 0 * * *',
+  '@midnight': '0 0 * * *',
+  '@hourly': '0 * * * *',
+};
+
+// ─── Tokenizer ──────────────────────────────────────────────
+
+type Token =
+  | { type: 'number'; value: number; text: string }
+  | { type: 'word'; text: string }
+  | { type: 'symbol'; text: '*' | '?' | '-' | '/' | '#' };
+
+const TOKEN_RE = /(\d+)|([A-Za-z]+)|([*?\-/#])/y;
+
+/**
+ * Split one list item of a cron field into tokens.
+ * Returns null if the item contains characters outside the cron syntax.
+ */
+function tokenize(item: string): Token[] | null {
+  const tokens: Token[] = [];
+  TOKEN_RE.lastIndex = 0;
+  while (TOKEN_RE.lastIndex < item.length) {
+    const match = TOKEN_RE.exec(item);
+    if (!match) return null;
+    if (match[1] !== undefined) {
+      tokens.push({ type: 'number', value: Number(match[1]), text: match[1] });
+    } else if (match[2] !== undefined) {
+      tokens.push({ type: 'word', text: match[2].toUpperCase() });
+    } else {
+      tokens.push({ type: 'symbol', text: match[3] as '*' | '?' | '-' | '/' | '#' });
+    }
+  }
+  return tokens;
+}
+
+// ─── Parser ─────────────────────────────────────────────────
+
+/** Thrown for a malformed list item; turned into a generic message by the caller */
+class SyntaxMismatch {}
+
+class ItemParser {
+  private pos = 0;
+
+  constructor(
+    private readonly tokens: Token[],
+    private readonly name: CronFieldName,
+    private readonly spec: FieldSpec,
+  ) {}
+
+  parse(): CronItem {
+    const item = this.parseSpecial() ?? this.parseRange();
+    if (this.pos < this.tokens.length) throw new SyntaxMismatch();
+    return item;
+  }
+
+  private peek(offset = 0): Token | undefined {
+    return this.tokens[this.pos + offset];
+  }
+
+  private isSymbol(token: Token | undefined, text: string): boolean {
+    return token?.type === 'symbol' && token.text === text;
+  }
+
+  private isWord(token: Token | undefined, text: string): boolean {
+    return token?.type === 'word' && token.text === text;
+  }
+
+  /** Read a number or name and return its value, without range checks */
+  private readValue(): number {
+    const token = this.peek();
+    if (token?.type === 'number') {
+      this.pos++;
+      return token.value;
+    }
+    if (token?.type === 'word' && this.spec.names) {
+      const index = this.spec.names.indexOf(token.text);
+      if (index !== -1) {
+        this.pos++;
+        return index + (this.spec.namesStart ?? 0);
+      }
+    }
+    throw new SyntaxMismatch();
+  }
+
+  /** Day `L`, `L-n`, `LW`, `nW` and weekday `nL`, `n#k` forms */
+  private parseSpecial(): CronItem | null {
+    const [first, second, third] = [this.peek(), this.peek(1), this.peek(2)];
+
+    if (this.name === 'day') {
+      if (this.isWord(first, 'LW') && !second) {
+        this.pos = 1;
+        return { kind: 'lastWeekday' };
+      }
+      if (this.isWord(first, 'L')) {
+        if (!second) {
+          this.pos = 1;
+          return { kind: 'lastDay', offset: 0 };
+        }
+        if (this.isSymbol(second, '-') && third?.type === 'number' && this.tokens.length === 3) {
+          if (third.value < 1 || third.value > 30) {
+            throw new Error(`Last-day offset ${third.value} out of range (1-30)`);
+          }
+          this.pos = 3;
+          return { kind: 'lastDay', offset: third.value };
+        }
+      }
+      if (first?.type === 'number' && this.isWord(second, 'W') && this.tokens.length === 2) {
+        this.checkRange(first.value, 'Value');
+        this.pos = 2;
+        return { kind: 'nearestWeekday', day: first.value };
+      }
+    }
+
+    if (this.name === 'weekday' && first && (this.isWord(second, 'L') || this.isSymbol(second, '#'))) {
+      const weekday = this.readValue();
+      this.checkRange(weekday, 'Value');
+      if (this.isWord(this.peek(), 'L') && this.tokens.length === 2) {
+        this.pos++;
+        return { kind: 'lastOfMonth', weekday: weekday % 7 };
+      }
+      this.pos++;
+      const nth = this.peek();
+      if (nth?.type !== 'number' || this.tokens.length !== 3) throw new SyntaxMismatch();
+      if (nth.value < 1 || nth.value > 5) {
+        throw new Error(`Occurrence ${nth.value} out of range (1-5)`);
+      }
+      this.pos++;
+      return { kind: 'nthOfMonth', weekday: weekday % 7, nth: nth.value };
+    }
+
+    return null;
+  }
+
+  /** `*`, `?`, values, ranges and steps */
+  private parseRange(): CronItem {
+    const { min, max } = this.spec;
+    let start: number;
+    let end: number;
+    let wildcard = false;
+    let single = false;
+
+    const first = this.peek();
+    if (this.isSymbol(first, '*') || (this.isSymbol(first, '?') && (this.name === 'day' || this.name === 'weekday'))) {
+      this.pos++;
+      wildcard = true;
+      start = min;
+      end = max;
+    } else {
+      start = this.readValue();
+      if (this.isSymbol(this.peek(), '-')) {
+        this.pos++;
+        end = this.readValue();
+        this.checkRange(start, 'Start value');
+        this.checkRange(end, 'End value');
+        if (start > end) {
+          throw new Error(`Start value ${start} greater than end ${end}`);
+        }
+      } else {
+        this.checkRange(start, 'Value');
+        end = start;
+        single = true;
+      }
+    }
+
+    if (!this.isSymbol(this.peek(), '/')) {
+      if (wildcard) return { kind: 'any' };
+      if (single) return { kind: 'value', value: start };
+      return { kind: 'range', start, end, step: 1, wildcard: false };
+    }
+
+    this.pos++;
+    const step = this.peek();
+    if (step?.type !== 'number' || step.value < 1) {
+      throw new Error(`Invalid step value: ${step?.text ?? ''}`);
+    }
+    this.pos++;
+    return { kind: 'range', start, end: single ? max : end, step: step.value, wildcard };
+  }
+
+  private checkRange(value: number, label: string): void {
+    const { min, max } = this.spec;
+    if (value < min || value > max) {
+      throw new Error(`${label} ${value} out of range (${min}-${max})`);
+    }
+  }
+}
+
+/**
+ * Parse a single cron field.
+ * @throws Error describing the first invalid list item
+ */
+export function parseCronField(name: CronFieldName, source: string): CronField {
+  const spec = FIELD_SPECS[name];
+  const items = source.split(',').map((text) => {
+    const tokens = tokenize(text);
+    try {
+      if (!tokens || tokens.length === 0) throw new SyntaxMismatch();
+      return new ItemParser(tokens, name, spec).parse();
+    } catch (err) {
+      if (!(err instanceof SyntaxMismatch)) throw err;
+      if (text.includes('/')) throw new Error(`Invalid step expression: ${text}`);
+      if (/^[^-]+-[^-]+$/.test(text)) throw new Error(`Invalid range: ${text}`);
+      throw new Error(`Invalid value: ${text}`);
+    }
+  });
+  return { name, source, items };
+}
+
+const FIELDS_WITH_SECONDS: CronFieldName[] = ['second', 'minute', 'hour', 'day', 'month', 'weekday'];
+
+/**
+ * Parse a cron expression or macro.
+ * @throws Error naming the offending field, e.g. "hour: Value 24 out of range (0-23)"
+ */
+export function parseCron(expression: string): CronExpression {
+  const trimmed = expression.trim();
+  let macro: string | undefined;
+  let text = trimmed;
+
+  if (trimmed.startsWith('@')) {
+    macro = trimmed.toLowerCase();
+    if (!(macro in MACROS)) {
+      throw new Error(`Unknown macro: ${trimmed}`);
+    }
+    text = MACROS[macro];
+  }
+
+  const sources = text === '' ? [] : text.split(/\s+/);
+  if (sources.length !== 5 && sources.length !== 6) {
+    throw new Error(`Expected 5 or 6 fields, got ${sources.length}`);
+  }
+
+  const hasSeconds = sources.length === 6;
+  if (!hasSeconds) sources.unshift('0');
+
+  const fields = {} as Record<CronFieldName, CronField>;
+  FIELDS_WITH_SECONDS.forEach((name, i) => {
+    try {
+      fields[name] = parseCronField(name, sources[i]);
+    } catch (err) {
+      throw new Error(`${name}: ${err instanceof Error ? err.message : String(err)}`);
+    }
+  });
+
+  // The scheduler ticks once a minute, so a job can fire at most once per minute
+  const { items } = fields.second;
+  if (items.length !== 1 || items[0].kind !== 'value') {
+    throw new Error('second: Only a single value is supported (jobs run at most once a minute)');
+  }
+
+  return { macro, hasSeconds, ...fields };
+}
+
+const parsedCache = new Map<string, CronExpression>();
+
+/**
+ * Parse a cron expression, reusing earlier results for the same text.
+ */
+export function parseCronCached(expression: string): CronExpression {
+  let parsed = parsedCache.get(expression);
+  if (!parsed) {
+    parsed = parseCron(expression);
+    parsedCache.set(expression, parsed);
+  }
+  return parsed;
+}
+
+// ─── Matching ───────────────────────────────────────────────
+
+function daysInMonth(year: number, month: number): number {
+  return new Date(Date.UTC(year, month, 0)).getUTCDate();
+}
+
+function weekdayOf(year: number, month: number, day: number): number {
+  return new Date(Date.UTC(year, month - 1, day)).getUTCDay();
+}
+
+/** Weekday (Mon-Fri) nearest to `day`, staying within the month */
+function nearestWeekday(year: number, month: number, day: number): number {
+  const last = daysInMonth(year, month);
+  const target = Math.min(day, last);
+  const weekday = weekdayOf(year, month, target);
+  if (weekday === 6) return target === 1 ? 3 : target - 1;
+  if (weekday === 0) return target === last ? target - 2 : target + 1;
+  return target;
+}
+
+function matchesPlainItem(item: CronItem, value: number): boolean {
+  switch (item.kind) {
+    case 'any':
+      return true;
+    case 'value':
+      return value === item.value;
+    case 'range':
+      return value >= item.start && value <= item.end && (value - item.start) % item.step === 0;
+    default:
+      return false;
+  }
+}
+
+/**
+ * Check if a value matches a field made of plain items (no day or weekday specials)
+ */
+export function matchesCronField(field: CronField, value: number): boolean {
+  return field.items.some((item) => matchesPlainItem(item, value));
+}
+
+/**
+ * Check if a date matches the weekday field, treating both 0 and 7 as Sunday
+ */
+export function matchesCronWeekday(field: CronField, date: CronDateParts): boolean {
+  return field.items.some((item) => {
+    switch (item.kind) {
+      case 'lastOfMonth':
+        return date.weekday === item.weekday && date.day + 7 > daysInMonth(date.year, date.month);
+      case 'nthOfMonth':
+        return date.weekday === item.weekday && Math.ceil(date.day / 7) === item.nth;
+      default:
+        return matchesPlainItem(item, date.weekday) || (date.weekday === 0 && matchesPlainItem(item, 7));
+    }
+  });
+}
+
+function matchesCronDayOfMonth(field: CronField, date: CronDateParts): boolean {
+  return field.items.some((item) => {
+    switch (item.kind) {
+      case 'lastDay':
+        return date.day === daysInMonth(date.year, date.month) - item.offset;
+      case 'nearestWeekday':
+        return date.day === nearestWeekday(date.year, date.month, item.day);
+      case 'lastWeekday':
+        return date.day === nearestWeekday(date.year, date.month, daysInMonth(date.year, date.month));
+      default:
+        return matchesPlainItem(item, date.day);
+    }
+  });
+}
+
+/**
+ * Check whether a field places no restriction (`*` or `?`)
+ */
+export function isUnrestricted(field: CronField): boolean {
+  return field.items.length === 1 && field.items[0].kind === 'any';
+}
+
+/**
+ * Check if a date matches the day, month and weekday fields.
+ * As in classic cron, when both day and weekday are restricted either may match.
+ */
+export function matchesCronDate(cron: CronExpression, date: CronDateParts): boolean {
+  if (!matchesCronField(cron.month, date.month)) return false;
+
+  const dayMatches = matchesCronDayOfMonth(cron.day, date);
+  const weekdayMatches = matchesCronWeekday(cron.weekday, date);
+  return !isUnrestricted(cron.day) && !isUnrestricted(cron.weekday)
+    ? dayMatches || weekdayMatches
+    : dayMatches && weekdayMatches;
+}
+
+// ─── Descriptions ───────────────────────────────────────────
+
+const MONTH_LABELS = ['Jan', 'Feb', 'Mar', 'Apr', 'May', 'Jun', 'Jul', 'Aug', 'Sep', 'Oct', 'Nov', 'Dec'];
+const WEEKDAY_LABELS = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat', 'Sun'];
+const ORDINALS = ['', 'first', 'second', 'third', 'fourth', 'fifth'];
+
+function capitalize(text: string): string {
+  return text.charAt(0).toUpperCase() + text.slice(1);
+}
+
+function pad(value: number): string {
+  return String(value).padStart(2, '0');
+}
+
+function joinAnd(parts: string[]): string {
+  return parts.length <= 1 ? parts.join('') : `${parts.slice(0, -1).join(', ')} and ${parts[parts.length - 1]}`;
+}
+
+/** Values of a field made only of single values, or null */
+function plainValues(field: CronField): number[] | null {
+  const values: number[] = [];
+  for (const item of field.items) {
+    if (item.kind !== 'value') return null;
+    values.push(item.value);
+  }
+  return values;
+}
+
+/**
+ * Describe the items of a plain field using `label` for values,
+ * e.g. "Jan to Mar" or "every 2 hours from 08 to 20"
+ */
+function describeItems(field: CronField, label: (value: number) => string, unit: string): string {
+  const values = plainValues(field);
+  if (values) return values.map(label).join(', ');
+
+  return joinAnd(field.items.map((item) => {
+    switch (item.kind) {
+      case 'value':
+        return label(item.value);
+      case 'range':
+        if (item.step === 1) return `${label(item.start)} to ${label(item.end)}`;
+        if (item.wildcard) return `every ${item.step} ${unit}s`;
+        return `every ${item.step} ${unit}s from ${label(item.start)} to ${label(item.end)}`;
+      default:
+        return `every ${unit}`;
+    }
+  }));
+}
+
+/**
+ * Describe a weekday field, e.g. "every Mon", "Mon to Fri", "the last Fri of the month"
+ */
+export function describeWeekdayField(field: CronField): string {
+  const values = plainValues(field);
+  if (values && values.length === 1) return `every ${WEEKDAY_LABELS[values[0]]}`;
+
+  const specials = field.items.map((item) => {
+    if (item.kind === 'lastOfMonth') return `the last ${WEEKDAY_LABELS[item.weekday]} of the month`;
+    if (item.kind === 'nthOfMonth') return `the ${ORDINALS[item.nth]} ${WEEKDAY_LABELS[item.weekday]} of the month`;
+    return null;
+  });
+  if (specials.every((s) => s === null)) {
+    return describeItems(field, (v) => WEEKDAY_LABELS[v], 'day');
+  }
+  return joinAnd(field.items.map((item, i) => specials[i] ?? describeItems({ ...field, items: [item] }, (v) => WEEKDAY_LABELS[v], 'day')));
+}
+
+/** Describe a restricted day-of-month field, e.g. "day 1", "days 1 and 15", "the last day" */
+function describeDayField(field: CronField): string {
+  const values = plainValues(field);
+  if (values) {
+    return values.length === 1 ? `day ${values[0]}` : `days ${joinAnd(values.map(String))}`;
+  }
+
+  return joinAnd(field.items.map((item) => {
+    switch (item.kind) {
+      case 'lastDay':
+        if (item.offset === 0) return 'the last day';
+        return `${item.offset} day${item.offset > 1 ? 's' : ''} before the last day`;
+      case 'nearestWeekday':
+        return `the weekday nearest day ${item.day}`;
+      case 'lastWeekday':
+        return 'the last weekday';
+      case 'value':
+        return `day ${item.value}`;
+      case 'range':
+        if (item.step === 1) return `days ${item.start} to ${item.end}`;
+        if (item.wildcard) return `every ${item.step} days`;
+        return `every ${item.step} days from day ${item.start} to ${item.end}`;
+      default:
+        return 'every day';
+    }
+  }));
+}
+
+/** Describe which days an expression runs on, or null for every day */
+function describeDays(cron: CronExpression): string | null {
+  const dayRestricted = !isUnrestricted(cron.day);
+  const weekdayRestricted = !isUnrestricted(cron.weekday);
+  const monthRestricted = !isUnrestricted(cron.month);
+  const months = describeItems(cron.month, (v) => MONTH_LABELS[v - 1], 'month');
+
+  const dayValues = plainValues(cron.day);
+  const monthValues = plainValues(cron.month);
+  if (dayValues?.length === 1 && monthValues?.length === 1 && !weekdayRestricted) {
+    return `every year on ${MONTH_LABELS[monthValues[0] - 1]} ${dayValues[0]}`;
+  }
+
+  const parts: string[] = [];
+  if (dayRestricted) {
+    parts.push(`${describeDayField(cron.day)} of ${monthRestricted ? months : 'every month'}`);
+  }
+  if (weekdayRestricted) {
+    const weekdays = describeWeekdayField(cron.weekday);
+    parts.push(monthRestricted && !dayRestricted ? `${weekdays} in ${months}` : weekdays);
+  }
+  if (parts.length === 0) {
+    return monthRestricted ? `every day in ${months}` : null;
+  }
+  return parts.join(' or ');
+}
+
+/** Describe the times of day an expression runs at */
+function describeTime(cron: CronExpression): { text: string; at: boolean } {
+  const { minute, hour } = cron;
+  const second = cron.second.items[0].kind === 'value' ? cron.second.items[0].value : 0;
+  const secondSuffix = second !== 0 ? ` at second ${second}` : '';
+
+  const minutes = plainValues(minute);
+  const hours = plainValues(hour);
+  if (minutes && hours && minutes.length * hours.length <= 6) {
+    const times = hours.flatMap((h) => minutes.map((m) => `${pad(h)}:${pad(m)}${second ? `:${pad(second)}` : ''}`));
+    return { text: joinAnd(times), at: true };
+  }
+
+  const hourItem = hour.items[0];
+  if (isUnrestricted(hour)) {
+    if (isUnrestricted(minute)) return { text: `Every minute${secondSuffix}`, at: false };
+    const minuteItem = minute.items[0];
+    if (minute.items.length === 1 && minuteItem.kind === 'range' && minuteItem.wildcard) {
+      return { text: `Every ${minuteItem.step} minutes${secondSuffix}`, at: false };
+    }
+    if (minutes?.length === 1) {
+      const at = minutes[0] === 0 ? '' : ` at minute ${minutes[0]}`;
+      return { text: `Every hour${at}${secondSuffix}`, at: false };
+    }
+  } else if (minutes?.length === 1 && hour.items.length === 1 && hourItem.kind === 'range') {
+    const at = minutes[0] === 0 ? '' : ` at minute ${minutes[0]}`;
+    const every = hourItem.step === 1 ? 'Every hour' : `Every ${hourItem.step} hours`;
+    const span = hourItem.wildcard ? '' : ` from ${pad(hourItem.start)}:${pad(minutes[0])} to ${pad(hourItem.end)}:${pad(minutes[0])}`;
+    return { text: `${every}${at}${span}${secondSuffix}`, at: false };
+  }
+
+  const parts: string[] = [];
+  if (!isUnrestricted(minute)) parts.push(`minute ${describeItems(minute, String, 'minute')}`);
+  if (!isUnrestricted(hour)) parts.push(`hour ${describeItems(hour, String, 'hour')}`);
+  return { text: `At ${parts.join(', ')}${secondSuffix}`, at: false };
+}
+
+/**
+ * Describe a parsed cron expression in plain English,
+ * e.g. "Mon to Fri at 09:00" or "Every 15 minutes on the last day of every month"
+ */
+export function describeCronExpression(cron: CronExpression): string {
+  const time = describeTime(cron);
+  const days = describeDays(cron);
+  if (time.at) {
+    return `${capitalize(days ?? 'every day')} at ${time.text}`;
+  }
+  return days ? `${time.text} on ${days}` : time.text;
+}
@@ -0,0 +1,372 @@
+/**
+ * Job definition files
+ * Jobs can be managed as code: `agent-oven apply` reconciles YAML or JSON
+ * definition files with jobs.json, and `agent-oven export` writes jobs back
+ * out in the same format.
+ */
+
+import * as fs from 'node:fs';
+import * as path from 'node:path';
+import { LineCounter, parseAllDocuments, stringify, isMap, isSeq, isScalar, type Node } from 'yaml';
+import type { Config, Job } from './types.js';
+import {
+  modifyJobs,
+  normalizeJob,
+  validateJobDefinition,
+  type JobsFileIssue,
+} from './jobs.js';
+import { validateDependencies } from './dependencies.js';
+import { clearJobState } from './state.js';
+import {
+  getJsonLocations,
+  findJsonLocation,
+  joinJsonPointer,
+  locateJsonSyntaxError,
+  type JsonLocation,
+} from './schema.js';
+
+/** File extensions read from a definitions directory */
+export const DEFINITION_EXTENSIONS = ['.yaml', '.yml', '.json'];
+
+/** Output formats for exported jobs */
+export type DefinitionFormat = 'yaml' | 'json';
+
+/** A job read from a definition file */
+export interface JobDefinition {
+  job: Job;
+  /** File the job was defined in */
+  file: string;
+}
+
+/** A problem in a definition file */
+export interface DefinitionIssue extends JobsFileIssue {
+  file: string;
+}
+
+/** A changed field of a job, by dotted path (e.g. schedule.cron) */
+export interface FieldChange {
+  path: string;
+  /** Value before the change (absent when the field is added) */
+  before?: unknown;
+  /** Value after the change (absent when the field is removed) */
+  after?: unknown;
+}
+
+/** A change `apply` makes to jobs.json */
+export interface JobChange {
+  action: 'create' | 'update' | 'delete';
+  jobId: string;
+  /** The job as configured now (update, delete) */
+  before?: Job;
+  /** The job as defined in the files (create, update) */
+  after?: Job;
+  /** Changed fields (update) */
+  fields: FieldChange[];
+}
+
+/** The changes that reconcile jobs.json with a set of definitions */
+export interface ApplyPlan {
+  changes: JobChange[];
+  /** IDs of defined jobs that already match jobs.json */
+  unchanged: string[];
+  /** Problems with the resulting jobs (e.g. dependencies on pruned jobs); the plan must not be applied */
+  errors: string[];
+}
+
+/** A parsed document with the position of each value, keyed by JSON pointer */
+interface LocatedDocument {
+  value: unknown;
+  locations: Map<string, JsonLocation>;
+}
+
+/**
+ * Map the values of a YAML document to their positions, keyed by JSON pointer
+ */
+function getYamlLocations(
+  node: unknown,
+  lineCounter: LineCounter,
+  pointer = '',
+  locations = new Map<string, JsonLocation>(),
+): Map<string, JsonLocation> {
+  const locate = (target: unknown, at: string): void => {
+    const range = (target as Node | null)?.range;
+    if (range && !locations.has(at)) {
+      const { line, col } = lineCounter.linePos(range[0]);
+      locations.set(at, { line, column: col });
+    }
+  };
+
+  locate(node, pointer);
+  if (isMap(node)) {
+    for (const pair of node.items) {
+      const key = isScalar(pair.key) ? String(pair.key.value) : String(pair.key);
+      const child = joinJsonPointer(pointer, key);
+      locate(pair.key, child);
+      getYamlLocations(pair.value, lineCounter, child, locations);
+    }
+  } else if (isSeq(node)) {
+    node.items.forEach((item, index) => {
+      getYamlLocations(item, lineCounter, joinJsonPointer(pointer, index), locations);
+    });
+  }
+  return locations;
+}
+
+/**
+ * Parse a definition file into documents. JSON files hold one document;
+ * YAML files may hold several separated by `---`.
+ */
+function parseDefinitionFile(file: string, content: string): { documents: LocatedDocument[]; issues: DefinitionIssue[] } {
+  if (path.extname(file).toLowerCase() === '.json') {
+    try {
+      return { documents: [{ value: JSON.parse(content), locations: getJsonLocations(content) }], issues: [] };
+    } catch (err) {
+      const msg = err instanceof Error ? err.message : String(err);
+      const line = locateJsonSyntaxError(content, msg)?.line;
+      return { documents: [], issues: [{ file, path: '', line, message: `Invalid JSON: ${msg}` }] };
+    }
+  }
+
+  const lineCounter = new LineCounter();
+  const documents: LocatedDocument[] = [];
+  const issues: DefinitionIssue[] = [];
+  for (const doc of parseAllDocuments(content, { lineCounter })) {
+    if (doc.errors.length > 0) {
+      for (const err of doc.errors) {
+        issues.push({ file, path: '', line: err.linePos?.[0].line, message: `Invalid YAML: ${err.message.split('\n')[0]}` });
+      }
+      continue;
+    }
+    const value: unknown = doc.toJS();
+    if (value === null || value === undefined) continue; // empty document
+    documents.push({ value, locations: getYamlLocations(doc.contents, lineCounter) });
+  }
+  return { documents, issues };
+}
+
+/**
+ * Get the job records in a document with their JSON pointers. A document
+ * holds one job, a list of jobs, or an object with a `jobs` list (the
+ * jobs.json format).
+ */
+function getJobRecords(value: unknown): { record: unknown; pointer: string }[] | null {
+  if (Array.isArray(value)) {
+    return value.map((record, index) => ({ record, pointer: `/${index}` }));
+  }
+  if (typeof value !== 'object' || value === null) return null;
+
+  const object = value as Record<string, unknown>;
+  if (Array.isArray(object.jobs) && !('id' in object)) {
+    return object.jobs.map((record, index) => ({ record, pointer: `/jobs/${index}` }));
+  }
+  return [{ record: value, pointer: '' }];
+}
+
+/**
+ * List the definition files under the given paths. Directories are searched
+ * recursively for YAML and JSON files; hidden entries are skipped.
+ * @throws Error if a path does not exist
+ */
+export function findDefinitionFiles(paths: string[]): string[] {
+  const files: string[] = [];
+
+  const walk = (dir: string): void => {
+    const entries = fs.readdirSync(dir, { withFileTypes: true })
+      .filter((entry) => !entry.name.startsWith('.'))
+      .sort((a, b) => a.name.localeCompare(b.name));
+    for (const entry of entries) {
+      const entryPath = path.join(dir, entry.name);
+      if (entry.isDirectory()) {
+        walk(entryPath);
+      } else if (DEFINITION_EXTENSIONS.includes(path.extname(entry.name).toLowerCase())) {
+        files.push(entryPath);
+      }
+    }
+  };
+
+  for (const p of paths) {
+    if (!fs.existsSync(p)) {
+      throw new Error(`${p} does not exist`);
+    }
+    if (fs.statSync(p).isDirectory()) {
+      walk(p);
+    } else {
+      files.push(p);
+    }
+  }
+  return files;
+}
+
+/**
+ * Read and validate the job definitions under the given paths.
+ * Every problem is returned (with its file and line) rather than stopping at
+ * the first, so all of them can be fixed in one pass. Dependencies are
+ * checked later against the planned set of jobs (see planApply).
+ * @throws Error if a path does not exist or cannot be read
+ */
+export function readJobDefinitions(paths: string[]): { definitions: JobDefinition[]; issues: DefinitionIssue[] } {
+  const definitions: JobDefinition[] = [];
+  const issues: DefinitionIssue[] = [];
+  const definedIn = new Map<string, string>();
+
+  for (const file of findDefinitionFiles(paths)) {
+    const parsed = parseDefinitionFile(file, fs.readFileSync(file, 'utf-8'));
+    issues.push(...parsed.issues);
+
+    for (const { value, locations } of parsed.documents) {
+      const report = (pointer: string, message: string, jobId?: string): void => {
+        const line = findJsonLocation(locations, pointer)?.line;
+        issues.push({ file, path: pointer, line, ...(jobId ? { jobId } : {}), message });
+      };
+
+      const records = getJobRecords(value);
+      if (!records) {
+        report('', 'Expected a job, a list of jobs, or an object with a "jobs" list');
+        continue;
+      }
+
+      for (const { record, pointer } of records) {
+        const id = (record as Record<string, unknown> | null)?.id;
+        const jobId = typeof id === 'string' ? id : undefined;
+        const jobIssues = validateJobDefinition(record);
+        for (const issue of jobIssues) {
+          report(pointer + issue.path, issue.message, jobId);
+        }
+        if (jobIssues.length > 0) continue;
+
+        const job = normalizeJob(record as Record<string, unknown>);
+        const previous = definedIn.get(job.id);
+        if (previous) {
+          report(`${pointer}/id`, `Job "${job.id}" is also defined in ${previous}`, job.id);
+          continue;
+        }
+        definedIn.set(job.id, file);
+        definitions.push({ job, file });
+      }
+    }
+  }
+
+  return { definitions, issues };
+}
+
+/** Serialize a value with sorted object keys, so key order does not count as a change */
+function canonicalJson(value: unknown): string {
+  return JSON.stringify(value, (_key, item: unknown) => {
+    if (typeof item !== 'object' || item === null || Array.isArray(item)) return item;
+    return Object.fromEntries(Object.entries(item).sort(([a], [b]) => a.localeCompare(b)));
+  });
+}
+
+/**
+ * List the fields that differ between two versions of a job. Objects are
+ * compared field by field; arrays and other values as a whole.
+ */
+export function diffJobFields(before: unknown, after: unknown, prefix = ''): FieldChange[] {
+  const isObject = (value: unknown): value is Record<string, unknown> =>
+    typeof value === 'object' && value !== null && !Array.isArray(value);
+
+  if (isObject(before) && isObject(after)) {
+    const keys = [...new Set([...Object.keys(before), ...Object.keys(after)])];
+    return keys.flatMap((key) => diffJobFields(before[key], after[key], prefix ? `${prefix}.${key}` : key));
+  }
+  if (canonicalJson(before) === canonicalJson(after)) return [];
+  return [{
+    path: prefix,
+    ...(before !== undefined ? { before } : {}),
+    ...(after !== undefined ? { after } : {}),
+  }];
+}
+
+/**
+ * Work out the changes that make jobs.json match the definitions: create new
+ * jobs, replace changed ones, and with `prune` delete jobs that are not
+ * defined. The resulting set of jobs is checked for broken dependencies.
+ */
+export function planApply(current: Job[], definitions: Job[], options: { prune?: boolean } = {}): ApplyPlan {
+  const changes: JobChange[] = [];
+  const unchanged: string[] = [];
+  const currentById = new Map(current.map((job) => [job.id, job]));
+  const definedIds = new Set(definitions.map((job) => job.id));
+
+  for (const job of definitions) {
+    const existing = currentById.get(job.id);
+    if (!existing) {
+      changes.push({ action: 'create', jobId: job.id, after: job, fields: [] });
+      continue;
+    }
+    const fields = diffJobFields(existing, job);
+    if (fields.length === 0) {
+      unchanged.push(job.id);
+    } else {
+      changes.push({ action: 'update', jobId: job.id, before: existing, after: job, fields });
+    }
+  }
+
+  if (options.prune) {
+    for (const job of current) {
+      if (!definedIds.has(job.id)) {
+        changes.push({ action: 'delete', jobId: job.id, before: job, fields: [] });
+      }
+    }
+  }
+
+  const deleted = new Set(changes.filter((change) => change.action === 'delete').map((change) => change.jobId));
+  const result = [
+    ...current.filter((job) => !definedIds.has(job.id) && !deleted.has(job.id)),
+    ...definitions,
+  ];
+  const errors = result.flatMap((job) =>
+    validateDependencies(job, result).map((message) => `${job.id}: ${message}`));
+
+  return { changes, unchanged, errors };
+}
+
+/**
+ * Make the changes in a plan in a single write of jobs.json. The plan is
+ * worked out again from the definitions while jobs.json is locked, and
+ * nothing is changed if jobs.json no longer matches the plan (e.g. a job
+ * was edited after the plan was shown).
+ * @throws Error if the plan has errors or is out of date
+ */
+export function applyPlan(config: Config, plan: ApplyPlan, definitions: Job[], options: { prune?: boolean } = {}): void {
+  if (plan.errors.length > 0) {
+    throw new Error(`Cannot apply: ${plan.errors.join('; ')}`);
+  }
+
+  const deleted = modifyJobs(config, (jobs) => {
+    const current = planApply(jobs, definitions, options);
+    if (current.errors.length > 0) {
+      throw new Error(`Cannot apply: ${current.errors.join('; ')}`);
+    }
+    if (canonicalJson(current.changes) !== canonicalJson(plan.changes)) {
+      throw new Error('jobs.json changed since the plan was made; nothing was applied. Run apply again');
+    }
+
+    for (const change of current.changes) {
+      const index = jobs.findIndex((job) => job.id === change.jobId);
+      if (change.action === 'create') {
+        jobs.push(change.after!);
+      } else if (change.action === 'update') {
+        jobs[index] = change.after!;
+      } else {
+        jobs.splice(index, 1);
+      }
+    }
+    return current.changes.filter((change) => change.action === 'delete').map((change) => change.jobId);
+  });
+
+  for (const jobId of deleted) {
+    clearJobState(config, jobId);
+  }
+}
+
+/**
+ * Serialize jobs as definitions `apply` reads back: YAML with one document
+ * per job, or JSON in the jobs.json format
+ */
+export function formatJobDefinitions(jobs: Job[], format: DefinitionFormat): string {
+  if (format === 'json') {
+    return JSON.stringify({ jobs }, null, 2) + '\n';
+  }
+  return jobs.map((job) => stringify(job)).join('---\n');
+}
@@ -0,0 +1,189 @@
+/**
+ * Job dependencies
+ * A job with an `after` schedule runs when its upstream jobs finish. The
+ * scheduler triggers it once an upstream run's outcome is final (no retry
+ * pending), using the run history to check the other upstream jobs.
+ */
+
+import type { Config, DependencyOutcome, Job } from './types.js';
+import { listRuns } from './history.js';
+import { getPendingRetry } from './retries.js';
+import { getJobState } from './state.js';
+import { parseStoredTimestamp } from './scheduler.js';
+
+/** Valid values for an `after` schedule's `on` field */
+export const DEPENDENCY_OUTCOMES: DependencyOutcome[] = ['success', 'failure', 'any'];
+
+/**
+ * Get the IDs of the jobs a job depends on (empty unless it has an `after` schedule)
+ */
+export function getUpstreamJobIds(job: Pick<Job, 'schedule'>): string[] {
+  return job.schedule.type === 'after' && Array.isArray(job.schedule.jobs) ? job.schedule.jobs : [];
+}
+
+/**
+ * Get the jobs that depend on `jobId`
+ */
+export function getDependentJobs(jobs: Job[], jobId: string): Job[] {
+  return jobs.filter((job) => getUpstreamJobIds(job).includes(jobId));
+}
+
+/**
+ * Check whether an upstream exit code satisfies a dependency outcome
+ */
+export function outcomeMatches(on: DependencyOutcome | undefined, exitCode: number): boolean {
+  if (on === 'any') return true;
+  if (on === 'failure') return exitCode !== 0;
+  return exitCode === 0;
+}
+
+/**
+ * Find a dependency cycle among jobs.
+ * Returns the job IDs along the cycle with the first repeated at the end
+ * (e.g. ["a", "b", "a"]), or null when the dependency graph is acyclic.
+ */
+export function findDependencyCycle(jobs: Job[]): string[] | null {
+  const byId = new Map(jobs.map((job) => [job.id, job]));
+  const done = new Set<string>();
+  const stack: string[] = [];
+
+  const visit = (id: string): string[] | null => {
+    const onStack = stack.indexOf(id);
+    if (onStack !== -1) return [...stack.slice(onStack), id];
+    if (done.has(id)) return null;
+
+    const job = byId.get(id);
+    if (!job) return null;
+
+    stack.push(id);
+    for (const upstreamId of getUpstreamJobIds(job)) {
+      const cycle = visit(upstreamId);
+      if (cycle) return cycle;
+    }
+    stack.pop();
+    done.add(id);
+    return null;
+  };
+
+  for (const job of jobs) {
+    const cycle = visit(job.id);
+    if (cycle) return cycle.reverse();
+  }
+  return null;
+}
+
+/**
+ * Validate a job's dependencies against the other configured jobs:
+ * every upstream job must exist and the job must not be part of a cycle.
+ * Returns error messages (empty when valid).
+ */
+export function validateDependencies(job: Partial<Job>, jobs: Job[]): string[] {
+  if (!job.id || job.schedule?.type !== 'after') return [];
+
+  const errors: string[] = [];
+  for (const upstreamId of getUpstreamJobIds(job as Job)) {
+    if (!jobs.some((other) => other.id === upstreamId)) {
+      errors.push(`Upstream job "${upstreamId}" does not exist`);
+    }
+  }
+
+  const merged = [...jobs.filter((other) => other.id !== job.id), job as Job];
+  const cycle = findDependencyCycle(merged);
+  if (cycle && cycle.includes(job.id)) {
+    // Start the reported cycle at this job
+    const ids = cycle.slice(0, -1);
+    const start = ids.indexOf(job.id);
+    const path = [...ids.slice(start), ...ids.slice(0, start), job.id];
+    errors.push(`Dependency cycle: ${path.join(' -> ')}`);
+  }
+  return errors;
+}
+
+/**
+ * Check whether a dependent job should run now that `finished.jobId` has a
+ * final outcome. Every other upstream job needs a finished run since the
+ * dependent job's last run with no retry pending, and every upstream
+ * outcome must match the schedule's `on`.
+ */
+export function dependenciesSatisfied(
+  config: Config,
+  job: Job,
+  finished: { jobId: string; exitCode: number },
+): boolean {
+  if (job.schedule.type !== 'after') return false;
+  const { on } = job.schedule;
+  const { lastRun: lastRunAt } = getJobState(config, job.id);
+  const lastRun = lastRunAt ? parseStoredTimestamp(lastRunAt) : null;
+
+  for (const upstreamId of job.schedule.jobs) {
+    if (upstreamId === finished.jobId) {
+      if (!outcomeMatches(on, finished.exitCode)) return false;
+      continue;
+    }
+
+    if (getPendingRetry(config, upstreamId)) return false;
+    const latest = listRuns(config, { jobId: upstreamId })
+      .find((run) => run.finishedAt !== undefined && run.exitCode !== undefined);
+    if (!latest) return false;
+    if (lastRun && !isNaN(lastRun.getTime()) && new Date(latest.finishedAt!) <= lastRun) return false;
+    if (!outcomeMatches(on, latest.exitCode!)) return false;
+  }
+  return true;
+}
+
+/**
+ * Render the dependency graph around a job as text lines, starting from the
+ * job's furthest upstream ancestors. Returns no lines for a job without
+ * dependencies or dependents.
+ */
+export function formatDependencyGraph(jobs: Job[], jobId: string): string[] {
+  const byId = new Map(jobs.map((job) => [job.id, job]));
+  const roots: string[] = [];
+  const seen = new Set<string>();
+
+  const findRoots = (id: string): void => {
+    if (seen.has(id)) return;
+    seen.add(id);
+    const job = byId.get(id);
+    const upstream = job ? getUpstreamJobIds(job) : [];
+    if (upstream.length === 0) roots.push(id);
+    upstream.forEach(findRoots);
+  };
+  findRoots(jobId);
+
+  if (roots.length === 1 && roots[0] === jobId && getDependentJobs(jobs, jobId).length === 0) {
+    return [];
+  }
+
+  const lines: string[] = [];
+  const render = (id: string, prefix: string, childPrefix: string, path: string[]): void => {
+    const job = byId.get(id);
+    let label = id;
+    if (!job) label += ' (missing)';
+    if (job?.schedule.type === 'after' && job.schedule.on && job.schedule.on !== 'success') {
+      label += ` (on ${job.schedule.on})`;
+    }
+    if (id === jobId) label += '  ← this job';
+    if (path.includes(id)) {
+      lines.push(`${prefix}${id} (cycle)`);
+      return;
+    }
+    lines.push(prefix + label);
+
+    const children = getDependentJobs(jobs, id);
+    children.forEach((child, i) => {
+      const last = i === children.length - 1;
+      render(
+        child.id,
+        childPrefix + (last ? '└─▶ ' : '├─▶ '),
+        childPrefix + (last ? '    ' : '│   '),
+        [...path, id],
+      );
+    });
+  };
+
+  for (const root of roots) {
+    render(root, '', '', []);
+  }
+  return lines;
+}
@@ -3,27 +3,42 @@
  * Handles container operations via Colima
  */
 
-import { execa, type ExecaError } from 'execa';
+import { execa, type ExecaError, type ResultPromise } from 'execa';
 import { spawn } from 'node:child_process';
 import * as fs from 'node:fs';
+import * as os from 'node:os';
 import * as path from 'node:path';
+import * as readline from 'node:readline';
+import type { Readable } from 'node:stream';
 import type {
   Config,
+  ContainerState,
+  FailureReason,
   Job,
+  EnvVars,
+  DockerBuildConfig,
   DockerJob,
   PipelineJob,
   RunningContainer,
   JobLogEntry,
+  JobLogEvent,
   JobRunResult,
+  OutputLine,
+  RunStartedEvent,
+  RunRecord,
+  RunTrigger,
   SystemStatus,
 } from './types.js';
-import { isPipelineJob } from './types.js';
+import { isPipelineJob, isEnvRef } from './types.js';
 import {
-  getLogsDir,
   getJobLogsDir,
+  getJobOutputsDir,
+  getLogsDir,
+  getRunHistoryPath,
   getSchedulerLogPath,
 } from './config.js';
-import { getJobStats } from './jobs.js';
+import { getJobStats, validateJob } from './jobs.js';
+import { getJobState, updateJobState } from './state.js';
 import {
   resolveAuthMode,
   generateAuthArgs,
@@ -31,6 +46,111 @@ import {
   DEFAULT_AUTH_CONFIG,
 } from './auth.js';
 import { platform } from './platform.js';
+import { resolveJobEnv, formatEnvFile, describeEnvValue } from './secrets.js';
+import {
+  getSecurityProfile,
+  getAllowedDomains,
+  resolveSeccompProfile,
+  securityArgs,
+  startEgressProxy,
+  stopEgressProxy,
+  stopEgressProxyCommand,
+  removeOrphanedEgressProxies,
+} from './sandbox.js';
+import {
+  PIPELINE_RUNNER_IMAGE,
+  getJobImageTag,
+  imageExists,
+  buildJobImage,
+  pullImage,
+  getImageDigest,
+} from './images.js';
+import {
+  createRedactor,
+  getRunRedactionRules,
+  REDACT_FILTER_SCRIPT,
+  REDACT_RULES_ENV,
+  type RedactionRules,
+} from './redact.js';
+import {
+  getLogExtension,
+  getLogFormat,
+  isJobLogFile,
+  replaceLogExtension,
+  writeLogEvents,
+  appendLogEvent,
+  parseLogEvents,
+  renderJobLog,
+} from './job-log.js';
+import {
+  createRunId,
+  recordRunStart,
+  recordRunDetails,
+  recordRunFinish,
+  listRuns,
+  getRunDuration,
+  getFailureReason,
+  getExitSignal,
+  appendHistoryCommand,
+  type RunFinish,
+} from './history.js';
+
+/** Options for running a job */
+export interface RunJobOptions {
+  /** Run in the background and return once the container has started */
+  detach?: boolean;
+  /** What started the run, recorded in run history (default: 'api') */
+  trigger?: RunTrigger;
+  /** Attempt number when retrying a failed run */
+  attempt?: number;
+  /** Run ID of the first attempt when retrying a failed run */
+  retryOf?: string;
+  /** Tag of the image the job builds, when the caller already computed it (see getJobImageTag) */
+  imageTag?: string;
+  /** Called with each line of output as it arrives (foreground runs) */
+  onOutput?: (line: OutputLine) => void;
+}
+
+/** Container label holding the job ID */
+const JOB_LABEL = 'agent-oven.job';
+/** Container label holding the run ID */
+const RUN_LABEL = 'agent-oven.run';
+
+/** How long an exited job container is left for its run to read its state */
+const EXITED_CONTAINER_GRACE_MS = 10 * 60 * 1000;
+
+/** Seconds a timed-out container gets to exit after SIGTERM before it is killed */
+const STOP_GRACE_SECONDS = 10;
+
+/** `docker inspect` template printing a container's final state as ContainerState JSON */
+const CONTAINER_STATE_FORMAT = [
+  '{"status":{{json .State.Status}}',
+  '"exitCode":{{.State.ExitCode}}',
+  '"oomKilled":{{.State.OOMKilled}}',
+  '"error":{{json .State.Error}}',
+  '"startedAt":{{json .State.StartedAt}}',
+  '"finishedAt":{{json .State.FinishedAt}}}',
+].join(',');
+
+/** Identifies a run while it executes */
+interface RunContext {
+  runId: string;
+  jobId: string;
+  /** Unique container name for this run */
+  containerName: string;
+  /** Path docker writes the container ID to (--cidfile) */
+  cidFile: string;
+  /** Private temp directory holding the env file passed to docker (--env-file), removed when the run ends */
+  envDir?: string;
+  /** When the run started (ms since the epoch) */
+  startedAt: number;
+  /** Secrets to mask in everything written about the run */
+  redaction: RedactionRules;
+  /** Mask the run's secrets in text */
+  redact: (text: string) => string;
+  /** Name of the run's egress proxy and network (strict runs with allowed domains) */
+  egressProxy?: string;
+}
 
 /**
  * Get list of running job containers
@@ -40,7 +160,7 @@ export async function getRunningContainers(): Promise<RunningContainer[]> {
     const { stdout } = await execa('docker', [
       'ps',
       '--filter', 'name=oven-',
-      '--format', '{{.Names}}\t{{.Status}}\t{{.Image}}',
+      '--format', `{{.Names}}\t{{.Status}}\t{{.Image}}\t{{.Label "${JOB_LABEL}"}}\t{{.Label "${RUN_LABEL}"}}`,
     ], { reject: false });
 
     if (!stdout.trim()) {
@@ -48,12 +168,14 @@ export async function getRunningContainers(): Promise<RunningContainer[]> {
     }
 
     return stdout.trim().split('\n').map((line) => {
-      const [name, status, image] = line.split('\t');
+      const [name, status, image, jobLabel, runLabel] = line.split('\t');
       return {
         name,
         status,
         image,
-        jobId: name.startsWith('oven-') ? name.slice(5) : undefined,
+        // Containers started before run labels existed are named oven-<jobId>
+        jobId: jobLabel || (name.startsWith('oven-') ? name.slice(5) : undefined),
+        ...(runLabel ? { runId: runLabel } : {}),
       };
     });
   } catch {
@@ -62,63 +184,42 @@ export async function getRunningContainers(): Promise<RunningContainer[]> {
 }
 
 /**
- * Get recent job executions from log files
+ * Get running containers belonging to a job
  */
-export function getRecentExecutions(config: Config, limit = 5): JobLogEntry[] {
-  const jobsLogsDir = path.join(getLogsDir(config), 'jobs');
-
-  if (!fs.existsSync(jobsLogsDir)) {
-    return [];
-  }
+export async function getJobContainers(jobId: string): Promise<RunningContainer[]> {
+  const containers = await getRunningContainers();
+  return containers.filter((c) => c.jobId === jobId);
+}
 
-  const entries: JobLogEntry[] = [];
+/**
+ * Check if any run of a job is still in progress
+ */
+export async function isJobRunning(jobId: string): Promise<boolean> {
+  return (await getJobContainers(jobId)).length > 0;
+}
 
+/**
+ * Get recent job executions from the run history store
+ */
+export function getRecentExecutions(config: Config, limit = 5, jobId?: string): JobLogEntry[] {
   try {
-    const jobDirs = fs.readdirSync(jobsLogsDir);
-
-    for (const jobId of jobDirs) {
-      const jobDir = path.join(jobsLogsDir, jobId);
-      const stat = fs.statSync(jobDir);
-
-      if (!stat.isDirectory()) continue;
-
-      const logFiles = fs.readdirSync(jobDir)
-        .filter((f) => f.endsWith('.log'))
-        .sort()
-        .reverse();
-
-      for (const logFile of logFiles) {
-        const logPath = path.join(jobDir, logFile);
-        const timestamp = logFile.replace('.log', '');
-
-        // Try to read exit code from log
-        let exitCode: number | 'running' = 'running';
-        try {
-          const content = fs.readFileSync(logPath, 'utf-8');
-          const exitMatch = content.match(/Exit Code:\s*(\d+)/);
-          if (exitMatch) {
-            exitCode = parseInt(exitMatch[1], 10);
-          }
-        } catch {
-          // Ignore read errors
-        }
-
-        entries.push({
-          jobId,
-          timestamp,
-          logFile: logPath,
-          exitCode,
-        });
-      }
-    }
+    return listRuns(config, { jobId, limit }).map((run) => ({
+      jobId: run.jobId,
+      timestamp: run.startedAt,
+      logFile: run.logFile,
+      exitCode: run.exitCode ?? 'running',
+      runId: run.runId,
+      trigger: run.trigger,
+      durationMs: getRunDuration(run),
+      error: run.error,
+      failureReason: getFailureReason(run),
+      signal: getExitSignal(run.container?.exitCode ?? run.exitCode),
+      attempt: run.attempt,
+      imageDigest: run.imageDigest,
+    }));
   } catch {
-    // Ignore errors reading log directory
+    return [];
   }
-
-  // Sort by timestamp descending and limit
-  return entries
-    .sort((a, b) => b.timestamp.localeCompare(a.timestamp))
-    .slice(0, limit);
 }
 
 /**
@@ -162,7 +263,7 @@ function prepareLogFile(config: Config, jobId: string): string {
     String(now.getMinutes()).padStart(2, '0'),
     String(now.getSeconds()).padStart(2, '0'),
   ].join('');
-  return path.join(jobLogDir, `${timestamp}.log`);
+  return path.join(jobLogDir, `${timestamp}${getLogExtension(config.logFormat)}`);
 }
 
 /**
@@ -171,7 +272,7 @@ function prepareLogFile(config: Config, jobId: string): string {
 export async function runJob(
   config: Config,
   job: Job,
-  options: { detach?: boolean } = {}
+  options: RunJobOptions = {}
 ): Promise<JobRunResult> {
   if (isPipelineJob(job)) {
     return runPipelineJob(config, job, options);
@@ -198,9 +299,12 @@ function closeLogFd(fd: number): void {
   }
 }
 
-function readLogTail(logFile: string, maxChars = 4096): string {
+/**
+ * Read the last `maxChars` characters of a log file (empty string on error).
+ */
+export function readLogTail(logFile: string, maxChars = 4096): string {
   try {
-    const content = fs.readFileSync(logFile, 'utf-8');
+    const content = renderJobLog(fs.readFileSync(logFile, 'utf-8'), getLogFormat(logFile));
     if (content.length <= maxChars) {
       return content.trim();
     }
@@ -217,19 +321,59 @@ function readLogTail(logFile: string, maxChars = 4096): string {
  * When the container exits, finish markers and exit code are appended.
  */
 async function spawnDetachedDockerRun(
+  config: Config,
   args: string[],
   logFile: string,
+  run: RunContext,
+  timeoutSeconds?: number,
 ): Promise<JobRunResult> {
   const logFd = fs.openSync(logFile, 'a');
 
+  const format = getLogFormat(logFile);
   const dockerCmd = ['docker', ...args].map(shellEscape).join(' ');
-
-  // Run docker in foreground inside a detached shell.
-  // After docker exits, append finish markers with the exit code.
+  const filterCmd = (stream: OutputLine['stream']) =>
+    [process.execPath, '-e', REDACT_FILTER_SCRIPT, stream, format].map(shellEscape).join(' ');
+  const cidFile = shellEscape(run.cidFile);
+  const exitFile = shellEscape(replaceLogExtension(logFile, '.exit'));
+  const timeoutFile = shellEscape(replaceLogExtension(logFile, '.timeout'));
+  const containerName = shellEscape(run.containerName);
+  const historyPath = getRunHistoryPath(config);
+
+  // Stop the container when it times out, noting that it did
+  const watchdog = timeoutSeconds
+    ? `(sleep ${timeoutSeconds}; touch ${timeoutFile}; docker stop --time=${STOP_GRACE_SECONDS} ${containerName} >/dev/null 2>&1) & WATCHDOG=$!`
+    : 'WATCHDOG=';
+
+  // Finish markers, or the run_finished event
+  const finishLog = format === 'jsonl'
+    ? `printf '{"type":"run_finished","timestamp":"%s","exitCode":%d,"durationMs":%d,"oomKilled":%s}\\n' "$FINISHED" "$EC" "$DURATION" "$OOM"`
+    : `printf '\\n=== Finished: %s ===\\n=== Exit Code: %d ===\\n' "$FINISHED" "$EC"; [ "$OOM" = true ] && printf '=== OOM Killed ===\\n'`;
+
+  // Run docker in foreground inside a detached shell, with its stdout and
+  // stderr each passed through the redaction filter into the log (fd 4).
+  // docker itself does not get fds 3 and 4, so nothing it leaves running
+  // holds the filters open.
+  // After docker exits, record the container's final state, remove it (and
+  // the run's egress proxy), and append the finish to the log and the run
+  // history store. The history append takes the store's lock through a node
+  // helper, falling back to a plain append if the helper fails.
   const script = [
-    dockerCmd,
-    'EC=$?',
-    `printf '\\n=== Finished: %s ===\\n=== Exit Code: %d ===\\n' "$(date -u +%Y-%m-%dT%H:%M:%SZ)" "$EC"`,
+    watchdog,
+    `{ ( (${dockerCmd} 3>&- 4>&-; echo $? > ${exitFile}) 2>&1 1>&3 | ${filterCmd('stderr')} >&4 ) 3>&1 | ${filterCmd('stdout')}; } 4>&1`,
+    '[ -n "$WATCHDOG" ] && kill $WATCHDOG 2>/dev/null',
+    `EC=$(cat ${exitFile} 2>/dev/null || echo 1); rm -f ${exitFile}`,
+    `TIMED_OUT=false; [ -f ${timeoutFile} ] && TIMED_OUT=true && [ "$EC" = 0 ] && EC=1; rm -f ${timeoutFile}`,
+    `STATE=$(docker inspect --format ${shellEscape(CONTAINER_STATE_FORMAT)} ${containerName} 2>/dev/null); [ -n "$STATE" ] || STATE=null`,
+    'case "$STATE" in *\'"oomKilled":true\'*) OOM=true;; *) OOM=false;; esac',
+    `docker rm -f ${containerName} >/dev/null 2>&1`,
+    ...(run.egressProxy ? [stopEgressProxyCommand(run.egressProxy, shellEscape)] : []),
+    'FINISHED=$(date -u +%Y-%m-%dT%H:%M:%SZ)',
+    `DURATION=$(( ($(date +%s) - ${Math.floor(run.startedAt / 1000)}) * 1000 ))`,
+    `CID=$(cat ${cidFile} 2>/dev/null); rm -f ${cidFile}`,
+    ...(run.envDir ? [`rm -rf ${shellEscape(run.envDir)}`] : []),
+    finishLog,
+    `EVENT=$(printf '{"runId":"%s","jobId":"%s","finishedAt":"%s","exitCode":%d,"containerId":"%s","timedOut":%s,"container":%s}' ${shellEscape(run.runId)} ${shellEscape(run.jobId)} "$FINISHED" "$EC" "$CID" "$TIMED_OUT" "$STATE")`,
+    `printf '%s\\n' "$EVENT" | ${appendHistoryCommand(historyPath, shellEscape)} 2>/dev/null || printf '%s\\n' "$EVENT" >> ${shellEscape(historyPath)}`,
   ].join('\n');
 
   let child: ReturnType<typeof spawn>;
@@ -237,15 +381,20 @@ async function spawnDetachedDockerRun(
     child = spawn('sh', ['-c', script], {
       detached: true,
       stdio: ['ignore', logFd, logFd],
+      env: { ...process.env, [REDACT_RULES_ENV]: JSON.stringify(run.redaction) },
     });
   } catch (err) {
     closeLogFd(logFd);
+    removeEnvFile(run);
+    if (run.egressProxy) await stopEgressProxy(run.egressProxy);
     const msg = err instanceof Error ? err.message : String(err);
+    recordRunFinish(config, run.runId, run.jobId, { exitCode: 1, error: `Failed to start: ${msg}` });
     return {
       success: false,
       exitCode: 1,
       logFile,
       output: `Failed to start detached job: ${msg}`,
+      runId: run.runId,
     };
   }
 
@@ -267,11 +416,14 @@ async function spawnDetachedDockerRun(
     };
 
     const onError = (err: Error): void => {
+      recordRunFinish(config, run.runId, run.jobId, { exitCode: 1, error: `Failed to start: ${err.message}` });
+      if (run.egressProxy) void stopEgressProxy(run.egressProxy);
       settle({
         success: false,
         exitCode: 1,
         logFile,
         output: `Failed to start detached job: ${err.message}`,
+        runId: run.runId,
       });
     };
 
@@ -283,6 +435,7 @@ async function spawnDetachedDockerRun(
           exitCode: 0,
           logFile,
           output: 'Job completed before detaching',
+          runId: run.runId,
         });
         return;
       }
@@ -293,6 +446,7 @@ async function spawnDetachedDockerRun(
         exitCode: code,
         logFile,
         output: logTail || `Detached job exited before startup completed${signal ? ` (signal: ${signal})` : ''}`,
+        runId: run.runId,
       });
     };
 
@@ -306,6 +460,7 @@ async function spawnDetachedDockerRun(
         exitCode: 0,
         logFile,
         output: 'Job started in background',
+        runId: run.runId,
       });
     }, DETACHED_STARTUP_GRACE_MS);
 
@@ -313,18 +468,646 @@ async function spawnDetachedDockerRun(
   });
 }
 
+/**
+ * Read and remove the container ID file written by `docker run --cidfile`.
+ */
+function takeContainerId(cidFile: string): string | undefined {
+  try {
+    const id = fs.readFileSync(cidFile, 'utf-8').trim();
+    fs.rmSync(cidFile, { force: true });
+    return id || undefined;
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Read the final state of a run's container, then remove it.
+ * Returns undefined if the container was never created.
+ */
+async function takeContainerState(containerName: string): Promise<ContainerState | undefined> {
+  try {
+    const { stdout, exitCode } = await execa(
+      'docker',
+      ['inspect', '--format', CONTAINER_STATE_FORMAT, containerName],
+      { reject: false },
+    );
+    await execa('docker', ['rm', '-f', containerName], { reject: false });
+    return exitCode === 0 && typeof stdout === 'string' && stdout.trim()
+      ? JSON.parse(stdout) as ContainerState
+      : undefined;
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Stop a run's container once it exceeds its timeout: SIGTERM, then SIGKILL
+ * after a grace period. If there is no container to stop yet (e.g. the image
+ * is still being pulled), the docker client is killed instead.
+ */
+async function stopTimedOutRun(run: RunContext, subprocess: Pick<ResultPromise, 'kill'>): Promise<void> {
+  const { exitCode } = await execa(
+    'docker',
+    ['stop', `--time=${STOP_GRACE_SECONDS}`, run.containerName],
+    { reject: false },
+  );
+  if (exitCode !== 0) {
+    subprocess.kill();
+  }
+}
+
+/**
+ * Create the identity of a new run: run ID and unique container name.
+ */
+function createRunContext(job: Job, logFile: string, redaction: RedactionRules): RunContext {
+  const runId = createRunId();
+  return {
+    runId,
+    jobId: job.id,
+    containerName: `oven-${job.id}-${runId.slice(0, 8)}`,
+    cidFile: replaceLogExtension(logFile, '.cid'),
+    startedAt: Date.now(),
+    redaction,
+    redact: createRedactor(redaction),
+  };
+}
+
+/** Prefix of the private temp directories holding run env files */
+const ENV_DIR_PREFIX = 'agent-oven-env-';
+
+/** Age after which housekeeping removes a run's env directory (docker reads it at container start) */
+const STALE_ENV_DIR_MS = 60 * 60 * 1000;
+
+/**
+ * Write a run's env file into a private temp directory, readable only by the
+ * owner and kept out of the logs directory since it holds resolved secrets.
+ * Returns the docker argument that passes it (none when there is no env).
+ */
+function envFileArgs(run: RunContext, envFileContent: string): string[] {
+  if (!envFileContent) return [];
+  run.envDir = fs.mkdtempSync(path.join(os.tmpdir(), ENV_DIR_PREFIX));
+  const envFile = path.join(run.envDir, 'run.env');
+  fs.writeFileSync(envFile, envFileContent, { mode: 0o600, flag: 'wx' });
+  return [`--env-file=${envFile}`];
+}
+
+/**
+ * Remove a run's env file and its temp directory.
+ */
+function removeEnvFile(run: RunContext): void {
+  if (run.envDir) fs.rmSync(run.envDir, { recursive: true, force: true });
+}
+
+/**
+ * Remove env files left behind by runs that died before cleaning up: temp
+ * env directories older than an hour, and env files that older versions
+ * wrote next to the run logs.
+ * Returns how many were removed.
+ */
+export function removeStaleEnvFiles(config: Config, now: Date = new Date()): number {
+  let removed = 0;
+  const tmpDir = os.tmpdir();
+  for (const name of fs.readdirSync(tmpDir)) {
+    if (!name.startsWith(ENV_DIR_PREFIX)) continue;
+    const dir = path.join(tmpDir, name);
+    try {
+      if (now.getTime() - fs.statSync(dir).mtimeMs < STALE_ENV_DIR_MS) continue;
+      fs.rmSync(dir, { recursive: true, force: true });
+      removed++;
+    } catch {
+      // Removed concurrently, or not ours
+    }
+  }
+
+  const jobsLogDir = path.join(getLogsDir(config), 'jobs');
+  if (!fs.existsSync(jobsLogDir)) return removed;
+  for (const jobDir of fs.readdirSync(jobsLogDir)) {
+    let files: string[];
+    try {
+      files = fs.readdirSync(path.join(jobsLogDir, jobDir));
+    } catch {
+      continue;
+    }
+    for (const file of files) {
+      if (!file.endsWith('.env')) continue;
+      fs.rmSync(path.join(jobsLogDir, jobDir, file), { force: true });
+      removed++;
+    }
+  }
+  return removed;
+}
+
+/**
+ * Name the env vars passed to a run and where their values come from, for
+ * the log (without the values)
+ */
+function describeRunEnv(env: EnvVars = {}, extraKeys: string[] = []): Pick<RunStartedEvent, 'env'> {
+  const entries = [
+    ...extraKeys.map((key) => `${key} (auth)`),
+    ...Object.entries(env)
+      .filter(([key]) => !extraKeys.includes(key))
+      .map(([key, value]) => (isEnvRef(value) ? `${key} (${describeEnvValue(value)})` : key)),
+  ];
+  return entries.length > 0 ? { env: entries } : {};
+}
+
+/**
+ * Record a run that failed before docker was started (e.g. missing
+ * credentials or secrets): write its log and add it to the run history
+ * as finished. `output` is what ran before the failure, e.g. a failed build.
+ */
+function failRunBeforeStart(
+  config: Config,
+  job: Job,
+  logFile: string,
+  options: RunJobOptions,
+  failureReason: FailureReason,
+  error: string,
+  detail: string,
+  output: OutputLine[] = [],
+): JobRunResult {
+  const startedAt = new Date().toISOString();
+  const runId = createRunId();
+  writeLogEvents(logFile, [
+    { type: 'run_started', timestamp: startedAt, jobId: job.id, jobType: job.type, runId },
+    ...output.map((line): JobLogEvent => ({ type: 'output', ...line })),
+    { type: 'run_finished', timestamp: new Date().toISOString(), exitCode: 1, durationMs: 0, error, detail },
+  ], (text) => text);
+
+  try {
+    recordRunStart(config, {
+      runId,
+      jobId: job.id,
+      startedAt,
+      finishedAt: startedAt,
+      exitCode: 1,
+      trigger: options.trigger ?? 'api',
+      logFile,
+      error,
+      failureReason,
+      ...retryFields(options),
+    });
+  } catch {
+    // History is best-effort
+  }
+
+  return {
+    success: false,
+    exitCode: 1,
+    logFile,
+    output: detail,
+    runId,
+  };
+}
+
+/**
+ * Initial `docker run` arguments: unique name and labels identifying the run.
+ */
+function baseRunArgs(run: RunContext): string[] {
+  return [
+    'run',
+    `--name=${run.containerName}`,
+    '--label', `${JOB_LABEL}=${run.jobId}`,
+    '--label', `${RUN_LABEL}=${run.runId}`,
+  ];
+}
+
+/**
+ * Add the hardening arguments of a job's security profile and seccomp
+ * profile to a run. Strict runs get no network unless they may reach some
+ * domains, which are returned for the run's egress proxy.
+ */
+function applySecurityProfile(config: Config, job: Job, args: string[], writablePaths: string[] = []): string[] {
+  const profile = getSecurityProfile(job);
+  const seccomp = job.seccomp ? resolveSeccompProfile(config.projectDir, job.seccomp) : undefined;
+  args.push(...securityArgs(profile, writablePaths, seccomp));
+  if (profile !== 'strict') return [];
+
+  const domains = getAllowedDomains(job);
+  if (domains.length === 0) args.push('--network=none');
+  return domains;
+}
+
+/**
+ * Start the egress proxy of a strict run and put the run on its network.
+ * Returns the env vars pointing the run at the proxy.
+ * @throws Error if the egress proxy cannot be started
+ */
+async function attachEgressProxy(run: RunContext, args: string[], domains: string[]): Promise<Record<string, string>> {
+  const proxy = await startEgressProxy(run.runId, domains);
+  run.egressProxy = proxy.name;
+  args.push(`--network=${proxy.name}`);
+  return proxy.env;
+}
+
+/**
+ * Describe a run's security profile for its log header
+ */
+function describeSecurity(job: Job): Pick<RunStartedEvent, 'security' | 'allowedDomains'> {
+  const security = getSecurityProfile(job);
+  const allowedDomains = security === 'strict' ? getAllowedDomains(job) : [];
+  return { security, ...(allowedDomains.length > 0 ? { allowedDomains } : {}) };
+}
+
+/**
+ * `docker run` arguments for a Docker job's run options (network, user,
+ * workdir, ...), followed by its extra args
+ */
+function dockerOptionArgs(job: DockerJob): string[] {
+  const args: string[] = [];
+  if (job.network) args.push(`--network=${job.network}`);
+  if (job.user) args.push(`--user=${job.user}`);
+  if (job.workdir) args.push(`--workdir=${job.workdir}`);
+  if (job.entrypoint) args.push(`--entrypoint=${job.entrypoint}`);
+  if (job.readOnly) args.push('--read-only');
+  for (const capability of job.capDrop ?? []) {
+    args.push(`--cap-drop=${capability}`);
+  }
+  for (const [key, value] of Object.entries(job.labels ?? {})) {
+    args.push('--label', `${key}=${value}`);
+  }
+  if (job.shmSize) args.push(`--shm-size=${job.shmSize}`);
+  if (job.pidsLimit) args.push(`--pids-limit=${job.pidsLimit}`);
+  args.push(...(job.extraArgs ?? []));
+  return args;
+}
+
+/**
+ * Volume arguments for passing outputs between dependent jobs: the job's own
+ * outputs directory at /outputs (when `outputs` is set) and the outputs of
+ * each upstream job, read-only, at /inputs/<job-id>.
+ */
+function outputVolumeArgs(config: Config, job: Job): string[] {
+  const args: string[] = [];
+  if (job.outputs) {
+    const dir = getJobOutputsDir(config, job.id);
+    fs.mkdirSync(dir, { recursive: true });
+    args.push('-v', `${dir}:/outputs`);
+  }
+  if (job.schedule.type === 'after') {
+    for (const upstreamId of job.schedule.jobs) {
+      const dir = getJobOutputsDir(config, upstreamId);
+      if (fs.existsSync(dir)) {
+        args.push('-v', `${dir}:/inputs/${upstreamId}:ro`);
+      }
+    }
+  }
+  return args;
+}
+
+/**
+ * Run history fields linking a retry to the first attempt of its logical run.
+ */
+function retryFields(options: RunJobOptions): Pick<RunRecord, 'attempt' | 'retryOf'> {
+  return options.attempt && options.attempt > 1
+    ? { attempt: options.attempt, retryOf: options.retryOf }
+    : {};
+}
+
+/**
+ * Start tracking a run in the history store.
+ * Adds `--cidfile` to the docker args so the container ID can be recorded.
+ * Unless the image digest was resolved before the run, it is resolved in
+ * the background and recorded when known.
+ */
+function beginRun(
+  config: Config,
+  run: RunContext,
+  image: string,
+  args: string[],
+  logFile: string,
+  options: RunJobOptions,
+  imageDigest?: string,
+): void {
+  args.splice(1, 0, `--cidfile=${run.cidFile}`);
+
+  try {
+    recordRunStart(config, {
+      runId: run.runId,
+      jobId: run.jobId,
+      startedAt: new Date().toISOString(),
+      trigger: options.trigger ?? 'api',
+      containerName: run.containerName,
+      logFile,
+      ...(imageDigest ? { imageDigest } : {}),
+      ...retryFields(options),
+    });
+  } catch {
+    // History is best-effort; never block a run on it
+  }
+
+  if (imageDigest) return;
+  void getImageDigest(image).then((imageDigest) => {
+    if (!imageDigest) return;
+    try {
+      recordRunDetails(config, run.runId, run.jobId, { imageDigest });
+    } catch {
+      // History is best-effort
+    }
+  });
+}
+
+/**
+ * Append a stream of job output to the log file line by line as it arrives,
+ * masking secrets, and pass each line on
+ */
+async function streamOutputLines(
+  input: Readable | null | undefined,
+  stream: OutputLine['stream'],
+  run: RunContext,
+  logFile: string,
+  onLine: (line: OutputLine) => void,
+): Promise<void> {
+  if (!input) return;
+  for await (const text of readline.createInterface({ input, crlfDelay: Infinity })) {
+    const line: OutputLine = { timestamp: new Date().toISOString(), stream, text: run.redact(text) };
+    appendLogEvent(logFile, { type: 'output', ...line }, (value) => value);
+    onLine(line);
+  }
+}
+
+/**
+ * Run docker in the foreground with an optional timeout, streaming its
+ * output to the log file (and `onOutput`) as it arrives. Once it exits, the
+ * container's final state is recorded and finish markers are appended.
+ */
+async function runForegroundDockerRun(
+  config: Config,
+  args: string[],
+  logFile: string,
+  run: RunContext,
+  timeoutSeconds?: number,
+  onOutput?: (line: OutputLine) => void,
+): Promise<JobRunResult> {
+  let result: JobRunResult;
+  let finish: RunFinish;
+  const stdoutLines: string[] = [];
+  const onLine = (line: OutputLine): void => {
+    if (line.stream === 'stdout') stdoutLines.push(line.text);
+    onOutput?.(line);
+  };
+
+  try {
+    const subprocess = execa('docker', args, { reject: false, buffer: false });
+
+    // Killing the docker client would leave the container running, so the
+    // timeout stops the container itself
+    let timedOut = false;
+    const timer = timeoutSeconds
+      ? setTimeout(() => {
+        timedOut = true;
+        void stopTimedOutRun(run, subprocess);
+      }, timeoutSeconds * 1000)
+      : undefined;
+
+    const streamed = Promise.all([
+      streamOutputLines(subprocess.stdout, 'stdout', run, logFile, onLine),
+      streamOutputLines(subprocess.stderr, 'stderr', run, logFile, onLine),
+    ]);
+    const proc = await subprocess;
+    clearTimeout(timer);
+    await streamed;
+    const container = await takeContainerState(run.containerName);
+
+    let exitCode = proc.exitCode ?? 1;
+    let runError: string | undefined;
+    let failureReason: FailureReason | undefined;
+    if (timedOut) {
+      runError = `Timed out after ${timeoutSeconds}s`;
+      // A container that exits cleanly when stopped still failed
+      if (exitCode === 0) exitCode = 1;
+    } else if (proc.failed && proc.exitCode === undefined) {
+      runError = run.redact(proc.shortMessage ?? 'Failed to run docker');
+      failureReason = 'startup-error';
+    }
+    finish = {
+      exitCode,
+      ...(runError ? { error: runError } : {}),
+      ...(timedOut ? { timedOut } : {}),
+      ...(container ? { container } : {}),
+      ...(failureReason ? { failureReason } : {}),
+    };
+
+    appendLogEvent(logFile, {
+      type: 'run_finished',
+      timestamp: new Date().toISOString(),
+      exitCode,
+      durationMs: Date.now() - run.startedAt,
+      ...(container ? { oomKilled: container.oomKilled } : {}),
+      ...(runError ? { error: runError } : {}),
+    }, run.redact);
+
+    result = {
+      success: exitCode === 0,
+      exitCode,
+      logFile,
+      output: stdoutLines.length > 0 || !runError ? stdoutLines.join('\n') : runError,
+      runId: run.runId,
+    };
+  } catch (err) {
+    const error = err as ExecaError;
+    const errStderr = run.redact(typeof error.stderr === 'string' ? error.stderr : '');
+    const runError = run.redact(error.message);
+    const exitCode = error.exitCode ?? 1;
+    finish = { exitCode, error: runError, failureReason: 'startup-error' };
+
+    appendLogEvent(logFile, {
+      type: 'run_finished',
+      timestamp: new Date().toISOString(),
+      exitCode,
+      durationMs: Date.now() - run.startedAt,
+      error: runError,
+      ...(errStderr ? { detail: errStderr } : {}),
+    }, run.redact);
+
+    result = {
+      success: false,
+      exitCode,
+      logFile,
+      output: errStderr || runError,
+      runId: run.runId,
+    };
+  }
+
+  removeEnvFile(run);
+  if (run.egressProxy) await stopEgressProxy(run.egressProxy);
+
+  try {
+    recordRunFinish(config, run.runId, run.jobId, {
+      ...finish,
+      containerId: takeContainerId(run.cidFile),
+    });
+  } catch {
+    // History is best-effort
+  }
+
+  return result;
+}
+
+/**
+ * Get a job's own image, building it from the job's build config unless
+ * the image for the current build hash exists already. Build output is
+ * passed to `onOutput` and returned for the run log.
+ */
+async function prepareJobImage(
+  config: Config,
+  job: DockerJob,
+  build: DockerBuildConfig,
+  run: RunContext,
+  imageTag: string | undefined,
+  onOutput?: (line: OutputLine) => void,
+): Promise<{ image?: string; error?: string; output: OutputLine[] }> {
+  const output: OutputLine[] = [];
+  let image: string;
+  try {
+    image = imageTag ?? getJobImageTag(config.projectDir, job.id, build);
+  } catch (err) {
+    return { error: err instanceof Error ? err.message : String(err), output };
+  }
+  if (await imageExists(image)) {
+    return { image, output };
+  }
+
+  const result = await buildJobImage(config.projectDir, build, image, (text) => {
+    const line: OutputLine = { timestamp: new Date().toISOString(), stream: 'build', text: run.redact(text) };
+    output.push(line);
+    onOutput?.(line);
+  });
+  return result.success ? { image, output } : { error: result.error, output };
+}
+
+/**
+ * Get a job's image ready before the run according to its pull policy
+ * (if-not-present when only pinDigest is set), and check its digest against
+ * the one the job is pinned to in state.json. A job not pinned yet, or
+ * pinned to a different image, is pinned to the current digest. Pull output
+ * is passed to `onOutput` and returned for the run log.
+ */
+async function pullJobImage(
+  config: Config,
+  job: DockerJob,
+  image: string,
+  run: RunContext,
+  onOutput?: (line: OutputLine) => void,
+): Promise<{
+  imageDigest?: string;
+  failureReason?: FailureReason;
+  error?: string;
+  detail?: string;
+  warnings: string[];
+  output: OutputLine[];
+}> {
+  const output: OutputLine[] = [];
+  const warnings: string[] = [];
+  const policy = job.pullPolicy ?? 'if-not-present';
+
+  let imageDigest = policy === 'always' ? undefined : await getImageDigest(image);
+  if (!imageDigest) {
+    if (policy === 'never') {
+      return {
+        failureReason: 'pull-error',
+        error: 'Image not found',
+        detail: `Image ${image} is not present locally and the job's pull policy is never`,
+        warnings,
+        output,
+      };
+    }
+    const result = await pullImage(image, (text) => {
+      const line: OutputLine = { timestamp: new Date().toISOString(), stream: 'pull', text: run.redact(text) };
+      output.push(line);
+      onOutput?.(line);
+    });
+    if (!result.success) {
+      return { failureReason: 'pull-error', error: 'Image pull failed', detail: result.error, warnings, output };
+    }
+    imageDigest = await getImageDigest(image);
+  }
+
+  if (job.pinDigest && imageDigest) {
+    const state = getJobState(config, job.id);
+    const pinnedDigest = state.pinnedImage === image ? state.pinnedDigest : undefined;
+    if (!pinnedDigest) {
+      try {
+        updateJobState(config, job.id, { pinnedDigest: imageDigest, pinnedImage: image });
+      } catch (err) {
+        warnings.push(`Could not pin image digest: ${err instanceof Error ? err.message : String(err)}`);
+      }
+    } else if (imageDigest !== pinnedDigest) {
+      return {
+        imageDigest,
+        failureReason: 'digest-mismatch',
+        error: 'Image digest changed',
+        detail: `Image ${image} is now ${imageDigest}, but the job is pinned to ${pinnedDigest}`,
+        warnings,
+        output,
+      };
+    }
+  }
+
+  return { imageDigest, warnings, output };
+}
+
 /**
  * Run a Docker container job.
  */
 async function runDockerJob(
   config: Config,
   job: DockerJob,
-  options: { detach?: boolean } = {}
+  options: RunJobOptions = {}
 ): Promise<JobRunResult> {
   const logFile = prepareLogFile(config, job.id);
 
+  // Jobs edited by hand reach here unvalidated; never pass them to docker
+  const problems = validateJob(job);
+  if (problems.length > 0) {
+    return failRunBeforeStart(config, job, logFile, options, 'startup-error', 'Invalid job', problems.join('\n'));
+  }
+
+  // Resolve env references (secrets, host env vars, files)
+  let env: Record<string, string>;
+  let envFileContent: string;
+  try {
+    env = resolveJobEnv(config, job.env);
+    envFileContent = formatEnvFile(env);
+  } catch (err) {
+    const msg = err instanceof Error ? err.message : String(err);
+    return failRunBeforeStart(config, job, logFile, options, 'startup-error', 'Env resolution failed', msg);
+  }
+
+  const run = createRunContext(job, logFile, getRunRedactionRules(config, job.env, env));
+
+  // Get the image ready: build the job's own (or reuse the one built from the
+  // same sources), or pull according to the job's policy. Without a policy,
+  // docker run pulls a missing image itself.
+  let image = job.image ?? '';
+  let imageDigest: string | undefined;
+  let imageOutput: OutputLine[] = [];
+  let imageWarnings: string[] = [];
+  if (job.build) {
+    const prepared = await prepareJobImage(config, job, job.build, run, options.imageTag, options.onOutput);
+    if (!prepared.image) {
+      return failRunBeforeStart(
+        config, job, logFile, options, 'build-error', 'Image build failed', run.redact(prepared.error ?? ''), prepared.output,
+      );
+    }
+    image = prepared.image;
+    imageOutput = prepared.output;
+    imageDigest = await getImageDigest(image);
+  } else if (job.pullPolicy || job.pinDigest) {
+    const pulled = await pullJobImage(config, job, image, run, options.onOutput);
+    if (pulled.failureReason) {
+      return failRunBeforeStart(
+        config, job, logFile, options, pulled.failureReason, pulled.error ?? '', run.redact(pulled.detail ?? ''), pulled.output,
+      );
+    }
+    imageDigest = pulled.imageDigest;
+    imageOutput = pulled.output;
+    imageWarnings = pulled.warnings;
+  }
+
   // Build docker command arguments
-  const args: string[] = ['run', '--rm', `--name=oven-${job.id}`];
+  const args = baseRunArgs(run);
 
   // Resource limits: prefer job.resources, then legacy fields, then config defaults
   const cpus = job.resources?.cpus ?? config.docker.defaultCpus;
@@ -338,16 +1121,28 @@ async function runDockerJob(
       args.push('-v', vol);
     }
   }
-
-  // Add environment variables
-  if (job.env) {
-    for (const [key, value] of Object.entries(job.env)) {
-      args.push('-e', `${key}=${value}`);
+  args.push(...outputVolumeArgs(config, job));
+
+  // Apply the security profile; strict runs may need an egress proxy
+  const egressDomains = applySecurityProfile(config, job, args);
+  let proxyEnv: Record<string, string> = {};
+  if (egressDomains.length > 0) {
+    try {
+      proxyEnv = await attachEgressProxy(run, args, egressDomains);
+    } catch (err) {
+      const msg = err instanceof Error ? err.message : String(err);
+      return failRunBeforeStart(config, job, logFile, options, 'startup-error', 'Egress proxy failed to start', msg);
     }
   }
 
+  // Add environment variables through a file, keeping values out of the command line
+  args.push(...envFileArgs(run, envFileContent + formatEnvFile(proxyEnv)));
+
+  // Add the job's own run options
+  args.push(...dockerOptionArgs(job));
+
   // Add image
-  args.push(job.image);
+  args.push(image);
 
   // Add command
   if (Array.isArray(job.command)) {
@@ -360,64 +1155,32 @@ async function runDockerJob(
   const timeoutSeconds = job.resources?.timeout ?? job.timeout;
 
   // Write log header
-  const logHeader = [
-    `=== Job: ${job.id} ===`,
-    `=== Type: docker ===`,
-    `=== Started: ${new Date().toISOString()} ===`,
-    `=== Command: docker ${args.join(' ')} ===`,
-    '',
-  ].join('\n');
-  fs.writeFileSync(logFile, logHeader);
+  const startedAt = new Date().toISOString();
+  writeLogEvents(logFile, [
+    {
+      type: 'run_started',
+      timestamp: startedAt,
+      jobId: job.id,
+      jobType: 'docker',
+      runId: run.runId,
+      ...describeSecurity(job),
+      ...describeRunEnv(job.env),
+      image,
+      ...(imageDigest ? { imageDigest } : {}),
+      args,
+    },
+    ...imageOutput.map((line): JobLogEvent => ({ type: 'output', ...line })),
+    ...imageWarnings.map((message): JobLogEvent => ({ type: 'warning', timestamp: startedAt, message })),
+  ], run.redact);
+
+  beginRun(config, run, image, args, logFile, options, imageDigest);
 
   if (options.detach) {
-    return spawnDetachedDockerRun(args, logFile);
+    return spawnDetachedDockerRun(config, args, logFile, run, timeoutSeconds);
   }
 
   // Run in foreground with timeout
-  try {
-    const result = await execa('docker', args, {
-      timeout: timeoutSeconds ? timeoutSeconds * 1000 : undefined,
-      reject: false,
-    });
-
-    const stdout = typeof result.stdout === 'string' ? result.stdout : '';
-    const stderr = typeof result.stderr === 'string' ? result.stderr : '';
-    const logContent = [
-      stdout,
-      stderr,
-      '',
-      `=== Finished: ${new Date().toISOString()} ===`,
-      `=== Exit Code: ${result.exitCode} ===`,
-    ].filter(Boolean).join('\n');
-    fs.appendFileSync(logFile, logContent);
-
-    return {
-      success: result.exitCode === 0,
-      exitCode: result.exitCode ?? 0,
-      logFile,
-      output: stdout,
-    };
-  } catch (err) {
-    const error = err as ExecaError;
-    const errStdout = typeof error.stdout === 'string' ? error.stdout : '';
-    const errStderr = typeof error.stderr === 'string' ? error.stderr : '';
-    const logContent = [
-      errStdout,
-      errStderr,
-      '',
-      `=== Finished: ${new Date().toISOString()} ===`,
-      `=== Exit Code: ${error.exitCode ?? 1} ===`,
-      `=== Error: ${error.message} ===`,
-    ].filter(Boolean).join('\n');
-    fs.appendFileSync(logFile, logContent);
-
-    return {
-      success: false,
-      exitCode: error.exitCode ?? 1,
-      logFile,
-      output: errStderr || error.message,
-    };
-  }
+  return runForegroundDockerRun(config, args, logFile, run, timeoutSeconds, options.onOutput);
 }
 
 /**
@@ -426,41 +1189,42 @@ async function runDockerJob(
 async function runPipelineJob(
   config: Config,
   job: PipelineJob,
-  options: { detach?: boolean } = {}
+  options: RunJobOptions = {}
 ): Promise<JobRunResult> {
   const logFile = prepareLogFile(config, job.id);
   const authConfig = config.auth ?? DEFAULT_AUTH_CONFIG;
 
+  // Jobs edited by hand reach here unvalidated; never pass them to docker
+  const problems = validateJob(job);
+  if (problems.length > 0) {
+    return failRunBeforeStart(config, job, logFile, options, 'startup-error', 'Invalid job', problems.join('\n'));
+  }
+
   // Validate auth requirements
   let authWarnings: string[] = [];
   try {
     authWarnings = validateAuthForJob(job, authConfig);
   } catch (err) {
     const errMsg = err instanceof Error ? err.message : String(err);
-    fs.writeFileSync(logFile, [
-      `=== Job: ${job.id} ===`,
-      `=== Type: agent-pipeline ===`,
-      `=== Started: ${new Date().toISOString()} ===`,
-      `=== Error: Auth validation failed ===`,
-      errMsg,
-      '',
-      `=== Exit Code: 1 ===`,
-    ].join('\n'));
+    return failRunBeforeStart(config, job, logFile, options, 'auth-error', 'Auth validation failed', errMsg);
+  }
 
-    return {
-      success: false,
-      exitCode: 1,
-      logFile,
-      output: errMsg,
-    };
+  // Resolve env references (secrets, host env vars, files)
+  let env: Record<string, string>;
+  try {
+    env = resolveJobEnv(config, job.env);
+  } catch (err) {
+    const msg = err instanceof Error ? err.message : String(err);
+    return failRunBeforeStart(config, job, logFile, options, 'startup-error', 'Env resolution failed', msg);
   }
 
-  // Generate auth args
+  // Generate auth args; strict runs cannot write to the host's credentials
   const authMode = resolveAuthMode(job, authConfig);
-  const authArgs = generateAuthArgs(authMode, authConfig, job.env);
+  const authArgs = generateAuthArgs(authMode, authConfig, env, getSecurityProfile(job) === 'strict');
 
   // Build docker command arguments
-  const args: string[] = ['run', '--rm', `--name=oven-${job.id}`];
+  const run = createRunContext(job, logFile, getRunRedactionRules(config, job.env, env, authArgs.envVars));
+  const args = baseRunArgs(run);
 
   // Resource limits: default 2 CPU / 2g for pipeline jobs
   const cpus = job.resources?.cpus ?? 2;
@@ -472,21 +1236,33 @@ async function runPipelineJob(
   for (const vol of authArgs.volumes) {
     args.push('-v', vol);
   }
+  args.push(...outputVolumeArgs(config, job));
 
-  // Add auth env vars
-  for (const [key, value] of Object.entries(authArgs.envVars)) {
-    args.push('-e', `${key}=${value}`);
+  // Auth env vars take precedence over job env vars of the same name
+  let envFileContent: string;
+  try {
+    envFileContent = formatEnvFile({ ...env, ...authArgs.envVars });
+  } catch (err) {
+    const msg = err instanceof Error ? err.message : String(err);
+    return failRunBeforeStart(config, job, logFile, options, 'startup-error', 'Env resolution failed', msg);
   }
 
-  // Add job env vars
-  if (job.env) {
-    for (const [key, value] of Object.entries(job.env)) {
-      // Skip auth env vars already added
-      if (key in authArgs.envVars) continue;
-      args.push('-e', `${key}=${value}`);
+  // Apply the security profile; strict runs may need an egress proxy.
+  // The runner clones the repo into /workspace.
+  const egressDomains = applySecurityProfile(config, job, args, ['/workspace']);
+  let proxyEnv: Record<string, string> = {};
+  if (egressDomains.length > 0) {
+    try {
+      proxyEnv = await attachEgressProxy(run, args, egressDomains);
+    } catch (err) {
+      const msg = err instanceof Error ? err.message : String(err);
+      return failRunBeforeStart(config, job, logFile, options, 'startup-error', 'Egress proxy failed to start', msg);
     }
   }
 
+  // Add auth and job env vars through a file, keeping values out of the command line
+  args.push(...envFileArgs(run, envFileContent + formatEnvFile(proxyEnv)));
+
   // Handle local repo paths: mount the host repo into the container                                    
   // so the entrypoint can `git clone` from it inside the container.                                    
   let repoArg = job.source.repo;                                                                        
@@ -497,7 +1273,7 @@ async function runPipelineJob(
   }                                                                                                     
 
   // Add image
-  args.push('agent-oven/pipeline-runner');
+  args.push(PIPELINE_RUNNER_IMAGE);
 
   // Add entrypoint args: repo, branch, pipeline
   args.push(repoArg);
@@ -508,85 +1284,118 @@ async function runPipelineJob(
   const timeoutSeconds = job.resources?.timeout ?? 1800;
 
   // Write log header
-  const logHeader = [
-    `=== Job: ${job.id} ===`,
-    `=== Type: agent-pipeline ===`,
-    `=== Pipeline: ${job.pipeline} ===`,
-    `=== Repo: ${job.source.repo} (${job.source.branch ?? 'main'}) ===`,
-    `=== Auth: ${authMode} ===`,
-    ...authWarnings.map((w) => `=== WARNING: ${w} ===`),
-    `=== Started: ${new Date().toISOString()} ===`,
-    `=== Command: docker ${args.join(' ')} ===`,
-    '',
-  ].join('\n');
-  fs.writeFileSync(logFile, logHeader);
+  const startedAt = new Date().toISOString();
+  writeLogEvents(logFile, [
+    {
+      type: 'run_started',
+      timestamp: startedAt,
+      jobId: job.id,
+      jobType: 'agent-pipeline',
+      runId: run.runId,
+      pipeline: job.pipeline,
+      repo: job.source.repo,
+      branch: job.source.branch ?? 'main',
+      authMode,
+      ...describeSecurity(job),
+      ...describeRunEnv(job.env, Object.keys(authArgs.envVars)),
+      image: PIPELINE_RUNNER_IMAGE,
+      args,
+    },
+    ...authWarnings.map((message): JobLogEvent => ({ type: 'warning', timestamp: startedAt, message })),
+  ], run.redact);
+
+  beginRun(config, run, PIPELINE_RUNNER_IMAGE, args, logFile, options);
 
   if (options.detach) {
-    return spawnDetachedDockerRun(args, logFile);
+    return spawnDetachedDockerRun(config, args, logFile, run, timeoutSeconds);
   }
 
   // Run in foreground with timeout
-  try {
-    const result = await execa('docker', args, {
-      timeout: timeoutSeconds * 1000,
-      reject: false,
-    });
-
-    const stdout = typeof result.stdout === 'string' ? result.stdout : '';
-    const stderr = typeof result.stderr === 'string' ? result.stderr : '';
-    const logContent = [
-      stdout,
-      stderr,
-      '',
-      `=== Finished: ${new Date().toISOString()} ===`,
-      `=== Exit Code: ${result.exitCode} ===`,
-    ].filter(Boolean).join('\n');
-    fs.appendFileSync(logFile, logContent);
+  return runForegroundDockerRun(config, args, logFile, run, timeoutSeconds, options.onOutput);
+}
 
-    return {
-      success: result.exitCode === 0,
-      exitCode: result.exitCode ?? 0,
-      logFile,
-      output: stdout,
-    };
-  } catch (err) {
-    const error = err as ExecaError;
-    const errStdout = typeof error.stdout === 'string' ? error.stdout : '';
-    const errStderr = typeof error.stderr === 'string' ? error.stderr : '';
-    const logContent = [
-      errStdout,
-      errStderr,
-      '',
-      `=== Finished: ${new Date().toISOString()} ===`,
-      `=== Exit Code: ${error.exitCode ?? 1} ===`,
-      `=== Error: ${error.message} ===`,
-    ].filter(Boolean).join('\n');
-    fs.appendFileSync(logFile, logContent);
+/**
+ * Stop every running container of a job
+ */
+export async function stopJob(jobId: string): Promise<void> {
+  const names = (await getJobContainers(jobId)).map((c) => c.name);
+  if (names.length === 0) return;
+  await execa('docker', ['stop', ...names], { reject: false });
+}
 
-    return {
-      success: false,
-      exitCode: error.exitCode ?? 1,
-      logFile,
-      output: errStderr || error.message,
-    };
-  }
+/** Containers removed by removeLeakedContainers */
+export interface LeakedContainers {
+  /** Job containers that exited but were never removed */
+  containers: string[];
+  /** Egress proxies (and their networks) of runs that are over */
+  egressProxies: string[];
 }
 
 /**
- * Stop a running job
+ * Remove what runs that died left behind: job containers that exited more
+ * than EXITED_CONTAINER_GRACE_MS ago, and egress proxies and networks whose
+ * run is no longer running. Runs remove their own container once they have
+ * read its final state, so recently exited containers are kept.
+ * @throws Error if docker cannot list the running containers
  */
-export async function stopJob(jobId: string): Promise<void> {
-  await execa('docker', ['stop', `oven-${jobId}`], { reject: false });
+export async function removeLeakedContainers(now = Date.now()): Promise<LeakedContainers> {
+  const running = await execa('docker', [
+    'ps', '--filter', `label=${RUN_LABEL}`, '--format', `{{.Label "${RUN_LABEL}"}}`,
+  ], { reject: false });
+  if (running.exitCode !== 0 || typeof running.stdout !== 'string') {
+    throw new Error(`docker ps failed${typeof running.stderr === 'string' && running.stderr.trim() ? `: ${running.stderr.trim()}` : ''}`);
+  }
+  const activeRunIds = new Set(running.stdout.split('\n').filter(Boolean));
+
+  const containers: string[] = [];
+  const { stdout: exited } = await execa('docker', [
+    'ps', '-a',
+    '--filter', `label=${JOB_LABEL}`,
+    '--filter', 'status=exited',
+    '--filter', 'status=dead',
+    '--format', '{{.Names}}',
+  ], { reject: false });
+  const names = typeof exited === 'string' ? exited.split('\n').filter(Boolean) : [];
+  if (names.length > 0) {
+    const { stdout } = await execa('docker', ['inspect', '--format', '{{.Name}}\t{{.State.FinishedAt}}', ...names], { reject: false });
+    for (const line of typeof stdout === 'string' ? stdout.split('\n') : []) {
+      const [name, finishedAt] = line.split('\t');
+      const finished = Date.parse(finishedAt ?? '');
+      if (name && Number.isFinite(finished) && now - finished >= EXITED_CONTAINER_GRACE_MS) {
+        containers.push(name.replace(/^\//, ''));
+      }
+    }
+  }
+  if (containers.length > 0) {
+    await execa('docker', ['rm', '-f', ...containers], { reject: false });
+  }
+
+  const egressProxies = await removeOrphanedEgressProxies((runId) => activeRunIds.has(runId), now);
+  return { containers, egressProxies };
 }
 
 /**
- * Read a job's log file
+ * Read a job's log file as text, whatever its format
  */
 export function readJobLog(logFile: string): string {
   if (!fs.existsSync(logFile)) {
     return '';
   }
-  return fs.readFileSync(logFile, 'utf-8');
+  return renderJobLog(fs.readFileSync(logFile, 'utf-8'), getLogFormat(logFile));
+}
+
+/**
+ * Read the events of a JSON-lines job log
+ * @throws Error if the log is in text format
+ */
+export function readJobLogEvents(logFile: string): JobLogEvent[] {
+  if (getLogFormat(logFile) !== 'jsonl') {
+    throw new Error(`${path.basename(logFile)} is a text log; structured events are only written with logFormat "jsonl"`);
+  }
+  if (!fs.existsSync(logFile)) {
+    return [];
+  }
+  return parseLogEvents(fs.readFileSync(logFile, 'utf-8'));
 }
 
 /**
@@ -600,7 +1409,7 @@ export function getJobLogFiles(config: Config, jobId: string): string[] {
   }
 
   return fs.readdirSync(jobLogDir)
-    .filter((f) => f.endsWith('.log'))
+    .filter(isJobLogFile)
     .sort()
     .reverse()
     .map((f) => path.join(jobLogDir, f));
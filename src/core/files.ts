@@ -0,0 +1,29 @@
+/**
+ * File helpers shared by the JSON stores (jobs.json, state.json, retries.json)
+ */
+
+import * as fs from 'node:fs';
+import * as path from 'node:path';
+
+/**
+ * Write a file atomically: write and sync a temp file in the same directory,
+ * then rename it over the target so a crash never leaves a truncated file
+ */
+export function writeFileAtomic(filePath: string, content: string): void {
+  fs.mkdirSync(path.dirname(filePath), { recursive: true });
+  const tempPath = `${filePath}.${process.pid}.tmp`;
+
+  try {
+    fs.writeFileSync(tempPath, content);
+    const fd = fs.openSync(tempPath, 'r+');
+    try {
+      fs.fsyncSync(fd);
+    } finally {
+      fs.closeSync(fd);
+    }
+    fs.renameSync(tempPath, filePath);
+  } catch (err) {
+    fs.rmSync(tempPath, { force: true });
+    throw err;
+  }
+}
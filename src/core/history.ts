@@ -0,0 +1,315 @@
+/**
+ * Run history store
+ * Append-only JSON-lines file (logs/runs.jsonl) recording every job run.
+ *
+ * A run is written as a start event followed by a finish event sharing the
+ * same `runId`; readers merge events by `runId`. Detached runs append their
+ * finish event from the shell wrapper that waits on `docker run`, through a
+ * node process that takes the store's lock like every other writer.
+ */
+
+import { randomUUID } from 'node:crypto';
+import * as fs from 'node:fs';
+import * as os from 'node:os';
+import * as path from 'node:path';
+import type { Config, FailureReason, RunRecord } from './types.js';
+import { getLogsDir, getRunHistoryPath } from './config.js';
+import { acquireLockSync, releaseLock } from './locks.js';
+import { writeFileAtomic } from './files.js';
+
+/** Fields written when a run finishes */
+export type RunFinish = Pick<
+  RunRecord,
+  'finishedAt' | 'exitCode' | 'containerId' | 'error' | 'timedOut' | 'container' | 'failureReason'
+>;
+
+/** Exit codes of `docker run` itself: daemon error, command not executable, command not found */
+const DOCKER_RUN_ERROR_CODES = [125, 126, 127];
+
+/** How long a write waits for another process to finish with runs.jsonl (pruning rewrites it whole) */
+const HISTORY_LOCK_TIMEOUT_MS = 10_000;
+
+/**
+ * Generate a unique run identifier
+ */
+export function createRunId(): string {
+  return randomUUID();
+}
+
+/**
+ * Append lines to a history store while holding its lock, so they never
+ * land in a file that pruning is replacing
+ */
+export function appendHistoryLines(historyPath: string, lines: string): void {
+  fs.mkdirSync(path.dirname(historyPath), { recursive: true });
+  const lockPath = `${historyPath}.lock`;
+  acquireLockSync(lockPath, HISTORY_LOCK_TIMEOUT_MS);
+  try {
+    fs.appendFileSync(historyPath, lines);
+  } finally {
+    releaseLock(lockPath);
+  }
+}
+
+/**
+ * Shell command appending the lines on its stdin to a history store under
+ * its lock: a node process (with this process's loader flags) running
+ * appendHistoryLines from this module. Fails if the lines were not written.
+ */
+export function appendHistoryCommand(historyPath: string, escape: (arg: string) => string): string {
+  const script = [
+    "let lines = '';",
+    "process.stdin.setEncoding('utf-8').on('data', (chunk) => { lines += chunk; }).on('end', () => {",
+    `import(${JSON.stringify(import.meta.url)}).then((m) => m.appendHistoryLines(process.argv[1], lines));`,
+    '});',
+  ].join(' ');
+  return [process.execPath, ...process.execArgv, '-e', script, historyPath].map(escape).join(' ');
+}
+
+function appendEvent(config: Config, event: Partial<RunRecord> & { runId: string }): void {
+  appendHistoryLines(getRunHistoryPath(config), JSON.stringify(event) + '\n');
+}
+
+/**
+ * Record the start of a run
+ */
+export function recordRunStart(config: Config, record: RunRecord): void {
+  appendEvent(config, record);
+}
+
+/**
+ * Record additional details about a run (e.g. data resolved after it started)
+ */
+export function recordRunDetails(
+  config: Config,
+  runId: string,
+  jobId: string,
+  details: Partial<Omit<RunRecord, 'runId' | 'jobId'>>,
+): void {
+  appendEvent(config, { runId, jobId, ...details });
+}
+
+/**
+ * Record the end of a run
+ */
+export function recordRunFinish(config: Config, runId: string, jobId: string, finish: RunFinish): void {
+  appendEvent(config, {
+    runId,
+    jobId,
+    finishedAt: finish.finishedAt ?? new Date().toISOString(),
+    ...finish,
+  });
+}
+
+/**
+ * Parse history file content, merging start/finish events by runId.
+ * Malformed lines (e.g. a partial write) are skipped.
+ */
+export function parseRunHistory(content: string): RunRecord[] {
+  const byId = new Map<string, RunRecord>();
+
+  for (const line of content.split('\n')) {
+    if (!line.trim()) continue;
+    let event: Partial<RunRecord>;
+    try {
+      event = JSON.parse(line) as Partial<RunRecord>;
+    } catch {
+      continue;
+    }
+    if (!event.runId) continue;
+
+    // Shell-written finish events use "" or null for values that were unavailable
+    const fields = Object.fromEntries(Object.entries(event).filter(([, v]) => v !== '' && v !== null));
+    const existing = byId.get(event.runId);
+    byId.set(event.runId, { ...existing, ...fields } as RunRecord);
+  }
+
+  return [...byId.values()].filter((r) => r.jobId && r.startedAt);
+}
+
+/**
+ * Read all run records, oldest first.
+ * Imports legacy log files the first time the store is read.
+ */
+export function readRunHistory(config: Config): RunRecord[] {
+  const historyPath = getRunHistoryPath(config);
+
+  if (!fs.existsSync(historyPath)) {
+    importLegacyLogs(config);
+    if (!fs.existsSync(historyPath)) {
+      return [];
+    }
+  }
+
+  let content: string;
+  try {
+    content = fs.readFileSync(historyPath, 'utf-8');
+  } catch {
+    return [];
+  }
+
+  return parseRunHistory(content)
+    .sort((a, b) => a.startedAt.localeCompare(b.startedAt));
+}
+
+/**
+ * List runs newest first, optionally filtered to one job
+ */
+export function listRuns(config: Config, options: { jobId?: string; limit?: number } = {}): RunRecord[] {
+  let runs = readRunHistory(config).reverse();
+  if (options.jobId) {
+    runs = runs.filter((r) => r.jobId === options.jobId);
+  }
+  return options.limit !== undefined ? runs.slice(0, options.limit) : runs;
+}
+
+/**
+ * Get run duration in milliseconds (undefined while running)
+ */
+export function getRunDuration(record: RunRecord): number | undefined {
+  if (!record.finishedAt) return undefined;
+  const ms = new Date(record.finishedAt).getTime() - new Date(record.startedAt).getTime();
+  return Number.isFinite(ms) && ms >= 0 ? ms : undefined;
+}
+
+/**
+ * Classify why a run failed (undefined while running and for successful runs)
+ */
+export function getFailureReason(record: RunRecord): FailureReason | undefined {
+  if (record.exitCode === undefined || record.exitCode === 0) return undefined;
+  if (record.failureReason) return record.failureReason;
+  if (record.timedOut) return 'timeout';
+
+  const container = record.container;
+  if (container?.oomKilled) return 'oom';
+  const started = container ? !container.startedAt.startsWith('0001-') : !DOCKER_RUN_ERROR_CODES.includes(record.exitCode);
+  return started ? 'nonzero' : 'startup-error';
+}
+
+/**
+ * Get the signal that ended a process from its exit code (128 + signal number),
+ * e.g. SIGKILL for 137
+ */
+export function getExitSignal(exitCode: number | undefined): string | undefined {
+  if (exitCode === undefined || exitCode <= 128) return undefined;
+  const signal = Object.entries(os.constants.signals).find(([, number]) => number === exitCode - 128);
+  return signal?.[0];
+}
+
+/**
+ * Parse a legacy log file name (YYYYMMDD-HHMMSS.log, host local time) to a Date
+ */
+function parseLogFileTimestamp(fileName: string): Date | null {
+  const match = fileName.match(/^(\d{4})(\d{2})(\d{2})-(\d{2})(\d{2})(\d{2})\.log$/);
+  if (!match) return null;
+  const [, y, mo, d, h, mi, s] = match.map(Number);
+  return new Date(y, mo - 1, d, h, mi, s);
+}
+
+/**
+ * Build a run record from a legacy log file's `=== Key: value ===` banners
+ */
+function recordFromLegacyLog(jobId: string, logPath: string): RunRecord | null {
+  const fileName = path.basename(logPath);
+  let content = '';
+  try {
+    content = fs.readFileSync(logPath, 'utf-8');
+  } catch {
+    // Fall back to the file name for the start time
+  }
+
+  const started = content.match(/=== Started: (\S+) ===/)?.[1];
+  const startedAt = started && !isNaN(new Date(started).getTime())
+    ? new Date(started)
+    : parseLogFileTimestamp(fileName);
+  if (!startedAt) return null;
+
+  const record: RunRecord = {
+    runId: `legacy-${jobId}-${fileName.replace(/\.log$/, '')}`,
+    jobId,
+    startedAt: startedAt.toISOString(),
+    logFile: logPath,
+  };
+
+  const exitCode = content.match(/=== Exit Code: (\d+) ===/)?.[1];
+  if (exitCode !== undefined) {
+    record.exitCode = parseInt(exitCode, 10);
+    const finished = content.match(/=== Finished: (\S+) ===/)?.[1];
+    record.finishedAt = finished && !isNaN(new Date(finished).getTime())
+      ? new Date(finished).toISOString()
+      : record.startedAt;
+  }
+
+  const error = content.match(/=== Error: (.*) ===/)?.[1];
+  if (error) {
+    record.error = error;
+  }
+
+  return record;
+}
+
+/**
+ * Import runs from legacy log files (logs/jobs/<id>/*.log) into the history store.
+ * Only runs when the store does not exist yet. Returns the number of imported runs.
+ */
+export function importLegacyLogs(config: Config): number {
+  const historyPath = getRunHistoryPath(config);
+  const jobsLogsDir = path.join(getLogsDir(config), 'jobs');
+
+  if (fs.existsSync(historyPath) || !fs.existsSync(jobsLogsDir)) {
+    return 0;
+  }
+
+  const records: RunRecord[] = [];
+  try {
+    for (const jobId of fs.readdirSync(jobsLogsDir)) {
+      const jobDir = path.join(jobsLogsDir, jobId);
+      if (!fs.statSync(jobDir).isDirectory()) continue;
+
+      for (const file of fs.readdirSync(jobDir)) {
+        if (!file.endsWith('.log')) continue;
+        const record = recordFromLegacyLog(jobId, path.join(jobDir, file));
+        if (record) records.push(record);
+      }
+    }
+  } catch {
+    // Import whatever could be read
+  }
+
+  records.sort((a, b) => a.startedAt.localeCompare(b.startedAt));
+  try {
+    // Never replace a store a run created in the meantime
+    fs.writeFileSync(historyPath, records.map((r) => JSON.stringify(r) + '\n').join(''), { flag: 'wx' });
+  } catch {
+    return 0;
+  }
+  return records.length;
+}
+
+/**
+ * Compact the history store: merge events and drop runs started before `cutoff`.
+ * Returns the number of removed runs.
+ *
+ * Holds the store's lock throughout, so prunes run one at a time and runs
+ * wait to append their events until the compacted file has replaced it.
+ */
+export function pruneRunHistory(config: Config, cutoff: Date): number {
+  const historyPath = getRunHistoryPath(config);
+  if (!fs.existsSync(historyPath)) return 0;
+
+  const lockPath = `${historyPath}.lock`;
+  acquireLockSync(lockPath, HISTORY_LOCK_TIMEOUT_MS);
+  try {
+    const records = parseRunHistory(fs.readFileSync(historyPath, 'utf-8'));
+    const kept = records
+      .filter((r) => new Date(r.startedAt) >= cutoff)
+      .sort((a, b) => a.startedAt.localeCompare(b.startedAt));
+    const removed = records.length - kept.length;
+    if (removed === 0) return 0;
+
+    writeFileAtomic(historyPath, kept.map((r) => JSON.stringify(r) + '\n').join(''));
+    return removed;
+  } finally {
+    releaseLock(lockPath);
+  }
+}
@@ -0,0 +1,575 @@
+/**
+ * Agent Oven's own Docker images
+ * Built-in images are built from the subdirectories of images/ and tagged
+ * agent-oven/<name>. Each build is labeled with a hash of its build context,
+ * so a local image can be told apart from one built from older sources.
+ * Docker jobs with a build config get an image of their own, tagged
+ * agent-oven/job-<id>:<build hash>.
+ */
+
+import { execa } from 'execa';
+import * as crypto from 'node:crypto';
+import * as fs from 'node:fs';
+import * as os from 'node:os';
+import * as path from 'node:path';
+import * as readline from 'node:readline';
+import type { Readable } from 'node:stream';
+import type { Config, DockerBuildConfig, ImagePullPolicy, Job } from './types.js';
+import { isDockerJob, isPipelineJob } from './types.js';
+import { EGRESS_PROXY_IMAGE, getAllowedDomains, getSecurityProfile } from './sandbox.js';
+import { updateJobState } from './state.js';
+
+/** Repository prefix of the images agent-oven builds */
+export const IMAGE_PREFIX = 'agent-oven/';
+
+/** Image used for agent pipeline jobs */
+export const PIPELINE_RUNNER_IMAGE = 'agent-oven/pipeline-runner';
+
+/** Repository prefix of the images jobs build for themselves */
+export const JOB_IMAGE_PREFIX = 'agent-oven/job-';
+
+/** Label holding the hash of the build context an image was built from */
+export const CONTEXT_HASH_LABEL = 'agent-oven.context-hash';
+
+/** Valid values of a Docker job's pullPolicy */
+export const IMAGE_PULL_POLICIES: ImagePullPolicy[] = ['always', 'if-not-present', 'never'];
+
+/** An agent-oven image present in the local Docker image store */
+export interface LocalImage {
+  /** Repository, e.g. agent-oven/base-tasks */
+  name: string;
+  tag: string;
+  id: string;
+  /** Size in bytes */
+  size: number;
+  /** When the image was built (ISO 8601) */
+  created: string;
+  /** Hash of the build context, for images built by agent-oven */
+  contextHash?: string;
+}
+
+/**
+ * Whether an image matches its sources: `up-to-date`, `stale` (the build
+ * context changed since), `not-built`, `unknown` (built without a context
+ * hash, e.g. before agent-oven recorded one) or `no-source` (no images/ dir).
+ * Images jobs build are stale once no job uses their build hash.
+ */
+export type ImageStatus = 'up-to-date' | 'stale' | 'not-built' | 'unknown' | 'no-source';
+
+/** A built-in or local agent-oven image, for `agent-oven images list` */
+export interface ImageSummary {
+  /** Image reference, e.g. agent-oven/base-tasks:latest */
+  ref: string;
+  status: ImageStatus;
+  local?: LocalImage;
+  /** IDs of the jobs that use the image */
+  usedBy: string[];
+}
+
+/** A referenced agent-oven image that is not in the local image store */
+export interface MissingImage {
+  ref: string;
+  /** Built-in image name that builds it, if it has sources in images/ */
+  buildName?: string;
+  /** IDs of the jobs that use the image */
+  jobIds: string[];
+}
+
+/**
+ * Scan images/ directory for subdirs containing Dockerfiles
+ */
+export function discoverImages(projectDir: string): string[] {
+  const imagesDir = path.join(projectDir, 'images');
+  if (!fs.existsSync(imagesDir)) {
+    return [];
+  }
+
+  return fs.readdirSync(imagesDir)
+    .filter((name) => {
+      const dir = path.join(imagesDir, name);
+      return fs.statSync(dir).isDirectory() &&
+        fs.existsSync(path.join(dir, 'Dockerfile'));
+    });
+}
+
+/**
+ * Get the built-in images, one per Dockerfile in images/
+ */
+export function getBuiltInImages(projectDir: string): string[] {
+  return discoverImages(projectDir).map((name) => `${IMAGE_PREFIX}${name}`);
+}
+
+/**
+ * Split an image reference into repository and tag (default: latest)
+ */
+export function parseImageRef(ref: string): { name: string; tag: string } {
+  const withoutDigest = ref.split('@')[0];
+  const colon = withoutDigest.lastIndexOf(':');
+  if (colon > withoutDigest.lastIndexOf('/')) {
+    return { name: withoutDigest.slice(0, colon), tag: withoutDigest.slice(colon + 1) };
+  }
+  return { name: withoutDigest, tag: 'latest' };
+}
+
+/**
+ * Turn a .dockerignore pattern into a regex: `*` and `?` match within a path
+ * segment, `**` across segments
+ */
+function dockerignorePatternToRegex(pattern: string): RegExp {
+  const source = pattern.split(/(\*\*\/|\*\*|\*|\?)/).map((part) => {
+    switch (part) {
+      case '**/': return '(?:.*/)?';
+      case '**': return '.*';
+      case '*': return '[^/]*';
+      case '?': return '[^/]';
+      default: return part.replace(/[.+^${}()|[\]\\]/g, '\\$&');
+    }
+  }).join('');
+  return new RegExp(`^${source}$`);
+}
+
+/**
+ * Read the .dockerignore of a build context: whether a path (relative to the
+ * context, with / separators) is left out of the context, and whether any
+ * pattern re-includes paths with `!`
+ */
+function readDockerignore(context: string): { ignored: (relPath: string) => boolean; hasExceptions: boolean } {
+  let content = '';
+  try {
+    content = fs.readFileSync(path.join(context, '.dockerignore'), 'utf-8');
+  } catch {
+    // No .dockerignore: the whole context is sent
+  }
+
+  const rules = content.split(/\r?\n/).flatMap((line) => {
+    let pattern = line.trim();
+    if (!pattern || pattern.startsWith('#')) return [];
+    const exception = pattern.startsWith('!');
+    if (exception) pattern = pattern.slice(1).trim();
+    pattern = path.posix.normalize(pattern).replace(/^\/+|\/+$/g, '');
+    if (!pattern || pattern === '.') return [];
+    return [{ regex: dockerignorePatternToRegex(pattern), exception }];
+  });
+
+  return {
+    hasExceptions: rules.some((rule) => rule.exception),
+    // Like docker, a pattern matching a directory also matches what is under it,
+    // and the last matching pattern wins
+    ignored: (relPath) => {
+      const prefixes = relPath.split('/').map((_, i, parts) => parts.slice(0, i + 1).join('/'));
+      let ignored = false;
+      for (const rule of rules) {
+        if (prefixes.some((prefix) => rule.regex.test(prefix))) ignored = !rule.exception;
+      }
+      return ignored;
+    },
+  };
+}
+
+/**
+ * Add the paths and contents of every file of a build context to a hash,
+ * leaving out what its .dockerignore excludes from the context
+ */
+function hashDirectory(hash: crypto.Hash, root: string, dir = root, ignore = readDockerignore(root)): void {
+  for (const entry of fs.readdirSync(dir, { withFileTypes: true }).sort((a, b) => a.name.localeCompare(b.name))) {
+    const entryPath = path.join(dir, entry.name);
+    const relPath = path.relative(root, entryPath).split(path.sep).join('/');
+    if (entry.isDirectory()) {
+      // Files under an ignored directory can only come back through an exception
+      if (ignore.ignored(relPath) && !ignore.hasExceptions) continue;
+      hashDirectory(hash, root, entryPath, ignore);
+    } else if (entry.isFile() && !ignore.ignored(relPath)) {
+      hash.update(relPath);
+      hash.update('\0');
+      hash.update(fs.readFileSync(entryPath));
+      hash.update('\0');
+    }
+  }
+}
+
+/**
+ * Hash an image's build context: the paths and contents of every file
+ * under images/<name>, so editing the Dockerfile or a copied file changes it
+ */
+export function hashImageContext(projectDir: string, name: string): string {
+  const hash = crypto.createHash('sha256');
+  hashDirectory(hash, path.join(projectDir, 'images', name));
+  return hash.digest('hex');
+}
+
+/**
+ * Resolve the context directory and Dockerfile of a job's build config
+ */
+export function resolveBuildPaths(projectDir: string, build: DockerBuildConfig): { context: string; dockerfile: string } {
+  const context = build.context.startsWith('~/')
+    ? path.join(os.homedir(), build.context.slice(2))
+    : path.resolve(projectDir, build.context);
+  return { context, dockerfile: path.resolve(context, build.dockerfile ?? 'Dockerfile') };
+}
+
+/**
+ * Hash a job's build: every file in its context, its Dockerfile (which may
+ * live outside the context) and its build args
+ * @throws Error if the context or Dockerfile cannot be read
+ */
+export function hashBuildConfig(projectDir: string, build: DockerBuildConfig): string {
+  const { context, dockerfile } = resolveBuildPaths(projectDir, build);
+  if (!fs.existsSync(context) || !fs.statSync(context).isDirectory()) {
+    throw new Error(`Build context ${context} is not a directory`);
+  }
+  if (!fs.existsSync(dockerfile)) {
+    throw new Error(`Dockerfile ${dockerfile} not found`);
+  }
+
+  const hash = crypto.createHash('sha256');
+  hashDirectory(hash, context);
+  hash.update(fs.readFileSync(dockerfile));
+  hash.update('\0');
+  const args = Object.entries(build.args ?? {}).sort(([a], [b]) => a.localeCompare(b));
+  hash.update(JSON.stringify(args));
+  return hash.digest('hex');
+}
+
+/**
+ * Get the tag of the image a job builds: agent-oven/job-<id>:<first 12 characters of the build hash>
+ * @throws Error if the build context or Dockerfile cannot be read
+ */
+export function getJobImageTag(projectDir: string, jobId: string, build: DockerBuildConfig): string {
+  return `${JOB_IMAGE_PREFIX}${jobId.toLowerCase()}:${hashBuildConfig(projectDir, build).slice(0, 12)}`;
+}
+
+/**
+ * Get the tag of the image a job builds for itself, or undefined if it
+ * does not build one or its build context cannot be read
+ */
+export function findJobBuildTag(projectDir: string, job: Job): string | undefined {
+  if (!isDockerJob(job) || !job.build) return undefined;
+  try {
+    return getJobImageTag(projectDir, job.id, job.build);
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Get the agent-oven images a job runs: its own image (pre-built, or built
+ * from its current build context), the pipeline runner, and the egress
+ * proxy's image for strict runs with network access. `buildTags` holds the
+ * build tags already known, by job ID, as hashing a build context reads it all.
+ */
+export function getJobImages(projectDir: string, job: Job, buildTags?: Map<string, string | undefined>): string[] {
+  const images: string[] = [];
+  const buildTag = buildTags?.has(job.id) ? buildTags.get(job.id) : findJobBuildTag(projectDir, job);
+  if (isDockerJob(job) && job.image) images.push(job.image);
+  if (buildTag) images.push(buildTag);
+  if (isPipelineJob(job)) images.push(PIPELINE_RUNNER_IMAGE);
+  if (getSecurityProfile(job) === 'strict' && getAllowedDomains(job).length > 0) {
+    images.push(EGRESS_PROXY_IMAGE);
+  }
+  return [...new Set(images.filter((image) => image.startsWith(IMAGE_PREFIX)).map(normalizeImageRef))];
+}
+
+/**
+ * Add the default tag to an image reference without one
+ */
+function normalizeImageRef(ref: string): string {
+  if (ref.includes('@')) return ref;
+  const { name, tag } = parseImageRef(ref);
+  return `${name}:${tag}`;
+}
+
+/**
+ * List the agent-oven images in the local Docker image store
+ * @throws Error if docker cannot list them
+ */
+export async function listLocalImages(): Promise<LocalImage[]> {
+  const listed = await execa(
+    'docker',
+    ['image', 'ls', '-q', '--no-trunc', '--filter', `reference=${IMAGE_PREFIX}*`],
+    { reject: false },
+  );
+  if (listed.exitCode !== 0) {
+    throw new Error(`docker image ls failed: ${String(listed.stderr).trim()}`);
+  }
+  const ids = [...new Set(String(listed.stdout).split('\n').map((id) => id.trim()).filter(Boolean))];
+  if (ids.length === 0) return [];
+
+  const inspected = await execa(
+    'docker',
+    ['image', 'inspect', '--format', '{{json .RepoTags}}\t{{.Id}}\t{{.Created}}\t{{.Size}}\t{{json .Config.Labels}}', ...ids],
+    { reject: false },
+  );
+  if (inspected.exitCode !== 0) {
+    throw new Error(`docker image inspect failed: ${String(inspected.stderr).trim()}`);
+  }
+
+  const images: LocalImage[] = [];
+  for (const line of String(inspected.stdout).split('\n')) {
+    const [repoTags, id, created, size, labels] = line.split('\t');
+    if (!id) continue;
+    const tags = (JSON.parse(repoTags) as string[] | null) ?? [];
+    const contextHash = (JSON.parse(labels) as Record<string, string> | null)?.[CONTEXT_HASH_LABEL];
+    for (const ref of tags.filter((tag) => tag.startsWith(IMAGE_PREFIX))) {
+      images.push({
+        ...parseImageRef(ref),
+        id,
+        size: Number(size),
+        created,
+        ...(contextHash ? { contextHash } : {}),
+      });
+    }
+  }
+  return images.sort((a, b) => `${a.name}:${a.tag}`.localeCompare(`${b.name}:${b.tag}`));
+}
+
+/**
+ * Find the local image for a reference
+ */
+function findLocalImage(local: LocalImage[], ref: string): LocalImage | undefined {
+  const { name, tag } = parseImageRef(ref);
+  return local.find((image) => image.name === name && image.tag === tag);
+}
+
+/**
+ * Get the status of a local image against the sources of a built-in image
+ */
+export function getImageStatus(projectDir: string, ref: string, local?: LocalImage): ImageStatus {
+  const { name } = parseImageRef(ref);
+  const buildName = name.slice(IMAGE_PREFIX.length);
+  if (!discoverImages(projectDir).includes(buildName)) return 'no-source';
+  if (!local) return 'not-built';
+  if (!local.contextHash) return 'unknown';
+  return local.contextHash === hashImageContext(projectDir, buildName) ? 'up-to-date' : 'stale';
+}
+
+/**
+ * Summarize the built-in images and the local agent-oven images, with the jobs using each
+ */
+export function summarizeImages(projectDir: string, local: LocalImage[], jobs: Job[]): ImageSummary[] {
+  const refs = new Set([
+    ...getBuiltInImages(projectDir).map(normalizeImageRef),
+    ...local.map((image) => `${image.name}:${image.tag}`),
+  ]);
+
+  const jobImages = jobs.map((job) => ({ jobId: job.id, images: getJobImages(projectDir, job) }));
+
+  return [...refs].sort().map((ref) => {
+    const image = findLocalImage(local, ref);
+    const usedBy = jobImages.filter(({ images }) => images.includes(ref)).map(({ jobId }) => jobId);
+    // A job's image is tagged with its build hash, so only the tag a job uses is current
+    const status = ref.startsWith(JOB_IMAGE_PREFIX)
+      ? (usedBy.length > 0 ? 'up-to-date' : 'stale')
+      : getImageStatus(projectDir, ref, image);
+    return { ref, status, ...(image ? { local: image } : {}), usedBy };
+  });
+}
+
+/**
+ * Find the agent-oven images that jobs use but that are not built locally.
+ * Images jobs build for themselves are left out, as they are built when the
+ * job runs. `buildTags` holds the build tags of jobs already known, by job ID.
+ */
+export function findMissingImages(
+  projectDir: string,
+  jobs: Job[],
+  local: LocalImage[],
+  buildTags?: Map<string, string | undefined>,
+): MissingImage[] {
+  const builtIn = discoverImages(projectDir);
+  const missing = new Map<string, MissingImage>();
+  const tags = new Map(jobs.map((job) => [
+    job.id,
+    buildTags?.has(job.id) ? buildTags.get(job.id) : findJobBuildTag(projectDir, job),
+  ]));
+
+  for (const job of jobs) {
+    const buildTag = tags.get(job.id);
+    for (const ref of getJobImages(projectDir, job, tags)) {
+      if (ref === buildTag || findLocalImage(local, ref)) continue;
+      const entry = missing.get(ref);
+      if (entry) {
+        entry.jobIds.push(job.id);
+        continue;
+      }
+      const { name, tag } = parseImageRef(ref);
+      const buildName = name.slice(IMAGE_PREFIX.length);
+      missing.set(ref, {
+        ref,
+        ...(tag === 'latest' && builtIn.includes(buildName) ? { buildName } : {}),
+        jobIds: [job.id],
+      });
+    }
+  }
+
+  return [...missing.values()];
+}
+
+/**
+ * Find the local agent-oven images no job uses, including images jobs built
+ * from earlier versions of their build context. Built-in images are kept
+ * unless `includeBuiltIn` is set, since new jobs can pick them.
+ */
+export function findUnusedImages(
+  projectDir: string,
+  jobs: Job[],
+  local: LocalImage[],
+  includeBuiltIn = false,
+): LocalImage[] {
+  const used = new Set(jobs.flatMap((job) => getJobImages(projectDir, job)));
+  const builtIn = new Set(getBuiltInImages(projectDir));
+  return local.filter((image) =>
+    !used.has(`${image.name}:${image.tag}`) && (includeBuiltIn || !builtIn.has(image.name)));
+}
+
+/**
+ * Pass each line of a docker build or pull output stream on
+ */
+async function forwardLines(input: Readable | null | undefined, onLine: (line: string) => void): Promise<void> {
+  if (!input) return;
+  for await (const line of readline.createInterface({ input, crlfDelay: Infinity })) {
+    if (line) onLine(line);
+  }
+}
+
+/**
+ * Run `docker build` or `docker pull`, passing each line of its output on.
+ * A failure is described by the exit code and the last line of output.
+ */
+async function runStreamingDocker(
+  command: 'build' | 'pull',
+  args: string[],
+  onOutput?: (line: string) => void,
+): Promise<{ success: boolean; error?: string }> {
+  let lastLine = '';
+  const onLine = (line: string): void => {
+    lastLine = line;
+    onOutput?.(line);
+  };
+
+  try {
+    const proc = execa('docker', [command, ...args], { reject: false, buffer: false });
+    const [result] = await Promise.all([proc, forwardLines(proc.stdout, onLine), forwardLines(proc.stderr, onLine)]);
+    if (result.exitCode === 0) return { success: true };
+    const reason = result.exitCode !== undefined ? `exit code ${result.exitCode}` : result.message;
+    return { success: false, error: `docker ${command} failed (${reason})${lastLine ? `: ${lastLine}` : ''}` };
+  } catch (err) {
+    const message = err instanceof Error ? err.message : String(err);
+    return { success: false, error: message };
+  }
+}
+
+/**
+ * Build a Docker image from the images/ directory, labeled with the hash of its build context.
+ * `rebuild` skips the build cache and pulls newer base images.
+ */
+export async function buildImage(
+  projectDir: string,
+  imageName: string,
+  onOutput?: (line: string) => void,
+  options: { rebuild?: boolean } = {},
+): Promise<{ success: boolean; error?: string }> {
+  const contextDir = path.join(projectDir, 'images', imageName);
+  let label: string;
+  try {
+    label = `${CONTEXT_HASH_LABEL}=${hashImageContext(projectDir, imageName)}`;
+  } catch (err) {
+    const message = err instanceof Error ? err.message : String(err);
+    return { success: false, error: message };
+  }
+
+  return runStreamingDocker('build', [
+    '-t', `${IMAGE_PREFIX}${imageName}`,
+    '--label', label,
+    ...(options.rebuild ? ['--pull', '--no-cache'] : []),
+    contextDir,
+  ], onOutput);
+}
+
+/**
+ * Build the image of a job with a build config under the given tag
+ * (see getJobImageTag), labeled with its build hash
+ */
+export async function buildJobImage(
+  projectDir: string,
+  build: DockerBuildConfig,
+  tag: string,
+  onOutput?: (line: string) => void,
+): Promise<{ success: boolean; error?: string }> {
+  const { context, dockerfile } = resolveBuildPaths(projectDir, build);
+  return runStreamingDocker('build', [
+    '-t', tag,
+    '-f', dockerfile,
+    '--label', `${CONTEXT_HASH_LABEL}=${parseImageRef(tag).tag}`,
+    ...Object.entries(build.args ?? {}).flatMap(([key, value]) => ['--build-arg', `${key}=${value}`]),
+    context,
+  ], onOutput);
+}
+
+/**
+ * Pull an image from its registry, passing each line of docker's output on
+ */
+export async function pullImage(
+  ref: string,
+  onOutput?: (line: string) => void,
+): Promise<{ success: boolean; error?: string }> {
+  return runStreamingDocker('pull', [ref], onOutput);
+}
+
+/** Repository digest of an image, or its ID for locally built images that have none */
+const IMAGE_DIGEST_FORMAT = '{{if .RepoDigests}}{{index .RepoDigests 0}}{{else}}{{.Id}}{{end}}';
+
+/**
+ * Look up the digest of a local image: its repository digest
+ * (`name@sha256:...`), the content the registry serves for the tag, or the
+ * image ID for images built locally and never pushed.
+ * Returns undefined if the image is not present locally.
+ */
+export async function getImageDigest(ref: string): Promise<string | undefined> {
+  try {
+    const { stdout, exitCode } = await execa(
+      'docker',
+      ['image', 'inspect', '--format', IMAGE_DIGEST_FORMAT, ref],
+      { reject: false },
+    );
+    const digest = typeof stdout === 'string' ? stdout.trim() : '';
+    return exitCode === 0 && digest ? digest : undefined;
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Pin a job to the digest its image has now, in state.json. Returns the
+ * digest, or undefined if the image is not present locally; the pin is then
+ * cleared, and the job's next run pins it.
+ */
+export async function pinJobImage(config: Config, jobId: string, image: string): Promise<string | undefined> {
+  const digest = await getImageDigest(image);
+  updateJobState(config, jobId, { pinnedDigest: digest, pinnedImage: digest ? image : undefined });
+  return digest;
+}
+
+/**
+ * Check whether an image is in the local image store
+ */
+export async function imageExists(ref: string): Promise<boolean> {
+  const { exitCode } = await execa('docker', ['image', 'inspect', '--format', '{{.Id}}', ref], { reject: false });
+  return exitCode === 0;
+}
+
+/**
+ * Remove local images, then the untagged images left behind by earlier
+ * agent-oven builds. Returns the references that could not be removed.
+ */
+export async function removeImages(images: LocalImage[]): Promise<{ ref: string; error: string }[]> {
+  const failed: { ref: string; error: string }[] = [];
+  for (const image of images) {
+    const ref = `${image.name}:${image.tag}`;
+    const { exitCode, stderr } = await execa('docker', ['image', 'rm', ref], { reject: false });
+    if (exitCode !== 0) {
+      failed.push({ ref, error: String(stderr).trim() });
+    }
+  }
+  await execa('docker', ['image', 'prune', '-f', '--filter', `label=${CONTEXT_HASH_LABEL}`], { reject: false });
+  return failed;
+}
@@ -5,8 +5,21 @@
 export * from './types.js';
 export * from './config.js';
 export * from './jobs.js';
+export * from './schema.js';
+export * from './definitions.js';
+export * from './state.js';
 export * from './docker.js';
+export * from './history.js';
+export * from './retries.js';
+export * from './dependencies.js';
+export * from './cron.js';
 export * from './scheduler.js';
 export * from './auth.js';
+export * from './sandbox.js';
+export * from './images.js';
+export * from './secrets.js';
+export * from './redact.js';
+export * from './job-log.js';
+export * from './notifications.js';
 export * from './platform.js';
 export * from './update-check.js';
@@ -0,0 +1,152 @@
+/**
+ * Job log files
+ * Each run writes a log of events: the run starting, lines of container
+ * output, warnings, and the run finishing. Logs are written as text with
+ * `=== Key: value ===` banners (.log), or with `logFormat: "jsonl"` as one
+ * JSON event per line (.jsonl). Either format can be read back as text.
+ */
+
+import * as fs from 'node:fs';
+import type { JobLogEvent, LogFormat } from './types.js';
+
+/** Supported log formats */
+export const LOG_FORMATS: LogFormat[] = ['text', 'jsonl'];
+
+/** File extension of each log format */
+const LOG_EXTENSIONS: Record<LogFormat, string> = {
+  text: '.log',
+  jsonl: '.jsonl',
+};
+
+/**
+ * Get the file extension for logs in a format
+ */
+export function getLogExtension(format: LogFormat = 'text'): string {
+  return LOG_EXTENSIONS[format];
+}
+
+/**
+ * Check whether a file name is a job log in any format
+ */
+export function isJobLogFile(fileName: string): boolean {
+  return Object.values(LOG_EXTENSIONS).some((ext) => fileName.endsWith(ext));
+}
+
+/**
+ * Get the format of a log file from its extension
+ */
+export function getLogFormat(logFile: string): LogFormat {
+  return logFile.endsWith(LOG_EXTENSIONS.jsonl) ? 'jsonl' : 'text';
+}
+
+/**
+ * Replace the extension of a log file, e.g. to name the files kept next to it
+ */
+export function replaceLogExtension(logFile: string, ext: string): string {
+  return logFile.replace(/\.(log|jsonl)$/, ext);
+}
+
+/**
+ * Apply a function to every string in an event, e.g. to mask secrets
+ */
+export function mapLogEventStrings<T extends JobLogEvent>(event: T, fn: (text: string) => string): T {
+  const map = (value: unknown): unknown => {
+    if (typeof value === 'string') return fn(value);
+    if (Array.isArray(value)) return value.map(map);
+    if (typeof value === 'object' && value !== null) {
+      return Object.fromEntries(Object.entries(value).map(([key, item]) => [key, map(item)]));
+    }
+    return value;
+  };
+  return map(event) as T;
+}
+
+/**
+ * Format an event as text log lines, each ending with a line break
+ */
+function formatTextEvent(event: JobLogEvent): string {
+  const lines: string[] = [];
+  switch (event.type) {
+    case 'run_started':
+      lines.push(`=== Job: ${event.jobId} ===`, `=== Type: ${event.jobType} ===`);
+      if (event.pipeline) lines.push(`=== Pipeline: ${event.pipeline} ===`);
+      if (event.repo) lines.push(`=== Repo: ${event.repo} (${event.branch ?? 'main'}) ===`);
+      if (event.authMode) lines.push(`=== Auth: ${event.authMode} ===`);
+      if (event.security) {
+        const egress = event.allowedDomains ? ` (egress: ${event.allowedDomains.join(', ')})` : '';
+        lines.push(`=== Security: ${event.security}${egress} ===`);
+      }
+      if (event.env && event.env.length > 0) lines.push(`=== Env: ${event.env.join(', ')} ===`);
+      if (event.imageDigest) lines.push(`=== Image: ${event.image} (${event.imageDigest}) ===`);
+      lines.push(`=== Started: ${event.timestamp} ===`);
+      if (event.args) lines.push(`=== Command: docker ${event.args.join(' ')} ===`);
+      break;
+    case 'output':
+      lines.push(`${event.timestamp} ${event.stream} | ${event.text}`);
+      break;
+    case 'warning':
+      lines.push(`=== WARNING: ${event.message} ===`);
+      break;
+    case 'run_finished':
+      if (event.detail) lines.push(event.detail);
+      lines.push(
+        '',
+        `=== Finished: ${event.timestamp} ===`,
+        `=== Exit Code: ${event.exitCode} ===`,
+      );
+      if (event.oomKilled) lines.push('=== OOM Killed ===');
+      if (event.error) lines.push(`=== Error: ${event.error} ===`);
+      break;
+  }
+  return lines.map((line) => `${line}\n`).join('');
+}
+
+/**
+ * Format an event for a log file
+ */
+export function formatLogEvent(event: JobLogEvent, format: LogFormat): string {
+  return format === 'jsonl' ? JSON.stringify(event) + '\n' : formatTextEvent(event);
+}
+
+/**
+ * Write events to a new log file, in the format its extension names
+ */
+export function writeLogEvents(logFile: string, events: JobLogEvent[], redact: (text: string) => string): void {
+  const format = getLogFormat(logFile);
+  fs.writeFileSync(logFile, events.map((event) => formatLogEvent(mapLogEventStrings(event, redact), format)).join(''));
+}
+
+/**
+ * Append an event to a log file, in the format its extension names
+ */
+export function appendLogEvent(logFile: string, event: JobLogEvent, redact: (text: string) => string): void {
+  fs.appendFileSync(logFile, formatLogEvent(mapLogEventStrings(event, redact), getLogFormat(logFile)));
+}
+
+/**
+ * Parse the events of a JSON-lines log. Lines that are not events (e.g. a
+ * line cut off while the run is still writing) are skipped.
+ */
+export function parseLogEvents(content: string): JobLogEvent[] {
+  const events: JobLogEvent[] = [];
+  for (const line of content.split('\n')) {
+    if (!line.trim()) continue;
+    try {
+      const event = JSON.parse(line) as JobLogEvent;
+      if (typeof event === 'object' && event !== null && typeof event.type === 'string') {
+        events.push(event);
+      }
+    } catch {
+      // Incomplete or foreign line
+    }
+  }
+  return events;
+}
+
+/**
+ * Render log content as text, whatever its format
+ */
+export function renderJobLog(content: string, format: LogFormat): string {
+  if (format === 'text') return content;
+  return parseLogEvents(content).map(formatTextEvent).join('');
+}
@@ -3,24 +3,46 @@
  */
 
 import * as fs from 'node:fs';
+import * as path from 'node:path';
 import type {
   Config,
   Job,
   DockerJob,
+  DockerBuildConfig,
   PipelineJob,
   JobsFile,
   AddJobOptions,
   UpdateJobOptions,
 } from './types.js';
-import { isDockerJob, isPipelineJob } from './types.js';
-import { getJobsFilePath } from './config.js';
-import { validateRandomWindow } from './scheduler.js';
+import { isDockerJob, isPipelineJob, isEnvRef } from './types.js';
+import { getJobsFilePath, getJobsBackupDir } from './config.js';
+import { acquireLockSync, releaseLock } from './locks.js';
+import { writeFileAtomic } from './files.js';
+import { clearJobState, migrateLastRuns, readJobStates } from './state.js';
+import { validateCron, validateRandomWindow, isValidTimezone } from './scheduler.js';
+import { validateRetry } from './retries.js';
+import { validateSecretName } from './secrets.js';
+import { DEPENDENCY_OUTCOMES, validateDependencies } from './dependencies.js';
+import { SECURITY_PROFILES, validateAllowedDomain } from './sandbox.js';
+import { IMAGE_PULL_POLICIES } from './images.js';
+import {
+  getJobsSchema,
+  validateSchema,
+  getJsonLocations,
+  findJsonLocation,
+  locateJsonSyntaxError,
+  joinJsonPointer,
+} from './schema.js';
 
 /**
  * Normalize a legacy job (no `type` field) to a DockerJob.
  * Jobs with `image` and `command` but no `type` are treated as Docker jobs.
  */
-function normalizeJob(raw: Record<string, unknown>): Job {
+export function normalizeJob(record: Record<string, unknown>): Job {
+  // last_run is kept in state.json now; drop it from older definitions
+  const raw = { ...record };
+  delete raw.last_run;
+
   if (raw.type === 'docker' || raw.type === 'agent-pipeline') {
     return raw as unknown as Job;
   }
@@ -34,49 +56,140 @@ function normalizeJob(raw: Record<string, unknown>): Job {
   return { ...raw, type: 'docker' } as unknown as DockerJob;
 }
 
+/** Number of previous jobs.json versions kept in the backups directory */
+export const JOBS_FILE_BACKUPS = 5;
+
+/** How long a write waits for another process to finish editing jobs.json */
+const JOBS_LOCK_TIMEOUT_MS = 5_000;
+
+/** The jobs file with its job records as stored, before normalization */
+interface RawJobsFile {
+  $schema?: string;
+  jobs: Record<string, unknown>[];
+}
+
 /**
- * Read the jobs file
+ * Read the jobs file without normalizing its job records
+ * @throws Error if the file cannot be read or is corrupted, rather than
+ * returning no jobs (a later write would then drop every job)
  */
-function readJobsFile(config: Config): JobsFile {
+function parseJobsFile(config: Config): RawJobsFile {
   const jobsPath = getJobsFilePath(config);
 
   if (!fs.existsSync(jobsPath)) {
     return { jobs: [] };
   }
 
+  const restoreHint = `Fix the file or restore a backup from ${getJobsBackupDir(config)}`;
+
   let content: string;
   try {
     content = fs.readFileSync(jobsPath, 'utf-8');
   } catch (err) {
-    console.error(`Warning: Failed to read ${jobsPath}:`, err);
-    return { jobs: [] };
+    throw new Error(`Failed to read ${jobsPath}: ${err instanceof Error ? err.message : String(err)}`);
   }
 
-  let data: { jobs: Record<string, unknown>[] };
+  let data: RawJobsFile;
   try {
-    data = JSON.parse(content) as { jobs: Record<string, unknown>[] };
+    data = JSON.parse(content) as RawJobsFile;
   } catch (err) {
-    console.error(`Warning: Failed to parse ${jobsPath} - file may be corrupted:`, err);
-    return { jobs: [] };
+    throw new Error(
+      `${jobsPath} is corrupted (${err instanceof Error ? err.message : String(err)}). ${restoreHint}`,
+    );
   }
 
-  if (!data.jobs || !Array.isArray(data.jobs)) {
-    console.error(`Warning: ${jobsPath} has invalid structure (missing "jobs" array)`);
-    return { jobs: [] };
+  if (!data || !Array.isArray(data.jobs)) {
+    throw new Error(`${jobsPath} has invalid structure (missing "jobs" array). ${restoreHint}`);
+  }
+
+  return data;
+}
+
+/**
+ * Get the `last_run` values older versions stored in job definitions, keyed by job ID
+ */
+function getLegacyLastRuns(records: Record<string, unknown>[]): Record<string, string> {
+  const lastRuns: Record<string, string> = {};
+  for (const record of records) {
+    if (typeof record.id === 'string' && typeof record.last_run === 'string') {
+      lastRuns[record.id] = record.last_run;
+    }
+  }
+  return lastRuns;
+}
+
+/**
+ * Read the jobs file
+ * @throws Error if the file cannot be read or is corrupted
+ */
+function readJobsFile(config: Config): JobsFile {
+  const file = parseJobsFile(config);
+  if (Object.keys(getLegacyLastRuns(file.jobs)).length > 0) {
+    // One-time migration: rewriting the file moves last_run values to state.json
+    return modifyJobsFile(config, (data) => data);
   }
 
   // Normalize all jobs on read
   return {
-    jobs: data.jobs.map(normalizeJob),
+    ...file,
+    jobs: file.jobs.map(normalizeJob),
   };
 }
 
 /**
- * Write the jobs file
+ * Copy the current jobs file into the backups directory as jobs.json.1,
+ * shifting older copies up to JOBS_FILE_BACKUPS
  */
-function writeJobsFile(config: Config, data: JobsFile): void {
+function backupJobsFile(config: Config): void {
   const jobsPath = getJobsFilePath(config);
-  fs.writeFileSync(jobsPath, JSON.stringify(data, null, 2) + '\n');
+  if (!fs.existsSync(jobsPath)) return;
+
+  const backupDir = getJobsBackupDir(config);
+  fs.mkdirSync(backupDir, { recursive: true });
+  for (let i = JOBS_FILE_BACKUPS - 1; i >= 1; i--) {
+    const older = path.join(backupDir, `jobs.json.${i}`);
+    if (fs.existsSync(older)) {
+      fs.renameSync(older, path.join(backupDir, `jobs.json.${i + 1}`));
+    }
+  }
+  fs.copyFileSync(jobsPath, path.join(backupDir, 'jobs.json.1'));
+}
+
+/**
+ * Write the jobs file atomically, backing up the previous version first
+ */
+function writeJobsFile(config: Config, data: JobsFile): void {
+  backupJobsFile(config);
+  writeFileAtomic(getJobsFilePath(config), JSON.stringify(data, null, 2) + '\n');
+}
+
+/**
+ * Read, modify and write the jobs file while holding its lock, so concurrent
+ * edits (e.g. the scheduler removing a finished one-time job while a job is saved) are not lost
+ */
+function modifyJobsFile<T>(config: Config, modify: (data: JobsFile) => T): T {
+  const lockPath = `${getJobsFilePath(config)}.lock`;
+  acquireLockSync(lockPath, JOBS_LOCK_TIMEOUT_MS);
+  try {
+    const file = parseJobsFile(config);
+    migrateLastRuns(config, getLegacyLastRuns(file.jobs));
+    // Keep the $schema reference users add for editor support
+    const data: JobsFile = { ...file, jobs: file.jobs.map(normalizeJob) };
+    const result = modify(data);
+    writeJobsFile(config, data);
+    return result;
+  } finally {
+    releaseLock(lockPath);
+  }
+}
+
+/**
+ * Change the job list in one locked read-modify-write, for changes that must
+ * be made together. `modify` edits the list in place; if it throws, nothing
+ * is written.
+ */
+export function modifyJobs<T>(config: Config, modify: (jobs: Job[]) => T): T {
+  return modifyJobsFile(config, (data) => modify(data.jobs));
 }
 
 /**
@@ -99,21 +212,14 @@ export function getJob(config: Config, jobId: string): Job | null {
  * @throws Error if job with same ID already exists
  */
 export function addJob(config: Config, options: AddJobOptions): Job {
-  const data = readJobsFile(config);
-
-  // Check for duplicate ID
-  if (data.jobs.some((job) => job.id === options.id)) {
-    throw new Error(`Job with ID "${options.id}" already exists`);
-  }
-
   // Validate required fields based on type
   if (!options.id || !options.name || !options.schedule) {
     throw new Error('Missing required fields: id, name, schedule');
   }
 
   if (options.type === 'docker') {
-    if (!options.image || !options.command) {
-      throw new Error('Docker jobs require: image, command');
+    if ((!options.image && !options.build) || !options.command) {
+      throw new Error('Docker jobs require: image, command (or build instead of image)');
     }
   } else if (options.type === 'agent-pipeline') {
     if (!options.source || !options.pipeline) {
@@ -126,15 +232,17 @@ export function addJob(config: Config, options: AddJobOptions): Job {
     throw new Error('Job ID must contain only letters, numbers, hyphens, and underscores');
   }
 
-  const job: Job = {
-    ...options,
-    last_run: null,
-  } as Job;
+  const job: Job = { ...options };
 
-  data.jobs.push(job);
-  writeJobsFile(config, data);
+  return modifyJobsFile(config, (data) => {
+    // Check for duplicate ID
+    if (data.jobs.some((existing) => existing.id === options.id)) {
+      throw new Error(`Job with ID "${options.id}" already exists`);
+    }
 
-  return job;
+    data.jobs.push(job);
+    return job;
+  });
 }
 
 /**
@@ -142,7 +250,31 @@ export function addJob(config: Config, options: AddJobOptions): Job {
  * @throws Error if job does not exist
  */
 export function updateJob(config: Config, jobId: string, updates: UpdateJobOptions): Job {
-  const data = readJobsFile(config);
+  return modifyJobsFile(config, (data) => updateJobIn(data, jobId, () => updates));
+}
+
+/**
+ * Replace an existing job's definition; fields missing from `job` are removed
+ * @throws Error if job does not exist
+ */
+export function replaceJob(config: Config, job: Job): Job {
+  return modifyJobsFile(config, (data) => {
+    const index = data.jobs.findIndex((existing) => existing.id === job.id);
+
+    if (index === -1) {
+      throw new Error(`Job with ID "${job.id}" not found`);
+    }
+
+    data.jobs[index] = job;
+    return job;
+  });
+}
+
+/**
+ * Apply an update computed from the current job to the job in a loaded jobs file
+ * @throws Error if job does not exist
+ */
+function updateJobIn(data: JobsFile, jobId: string, getUpdates: (job: Job) => UpdateJobOptions): Job {
   const index = data.jobs.findIndex((job) => job.id === jobId);
 
   if (index === -1) {
@@ -151,12 +283,10 @@ export function updateJob(config: Config, jobId: string, updates: UpdateJobOptio
 
   const updatedJob: Job = {
     ...data.jobs[index],
-    ...updates,
+    ...getUpdates(data.jobs[index]),
   } as Job;
 
   data.jobs[index] = updatedJob;
-  writeJobsFile(config, data);
-
   return updatedJob;
 }
 
@@ -165,36 +295,23 @@ export function updateJob(config: Config, jobId: string, updates: UpdateJobOptio
  * @throws Error if job does not exist
  */
 export function removeJob(config: Config, jobId: string): void {
-  const data = readJobsFile(config);
-  const index = data.jobs.findIndex((job) => job.id === jobId);
+  modifyJobsFile(config, (data) => {
+    const index = data.jobs.findIndex((job) => job.id === jobId);
 
-  if (index === -1) {
-    throw new Error(`Job with ID "${jobId}" not found`);
-  }
+    if (index === -1) {
+      throw new Error(`Job with ID "${jobId}" not found`);
+    }
 
-  data.jobs.splice(index, 1);
-  writeJobsFile(config, data);
+    data.jobs.splice(index, 1);
+  });
+  clearJobState(config, jobId);
 }
 
 /**
  * Toggle a job's enabled status
  */
 export function toggleJob(config: Config, jobId: string): Job {
-  const job = getJob(config, jobId);
-  if (!job) {
-    throw new Error(`Job with ID "${jobId}" not found`);
-  }
-
-  const newEnabled = !(job.enabled ?? true);
-  return updateJob(config, jobId, { enabled: newEnabled });
-}
-
-/**
- * Update a job's last_run timestamp
- */
-export function updateLastRun(config: Config, jobId: string, timestamp?: string): Job {
-  const ts = timestamp ?? new Date().toISOString().replace(/\.\d{3}Z$/, 'Z');
-  return updateJob(config, jobId, { last_run: ts });
+  return modifyJobsFile(config, (data) => updateJobIn(data, jobId, (job) => ({ enabled: !(job.enabled ?? true) })));
 }
 
 /**
@@ -208,44 +325,188 @@ export function getJobStats(config: Config): {
   randomWindow: number;
 } {
   const jobs = listJobs(config);
+  const states = readJobStates(config);
 
   return {
     total: jobs.length,
     enabled: jobs.filter((j) => j.enabled !== false).length,
     cron: jobs.filter((j) => j.schedule.type === 'cron').length,
     oncePending: jobs.filter(
-      (j) => j.schedule.type === 'once' && !j.last_run
+      (j) => j.schedule.type === 'once' && !states[j.id]?.lastRun
     ).length,
     randomWindow: jobs.filter((j) => j.schedule.type === 'random-window').length,
   };
 }
 
+/** A problem in a job definition, located by a JSON pointer relative to the job */
+export interface JobIssue {
+  path: string;
+  message: string;
+}
+
+/**
+ * `docker run` options that extraArgs may not contain, with the reason:
+ * options agent-oven sets itself, options a job field covers, and options
+ * granting the container host privileges
+ */
+const RESTRICTED_RUN_OPTIONS: Record<string, string> = {
+  ...Object.fromEntries(
+    ['--name', '--rm', '--cidfile', '--env-file', '-d', '--detach', '-i', '--interactive', '-t', '--tty']
+      .map((option) => [option, 'is set by agent-oven']),
+  ),
+  ...Object.fromEntries(Object.entries({
+    '--cpus': 'resources.cpus',
+    '-m': 'resources.memory',
+    '--memory': 'resources.memory',
+    '-e': 'env',
+    '--env': 'env',
+    '-v': 'volumes',
+    '--volume': 'volumes',
+    '--mount': 'volumes',
+    '-l': 'labels',
+    '--label': 'labels',
+    '--label-file': 'labels',
+    '--network': 'network',
+    '--net': 'network',
+    '-u': 'user',
+    '--user': 'user',
+    '-w': 'workdir',
+    '--workdir': 'workdir',
+    '--entrypoint': 'entrypoint',
+    '--read-only': 'readOnly',
+    '--cap-drop': 'capDrop',
+    '--shm-size': 'shmSize',
+    '--pids-limit': 'pidsLimit',
+    '--pull': 'pullPolicy',
+  }).map(([option, field]) => [option, `is covered by the "${field}" field`])),
+  ...Object.fromEntries(
+    [
+      '--privileged', '--cap-add', '--device', '--pid', '--ipc', '--uts', '--userns', '--cgroupns', '--security-opt',
+      '--volumes-from', '--group-add', '--runtime', '--sysctl', '--device-cgroup-rule', '--cgroup-parent',
+    ].map((option) => [option, 'grants host privileges']),
+  ),
+};
+
+/** Label prefix agent-oven uses to identify its containers */
+const RESERVED_LABEL_PREFIX = 'agent-oven.';
+
 /**
- * Get available Docker images (the built-in ones)
+ * Find the problems in the build config of a Docker job
  */
-export function getBuiltInImages(): string[] {
-  return [
-    'agent-oven/base-tasks',
-    'agent-oven/python-tasks',
-    'agent-oven/node-tasks',
-    'agent-oven/pipeline-runner',
-  ];
+function findBuildIssues(build: DockerBuildConfig): JobIssue[] {
+  const issues: JobIssue[] = [];
+  const report = (path: string, message: string) => issues.push({ path: `/build${path}`, message });
+
+  if (typeof build !== 'object' || build === null || Array.isArray(build)) {
+    report('', 'Build must be an object with a context');
+    return issues;
+  }
+  if (typeof build.context !== 'string' || !build.context) {
+    report('/context', 'Build context is required');
+  }
+  if (build.dockerfile !== undefined && (typeof build.dockerfile !== 'string' || !build.dockerfile)) {
+    report('/dockerfile', 'Dockerfile must be a non-empty path');
+  }
+  for (const [key, value] of Object.entries(build.args ?? {})) {
+    const argPath = joinJsonPointer('/args', key);
+    if (!/^[a-zA-Z_][a-zA-Z0-9_]*$/.test(key)) {
+      report(argPath, `Invalid build arg name "${key}"`);
+    } else if (typeof value !== 'string') {
+      report(argPath, `Build arg ${key} must be a string`);
+    }
+  }
+  return issues;
 }
 
 /**
- * Validate a job configuration
+ * Find the problems in the pull policy and digest pinning of a Docker job
  */
-export function validateJob(job: Partial<Job>): string[] {
-  const errors: string[] = [];
+function findPullIssues(job: Partial<DockerJob>): JobIssue[] {
+  const issues: JobIssue[] = [];
+  const report = (path: string, message: string) => issues.push({ path, message });
+
+  if (job.pullPolicy !== undefined && !IMAGE_PULL_POLICIES.includes(job.pullPolicy)) {
+    report('/pullPolicy', 'Pull policy must be one of: always, if-not-present, never');
+  } else if (job.pullPolicy !== undefined && job.build !== undefined) {
+    report('/pullPolicy', 'Pull policy does not apply to jobs that build their own image');
+  }
+  if (job.pinDigest && job.build !== undefined) {
+    report('/pinDigest', 'Jobs that build their own image cannot pin its digest');
+  }
+  return issues;
+}
+
+/**
+ * Find the problems in the `docker run` options of a Docker job
+ */
+function findDockerOptionIssues(job: Partial<DockerJob>): JobIssue[] {
+  const issues: JobIssue[] = [];
+  const report = (path: string, message: string) => issues.push({ path, message });
+
+  if (job.network !== undefined && !/^[a-zA-Z0-9][a-zA-Z0-9_.-]*$/.test(job.network)) {
+    report('/network', `Invalid network "${job.network}"`);
+  }
+  if (job.user !== undefined && !/^[a-zA-Z0-9_][a-zA-Z0-9_.-]*(:[a-zA-Z0-9_][a-zA-Z0-9_.-]*)?$/.test(job.user)) {
+    report('/user', `Invalid user "${job.user}" (expected a name or UID, optionally with :group)`);
+  }
+  if (job.workdir !== undefined && !job.workdir.startsWith('/')) {
+    report('/workdir', 'Workdir must be an absolute path');
+  }
+  if (job.entrypoint !== undefined && !job.entrypoint.trim()) {
+    report('/entrypoint', 'Entrypoint must not be empty');
+  }
+  (job.capDrop ?? []).forEach((capability, index) => {
+    if (!/^[A-Za-z_]+$/.test(capability)) {
+      report(`/capDrop/${index}`, `Invalid capability "${capability}"`);
+    }
+  });
+  for (const key of Object.keys(job.labels ?? {})) {
+    const labelPath = joinJsonPointer('/labels', key);
+    if (!/^[a-zA-Z0-9][a-zA-Z0-9._/-]*$/.test(key)) {
+      report(labelPath, `Invalid label name "${key}"`);
+    } else if (key.startsWith(RESERVED_LABEL_PREFIX)) {
+      report(labelPath, `Label names starting with "${RESERVED_LABEL_PREFIX}" are reserved`);
+    }
+  }
+  if (job.shmSize !== undefined && !/^\d+[bkmg]?$/i.test(job.shmSize)) {
+    report('/shmSize', `Invalid shm size "${job.shmSize}" (e.g. 64m, 1g)`);
+  }
+  if (job.pidsLimit !== undefined && (!Number.isInteger(job.pidsLimit) || job.pidsLimit <= 0)) {
+    report('/pidsLimit', 'Pids limit must be a positive integer');
+  }
+
+  if (job.extraArgs && job.extraArgs.length > 0) {
+    // Anything before the first option would be taken as the image
+    if (!job.extraArgs[0].startsWith('-')) {
+      report('/extraArgs/0', `Extra args must start with an option, got "${job.extraArgs[0]}"`);
+    }
+    job.extraArgs.forEach((arg, index) => {
+      if (!arg.startsWith('-')) return;
+      const option = arg.startsWith('--') ? arg.split('=')[0] : arg.slice(0, 2);
+      const reason = RESTRICTED_RUN_OPTIONS[option];
+      if (reason) report(`/extraArgs/${index}`, `Extra arg "${option}" ${reason}`);
+    });
+  }
+
+  return issues;
+}
+
+/**
+ * Find the problems in a job configuration.
+ * Pass the configured jobs to also check dependencies (unknown upstream jobs, cycles).
+ */
+function findJobIssues(job: Partial<Job>, jobs?: Job[]): JobIssue[] {
+  const issues: JobIssue[] = [];
+  const report = (path: string, message: string) => issues.push({ path, message });
 
   if (!job.id) {
-    errors.push('Job ID is required');
+    report('/id', 'Job ID is required');
   } else if (!/^[a-zA-Z0-9_-]+$/.test(job.id)) {
-    errors.push('Job ID must contain only letters, numbers, hyphens, and underscores');
+    report('/id', 'Job ID must contain only letters, numbers, hyphens, and underscores');
   }
 
   if (!job.name) {
-    errors.push('Job name is required');
+    report('/name', 'Job name is required');
   }
 
   // Type-specific validation
@@ -254,53 +515,87 @@ export function validateJob(job: Partial<Job>): string[] {
   if (jobType === 'agent-pipeline') {
     const pj = job as Partial<PipelineJob>;
     if (!pj.source) {
-      errors.push('Source configuration is required for pipeline jobs');
+      report('/source', 'Source configuration is required for pipeline jobs');
     } else if (!pj.source.repo) {
-      errors.push('Source repo URL is required');
+      report('/source/repo', 'Source repo URL is required');
     }
     if (!pj.pipeline) {
-      errors.push('Pipeline name is required');
+      report('/pipeline', 'Pipeline name is required');
     }
   } else {
     // Docker job (default)
     const dj = job as Partial<DockerJob>;
-    if (!dj.image) {
-      errors.push('Docker image is required');
+    if (!dj.image && !dj.build) {
+      report('/image', 'Docker image is required');
+    } else if (dj.image && dj.build) {
+      report('/build', 'Set either image or build, not both');
+    }
+    if (dj.build !== undefined) {
+      issues.push(...findBuildIssues(dj.build));
     }
+    issues.push(...findPullIssues(dj));
     if (!dj.command) {
-      errors.push('Command is required');
+      report('/command', 'Command is required');
     }
+    issues.push(...findDockerOptionIssues(dj));
   }
 
   if (!job.schedule) {
-    errors.push('Schedule is required');
+    report('/schedule', 'Schedule is required');
   } else {
     if (job.schedule.type === 'cron') {
       if (!job.schedule.cron) {
-        errors.push('Cron expression is required for cron schedule');
+        report('/schedule/cron', 'Cron expression is required for cron schedule');
       } else {
-        // Basic cron validation (5 fields)
-        const parts = job.schedule.cron.trim().split(/\s+/);
-        if (parts.length !== 5) {
-          errors.push('Cron expression must have 5 fields (minute hour day month weekday)');
+        const cronError = validateCron(job.schedule.cron);
+        if (cronError) {
+          report('/schedule/cron', `Invalid cron expression: ${cronError}`);
         }
       }
     } else if (job.schedule.type === 'once') {
       if (!job.schedule.datetime) {
-        errors.push('Datetime is required for one-time schedule');
+        report('/schedule/datetime', 'Datetime is required for one-time schedule');
       } else {
         // Basic datetime validation
         const date = new Date(job.schedule.datetime);
         if (isNaN(date.getTime())) {
-          errors.push('Invalid datetime format');
+          report('/schedule/datetime', 'Invalid datetime format');
         }
       }
     } else if (job.schedule.type === 'random-window') {
       if (!job.schedule.start || !job.schedule.end) {
-        errors.push('Start and end times are required for random-window schedule');
+        report('/schedule', 'Start and end times are required for random-window schedule');
       } else {
         const rwErr = validateRandomWindow(job.schedule);
-        if (rwErr) errors.push(rwErr);
+        if (rwErr) report('/schedule', rwErr);
+      }
+    } else if (job.schedule.type === 'after') {
+      if (!Array.isArray(job.schedule.jobs) || job.schedule.jobs.length === 0) {
+        report('/schedule/jobs', 'At least one upstream job is required for an after schedule');
+      }
+      if (job.schedule.on !== undefined && !DEPENDENCY_OUTCOMES.includes(job.schedule.on)) {
+        report('/schedule/on', 'Dependency outcome must be one of: success, failure, any');
+      }
+    }
+
+    if (job.schedule.type !== 'after' && job.schedule.timezone !== undefined && !isValidTimezone(job.schedule.timezone)) {
+      report(
+        '/schedule/timezone',
+        `Invalid schedule timezone "${job.schedule.timezone}" (expected an IANA name like America/Los_Angeles)`,
+      );
+    }
+  }
+
+  // Validate env references if present
+  if (job.env) {
+    for (const [key, value] of Object.entries(job.env)) {
+      const envPath = joinJsonPointer('/env', key);
+      if (!/^[^=\s]+$/.test(key)) {
+        report(envPath, `Invalid env var name "${key}" (must not be empty or contain '=' or whitespace)`);
+      }
+      if (isEnvRef(value) && 'secret' in value) {
+        const nameError = validateSecretName(value.secret);
+        if (nameError) report(`${envPath}/secret`, nameError);
       }
     }
   }
@@ -308,17 +603,210 @@ export function validateJob(job: Partial<Job>): string[] {
   // Validate resources if present
   if (job.resources) {
     if (job.resources.timeout !== undefined && job.resources.timeout < 0) {
-      errors.push('Resources timeout must be a positive number');
+      report('/resources/timeout', 'Resources timeout must be a positive number');
     }
     if (job.resources.cpus !== undefined && job.resources.cpus <= 0) {
-      errors.push('Resources CPUs must be a positive number');
+      report('/resources/cpus', 'Resources CPUs must be a positive number');
     }
   }
 
+  // Validate notifications if present
+  if (job.notifications) {
+    for (const key of ['slack', 'webhook'] as const) {
+      const url = job.notifications[key];
+      if (url !== undefined && !/^https?:\/\/\S+$/.test(url)) {
+        report(`/notifications/${key}`, `Notification ${key} must be an http(s) URL`);
+      }
+    }
+    if (job.notifications.command !== undefined && !job.notifications.command.trim()) {
+      report('/notifications/command', 'Notification command must not be empty');
+    }
+  }
+
+  if (job.security !== undefined && !SECURITY_PROFILES.includes(job.security)) {
+    report('/security', 'Security profile must be one of: strict, standard, none');
+  }
+  if (job.allowedDomains !== undefined) {
+    if (job.security !== 'strict') {
+      report('/allowedDomains', 'Allowed domains only apply to the strict security profile');
+    }
+    job.allowedDomains.forEach((domain, index) => {
+      const domainError = validateAllowedDomain(domain);
+      if (domainError) report(`/allowedDomains/${index}`, domainError);
+    });
+  }
+  if (job.security === 'strict' && (job as Partial<DockerJob>).network !== undefined) {
+    report('/network', 'Strict jobs cannot choose a network (use allowedDomains for network access)');
+  }
+  if (job.seccomp !== undefined) {
+    if (typeof job.seccomp !== 'string' || !job.seccomp.trim()) {
+      report('/seccomp', 'Seccomp profile must be the path of a JSON profile');
+    } else if (job.seccomp === 'unconfined') {
+      report('/seccomp', 'Seccomp profile "unconfined" disables syscall filtering (remove the field for Docker\'s default profile)');
+    }
+  }
+
+  if (job.concurrencyPolicy !== undefined && !['skip', 'queue', 'replace'].includes(job.concurrencyPolicy)) {
+    report('/concurrencyPolicy', 'Concurrency policy must be one of: skip, queue, replace');
+  }
+
+  if (job.catchUp !== undefined && !['none', 'latest', 'all'].includes(job.catchUp)) {
+    report('/catchUp', 'Catch-up policy must be one of: none, latest, all');
+  }
+
+  if (job.retry) {
+    for (const message of validateRetry(job.retry)) report('/retry', message);
+  }
+
+  if (jobs) {
+    for (const message of validateDependencies(job, jobs)) report('/schedule/jobs', message);
+  }
+
   // Legacy timeout validation (DockerJob)
   if ('timeout' in job && (job as DockerJob).timeout !== undefined && (job as DockerJob).timeout! < 0) {
-    errors.push('Timeout must be a positive number');
+    report('/timeout', 'Timeout must be a positive number');
+  }
+
+  return issues;
+}
+
+/**
+ * Validate a job configuration.
+ * Pass the configured jobs to also check dependencies (unknown upstream jobs, cycles).
+ */
+export function validateJob(job: Partial<Job>, jobs?: Job[]): string[] {
+  return findJobIssues(job, jobs).map((issue) => issue.message);
+}
+
+/** A problem found in a jobs file */
+export interface JobsFileIssue {
+  /** JSON pointer to the offending value (e.g. /jobs/2/schedule/cron) */
+  path: string;
+  /** Line in the file (1-based), when known */
+  line?: number;
+  /** ID of the job the problem belongs to */
+  jobId?: string;
+  message: string;
+}
+
+/**
+ * Validate the content of a jobs file: its structure against the JSON Schema
+ * (unknown properties, wrong types, missing fields), then the settings of each
+ * structurally valid job. Returns the problems found (empty when valid).
+ */
+export function validateJobsDocument(content: string): JobsFileIssue[] {
+  let data: unknown;
+  try {
+    data = JSON.parse(content);
+  } catch (err) {
+    const msg = err instanceof Error ? err.message : String(err);
+    return [{ path: '', line: locateJsonSyntaxError(content, msg)?.line, message: `Invalid JSON: ${msg}` }];
+  }
+
+  const locations = getJsonLocations(content);
+  const file = data as Record<string, unknown> | null;
+  const records: unknown[] = file && typeof file === 'object' && Array.isArray(file.jobs) ? file.jobs : [];
+  const isRecord = (value: unknown): value is Record<string, unknown> =>
+    typeof value === 'object' && value !== null && !Array.isArray(value);
+
+  const issues: JobsFileIssue[] = [];
+  const report = (path: string, message: string): void => {
+    const match = /^\/jobs\/(\d+)(?:\/|$)/.exec(path);
+    const record = match ? records[Number(match[1])] : undefined;
+    const jobId = isRecord(record) && typeof record.id === 'string' ? record.id : undefined;
+    issues.push({ path, line: findJsonLocation(locations, path)?.line, ...(jobId ? { jobId } : {}), message });
+  };
+
+  // Check jobs the way they are loaded (legacy jobs have no type)
+  const jobs = records.map((record) => (isRecord(record) ? normalizeJob(record) : record));
+  const document = records.length > 0 ? { ...file, jobs } : data;
+  const schemaErrors = validateSchema(document, getJobsSchema());
+  for (const { path, message } of schemaErrors) {
+    report(path, message);
+  }
+
+  const validJobs = jobs.filter(
+    (_, index) => !schemaErrors.some(({ path }) => path === `/jobs/${index}` || path.startsWith(`/jobs/${index}/`)),
+  ) as Job[];
+  const firstIndex = new Map<string, number>();
+  jobs.forEach((job, index) => {
+    if (!validJobs.includes(job as Job)) return;
+    const { id } = job as Job;
+    const prefix = `/jobs/${index}`;
+    if (firstIndex.has(id)) {
+      report(`${prefix}/id`, `Duplicate job ID "${id}" (also used by /jobs/${firstIndex.get(id)})`);
+    } else {
+      firstIndex.set(id, index);
+    }
+    for (const issue of findJobIssues(job as Job, validJobs)) {
+      report(prefix + issue.path, issue.message);
+    }
+  });
+
+  return issues;
+}
+
+/**
+ * Validate a parsed job definition against the schema, then its settings.
+ * Pass the configured jobs to also check dependencies. When the definition
+ * replaces `original`, its ID and type must not change.
+ * Issue paths are relative to the job. Returns the problems found (empty when valid).
+ */
+export function validateJobDefinition(record: unknown, jobs?: Job[], original?: Job): JobIssue[] {
+  const normalized = typeof record === 'object' && record !== null && !Array.isArray(record)
+    ? normalizeJob(record as Record<string, unknown>)
+    : record;
+  const schemaErrors = validateSchema(normalized, { $ref: '#/definitions/Job' }, getJobsSchema());
+  if (schemaErrors.length > 0) {
+    return schemaErrors;
   }
 
-  return errors;
+  const job = normalized as Job;
+  if (original && job.id !== original.id) {
+    return [{ path: '/id', message: `The job ID cannot be changed (expected "${original.id}")` }];
+  }
+  if (original && job.type !== original.type) {
+    return [{ path: '/type', message: `The job type cannot be changed (expected "${original.type}")` }];
+  }
+  return findJobIssues(job, jobs && [...jobs.filter((other) => other.id !== job.id), job]);
+}
+
+/**
+ * Validate the JSON of a single job definition, such as one opened in an
+ * editor (see validateJobDefinition). Returns the problems found with their lines.
+ */
+export function validateJobDocument(content: string, jobs: Job[], original?: Job): JobsFileIssue[] {
+  let data: unknown;
+  try {
+    data = JSON.parse(content);
+  } catch (err) {
+    const msg = err instanceof Error ? err.message : String(err);
+    return [{ path: '', line: locateJsonSyntaxError(content, msg)?.line, message: `Invalid JSON: ${msg}` }];
+  }
+
+  const locations = getJsonLocations(content);
+  return validateJobDefinition(data, jobs, original).map(({ path, message }) => ({
+    path,
+    line: findJsonLocation(locations, path)?.line,
+    message,
+  }));
+}
+
+/**
+ * Validate the jobs file (see validateJobsDocument)
+ * @throws Error if the file cannot be read
+ */
+export function validateJobsFile(config: Config): JobsFileIssue[] {
+  const jobsPath = getJobsFilePath(config);
+  if (!fs.existsSync(jobsPath)) {
+    return [];
+  }
+
+  let content: string;
+  try {
+    content = fs.readFileSync(jobsPath, 'utf-8');
+  } catch (err) {
+    throw new Error(`Failed to read ${jobsPath}: ${err instanceof Error ? err.message : String(err)}`);
+  }
+  return validateJobsDocument(content);
 }
@@ -0,0 +1,168 @@
+/**
+ * Process-level lock files
+ * A lock is a file holding the owner's PID, created by hard-linking a
+ * complete temp file so it is never seen empty. Locks left behind by
+ * processes that no longer exist are treated as stale, and are replaced by
+ * one process at a time.
+ */
+
+import * as fs from 'node:fs';
+import * as path from 'node:path';
+
+/**
+ * Check whether a process with the given PID is alive
+ */
+function isProcessAlive(pid: number): boolean {
+  try {
+    process.kill(pid, 0);
+    return true;
+  } catch (err) {
+    // EPERM means the process exists but belongs to another user
+    return (err as NodeJS.ErrnoException).code === 'EPERM';
+  }
+}
+
+/**
+ * Read the PID stored in a lock file (null if unreadable)
+ */
+export function readLockOwner(lockPath: string): number | null {
+  try {
+    const pid = parseInt(fs.readFileSync(lockPath, 'utf-8').trim(), 10);
+    return Number.isInteger(pid) && pid > 0 ? pid : null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * How long a lock file without a readable PID, or an abandoned takeover,
+ * counts as held. Writing a lock takes far less.
+ */
+const UNREADABLE_LOCK_STALE_MS = 10_000;
+
+/**
+ * Write this process's PID to a new temp file next to the lock
+ */
+function writeOwnerFile(lockPath: string): string {
+  const tmpPath = `${lockPath}.owner-${process.pid}-${Math.random().toString(36).slice(2)}`;
+  fs.writeFileSync(tmpPath, String(process.pid), { flag: 'wx' });
+  return tmpPath;
+}
+
+/**
+ * Create a lock file holding this process's PID, unless it exists
+ */
+function createLockFile(lockPath: string): boolean {
+  const tmpPath = writeOwnerFile(lockPath);
+  try {
+    fs.linkSync(tmpPath, lockPath);
+    return true;
+  } catch (err) {
+    if ((err as NodeJS.ErrnoException).code !== 'EEXIST') throw err;
+    return false;
+  } finally {
+    fs.rmSync(tmpPath, { force: true });
+  }
+}
+
+/**
+ * Whether a lock is free, held by a live process, or stale. A lock without
+ * a readable PID is held until it has not been touched for a while.
+ */
+function getLockState(lockPath: string): 'free' | 'held' | 'stale' {
+  let mtimeMs: number;
+  try {
+    mtimeMs = fs.statSync(lockPath).mtimeMs;
+  } catch {
+    return 'free';
+  }
+  const owner = readLockOwner(lockPath);
+  if (owner !== null) {
+    return isProcessAlive(owner) ? 'held' : 'stale';
+  }
+  return Date.now() - mtimeMs > UNREADABLE_LOCK_STALE_MS ? 'stale' : 'held';
+}
+
+/**
+ * Replace a stale lock with one held by this process. A takeover lock makes
+ * sure only one process does so, after checking again that the lock is
+ * still stale; the replacement is an atomic rename.
+ */
+function replaceStaleLock(lockPath: string): boolean {
+  const takeoverPath = `${lockPath}.takeover`;
+  if (!createLockFile(takeoverPath)) {
+    // Left behind by a process that died while taking over
+    try {
+      if (Date.now() - fs.statSync(takeoverPath).mtimeMs > UNREADABLE_LOCK_STALE_MS) {
+        fs.rmSync(takeoverPath, { force: true });
+      }
+    } catch {
+      // Already gone
+    }
+    return false;
+  }
+
+  try {
+    const state = getLockState(lockPath);
+    if (state === 'free') return createLockFile(lockPath);
+    if (state === 'held') return false;
+    fs.renameSync(writeOwnerFile(lockPath), lockPath);
+    return true;
+  } finally {
+    fs.rmSync(takeoverPath, { force: true });
+  }
+}
+
+/**
+ * Try to acquire a lock without waiting.
+ * Returns false if another live process holds it, or is taking it over.
+ */
+export function acquireLock(lockPath: string): boolean {
+  fs.mkdirSync(path.dirname(lockPath), { recursive: true });
+
+  for (let attempt = 0; attempt < 2; attempt++) {
+    if (createLockFile(lockPath)) return true;
+
+    const state = getLockState(lockPath);
+    if (state === 'held') return false;
+    // Stale lock from a process that exited without releasing it
+    if (state === 'stale') return replaceStaleLock(lockPath);
+    // Released in the meantime: try again
+  }
+
+  return false;
+}
+
+/**
+ * Release a lock held by this process
+ */
+export function releaseLock(lockPath: string): void {
+  if (readLockOwner(lockPath) === process.pid) {
+    fs.rmSync(lockPath, { force: true });
+  }
+}
+
+/** How often a blocking lock attempt retries */
+const LOCK_RETRY_MS = 25;
+
+/**
+ * Acquire a lock, waiting up to `timeoutMs` for another process to release it.
+ * Blocks the thread while waiting, so only use it around short synchronous updates.
+ * @throws Error if the lock is still held when the timeout expires
+ */
+export function acquireLockSync(lockPath: string, timeoutMs: number): void {
+  const deadline = Date.now() + timeoutMs;
+  const sleeper = new Int32Array(new SharedArrayBuffer(4));
+
+  while (!acquireLock(lockPath)) {
+    const owner = readLockOwner(lockPath);
+    if (owner === process.pid) {
+      throw new Error(`Lock ${lockPath} is already held by this process`);
+    }
+    if (Date.now() >= deadline) {
+      const holder = owner !== null ? ` (held by PID ${owner})` : '';
+      throw new Error(`Timed out waiting for lock ${lockPath}${holder}`);
+    }
+    Atomics.wait(sleeper, 0, 0, LOCK_RETRY_MS);
+  }
+}
@@ -0,0 +1,183 @@
+/**
+ * Job run notifications
+ * Delivers run results to Slack incoming webhooks, generic JSON webhooks,
+ * and local shell commands according to a job's NotificationConfig.
+ */
+
+import { execa } from 'execa';
+import type { Job, JobRunResult, NotificationConfig } from './types.js';
+import { readLogTail } from './docker.js';
+
+const DELIVERY_TIMEOUT_MS = 10_000;
+const LOG_TAIL_CHARS = 2000;
+
+/** Notification channels supported by NotificationConfig */
+export type NotificationChannel = 'slack' | 'webhook' | 'command';
+
+/** Data describing a finished run, sent to every channel */
+export interface NotificationPayload {
+  jobId: string;
+  jobName: string;
+  status: 'success' | 'failure';
+  exitCode: number;
+  /** Run duration in milliseconds */
+  durationMs: number;
+  logFile: string;
+  logTail: string;
+  /** ISO 8601 timestamp of when the notification was built */
+  timestamp: string;
+}
+
+/** Outcome of delivering a notification to one channel */
+export interface NotificationResult {
+  channel: NotificationChannel;
+  success: boolean;
+  error?: string;
+}
+
+/**
+ * Check whether a job's notification settings ask for this result to be sent.
+ * Failures are notified unless `onFailure` is false; successes only when `onSuccess` is true.
+ */
+export function shouldNotify(notifications: NotificationConfig | undefined, success: boolean): boolean {
+  if (!notifications) return false;
+  if (!notifications.slack && !notifications.webhook && !notifications.command) return false;
+  return success ? notifications.onSuccess === true : notifications.onFailure !== false;
+}
+
+/**
+ * Build the payload for a finished run.
+ */
+export function buildNotificationPayload(
+  job: Job,
+  result: JobRunResult,
+  durationMs: number,
+): NotificationPayload {
+  return {
+    jobId: job.id,
+    jobName: job.name,
+    status: result.success ? 'success' : 'failure',
+    exitCode: result.exitCode,
+    durationMs,
+    logFile: result.logFile,
+    logTail: readLogTail(result.logFile, LOG_TAIL_CHARS),
+    timestamp: new Date().toISOString(),
+  };
+}
+
+/**
+ * Format a duration in milliseconds for notification text.
+ */
+function formatDurationMs(durationMs: number): string {
+  const seconds = Math.round(durationMs / 1000);
+  if (seconds < 60) return `${seconds}s`;
+  const m = Math.floor(seconds / 60);
+  const s = seconds % 60;
+  return s > 0 ? `${m}m ${s}s` : `${m}m`;
+}
+
+/**
+ * Build the Slack incoming-webhook message body.
+ */
+export function formatSlackMessage(payload: NotificationPayload): { text: string } {
+  const icon = payload.status === 'success' ? ':white_check_mark:' : ':x:';
+  const lines = [
+    `${icon} Job *${payload.jobName}* (\`${payload.jobId}\`) ${payload.status === 'success' ? 'succeeded' : 'failed'}`,
+    `Exit code: ${payload.exitCode} · Duration: ${formatDurationMs(payload.durationMs)}`,
+    `Log: ${payload.logFile}`,
+  ];
+  if (payload.logTail) {
+    lines.push('```' + payload.logTail + '```');
+  }
+  return { text: lines.join('\n') };
+}
+
+async function postJson(url: string, body: unknown): Promise<void> {
+  const controller = new AbortController();
+  const timer = setTimeout(() => controller.abort(), DELIVERY_TIMEOUT_MS);
+  timer.unref?.();
+
+  try {
+    const res = await fetch(url, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(body),
+      signal: controller.signal,
+    });
+    if (!res.ok) {
+      throw new Error(`HTTP ${res.status} ${res.statusText}`.trim());
+    }
+  } finally {
+    clearTimeout(timer);
+  }
+}
+
+/**
+ * Run a local notification command via `sh -c`.
+ * The payload is passed as JSON on stdin and as AGENT_OVEN_* env vars.
+ */
+async function runNotifyCommand(command: string, payload: NotificationPayload): Promise<void> {
+  const result = await execa('sh', ['-c', command], {
+    input: JSON.stringify(payload),
+    timeout: DELIVERY_TIMEOUT_MS,
+    reject: false,
+    env: {
+      AGENT_OVEN_JOB_ID: payload.jobId,
+      AGENT_OVEN_JOB_NAME: payload.jobName,
+      AGENT_OVEN_STATUS: payload.status,
+      AGENT_OVEN_EXIT_CODE: String(payload.exitCode),
+      AGENT_OVEN_DURATION_MS: String(payload.durationMs),
+      AGENT_OVEN_LOG_FILE: payload.logFile,
+    },
+  });
+  if (result.exitCode !== 0) {
+    const stderr = typeof result.stderr === 'string' ? result.stderr.trim() : '';
+    throw new Error(`Command exited with code ${result.exitCode ?? 1}${stderr ? `: ${stderr}` : ''}`);
+  }
+}
+
+async function deliver(
+  channel: NotificationChannel,
+  send: () => Promise<void>,
+): Promise<NotificationResult> {
+  try {
+    await send();
+    return { channel, success: true };
+  } catch (err) {
+    return { channel, success: false, error: err instanceof Error ? err.message : String(err) };
+  }
+}
+
+/**
+ * Send notifications for a finished run. Never throws; delivery failures
+ * are returned per channel so callers can log them.
+ */
+export async function sendNotifications(
+  job: Job,
+  result: JobRunResult,
+  durationMs: number,
+): Promise<NotificationResult[]> {
+  const notifications = job.notifications;
+  if (!notifications || !shouldNotify(notifications, result.success)) {
+    return [];
+  }
+
+  const payload = buildNotificationPayload(job, result, durationMs);
+  const deliveries: Promise<NotificationResult>[] = [];
+
+  if (notifications.slack) {
+    const url = notifications.slack;
+    deliveries.push(deliver('slack', () => postJson(url, formatSlackMessage(payload))));
+  }
+  if (notifications.webhook) {
+    const url = notifications.webhook;
+    deliveries.push(deliver('webhook', () => postJson(url, payload)));
+  }
+  if (notifications.command) {
+    const command = notifications.command;
+    deliveries.push(deliver('command', () => runNotifyCommand(command, payload)));
+  }
+
+  return Promise.all(deliveries);
+}
+
@@ -118,6 +118,13 @@ export class DarwinAdapter implements PlatformAdapter {
       );
     }
 
+    if (!/<key>AbandonProcessGroup<\/key>\s*<true\/>/.test(content)) {
+      return (
+        'Daemon config stops the job workers a scheduler tick starts when the tick exits.\n' +
+        'The daemon will be regenerated to leave them running.'
+      );
+    }
+
     return null;
   }
 
@@ -201,6 +208,9 @@ ${programArgs}
     <key>RunAtLoad</key>
     <true/>
 
+    <key>AbandonProcessGroup</key>
+    <true/>
+
     <key>StandardOutPath</key>
     <string>${schedulerLogPath}</string>
 
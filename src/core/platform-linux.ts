@@ -135,6 +135,13 @@ export class LinuxAdapter implements PlatformAdapter {
       );
     }
 
+    if (!/^KillMode=process$/m.test(content)) {
+      return (
+        'Daemon config stops the job workers a scheduler tick starts when the tick exits.\n' +
+        'The daemon will be regenerated to leave them running.'
+      );
+    }
+
     return null;
   }
 
@@ -211,6 +218,7 @@ Description=Agent Oven Scheduler (one-shot tick)
 [Service]
 Type=oneshot
 ExecStart=${execStart}
+KillMode=process
 StandardOutput=${logOutput}
 StandardError=${logOutput}
 `;
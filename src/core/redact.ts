@@ -0,0 +1,173 @@
+/**
+ * Redaction of secrets from logs
+ * Everything written to job logs, run history and the scheduler log passes
+ * through a redactor that masks known secret values (resolved env
+ * references, auth credentials, env vars with secret-looking names) and
+ * anything matching a redaction pattern.
+ */
+
+import type { Config, EnvVars, Job } from './types.js';
+import { isEnvRef } from './types.js';
+import { listSecrets, getSecret } from './secrets.js';
+
+/** Replacement for masked text */
+export const REDACTED = '[REDACTED]';
+
+/** Patterns for well-known token formats, always masked */
+export const DEFAULT_REDACT_PATTERNS = [
+  'sk-ant-[A-Za-z0-9_-]{16,}', // Anthropic API keys
+  'gh[pousr]_[A-Za-z0-9]{30,}', // GitHub tokens
+  'github_pat_[A-Za-z0-9_]{30,}', // GitHub fine-grained tokens
+  'xox[abposr]-[A-Za-z0-9-]{10,}', // Slack tokens
+];
+
+/** Env var names whose values are treated as secret */
+const SENSITIVE_KEY_PATTERN = /SECRET|TOKEN|PASSWORD|PASSWD|API_?KEY|PRIVATE_KEY|CREDENTIAL|AUTH/i;
+
+/** Values shorter than this are not masked, so values like "1" do not mangle output */
+const MIN_REDACT_LENGTH = 4;
+
+/** Env var passing the rules to the output filter of detached runs */
+export const REDACT_RULES_ENV = 'AGENT_OVEN_REDACT';
+
+/** What a redactor masks */
+export interface RedactionRules {
+  /** Literal values */
+  values: string[];
+  /** Regular expressions */
+  patterns: string[];
+}
+
+/**
+ * Check a redaction pattern. Returns an error message, or null if valid.
+ */
+export function validateRedactPattern(pattern: string): string | null {
+  try {
+    new RegExp(pattern);
+    return null;
+  } catch (err) {
+    const msg = err instanceof Error ? err.message : String(err);
+    return `Invalid pattern "${pattern}": ${msg}`;
+  }
+}
+
+/**
+ * Check whether an env var's value should be treated as secret because of its name
+ */
+export function isSensitiveKey(config: Config, key: string): boolean {
+  return SENSITIVE_KEY_PATTERN.test(key) || (config.redaction?.keys ?? []).includes(key);
+}
+
+/**
+ * Combine rules, dropping duplicates and values too short to mask
+ */
+function makeRules(config: Config, values: Iterable<string | undefined>): RedactionRules {
+  const unique = new Set<string>();
+  for (const value of values) {
+    if (value && value.length >= MIN_REDACT_LENGTH) unique.add(value);
+  }
+  return {
+    values: [...unique],
+    patterns: [...DEFAULT_REDACT_PATTERNS, ...(config.redaction?.patterns ?? [])],
+  };
+}
+
+/**
+ * Rules for a job run: the resolved values of env references, env vars with
+ * secret-looking names, and env vars added by the auth layer
+ */
+export function getRunRedactionRules(
+  config: Config,
+  env: EnvVars | undefined,
+  resolvedEnv: Record<string, string>,
+  authEnv: Record<string, string> = {},
+): RedactionRules {
+  const values = Object.entries(env ?? {})
+    .filter(([key, value]) => isEnvRef(value) || isSensitiveKey(config, key))
+    .map(([key]) => resolvedEnv[key]);
+  return makeRules(config, [...values, ...Object.values(authEnv)]);
+}
+
+/**
+ * Rules for the scheduler log: stored secrets, the scheduler's own env vars
+ * with secret-looking names (e.g. ANTHROPIC_API_KEY, GH_TOKEN), and the
+ * secret values jobs define or reference
+ */
+export function getSchedulerRedactionRules(config: Config, jobs: Job[] = []): RedactionRules {
+  const values: (string | undefined)[] = [];
+
+  for (const [key, value] of Object.entries(process.env)) {
+    if (isSensitiveKey(config, key)) values.push(value);
+  }
+
+  try {
+    for (const { name } of listSecrets(config)) {
+      try {
+        values.push(getSecret(config, name));
+      } catch {
+        // Undecryptable secrets cannot be used by jobs either
+      }
+    }
+  } catch {
+    // No readable secret store
+  }
+
+  for (const job of jobs) {
+    for (const [key, value] of Object.entries(job.env ?? {})) {
+      if (!isEnvRef(value)) {
+        if (isSensitiveKey(config, key)) values.push(value);
+      } else if ('fromEnv' in value) {
+        values.push(process.env[value.fromEnv]);
+      }
+    }
+  }
+
+  return makeRules(config, values);
+}
+
+function escapeRegExp(value: string): string {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+/**
+ * Create a function that masks the rules' values and patterns in text.
+ * Longer values are masked first, so a value containing another is masked whole.
+ */
+export function createRedactor(rules: RedactionRules): (text: string) => string {
+  const sources = [
+    ...[...rules.values].sort((a, b) => b.length - a.length).map(escapeRegExp),
+    ...rules.patterns,
+  ];
+  if (sources.length === 0) return (text) => text;
+
+  const regex = new RegExp(sources.map((source) => `(?:${source})`).join('|'), 'g');
+  return (text) => text.replace(regex, REDACTED);
+}
+
+/**
+ * Node program that copies stdin to stdout line by line as job log output
+ * lines, masking the rules in $AGENT_OVEN_REDACT the same way createRedactor does.
+ * Its arguments are the stream name and the log format: `<time> <stream> | <text>`
+ * lines for text logs, or output events for JSON-lines logs. Detached runs
+ * pipe docker's output through it, since the scheduler exits before they finish.
+ */
+export const REDACT_FILTER_SCRIPT = `
+const rules = JSON.parse(process.env.${REDACT_RULES_ENV} || '{"values":[],"patterns":[]}');
+const escape = (value) => value.replace(/[.*+?^\${}()|[\\]\\\\]/g, '\\\\$&');
+const sources = [
+  ...rules.values.slice().sort((a, b) => b.length - a.length).map(escape),
+  ...rules.patterns,
+];
+const regex = sources.length > 0 ? new RegExp(sources.map((s) => '(?:' + s + ')').join('|'), 'g') : null;
+const redact = (text) => (regex ? text.replace(regex, ${JSON.stringify(REDACTED)}) : text);
+const stream = process.argv[1] || 'stdout';
+const format = process.argv[2] || 'text';
+const lines = require('node:readline').createInterface({ input: process.stdin, crlfDelay: Infinity });
+lines.on('line', (line) => {
+  const timestamp = new Date().toISOString();
+  const text = redact(line);
+  process.stdout.write((format === 'jsonl'
+    ? JSON.stringify({ type: 'output', timestamp, stream, text })
+    : timestamp + ' ' + stream + ' | ' + text) + '\\n');
+});
+`;
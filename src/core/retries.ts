@@ -0,0 +1,124 @@
+/**
+ * Retry policy for failed runs
+ * Pending retries are persisted in logs/retries.json (keyed by job ID)
+ * so a retry scheduled by one scheduler tick is picked up by a later one.
+ */
+
+import * as fs from 'node:fs';
+import type { Config, PendingRetry, RetryConfig } from './types.js';
+import { getRetryStatePath } from './config.js';
+import { acquireLockSync, releaseLock } from './locks.js';
+import { writeFileAtomic } from './files.js';
+
+/** Default seconds before the first retry */
+export const DEFAULT_RETRY_DELAY = 60;
+
+/** Default delay multiplier between retries */
+export const DEFAULT_RETRY_BACKOFF = 2;
+
+/** How long a write waits for another process to finish updating retries.json */
+const RETRY_LOCK_TIMEOUT_MS = 5_000;
+
+/**
+ * Check whether a failed attempt should be retried.
+ * `attempt` is the number of the attempt that just finished (1 for the first run).
+ */
+export function shouldRetry(retry: RetryConfig | undefined, exitCode: number, attempt: number): boolean {
+  if (!retry || exitCode === 0) return false;
+  if (attempt >= retry.maxAttempts) return false;
+  if (retry.exitCodes && retry.exitCodes.length > 0) {
+    return retry.exitCodes.includes(exitCode);
+  }
+  return true;
+}
+
+/**
+ * Seconds to wait before running `attempt` (2 for the first retry).
+ * The delay grows by the backoff factor with each retry.
+ */
+export function getRetryDelay(retry: RetryConfig, attempt: number): number {
+  const delay = retry.delay ?? DEFAULT_RETRY_DELAY;
+  const backoff = retry.backoff ?? DEFAULT_RETRY_BACKOFF;
+  return delay * Math.pow(backoff, Math.max(0, attempt - 2));
+}
+
+/**
+ * Validate a retry policy. Returns error messages (empty when valid).
+ */
+export function validateRetry(retry: RetryConfig): string[] {
+  const errors: string[] = [];
+  if (!Number.isInteger(retry.maxAttempts) || retry.maxAttempts < 1) {
+    errors.push('Retry maxAttempts must be a positive integer');
+  }
+  if (retry.delay !== undefined && !(retry.delay >= 0)) {
+    errors.push('Retry delay must be a non-negative number of seconds');
+  }
+  if (retry.backoff !== undefined && !(retry.backoff >= 1)) {
+    errors.push('Retry backoff must be a number >= 1');
+  }
+  if (retry.exitCodes !== undefined
+    && (!Array.isArray(retry.exitCodes) || !retry.exitCodes.every((c) => Number.isInteger(c) && c > 0))) {
+    errors.push('Retry exitCodes must be a list of non-zero exit codes');
+  }
+  return errors;
+}
+
+/**
+ * Read all pending retries, keyed by job ID
+ */
+export function readPendingRetries(config: Config): Record<string, PendingRetry> {
+  const statePath = getRetryStatePath(config);
+  if (!fs.existsSync(statePath)) {
+    return {};
+  }
+
+  try {
+    const content = fs.readFileSync(statePath, 'utf-8');
+    const parsed = JSON.parse(content) as Record<string, PendingRetry>;
+    return parsed && typeof parsed === 'object' ? parsed : {};
+  } catch {
+    return {};
+  }
+}
+
+/**
+ * Read, modify and write retries.json while holding its lock
+ */
+function modifyPendingRetries(config: Config, modify: (retries: Record<string, PendingRetry>) => void): void {
+  const statePath = getRetryStatePath(config);
+  const lockPath = `${statePath}.lock`;
+  acquireLockSync(lockPath, RETRY_LOCK_TIMEOUT_MS);
+  try {
+    const retries = readPendingRetries(config);
+    modify(retries);
+    writeFileAtomic(statePath, JSON.stringify(retries, null, 2) + '\n');
+  } finally {
+    releaseLock(lockPath);
+  }
+}
+
+/**
+ * Get a job's pending retry, if any
+ */
+export function getPendingRetry(config: Config, jobId: string): PendingRetry | undefined {
+  return readPendingRetries(config)[jobId];
+}
+
+/**
+ * Schedule a retry, replacing any pending retry for the same job
+ */
+export function schedulePendingRetry(config: Config, retry: PendingRetry): void {
+  modifyPendingRetries(config, (retries) => {
+    retries[retry.jobId] = retry;
+  });
+}
+
+/**
+ * Drop a job's pending retry
+ */
+export function clearPendingRetry(config: Config, jobId: string): void {
+  if (!(jobId in readPendingRetries(config))) return;
+  modifyPendingRetries(config, (retries) => {
+    delete retries[jobId];
+  });
+}
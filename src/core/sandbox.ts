@@ -0,0 +1,266 @@
+/**
+ * Security profiles for job containers
+ * A job's `security` profile adds hardening options to its `docker run`.
+ * Strict jobs get no network, or with allowed domains a per-run internal
+ * network whose only way out is an egress proxy enforcing the allowlist.
+ */
+
+import { execa } from 'execa';
+import * as os from 'node:os';
+import * as path from 'node:path';
+import type { Job, SecurityProfile } from './types.js';
+import { isPipelineJob } from './types.js';
+
+/** Supported security profiles */
+export const SECURITY_PROFILES: SecurityProfile[] = ['strict', 'standard', 'none'];
+
+/** Capabilities the standard profile drops: Docker grants them, jobs rarely need them */
+const STANDARD_CAP_DROP = ['NET_RAW', 'MKNOD', 'AUDIT_WRITE', 'SETFCAP', 'SYS_CHROOT'];
+
+/** Domains strict pipeline jobs can always reach: the Claude API and GitHub */
+export const PIPELINE_ALLOWED_DOMAINS = [
+  'api.anthropic.com',
+  'github.com',
+  '*.github.com',
+  '*.githubusercontent.com',
+];
+
+/** Image the egress proxy runs in (it only needs node) */
+export const EGRESS_PROXY_IMAGE = 'agent-oven/pipeline-runner';
+
+/** Host name and port of the egress proxy on a run's network */
+const EGRESS_PROXY_HOST = 'egress-proxy';
+const EGRESS_PROXY_PORT = 3128;
+
+/** Env var passing the allowlist to the egress proxy */
+const EGRESS_ALLOW_ENV = 'AGENT_OVEN_EGRESS_ALLOW';
+
+/** Label identifying the egress proxy and network of a run */
+const EGRESS_LABEL = 'agent-oven.egress';
+
+/** How long an egress proxy is kept before its run's container starts */
+const EGRESS_STARTUP_GRACE_MS = 30 * 60 * 1000;
+
+/**
+ * Node program for the egress proxy: an HTTP proxy that tunnels CONNECT
+ * requests and forwards plain HTTP requests to allowed hosts only.
+ * `*.example.com` allows the subdomains of example.com.
+ */
+export const EGRESS_PROXY_SCRIPT = `
+const http = require('node:http');
+const net = require('node:net');
+const allow = JSON.parse(process.env.${EGRESS_ALLOW_ENV} || '[]').map((d) => d.toLowerCase());
+const allowed = (host) => {
+  host = host.toLowerCase();
+  return allow.some((d) => (d.startsWith('*.') ? host.endsWith(d.slice(1)) : host === d));
+};
+const server = http.createServer((req, res) => {
+  let url;
+  try {
+    url = new URL(req.url);
+  } catch {
+    res.writeHead(400).end();
+    return;
+  }
+  if (url.protocol !== 'http:' || !allowed(url.hostname)) {
+    console.error('denied ' + url.host);
+    res.writeHead(403).end('Blocked by the agent-oven egress allowlist\\n');
+    return;
+  }
+  const upstream = http.request(url, { method: req.method, headers: req.headers }, (up) => {
+    res.writeHead(up.statusCode, up.headers);
+    up.pipe(res);
+  });
+  upstream.on('error', () => res.writeHead(502).end());
+  req.pipe(upstream);
+});
+server.on('connect', (req, socket, head) => {
+  const [host, port] = req.url.split(':');
+  if (!allowed(host)) {
+    console.error('denied ' + req.url);
+    socket.end('HTTP/1.1 403 Forbidden\\r\\n\\r\\n');
+    return;
+  }
+  let established = false;
+  const upstream = net.connect(Number(port) || 443, host, () => {
+    established = true;
+    socket.write('HTTP/1.1 200 Connection Established\\r\\n\\r\\n');
+    upstream.write(head);
+    upstream.pipe(socket);
+    socket.pipe(upstream);
+  });
+  upstream.on('error', () => (established ? socket.destroy() : socket.end('HTTP/1.1 502 Bad Gateway\\r\\n\\r\\n')));
+  socket.on('error', () => upstream.destroy());
+});
+server.listen(${EGRESS_PROXY_PORT});
+`;
+
+/** The egress proxy of a strict run and the internal network it guards */
+export interface EgressProxy {
+  /** Name of the run's internal network, and of the proxy container */
+  name: string;
+  /** Env vars pointing the run's tools at the proxy */
+  env: Record<string, string>;
+}
+
+/**
+ * Get the security profile a job runs with: Docker defaults unless it
+ * chooses one
+ */
+export function getSecurityProfile(job: Job): SecurityProfile {
+  return job.security ?? 'none';
+}
+
+/**
+ * Resolve the path of a job's seccomp profile
+ */
+export function resolveSeccompProfile(projectDir: string, seccomp: string): string {
+  return seccomp.startsWith('~/')
+    ? path.join(os.homedir(), seccomp.slice(2))
+    : path.resolve(projectDir, seccomp);
+}
+
+/**
+ * Get the domains a strict run of a job may reach: the job's allowed
+ * domains, plus the Claude API and GitHub for pipeline jobs
+ */
+export function getAllowedDomains(job: Job): string[] {
+  const domains = [...(isPipelineJob(job) ? PIPELINE_ALLOWED_DOMAINS : []), ...(job.allowedDomains ?? [])];
+  return [...new Set(domains)];
+}
+
+/**
+ * Check an allowed domain. Returns an error message, or null if valid.
+ */
+export function validateAllowedDomain(domain: string): string | null {
+  return /^(\*\.)?([a-zA-Z0-9-]+\.)*[a-zA-Z0-9-]+$/.test(domain)
+    ? null
+    : `Invalid domain "${domain}" (expected a host name like example.com or *.example.com)`;
+}
+
+/**
+ * `docker run` arguments for a security profile, apart from networking.
+ * `writablePaths` get a tmpfs under the strict profile's read-only root filesystem.
+ * A seccomp profile file replaces Docker's default one under any profile.
+ */
+export function securityArgs(profile: SecurityProfile, writablePaths: string[] = [], seccompProfile?: string): string[] {
+  const seccomp = seccompProfile ? [`--security-opt=seccomp=${seccompProfile}`] : [];
+  switch (profile) {
+    case 'strict':
+      return [
+        '--cap-drop=ALL',
+        '--security-opt=no-new-privileges',
+        ...seccomp,
+        '--read-only',
+        ...['/tmp', ...writablePaths].map((p) => `--tmpfs=${p}:rw,exec,nosuid,nodev`),
+      ];
+    case 'standard':
+      return [
+        '--security-opt=no-new-privileges',
+        ...seccomp,
+        ...STANDARD_CAP_DROP.map((capability) => `--cap-drop=${capability}`),
+      ];
+    case 'none':
+      return seccomp;
+  }
+}
+
+/**
+ * Create an internal network for a strict run and start its egress proxy,
+ * attached to that network and the default bridge
+ * @throws Error if docker fails to set either up (nothing is left behind)
+ */
+export async function startEgressProxy(runId: string, domains: string[]): Promise<EgressProxy> {
+  const name = `oven_egress_${runId.slice(0, 8)}`;
+  const label = `${EGRESS_LABEL}=${runId}`;
+  const steps = [
+    ['network', 'create', '--internal', '--label', label, name],
+    [
+      'run', '-d', '--rm',
+      `--name=${name}`,
+      '--label', label,
+      '--cap-drop=ALL',
+      '--security-opt=no-new-privileges',
+      '--read-only',
+      '--memory=128m',
+      '-e', `${EGRESS_ALLOW_ENV}=${JSON.stringify(domains)}`,
+      '--entrypoint=node',
+      EGRESS_PROXY_IMAGE,
+      '-e', EGRESS_PROXY_SCRIPT,
+    ],
+    ['network', 'connect', `--alias=${EGRESS_PROXY_HOST}`, name, name],
+  ];
+
+  for (const args of steps) {
+    const { exitCode, stderr } = await execa('docker', args, { reject: false });
+    if (exitCode !== 0) {
+      await stopEgressProxy(name);
+      const detail = typeof stderr === 'string' ? stderr.trim() : '';
+      throw new Error(`docker ${args[0]} ${args[1]} failed${detail ? `: ${detail}` : ''}`);
+    }
+  }
+
+  const url = `http://${EGRESS_PROXY_HOST}:${EGRESS_PROXY_PORT}`;
+  return {
+    name,
+    env: {
+      HTTP_PROXY: url,
+      HTTPS_PROXY: url,
+      http_proxy: url,
+      https_proxy: url,
+      NO_PROXY: 'localhost,127.0.0.1',
+      no_proxy: 'localhost,127.0.0.1',
+    },
+  };
+}
+
+/**
+ * Shell commands removing a run's egress proxy and network, for detached runs
+ */
+export function stopEgressProxyCommand(name: string, escape: (arg: string) => string): string {
+  return `docker rm -f ${escape(name)} >/dev/null 2>&1; docker network rm ${escape(name)} >/dev/null 2>&1`;
+}
+
+/**
+ * Remove a run's egress proxy and network
+ */
+export async function stopEgressProxy(name: string): Promise<void> {
+  await execa('docker', ['rm', '-f', name], { reject: false });
+  await execa('docker', ['network', 'rm', name], { reject: false });
+}
+
+/**
+ * Remove egress proxies and networks whose run is over. `isRunActive` tells
+ * whether a run's container is still running; proxies younger than
+ * EGRESS_STARTUP_GRACE_MS are kept, as their run may not have started yet.
+ * Returns the names of the removed proxies.
+ */
+export async function removeOrphanedEgressProxies(
+  isRunActive: (runId: string) => boolean,
+  now = Date.now(),
+): Promise<string[]> {
+  const format = `{{.Label "${EGRESS_LABEL}"}}\t{{.CreatedAt}}`;
+  const listings = await Promise.all([
+    execa('docker', ['ps', '-a', '--filter', `label=${EGRESS_LABEL}`, '--format', `{{.Names}}\t${format}`], { reject: false }),
+    execa('docker', ['network', 'ls', '--filter', `label=${EGRESS_LABEL}`, '--format', `{{.Name}}\t${format}`], { reject: false }),
+  ]);
+
+  const orphaned = new Set<string>();
+  for (const { stdout, exitCode } of listings) {
+    if (exitCode !== 0 || typeof stdout !== 'string') continue;
+    for (const line of stdout.split('\n')) {
+      const [name, runId, createdAt] = line.split('\t');
+      if (!name || !runId || isRunActive(runId)) continue;
+      // docker prints e.g. "2026-01-02 03:04:05 +0000 UTC"; drop the zone name
+      const created = Date.parse((createdAt ?? '').replace(/ [A-Z]+$/, ''));
+      if (Number.isFinite(created) && now - created >= EGRESS_STARTUP_GRACE_MS) {
+        orphaned.add(name);
+      }
+    }
+  }
+
+  for (const name of orphaned) {
+    await stopEgressProxy(name);
+  }
+  return [...orphaned];
+}
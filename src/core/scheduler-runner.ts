@@ -5,25 +5,60 @@
  * Reuses existing modules: jobs.ts, docker.ts, scheduler.ts, config.ts.
  * Only housekeeping helpers (log rotation, pruning) and the orchestration
  * loop are new here.
+ *
+ * The tick does not wait for the jobs it starts: each due job runs in a
+ * detached worker process (`agent-oven scheduler-run`), so the next tick
+ * fires on time however long a job takes.
  */
 
 import { execa } from 'execa';
+import { spawn } from 'node:child_process';
 import * as fs from 'node:fs';
 import * as path from 'node:path';
-import type { Config } from './types.js';
-import { listJobs, updateLastRun, removeJob } from './jobs.js';
-import { runJob } from './docker.js';
-import { shouldRunNow } from './scheduler.js';
-import { getLogsDir, getSchedulerLogPath } from './config.js';
+import type { Config, Job, JobState, PendingRetry } from './types.js';
+import { getJob, listJobs, removeJob, validateJobsFile, type JobsFileIssue } from './jobs.js';
+import { getScheduledThrough, readJobStates, recordJobResult, recordScheduledRun, updateJobState } from './state.js';
+import { runJob, isJobRunning, stopJob, removeLeakedContainers, removeStaleEnvFiles } from './docker.js';
+import { sendNotifications } from './notifications.js';
+import { importLegacyLogs, pruneRunHistory } from './history.js';
+import { isJobLogFile } from './job-log.js';
+import {
+  shouldRetry,
+  getRetryDelay,
+  readPendingRetries,
+  schedulePendingRetry,
+  clearPendingRetry,
+} from './retries.js';
+import {
+  evaluateSchedule,
+  getNextRuns,
+  resolveScheduleTimezone,
+  formatDateTime,
+  CATCH_UP_MAX_RUNS,
+  type ScheduleEvaluation,
+} from './scheduler.js';
+import { acquireLock, releaseLock } from './locks.js';
+import { getDependentJobs, dependenciesSatisfied } from './dependencies.js';
+import {
+  DEFAULT_MAX_CONCURRENT_JOBS,
+  getLogsDir,
+  getRunLocksDir,
+  getSchedulerLogPath,
+} from './config.js';
 import { platform } from './platform.js';
+import { buildImage, findJobBuildTag, findMissingImages, listLocalImages, type MissingImage } from './images.js';
+import { createRedactor, getSchedulerRedactionRules } from './redact.js';
+
+/** Masks secrets in scheduler log lines; set up at the start of each tick */
+let redactLog: (text: string) => string = (text) => text;
 
 /**
- * Timestamped log to stdout.
+ * Timestamped log to stdout, with secrets masked.
  * launchd redirects stdout/stderr to scheduler.log via the plist.
  */
 function log(message: string): void {
   const ts = new Date().toISOString().replace('T', ' ').slice(0, 19);
-  console.log(`[${ts}] ${message}`);
+  console.log(redactLog(`[${ts}] ${message}`));
 }
 
 /**
@@ -54,7 +89,8 @@ function rotateSchedulerLog(config: Config): void {
 }
 
 /**
- * Delete *.log files in logs/jobs/ older than 90 days.
+ * Delete job logs (*.log, *.jsonl) in logs/jobs/ older than 90 days,
+ * along with their run history records.
  */
 function pruneOldJobLogs(config: Config): void {
   const jobsLogsDir = path.join(getLogsDir(config), 'jobs');
@@ -70,7 +106,7 @@ function pruneOldJobLogs(config: Config): void {
       if (!fs.statSync(jobDir).isDirectory()) continue;
 
       for (const file of fs.readdirSync(jobDir)) {
-        if (!file.endsWith('.log')) continue;
+        if (!isJobLogFile(file)) continue;
         const filePath = path.join(jobDir, file);
         try {
           const stat = fs.statSync(filePath);
@@ -90,6 +126,24 @@ function pruneOldJobLogs(config: Config): void {
   if (pruned > 0) {
     log(`Pruned ${pruned} job log(s) older than 90 days`);
   }
+
+  const prunedRuns = pruneRunHistory(config, new Date(cutoff));
+  if (prunedRuns > 0) {
+    log(`Pruned ${prunedRuns} run history record(s) older than 90 days`);
+  }
+}
+
+/**
+ * Remove job containers and egress proxies left behind by runs that died.
+ */
+async function cleanUpLeakedContainers(): Promise<void> {
+  const { containers, egressProxies } = await removeLeakedContainers();
+  if (containers.length > 0) {
+    log(`Removed ${containers.length} exited job container(s): ${containers.join(', ')}`);
+  }
+  if (egressProxies.length > 0) {
+    log(`Removed ${egressProxies.length} orphaned egress proxy(ies): ${egressProxies.join(', ')}`);
+  }
 }
 
 /**
@@ -132,22 +186,6 @@ async function pruneDockerResources(config: Config): Promise<void> {
   }
 }
 
-/**
- * Check if a job's container is already running.
- */
-async function isJobRunning(jobId: string): Promise<boolean> {
-  try {
-    const { stdout } = await execa(
-      'docker',
-      ['inspect', '--format', '{{.State.Running}}', `oven-${jobId}`],
-      { reject: false },
-    );
-    return stdout.trim() === 'true';
-  } catch {
-    return false;
-  }
-}
-
 /**
  * Ensure the container runtime is available.
  */
@@ -165,11 +203,373 @@ async function ensureRuntime(config: Config): Promise<void> {
   await platform.ensureRuntime(config);
 }
 
+/**
+ * Warn about agent-oven images that due jobs use but that are not built,
+ * or build them when autoBuildImages is on. Jobs still run without their
+ * image, so the failed start is recorded in their history.
+ */
+async function checkJobImages(config: Config, dueRuns: DueRun[]): Promise<void> {
+  if (dueRuns.length === 0) return;
+
+  let missing: MissingImage[];
+  try {
+    const buildTags = new Map(dueRuns.map((due) => [due.job.id, due.imageTag]));
+    missing = findMissingImages(config.projectDir, dueRuns.map((due) => due.job), await listLocalImages(), buildTags);
+  } catch (err) {
+    const msg = err instanceof Error ? err.message : String(err);
+    log(`WARN: Failed to check job images: ${msg}`);
+    return;
+  }
+
+  for (const image of missing) {
+    const users = image.jobIds.join(', ');
+    if (!image.buildName) {
+      log(`WARN: Image ${image.ref} used by ${users} is not built, and images/ has no Dockerfile for it`);
+      continue;
+    }
+    if (!config.autoBuildImages) {
+      log(
+        `WARN: Image ${image.ref} used by ${users} is not built ` +
+        `(run \`agent-oven images build ${image.buildName}\`, or set autoBuildImages in the config)`,
+      );
+      continue;
+    }
+
+    // Overlapping ticks must not build the same image twice
+    const lockPath = path.join(getRunLocksDir(config), `image-${image.buildName}.lock`);
+    if (!acquireLock(lockPath)) {
+      log(`Image ${image.ref} is already being built by another scheduler tick`);
+      continue;
+    }
+    try {
+      log(`Building missing image ${image.ref} for ${users}`);
+      const result = await buildImage(config.projectDir, image.buildName);
+      log(result.success ? `Built image ${image.ref}` : `ERROR: Failed to build image ${image.ref}: ${result.error}`);
+    } finally {
+      releaseLock(lockPath);
+    }
+  }
+}
+
+/** How often a queued or replacing run re-checks whether the previous run has ended */
+const OVERLAP_POLL_INTERVAL_MS = 5_000;
+
+function sleep(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+/**
+ * Take a job's run lock if no other run of the job is in progress.
+ */
+async function tryClaimJob(jobId: string, lockPath: string): Promise<boolean> {
+  if (!acquireLock(lockPath)) return false;
+  if (await isJobRunning(jobId)) {
+    releaseLock(lockPath);
+    return false;
+  }
+  return true;
+}
+
+/**
+ * Take a job's run lock, applying its concurrency policy when the previous run
+ * is still going. At most one queued or replacing run waits per job.
+ * Returns false when this run should be skipped.
+ */
+async function claimJob(job: Job, lockPath: string, pendingLockPath: string): Promise<boolean> {
+  if (await tryClaimJob(job.id, lockPath)) return true;
+
+  const policy = job.concurrencyPolicy ?? 'skip';
+  if (policy === 'skip') {
+    log(`Skipping job ${job.id}: previous run is still in progress`);
+    return false;
+  }
+
+  if (!acquireLock(pendingLockPath)) {
+    log(`Skipping job ${job.id}: another run is already waiting for the previous one to finish`);
+    return false;
+  }
+
+  try {
+    if (policy === 'replace') {
+      log(`Replacing job ${job.id}: stopping previous run`);
+      await stopJob(job.id);
+    } else {
+      log(`Queueing job ${job.id} until its previous run finishes`);
+    }
+
+    while (!(await tryClaimJob(job.id, lockPath))) {
+      await sleep(OVERLAP_POLL_INTERVAL_MS);
+    }
+    return true;
+  } finally {
+    releaseLock(pendingLockPath);
+  }
+}
+
+/** A job selected to run in this tick */
+interface DueRun {
+  job: Job;
+  /** Set when this run is a retry of a failed attempt */
+  retry?: PendingRetry;
+  /** Number of runs to start back to back (more than one when catching up missed runs) */
+  runs: number;
+  /** Tag of the image the job builds, hashed once for the whole tick */
+  imageTag?: string;
+  /** Newest scheduled time the runs are for (unset for retries) */
+  slot?: Date;
+}
+
+/**
+ * Run a job once and record its result.
+ * Failed runs are rescheduled according to the job's retry policy.
+ * Returns the exit code once the run's outcome is final, or null while a retry is pending.
+ */
+async function executeRun(config: Config, job: Job, retry?: PendingRetry, imageTag?: string): Promise<number | null> {
+  // A pending retry is consumed by this run, or superseded by a fresh scheduled run
+  clearPendingRetry(config, job.id);
+  const attempt = retry?.attempt ?? 1;
+  const attemptLabel = job.retry ? ` (attempt ${attempt}/${job.retry.maxAttempts})` : '';
+
+  // Execute
+  log(`Running job: ${job.id}${retry ? attemptLabel : ''}`);
+  const startedAt = Date.now();
+  const result = await runJob(config, job, {
+    trigger: 'scheduler',
+    attempt,
+    retryOf: retry?.retryOf,
+    imageTag,
+  });
+
+  if (result.success) {
+    log(`Job ${job.id} completed successfully${retry ? attemptLabel : ''}`);
+  } else {
+    log(`Job ${job.id} failed with exit code ${result.exitCode}${attemptLabel}`);
+  }
+
+  // Schedule a retry for failed attempts
+  const retryPolicy = job.retry;
+  const retrying = retryPolicy !== undefined && shouldRetry(retryPolicy, result.exitCode, attempt);
+  if (retrying) {
+    const delay = getRetryDelay(retryPolicy, attempt + 1);
+    schedulePendingRetry(config, {
+      jobId: job.id,
+      attempt: attempt + 1,
+      dueAt: new Date(Date.now() + delay * 1000).toISOString(),
+      retryOf: retry?.retryOf ?? result.runId,
+      lastExitCode: result.exitCode,
+    });
+    log(`Retrying job ${job.id} in ${delay}s (attempt ${attempt + 1}/${retryPolicy.maxAttempts})`);
+  }
+
+  // Send notifications once the run's outcome is final
+  if (!retrying) {
+    const deliveries = await sendNotifications(job, result, Date.now() - startedAt);
+    for (const delivery of deliveries) {
+      if (!delivery.success) {
+        log(`WARN: ${delivery.channel} notification for job ${job.id} failed: ${delivery.error}`);
+      }
+    }
+  }
+
+  // Record the run in the job's state
+  recordJobResult(config, job.id, result.exitCode);
+
+  // Remove one-time jobs after their final attempt
+  if (job.schedule.type === 'once' && !retrying) {
+    removeJob(config, job.id);
+    log(`Removed completed one-time job: ${job.id}`);
+  }
+
+  return retrying ? null : result.exitCode;
+}
+
+/**
+ * Run a due job, then the jobs that depend on it.
+ * A per-job lock file keeps overlapping ticks from launching the same job twice;
+ * the job's concurrencyPolicy decides what happens when a run is already going.
+ */
+async function runScheduledJob(config: Config, { job, retry, runs, imageTag }: DueRun): Promise<void> {
+  const lockPath = path.join(getRunLocksDir(config), `${job.id}.lock`);
+  const pendingLockPath = path.join(getRunLocksDir(config), `${job.id}.pending.lock`);
+  try {
+    if (!(await claimJob(job, lockPath, pendingLockPath))) return;
+  } catch (err) {
+    const msg = err instanceof Error ? err.message : String(err);
+    log(`ERROR: Failed to lock job ${job.id}: ${msg}`);
+    return;
+  }
+
+  let exitCode: number | null = null;
+  try {
+    for (let i = 1; i <= runs; i++) {
+      if (runs > 1) {
+        log(`Catch-up run ${i}/${runs} for job ${job.id}`);
+      }
+      exitCode = await executeRun(config, job, retry, imageTag);
+    }
+  } catch (err) {
+    const msg = err instanceof Error ? err.message : String(err);
+    log(`ERROR: Job ${job.id} could not be run: ${msg}`);
+  } finally {
+    releaseLock(lockPath);
+  }
+
+  if (exitCode !== null) {
+    await runDependentJobs(config, job, exitCode);
+  }
+}
+
+/**
+ * Get the IDs of the jobs a problem in jobs.json keeps from running
+ */
+function getInvalidJobIds(issues: JobsFileIssue[]): Set<string> {
+  return new Set(issues.flatMap((issue) => (issue.jobId ? [issue.jobId] : [])));
+}
+
+/**
+ * Describe where a problem in jobs.json is for the scheduler log
+ */
+function formatIssue(issue: JobsFileIssue): string {
+  return `${issue.path || '/'}${issue.line ? ` (line ${issue.line})` : ''}: ${issue.message}`;
+}
+
+/**
+ * Run the jobs whose `after` schedule is satisfied by an upstream job's final outcome.
+ * Dependent jobs run one after another in the upstream job's slot.
+ */
+async function runDependentJobs(config: Config, upstream: Job, exitCode: number): Promise<void> {
+  let dependents: Job[];
+  let invalidJobIds: Set<string>;
+  try {
+    dependents = getDependentJobs(listJobs(config), upstream.id).filter((job) => job.enabled !== false);
+    invalidJobIds = getInvalidJobIds(validateJobsFile(config));
+  } catch (err) {
+    const msg = err instanceof Error ? err.message : String(err);
+    log(`WARN: Failed to find jobs depending on ${upstream.id}: ${msg}`);
+    return;
+  }
+
+  for (const job of dependents) {
+    let satisfied: boolean;
+    try {
+      satisfied = dependenciesSatisfied(config, job, { jobId: upstream.id, exitCode });
+    } catch (err) {
+      const msg = err instanceof Error ? err.message : String(err);
+      log(`WARN: Failed to check dependencies of job ${job.id}: ${msg}`);
+      continue;
+    }
+    if (!satisfied) continue;
+
+    if (invalidJobIds.has(job.id)) {
+      log(`ERROR: Not triggering job ${job.id} after ${upstream.id}: its definition is invalid (see \`agent-oven validate\`)`);
+      continue;
+    }
+
+    log(`Triggering job ${job.id} after ${upstream.id} (exit code ${exitCode})`);
+    await runScheduledJob(config, { job, runs: 1 });
+  }
+}
+
+/**
+ * Format scheduled times for the scheduler log, abbreviating long lists.
+ */
+function formatSlots(slots: Date[], timeZone?: string, max = 5): string {
+  const shown = slots.slice(-max).map((slot) => formatDateTime(slot, timeZone));
+  const hidden = slots.length - shown.length;
+  return hidden > 0 ? `${hidden} earlier, ${shown.join('; ')}` : shown.join('; ');
+}
+
+/**
+ * Read the time of the previous scheduler tick from its marker file.
+ */
+function readLastTickTime(config: Config): Date | null {
+  try {
+    const value = fs.readFileSync(path.join(getLogsDir(config), '.last_tick'), 'utf-8').trim();
+    const date = new Date(value);
+    return isNaN(date.getTime()) ? null : date;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Record the time of this scheduler tick in its marker file.
+ */
+function writeLastTickTime(config: Config, date: Date): void {
+  try {
+    fs.mkdirSync(getLogsDir(config), { recursive: true });
+    fs.writeFileSync(path.join(getLogsDir(config), '.last_tick'), date.toISOString());
+  } catch (err) {
+    const msg = err instanceof Error ? err.message : String(err);
+    log(`WARN: Failed to write scheduler tick marker: ${msg}`);
+  }
+}
+
+/**
+ * Log scheduled times a job missed since its last run and what the
+ * catch-up policy does with them. Times already reported by an earlier
+ * tick (at or before `previousTick`) are not reported again.
+ */
+function logMissedSlots(
+  config: Config,
+  job: Job,
+  lastRun: string | undefined,
+  evaluation: ScheduleEvaluation,
+  previousTick: Date | null,
+): void {
+  const isNew = (slot: Date) => !previousTick || slot > previousTick;
+  const missedSlots = evaluation.missedSlots.filter(isNew);
+  const skippedSlots = evaluation.skippedSlots.filter(isNew);
+  const { runSlots } = evaluation;
+  if (missedSlots.length === 0) return;
+
+  const tz = resolveScheduleTimezone(job.schedule, config.timezone);
+  const policy = job.catchUp ?? 'latest';
+  const why = previousTick ? `no scheduler tick ran between ${previousTick.toISOString()} and now` : 'first tick on record';
+  log(
+    `Job ${job.id} missed ${missedSlots.length} scheduled run(s) since its last run at ${lastRun} ` +
+    `(${why}): ${formatSlots(missedSlots, tz)}`,
+  );
+
+  const caughtUp = runSlots.filter((slot) => evaluation.missedSlots.includes(slot));
+  if (caughtUp.length > 0) {
+    log(`Job ${job.id}: catching up ${caughtUp.length} missed run(s) (catchUp: ${policy}): ${formatSlots(caughtUp, tz)}`);
+  }
+  if (skippedSlots.length > 0) {
+    let reason = 'catchUp is none';
+    if (policy === 'all') {
+      reason = `catchUp is all and at most ${CATCH_UP_MAX_RUNS} runs are replayed`;
+    } else if (policy === 'latest') {
+      reason = caughtUp.length > 0
+        ? 'catchUp is latest and only the newest missed run is replayed'
+        : 'catchUp is latest and the job is due now';
+    }
+    log(`Job ${job.id}: skipping ${skippedSlots.length} missed run(s) because ${reason}: ${formatSlots(skippedSlots, tz)}`);
+  }
+}
+
+/**
+ * Store the time picked for a random-window job's next run in its state
+ */
+function recordNextRandomWindowRun(config: Config, job: Job, state: JobState, tickTime: Date): void {
+  try {
+    const [next] = getNextRuns(job.schedule, job.id, 1, tickTime, config.timezone);
+    const nextRandomWindowRun = next?.toISOString();
+    if (nextRandomWindowRun !== state.nextRandomWindowRun) {
+      updateJobState(config, job.id, { nextRandomWindowRun });
+    }
+  } catch (err) {
+    const msg = err instanceof Error ? err.message : String(err);
+    log(`WARN: Failed to record next run for job ${job.id}: ${msg}`);
+  }
+}
+
 /**
  * Run one complete scheduler tick.
  * Returns a process exit code (0 = success, 1 = error).
  */
 export async function runSchedulerTick(config: Config): Promise<number> {
+  redactLog = createRedactor(getSchedulerRedactionRules(config));
   log('Scheduler run started');
 
   // --- Housekeeping ---
@@ -179,12 +579,36 @@ export async function runSchedulerTick(config: Config): Promise<number> {
     const msg = err instanceof Error ? err.message : String(err);
     log(`WARN: Scheduler log rotation failed: ${msg}`);
   }
+  try {
+    const imported = importLegacyLogs(config);
+    if (imported > 0) {
+      log(`Imported ${imported} run(s) from existing job logs into run history`);
+    }
+  } catch (err) {
+    const msg = err instanceof Error ? err.message : String(err);
+    log(`WARN: Run history import failed: ${msg}`);
+  }
   try {
     pruneOldJobLogs(config);
   } catch (err) {
     const msg = err instanceof Error ? err.message : String(err);
     log(`WARN: Job log pruning failed: ${msg}`);
   }
+  try {
+    await cleanUpLeakedContainers();
+  } catch (err) {
+    const msg = err instanceof Error ? err.message : String(err);
+    log(`WARN: Leaked container cleanup failed: ${msg}`);
+  }
+  try {
+    const removed = removeStaleEnvFiles(config);
+    if (removed > 0) {
+      log(`Removed ${removed} stale run env file(s)`);
+    }
+  } catch (err) {
+    const msg = err instanceof Error ? err.message : String(err);
+    log(`WARN: Stale env file cleanup failed: ${msg}`);
+  }
   try {
     await pruneDockerResources(config);
   } catch (err) {
@@ -193,13 +617,41 @@ export async function runSchedulerTick(config: Config): Promise<number> {
   }
 
   // --- Load jobs ---
-  const jobs = listJobs(config);
+  let jobs: Job[];
+  try {
+    jobs = listJobs(config);
+  } catch (err) {
+    const msg = err instanceof Error ? err.message : String(err);
+    log(`ERROR: Failed to load jobs: ${msg}`);
+    return 1;
+  }
+  // Also mask the secret values the jobs define or reference
+  redactLog = createRedactor(getSchedulerRedactionRules(config, jobs));
+
   if (jobs.length === 0) {
     log('No jobs configured');
     log('Scheduler run completed');
     return 0;
   }
 
+  // --- Validate jobs ---
+  let issues: JobsFileIssue[];
+  try {
+    issues = validateJobsFile(config);
+  } catch (err) {
+    const msg = err instanceof Error ? err.message : String(err);
+    log(`ERROR: Failed to validate jobs: ${msg}`);
+    return 1;
+  }
+  for (const issue of issues) {
+    if (issue.jobId) {
+      log(`ERROR: Job ${issue.jobId} is invalid and will not run: ${formatIssue(issue)}`);
+    } else {
+      log(`WARN: Problem in jobs file: ${formatIssue(issue)}`);
+    }
+  }
+  const invalidJobIds = getInvalidJobIds(issues);
+
   // --- Ensure container runtime ---
   try {
     await ensureRuntime(config);
@@ -209,41 +661,165 @@ export async function runSchedulerTick(config: Config): Promise<number> {
     return 1;
   }
 
-  // --- Process each job ---
+  // --- Select due jobs and retries ---
   const tickTime = new Date();
+  const previousTick = readLastTickTime(config);
+  writeLastTickTime(config, tickTime);
+  const pendingRetries = readPendingRetries(config);
+  const states = readJobStates(config);
+  const dueRuns: DueRun[] = [];
   for (const job of jobs) {
-    // Skip disabled jobs
     if (job.enabled === false) continue;
+    // Jobs without a usable ID are reported above and cannot be tracked
+    if (typeof job.id !== 'string' || invalidJobIds.has(job.id)) continue;
 
-    // Check schedule
-    if (!shouldRunNow(job.schedule, job.last_run, tickTime, job.id)) continue;
-
-    // Skip if container is already running
-    if (await isJobRunning(job.id)) {
-      log(`Skipping job ${job.id}: container oven-${job.id} is still running`);
+    const state = states[job.id] ?? {};
+    // A run started for a scheduled time counts as done while it is still going
+    const scheduledThrough = getScheduledThrough(state);
+    let evaluation: ScheduleEvaluation;
+    try {
+      evaluation = evaluateSchedule(
+        job.schedule, scheduledThrough, tickTime, job.id, config.timezone, job.catchUp,
+      );
+    } catch (err) {
+      // One job with a bad schedule must not stop the others from running
+      const msg = err instanceof Error ? err.message : String(err);
+      log(`ERROR: Could not evaluate schedule for job ${job.id}: ${msg}`);
+      continue;
+    }
+    logMissedSlots(config, job, scheduledThrough, evaluation, previousTick);
+    if (job.schedule.type === 'random-window') {
+      recordNextRandomWindowRun(config, job, state, tickTime);
+    }
+    if (evaluation.runSlots.length > 0) {
+      dueRuns.push({ job, runs: evaluation.runSlots.length, slot: evaluation.runSlots[evaluation.runSlots.length - 1] });
       continue;
     }
 
-    // Execute
-    log(`Running job: ${job.id}`);
-    const result = await runJob(config, job);
+    const retry = pendingRetries[job.id];
+    if (retry && new Date(retry.dueAt) <= tickTime) {
+      dueRuns.push({ job, retry, runs: 1 });
+    }
+  }
 
-    if (result.success) {
-      log(`Job ${job.id} completed successfully`);
-    } else {
-      log(`Job ${job.id} failed with exit code ${result.exitCode}`);
+  // Drop retries for jobs that were removed or disabled
+  for (const jobId of Object.keys(pendingRetries)) {
+    if (!jobs.some((job) => job.id === jobId && job.enabled !== false)) {
+      clearPendingRetry(config, jobId);
+      log(`Dropped pending retry for job ${jobId}: job was removed or disabled`);
     }
+  }
 
-    // Update last_run
-    updateLastRun(config, job.id);
+  // --- Check the images due jobs use ---
+  for (const due of dueRuns) {
+    due.imageTag = findJobBuildTag(config.projectDir, due.job);
+  }
+  await checkJobImages(config, dueRuns);
 
-    // Remove one-time jobs after execution
-    if (job.schedule.type === 'once') {
-      removeJob(config, job.id);
-      log(`Removed completed one-time job: ${job.id}`);
+  // --- Start due jobs in workers ---
+  const limit = config.maxConcurrentJobs ?? DEFAULT_MAX_CONCURRENT_JOBS;
+  if (dueRuns.length > 1) {
+    log(`${dueRuns.length} jobs due, running up to ${limit} at a time`);
+  }
+  for (const due of dueRuns) {
+    try {
+      if (due.slot) recordScheduledRun(config, due.job.id, due.slot);
+      startScheduledRun(config, due);
+    } catch (err) {
+      const msg = err instanceof Error ? err.message : String(err);
+      log(`ERROR: Failed to start a worker for job ${due.job.id}: ${msg}`);
     }
   }
 
   log('Scheduler run completed');
   return 0;
 }
+
+/** Options of a worker running a due job, passed on its command line */
+export interface ScheduledRunOptions {
+  /** Number of runs to start back to back */
+  runs: number;
+  /** The pending retry this run is an attempt of */
+  retry?: PendingRetry;
+  /** Tag of the image the job builds, as hashed by the tick */
+  imageTag?: string;
+}
+
+/**
+ * Start a detached worker process running a due job, writing to the
+ * scheduler log. The pending retry the run consumes is cleared right away,
+ * so the next tick does not start it again.
+ */
+function startScheduledRun(config: Config, due: DueRun): void {
+  const args = [...process.execArgv, process.argv[1], 'scheduler-run', due.job.id, '--runs', String(due.runs)];
+  if (due.retry) args.push('--retry', JSON.stringify(due.retry));
+  if (due.imageTag) args.push('--image-tag', due.imageTag);
+
+  const logPath = getSchedulerLogPath(config);
+  fs.mkdirSync(path.dirname(logPath), { recursive: true });
+  const logFd = fs.openSync(logPath, 'a');
+  try {
+    const child = spawn(process.execPath, args, { detached: true, stdio: ['ignore', logFd, logFd] });
+    child.on('error', (err) => log(`ERROR: Worker for job ${due.job.id} failed to start: ${err.message}`));
+    child.unref();
+  } finally {
+    fs.closeSync(logFd);
+  }
+
+  // The pending retry is consumed by this run, or replaced by a fresh scheduled run
+  clearPendingRetry(config, due.job.id);
+}
+
+/**
+ * Take one of the maxConcurrentJobs run slots, waiting for a free one.
+ * Slots are lock files, so a worker that dies frees its slot.
+ * Returns the lock path of the slot.
+ */
+async function claimRunSlot(config: Config): Promise<string> {
+  const limit = Math.max(1, config.maxConcurrentJobs ?? DEFAULT_MAX_CONCURRENT_JOBS);
+  for (;;) {
+    for (let slot = 1; slot <= limit; slot++) {
+      const slotPath = path.join(getRunLocksDir(config), `slot-${slot}.lock`);
+      if (acquireLock(slotPath)) return slotPath;
+    }
+    await sleep(OVERLAP_POLL_INTERVAL_MS);
+  }
+}
+
+/**
+ * Run a due job in a worker process started by the tick: wait for a run
+ * slot, run the job and its dependents, and record the results.
+ * Returns a process exit code.
+ */
+export async function runScheduledWorker(config: Config, jobId: string, options: ScheduledRunOptions): Promise<number> {
+  redactLog = createRedactor(getSchedulerRedactionRules(config));
+
+  let job: Job | null;
+  try {
+    job = getJob(config, jobId);
+  } catch (err) {
+    const msg = err instanceof Error ? err.message : String(err);
+    log(`ERROR: Failed to load job ${jobId}: ${msg}`);
+    return 1;
+  }
+  if (!job || job.enabled === false) {
+    log(`Not running job ${jobId}: it was removed or disabled after the tick selected it`);
+    return 0;
+  }
+  redactLog = createRedactor(getSchedulerRedactionRules(config, [job]));
+
+  let slotPath: string;
+  try {
+    slotPath = await claimRunSlot(config);
+  } catch (err) {
+    const msg = err instanceof Error ? err.message : String(err);
+    log(`ERROR: Failed to take a run slot for job ${jobId}: ${msg}`);
+    return 1;
+  }
+  try {
+    await runScheduledJob(config, { job, ...options });
+  } finally {
+    releaseLock(slotPath);
+  }
+  return 0;
+}
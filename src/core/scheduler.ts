@@ -2,132 +2,279 @@
  * Scheduler logic - cron parsing and schedule matching
  */
 
-import type { Schedule, CronSchedule, OneTimeSchedule, RandomWindowSchedule } from './types.js';
+import type {
+  Schedule,
+  CronSchedule,
+  OneTimeSchedule,
+  RandomWindowSchedule,
+  AfterSchedule,
+  CatchUpPolicy,
+} from './types.js';
+import {
+  parseCronCached,
+  parseCronField,
+  matchesCronField,
+  matchesCronWeekday,
+  matchesCronDate,
+  describeCronExpression,
+  describeWeekdayField,
+  type CronExpression,
+} from './cron.js';
+
+const LEGACY_UTC_TIMESTAMP_RE = /^\d{4}-\d{2}-\d{2}T\d{2}:\d{2}:\d{2}$/;
+const EXPLICIT_OFFSET_RE = /(Z|[+-]\d{2}:?\d{2})$/i;
 
 /**
- * Cron field names for error messages
+ * Wall-clock fields of an instant in a given timezone
  */
-const CRON_FIELDS = ['minute', 'hour', 'day', 'month', 'weekday'] as const;
-const LEGACY_UTC_TIMESTAMP_RE = /^\d{4}-\d{2}-\d{2}T\d{2}:\d{2}:\d{2}$/;
+interface ZonedParts {
+  year: number;
+  /** 1-12 */
+  month: number;
+  day: number;
+  hour: number;
+  minute: number;
+  /** 0=Sunday, 6=Saturday */
+  weekday: number;
+}
+
+const WEEKDAY_INDEX: Record<string, number> = {
+  Sun: 0, Mon: 1, Tue: 2, Wed: 3, Thu: 4, Fri: 5, Sat: 6,
+};
+
+const zonedFormatters = new Map<string, Intl.DateTimeFormat>();
+
+function getZonedFormatter(timeZone: string): Intl.DateTimeFormat {
+  let formatter = zonedFormatters.get(timeZone);
+  if (!formatter) {
+    formatter = new Intl.DateTimeFormat('en-US', {
+      timeZone,
+      hourCycle: 'h23',
+      year: 'numeric',
+      month: 'numeric',
+      day: 'numeric',
+      hour: 'numeric',
+      minute: 'numeric',
+      weekday: 'short',
+    });
+    zonedFormatters.set(timeZone, formatter);
+  }
+  return formatter;
+}
 
 /**
- * Parse a cron field value and check if it matches the current value
+ * Check whether a string is a valid IANA timezone name
  */
-function matchesCronField(field: string, currentValue: number): boolean {
-  // Wildcard matches anything
-  if (field === '*') {
+export function isValidTimezone(timeZone: string): boolean {
+  if (!timeZone) return false;
+  try {
+    getZonedFormatter(timeZone);
     return true;
+  } catch {
+    return false;
   }
+}
 
-  // Step values (*/n)
-  const stepMatch = field.match(/^\*\/(\d+)$/);
-  if (stepMatch) {
-    const step = parseInt(stepMatch[1], 10);
-    return currentValue % step === 0;
-  }
+/**
+ * Get the wall-clock fields of `date` in `timeZone` (host local time if omitted).
+ */
+function getZonedParts(date: Date, timeZone?: string): ZonedParts {
+  if (!timeZone) {
+    return {
+      year: date.getFullYear(),
+      month: date.getMonth() + 1,
+      day: date.getDate(),
+      hour: date.getHours(),
+      minute: date.getMinutes(),
+      weekday: date.getDay(),
+    };
+  }
+
+  const parts: Record<string, string> = {};
+  for (const part of getZonedFormatter(timeZone).formatToParts(date)) {
+    parts[part.type] = part.value;
+  }
+  return {
+    year: Number(parts.year),
+    month: Number(parts.month),
+    day: Number(parts.day),
+    hour: Number(parts.hour),
+    minute: Number(parts.minute),
+    weekday: WEEKDAY_INDEX[parts.weekday],
+  };
+}
 
-  // Range with step (n-m/s)
-  const rangeStepMatch = field.match(/^(\d+)-(\d+)\/(\d+)$/);
-  if (rangeStepMatch) {
-    const start = parseInt(rangeStepMatch[1], 10);
-    const end = parseInt(rangeStepMatch[2], 10);
-    const step = parseInt(rangeStepMatch[3], 10);
-    if (currentValue < start || currentValue > end) {
-      return false;
+/**
+ * UTC offset (in minutes) of `timeZone` at the given instant.
+ */
+function getUtcOffsetMinutes(date: Date, timeZone?: string): number {
+  if (!timeZone) {
+    return -date.getTimezoneOffset();
+  }
+  const p = getZonedParts(date, timeZone);
+  const wallAsUtc = Date.UTC(p.year, p.month - 1, p.day, p.hour, p.minute);
+  const minuteStart = Math.floor(date.getTime() / 60_000) * 60_000;
+  return Math.round((wallAsUtc - minuteStart) / 60_000);
+}
+
+/**
+ * Shift wall-clock fields by a number of minutes, ignoring timezone transitions.
+ */
+function shiftWallClock(parts: ZonedParts, minutes: number): ZonedParts {
+  const shifted = new Date(Date.UTC(parts.year, parts.month - 1, parts.day, parts.hour, parts.minute + minutes));
+  return {
+    year: shifted.getUTCFullYear(),
+    month: shifted.getUTCMonth() + 1,
+    day: shifted.getUTCDate(),
+    hour: shifted.getUTCHours(),
+    minute: shifted.getUTCMinutes(),
+    weekday: shifted.getUTCDay(),
+  };
+}
+
+/**
+ * Convert a wall-clock time in `timeZone` (host local time if omitted) to an instant.
+ * Repeated wall times resolve to their first occurrence; wall times inside a
+ * DST gap are shifted forward by the length of the gap.
+ */
+export function zonedTimeToDate(
+  year: number,
+  month: number,
+  day: number,
+  hour: number,
+  minute: number,
+  timeZone?: string,
+): Date {
+  if (!timeZone) {
+    return new Date(year, month - 1, day, hour, minute, 0, 0);
+  }
+  const wallAsUtc = Date.UTC(year, month - 1, day, hour, minute);
+  const offsetBefore = getUtcOffsetMinutes(new Date(wallAsUtc - 24 * 60 * 60_000), timeZone);
+  const offsetAfter = getUtcOffsetMinutes(new Date(wallAsUtc + 24 * 60 * 60_000), timeZone);
+
+  for (const offset of [offsetBefore, offsetAfter]) {
+    const candidate = new Date(wallAsUtc - offset * 60_000);
+    if (getUtcOffsetMinutes(candidate, timeZone) === offset) {
+      return candidate;
     }
-    return (currentValue - start) % step === 0;
   }
 
-  // Range (n-m)
-  const rangeMatch = field.match(/^(\d+)-(\d+)$/);
-  if (rangeMatch) {
-    const start = parseInt(rangeMatch[1], 10);
-    const end = parseInt(rangeMatch[2], 10);
-    return currentValue >= start && currentValue <= end;
-  }
+  // Inside a DST gap: no instant has this wall time
+  return new Date(wallAsUtc - offsetBefore * 60_000);
+}
 
-  // Comma-separated values
-  if (field.includes(',')) {
-    const values = field.split(',');
-    return values.some((v) => matchesCronField(v.trim(), currentValue));
+/**
+ * Parse a schedule datetime. Values without an explicit offset are wall-clock
+ * times in `timeZone` (host local time if omitted).
+ */
+export function parseScheduleDatetime(datetime: string, timeZone?: string): Date {
+  if (!timeZone || EXPLICIT_OFFSET_RE.test(datetime)) {
+    return new Date(datetime);
   }
-
-  // Exact value
-  if (/^\d+$/.test(field)) {
-    const exactValue = Number(field);
-    return currentValue === exactValue;
+  const match = datetime.match(/^(\d{4})-(\d{2})-(\d{2})(?:[T ](\d{2}):(\d{2})(?::(\d{2}))?)?$/);
+  if (!match) {
+    return new Date(NaN);
   }
+  const [, y, mo, d, h = '0', mi = '0', sec = '0'] = match;
+  const base = zonedTimeToDate(Number(y), Number(mo), Number(d), Number(h), Number(mi), timeZone);
+  return new Date(base.getTime() + Number(sec) * 1000);
+}
 
-  return false;
+/**
+ * Resolve the timezone a schedule is evaluated in: the schedule's own
+ * override, else the configured default, else host local time.
+ */
+export function resolveScheduleTimezone(schedule: Schedule, timeZone?: string): string | undefined {
+  const override = schedule.type === 'after' ? undefined : schedule.timezone;
+  return override ?? timeZone ?? undefined;
 }
 
 /**
- * Check if a weekday cron field matches, treating both 0 and 7 as Sunday.
- * Standard cron: 0=Sunday, 1=Monday, ..., 6=Saturday, 7=Sunday.
- * JS getDay(): 0=Sunday, 1=Monday, ..., 6=Saturday.
+ * Check if wall-clock fields match a parsed cron expression (to the minute)
  */
-function matchesWeekdayField(field: string, currentWeekday: number): boolean {
-  if (field === '*') {
-    return true;
+function matchesCronParts(cron: CronExpression, parts: ZonedParts): boolean {
+  return (
+    matchesCronField(cron.minute, parts.minute) &&
+    matchesCronField(cron.hour, parts.hour) &&
+    matchesCronDate(cron, parts)
+  );
+}
+
+/**
+ * Check if a cron expression matches the current time.
+ *
+ * Fields are evaluated against the wall clock in `timeZone` (host local time
+ * if omitted). A seconds field only shifts the run within its minute, so
+ * matching is to the minute. For fixed-time expressions (minute and hour not
+ * wildcards or `*` steps), DST transitions behave like Vixie cron:
+ * - a time skipped by a spring-forward gap fires at the first minute after the gap
+ * - a time repeated by a fall-back transition fires only on its first occurrence
+ *
+ * @throws Error if the expression is invalid
+ */
+export function cronMatches(cronExpr: string, date: Date = new Date(), timeZone?: string): boolean {
+  const cron = parseCronExpression(cronExpr);
+  const parts = getZonedParts(date, timeZone);
+  const fixedTime = !cron.minute.source.startsWith('*') && !cron.hour.source.startsWith('*');
+  if (!fixedTime) {
+    return matchesCronParts(cron, parts);
   }
 
-  // Check if the field matches the current weekday directly
-  if (matchesCronField(field, currentWeekday)) {
-    return true;
+  if (matchesCronParts(cron, parts)) {
+    return !isRepeatedWallTime(date, timeZone);
   }
 
-  // If today is Sunday (0), also check against 7
-  if (currentWeekday === 0 && matchesCronField(field, 7)) {
-    return true;
+  // Spring-forward: fire wall-clock times skipped by the gap right after it.
+  const gapMinutes = getUtcOffsetMinutes(date, timeZone)
+    - getUtcOffsetMinutes(new Date(date.getTime() - 60_000), timeZone);
+  for (let i = 1; i <= gapMinutes; i++) {
+    if (matchesCronParts(cron, shiftWallClock(parts, -i))) {
+      return true;
+    }
   }
 
-  // If the field contains 7 and today is Sunday (0), already handled above.
-  // If the field contains 0 and today is Sunday, already handled by direct match.
   return false;
 }
 
 /**
- * Check if a cron expression matches the current time
+ * Parse a cron expression, prefixing errors with "Invalid cron expression"
  */
-export function cronMatches(cronExpr: string, date: Date = new Date()): boolean {
-  const parts = cronExpr.trim().split(/\s+/);
-
-  if (parts.length !== 5) {
-    throw new Error(`Invalid cron expression: expected 5 fields, got ${parts.length}`);
+function parseCronExpression(cronExpr: string): CronExpression {
+  try {
+    return parseCronCached(cronExpr);
+  } catch (err) {
+    throw new Error(`Invalid cron expression: ${err instanceof Error ? err.message : String(err)}`);
   }
+}
 
-  const [minute, hour, day, month, weekday] = parts;
-
-  // Get current time components
-  const currentMinute = date.getMinutes();
-  const currentHour = date.getHours();
-  const currentDay = date.getDate();
-  const currentMonth = date.getMonth() + 1; // JavaScript months are 0-indexed
-  const currentWeekday = date.getDay(); // 0=Sunday, 6=Saturday
-  const dayMatches = matchesCronField(day, currentDay);
-  const weekdayMatches = matchesWeekdayField(weekday, currentWeekday);
-  const dateMatches = day !== '*' && weekday !== '*'
-    ? dayMatches || weekdayMatches
-    : dayMatches && weekdayMatches;
-
-  return (
-    matchesCronField(minute, currentMinute) &&
-    matchesCronField(hour, currentHour) &&
-    matchesCronField(month, currentMonth) &&
-    dateMatches
-  );
+/**
+ * Check if the wall-clock time of `date` already occurred earlier the same
+ * night because of a fall-back DST transition.
+ */
+function isRepeatedWallTime(date: Date, timeZone?: string): boolean {
+  const offset = getUtcOffsetMinutes(date, timeZone);
+  const earlierOffset = getUtcOffsetMinutes(new Date(date.getTime() - 3 * 60 * 60_000), timeZone);
+  if (earlierOffset <= offset) {
+    return false;
+  }
+  const firstOccurrence = new Date(date.getTime() - (earlierOffset - offset) * 60_000);
+  return getUtcOffsetMinutes(firstOccurrence, timeZone) === earlierOffset;
 }
 
 /**
  * Check if a one-time schedule should run
  */
-export function onceShouldRun(datetime: string, lastRun: string | null | undefined): boolean {
+export function onceShouldRun(
+  datetime: string,
+  lastRun: string | null | undefined,
+  timeZone?: string,
+): boolean {
   // Already run
   if (lastRun) {
     return false;
   }
 
-  const targetTime = new Date(datetime).getTime();
+  const targetTime = parseScheduleDatetime(datetime, timeZone).getTime();
   const now = Date.now();
 
   return now >= targetTime;
@@ -162,39 +309,82 @@ export function parseStoredTimestamp(timestamp: string): Date {
   return new Date(normalized);
 }
 
-function formatDateKey(date: Date): string {
-  return `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}-${String(date.getDate()).padStart(2, '0')}`;
+function formatDateKey(parts: ZonedParts): string {
+  return `${parts.year}-${String(parts.month).padStart(2, '0')}-${String(parts.day).padStart(2, '0')}`;
 }
 
 function sameMinute(a: Date, b: Date): boolean {
-  return (
-    a.getFullYear() === b.getFullYear() &&
-    a.getMonth() === b.getMonth() &&
-    a.getDate() === b.getDate() &&
-    a.getHours() === b.getHours() &&
-    a.getMinutes() === b.getMinutes()
+  return Math.floor(a.getTime() / 60_000) === Math.floor(b.getTime() / 60_000);
+}
+
+/** The run time picked for one random window, with the window bounds */
+interface RandomWindowSlot {
+  target: Date;
+  windowStart: Date;
+  windowEnd: Date;
+}
+
+/**
+ * Get the random-window slot for the window starting on `startDay` (wall clock in `timeZone`).
+ * Returns null if the window is empty or the weekday filter excludes the day.
+ */
+function getRandomWindowSlot(
+  schedule: RandomWindowSchedule,
+  jobId: string,
+  startDay: ZonedParts,
+  timeZone?: string,
+): RandomWindowSlot | null {
+  const startMinutes = parseHHMM(schedule.start);
+  const endMinutes = parseHHMM(schedule.end);
+  const spansMidnight = endMinutes <= startMinutes;
+  const windowSize = endMinutes > startMinutes
+    ? endMinutes - startMinutes
+    : (24 * 60 - startMinutes) + endMinutes;
+
+  if (windowSize <= 0) return null;
+
+  // Weekday filters apply to the day the window starts.
+  if (schedule.days !== undefined && !matchesCronWeekday(parseCronField('weekday', schedule.days), startDay)) {
+    return null;
+  }
+
+  const endDay = spansMidnight ? shiftWallClock(startDay, 24 * 60) : startDay;
+  const windowStart = zonedTimeToDate(
+    startDay.year, startDay.month, startDay.day,
+    Math.floor(startMinutes / 60), startMinutes % 60, timeZone,
   );
+  const windowEnd = zonedTimeToDate(
+    endDay.year, endDay.month, endDay.day,
+    Math.floor(endMinutes / 60), endMinutes % 60, timeZone,
+  );
+
+  const offset = deterministicHash(`${jobId}:${formatDateKey(startDay)}`) % windowSize;
+  return {
+    target: new Date(windowStart.getTime() + offset * 60_000),
+    windowStart,
+    windowEnd,
+  };
 }
 
 /**
  * Check if a random-window schedule should run now.
  * Uses a deterministic hash of (jobId + date) to pick a consistent minute within the window.
+ * The window is evaluated on the wall clock of the schedule's timezone override,
+ * else `timeZone`, else host local time.
  */
 export function randomWindowShouldRun(
   schedule: RandomWindowSchedule,
   lastRun: string | null | undefined,
   date: Date,
   jobId: string,
+  timeZone?: string,
 ): boolean {
+  const tz = resolveScheduleTimezone(schedule, timeZone);
   const startMinutes = parseHHMM(schedule.start);
   const endMinutes = parseHHMM(schedule.end);
-  const currentMinutes = date.getHours() * 60 + date.getMinutes();
+  const now = getZonedParts(date, tz);
+  const currentMinutes = now.hour * 60 + now.minute;
   const spansMidnight = endMinutes <= startMinutes;
-  const windowSize = endMinutes > startMinutes
-    ? endMinutes - startMinutes
-    : (24 * 60 - startMinutes) + endMinutes;
-
-  if (windowSize <= 0) return false;
 
   const inWindow = spansMidnight
     ? currentMinutes >= startMinutes || currentMinutes < endMinutes
@@ -203,34 +393,21 @@ export function randomWindowShouldRun(
     return false;
   }
 
-  const windowStart = new Date(date);
-  if (spansMidnight && currentMinutes < endMinutes) {
-    windowStart.setDate(windowStart.getDate() - 1);
-  }
-  windowStart.setHours(Math.floor(startMinutes / 60), startMinutes % 60, 0, 0);
-
-  const windowEnd = new Date(windowStart);
-  if (spansMidnight) {
-    windowEnd.setDate(windowEnd.getDate() + 1);
-  }
-  windowEnd.setHours(Math.floor(endMinutes / 60), endMinutes % 60, 0, 0);
-
-  // Weekday filters apply to the day the window starts.
-  if (!matchesWeekdayField(schedule.days ?? '*', windowStart.getDay())) {
-    return false;
-  }
+  const startDay = spansMidnight && currentMinutes < endMinutes
+    ? shiftWallClock(now, -24 * 60)
+    : now;
+  const slot = getRandomWindowSlot(schedule, jobId, startDay, tz);
+  if (!slot) return false;
 
   // Skip if already run in this window.
   if (lastRun) {
     const lastRunDate = parseStoredTimestamp(lastRun);
-    if (!isNaN(lastRunDate.getTime()) && lastRunDate >= windowStart && lastRunDate < windowEnd) {
+    if (!isNaN(lastRunDate.getTime()) && lastRunDate >= slot.windowStart && lastRunDate < slot.windowEnd) {
       return false;
     }
   }
 
-  const offset = deterministicHash(`${jobId}:${formatDateKey(windowStart)}`) % windowSize;
-  const targetTime = new Date(windowStart.getTime() + offset * 60_000);
-  return sameMinute(date, targetTime);
+  return sameMinute(date, slot.target);
 }
 
 /**
@@ -238,10 +415,30 @@ export function randomWindowShouldRun(
  */
 export function describeRandomWindow(schedule: RandomWindowSchedule): string {
   const days = schedule.days ?? '*';
-  const prefix = days === '*' ? 'Daily' : `${describeWeekday(days)}`;
+  let prefix = 'Daily';
+  if (days !== '*') {
+    try {
+      const weekdays = describeWeekdayField(parseCronField('weekday', days));
+      prefix = weekdays.charAt(0).toUpperCase() + weekdays.slice(1);
+    } catch {
+      prefix = `Days ${days}`;
+    }
+  }
   return `${prefix} randomly between ${schedule.start} and ${schedule.end}`;
 }
 
+/**
+ * Describe a dependency schedule in human-readable form.
+ */
+export function describeAfter(schedule: AfterSchedule): string {
+  const upstream = schedule.jobs.join(', ');
+  const plural = schedule.jobs.length > 1;
+  const on = schedule.on ?? 'success';
+  if (on === 'failure') return `After ${upstream} ${plural ? 'fail' : 'fails'}`;
+  if (on === 'any') return `After ${upstream} ${plural ? 'finish' : 'finishes'}`;
+  return `After ${upstream} ${plural ? 'succeed' : 'succeeds'}`;
+}
+
 /**
  * Validate a random-window schedule configuration.
  * Returns an error message string, or null if valid.
@@ -258,150 +455,217 @@ export function validateRandomWindow(schedule: RandomWindowSchedule): string | n
     return 'Start and end times must be different';
   }
   if (schedule.days !== undefined && schedule.days !== '*') {
-    // Validate the days field using cron weekday validation (single field from a 5-field expression)
-    const testCron = `0 0 * * ${schedule.days}`;
-    const err = validateCron(testCron);
-    if (err) return `days: ${err}`;
-  }
-  return null;
-}
-
-function mostRecentCronMatch(cronExpr: string, from: Date, maxLookbackMinutes = 1440): Date | null {
-  for (let i = 0; i <= maxLookbackMinutes; i++) {
-    const candidate = new Date(from.getTime() - i * 60_000);
-    candidate.setSeconds(0, 0);
-    if (cronMatches(cronExpr, candidate)) {
-      return candidate;
+    try {
+      parseCronField('weekday', schedule.days);
+    } catch (err) {
+      return `days: ${err instanceof Error ? err.message : String(err)}`;
     }
   }
   return null;
 }
 
-/**
- * Check if a schedule should run now
- */
-export function shouldRunNow(schedule: Schedule, lastRun?: string | null, date?: Date, jobId?: string): boolean {
-  if (schedule.type === 'cron') {
-    const now = date ?? new Date();
-    const currentMinute = new Date(now);
-    currentMinute.setSeconds(0, 0);
-
-    // Without a valid last-run marker, only fire on an exact cron tick.
-    // Catch-up behavior requires a trusted previous execution timestamp.
-    if (!lastRun) {
-      return cronMatches(schedule.cron, currentMinute);
-    }
+/** How far back missed runs are searched for */
+export const CATCH_UP_MAX_LOOKBACK_DAYS = 31;
 
-    const lastRunDate = parseStoredTimestamp(lastRun);
-    if (isNaN(lastRunDate.getTime())) {
-      return cronMatches(schedule.cron, currentMinute);
-    }
+/** Maximum number of missed runs replayed by the `all` catch-up policy */
+export const CATCH_UP_MAX_RUNS = 10;
 
-    const match = mostRecentCronMatch(schedule.cron, currentMinute);
-    if (!match) return false;
-    return lastRunDate < match;
-  } else if (schedule.type === 'once') {
-    return onceShouldRun(schedule.datetime, lastRun);
-  } else if (schedule.type === 'random-window') {
-    if (!jobId) return false;
-    return randomWindowShouldRun(schedule, lastRun, date ?? new Date(), jobId);
-  }
-  return false;
+/** Outcome of evaluating a schedule at a scheduler tick */
+export interface ScheduleEvaluation {
+  /** Scheduled times to run now, oldest first */
+  runSlots: Date[];
+  /** Scheduled times since the last run that passed without a run, oldest first */
+  missedSlots: Date[];
+  /** Missed times that will not be run because of the catch-up policy, oldest first */
+  skippedSlots: Date[];
 }
 
 /**
- * Parse a cron expression and return human-readable description
+ * Find the minutes in (after, before) at which a cron expression fires, oldest first,
+ * stopping after `limit` slots. Whole months, days and hours that cannot match are skipped.
  */
-export function describeCron(cronExpr: string): string {
-  const parts = cronExpr.trim().split(/\s+/);
-
-  if (parts.length !== 5) {
-    return 'Invalid cron expression';
-  }
-
-  const [minute, hour, day, month, weekday] = parts;
-
-  // Common patterns
-  if (minute === '*' && hour === '*' && day === '*' && month === '*' && weekday === '*') {
-    return 'Every minute';
-  }
+function findCronSlots(
+  cronExpr: string,
+  after: Date,
+  before: Date,
+  timeZone?: string,
+  limit = Infinity,
+): Date[] {
+  const cron = parseCronExpression(cronExpr);
+
+  const slots: Date[] = [];
+  let t = Math.floor(after.getTime() / 60_000) * 60_000 + 60_000;
+
+  while (t < before.getTime() && slots.length < limit) {
+    const date = new Date(t);
+    const parts = getZonedParts(date, timeZone);
+
+    if (!matchesCronField(cron.month, parts.month)) {
+      const year = parts.month === 12 ? parts.year + 1 : parts.year;
+      const month = parts.month === 12 ? 1 : parts.month + 1;
+      t = Math.max(t + 60_000, zonedTimeToDate(year, month, 1, 0, 0, timeZone).getTime());
+      continue;
+    }
 
-  if (minute.startsWith('*/') && hour === '*' && day === '*' && month === '*' && weekday === '*') {
-    const interval = minute.slice(2);
-    return `Every ${interval} minutes`;
-  }
+    if (!matchesCronDate(cron, parts)) {
+      const next = shiftWallClock({ ...parts, hour: 0, minute: 0 }, 24 * 60);
+      t = Math.max(t + 60_000, zonedTimeToDate(next.year, next.month, next.day, 0, 0, timeZone).getTime());
+      continue;
+    }
 
-  if (hour.startsWith('*/') && day === '*' && month === '*' && weekday === '*') {
-    const interval = hour.slice(2);
-    const minPart = minute === '0' ? '' : ` at minute ${minute}`;
-    return `Every ${interval} hours${minPart}`;
-  }
+    // Skip the rest of a non-matching hour unless the UTC offset changes within it or
+    // just before it (skipped DST-gap times fire at the first minute after the gap)
+    if (!matchesCronField(cron.hour, parts.hour)) {
+      const hourEnd = t + (60 - parts.minute) * 60_000;
+      if (getUtcOffsetMinutes(new Date(t - 60_000), timeZone) === getUtcOffsetMinutes(new Date(hourEnd), timeZone)) {
+        t = hourEnd;
+        continue;
+      }
+    }
 
-  if (minute !== '*' && hour !== '*' && day === '*' && month === '*' && weekday === '*') {
-    return `Every day at ${padTime(hour)}:${padTime(minute)}`;
+    if (cronMatches(cronExpr, date, timeZone)) {
+      slots.push(date);
+    }
+    t += 60_000;
   }
 
-  if (minute !== '*' && hour !== '*' && day === '*' && month === '*' && weekday !== '*') {
-    const days = describeWeekday(weekday);
-    return `${days} at ${padTime(hour)}:${padTime(minute)}`;
-  }
+  return slots;
+}
 
-  if (minute !== '*' && hour !== '*' && day !== '*' && month === '*' && weekday === '*') {
-    return `Day ${day} of every month at ${padTime(hour)}:${padTime(minute)}`;
+/**
+ * Find the random-window run times in (after, before), oldest first.
+ * Windows that contain `after` count as already run.
+ */
+function findRandomWindowSlots(
+  schedule: RandomWindowSchedule,
+  jobId: string,
+  after: Date,
+  before: Date,
+  timeZone?: string,
+): Date[] {
+  const slots: Date[] = [];
+  const lastDay = formatDateKey(getZonedParts(before, timeZone));
+  // Start a day early: a window spanning midnight may have started the day before
+  let day = shiftWallClock(getZonedParts(after, timeZone), -24 * 60);
+
+  for (let i = 0; i <= CATCH_UP_MAX_LOOKBACK_DAYS + 2; i++) {
+    const slot = getRandomWindowSlot(schedule, jobId, day, timeZone);
+    const alreadyRun = slot !== null && after >= slot.windowStart && after < slot.windowEnd;
+    if (slot && !alreadyRun && slot.target > after && slot.target < before) {
+      slots.push(slot.target);
+    }
+    if (formatDateKey(day) === lastDay) break;
+    day = shiftWallClock(day, 24 * 60);
   }
 
-  // Generic description
-  const desc: string[] = [];
-
-  if (minute !== '*') desc.push(`minute ${minute}`);
-  if (hour !== '*') desc.push(`hour ${hour}`);
-  if (day !== '*') desc.push(`day ${day}`);
-  if (month !== '*') desc.push(`month ${month}`);
-  if (weekday !== '*') desc.push(`weekday ${weekday}`);
-
-  return desc.length > 0 ? `At ${desc.join(', ')}` : 'Every minute';
+  return slots;
 }
 
 /**
- * Describe a weekday field
+ * Evaluate a schedule at a scheduler tick, applying the job's catch-up policy
+ * to scheduled times missed since `lastRun` (e.g. while the machine was asleep):
+ * - none: only run on schedule; missed times are skipped
+ * - latest: run once for the newest missed time (default)
+ * - all: run once per missed time, up to CATCH_UP_MAX_RUNS
+ *
+ * Missed times are only known when `lastRun` is a valid timestamp; without one,
+ * cron and random-window schedules fire only on an exact tick. One-time
+ * schedules always run when overdue, and dependency schedules never run from
+ * the clock (their upstream jobs trigger them). `timeZone` is the configured
+ * default; a schedule's own `timezone` takes precedence.
  */
-function describeWeekday(field: string): string {
-  // Support both 0=Sunday and 7=Sunday conventions
-  const names: Record<number, string> = {
-    0: 'Sun', 1: 'Mon', 2: 'Tue', 3: 'Wed', 4: 'Thu', 5: 'Fri', 6: 'Sat', 7: 'Sun',
-  };
-
-  if (field.includes(',')) {
-    const days = field.split(',').map((d) => names[parseInt(d, 10)] || d);
-    return days.join(', ');
-  }
+export function evaluateSchedule(
+  schedule: Schedule,
+  lastRun?: string | null,
+  date?: Date,
+  jobId?: string,
+  timeZone?: string,
+  catchUp: CatchUpPolicy = 'latest',
+): ScheduleEvaluation {
+  const tz = resolveScheduleTimezone(schedule, timeZone);
+  const now = date ?? new Date();
+  const currentMinute = new Date(now);
+  currentMinute.setSeconds(0, 0);
+  const evaluation: ScheduleEvaluation = { runSlots: [], missedSlots: [], skippedSlots: [] };
 
-  if (field.includes('-')) {
-    const [start, end] = field.split('-').map((d) => parseInt(d, 10));
-    return `${names[start] || start} to ${names[end] || end}`;
-  }
-
-  const day = parseInt(field, 10);
-  if (day in names) {
-    return `Every ${names[day]}`;
-  }
+  if (schedule.type === 'once') {
+    if (onceShouldRun(schedule.datetime, lastRun, tz)) {
+      evaluation.runSlots.push(parseScheduleDatetime(schedule.datetime, tz));
+    }
+    return evaluation;
+  }
+  if (schedule.type === 'after' || (schedule.type === 'random-window' && !jobId)) {
+    return evaluation;
+  }
+
+  const onTime = schedule.type === 'cron'
+    ? cronMatches(schedule.cron, currentMinute, tz)
+    : randomWindowShouldRun(schedule, lastRun, now, jobId!, tz);
+
+  const lastRunDate = lastRun ? parseStoredTimestamp(lastRun) : null;
+  if (lastRunDate && !isNaN(lastRunDate.getTime())) {
+    const lookbackStart = new Date(currentMinute.getTime() - CATCH_UP_MAX_LOOKBACK_DAYS * 24 * 60 * 60_000);
+    const after = lastRunDate > lookbackStart ? lastRunDate : lookbackStart;
+    evaluation.missedSlots = schedule.type === 'cron'
+      ? findCronSlots(schedule.cron, after, currentMinute, tz)
+      : findRandomWindowSlots(schedule, jobId!, after, currentMinute, tz);
+  }
+
+  const current = onTime && (!lastRunDate || isNaN(lastRunDate.getTime()) || lastRunDate < currentMinute)
+    ? [currentMinute]
+    : [];
+  const missed = evaluation.missedSlots;
+
+  if (catchUp === 'none') {
+    evaluation.runSlots = current;
+    evaluation.skippedSlots = [...missed];
+  } else if (catchUp === 'all') {
+    const slots = [...missed, ...current];
+    const dropped = Math.max(0, slots.length - CATCH_UP_MAX_RUNS);
+    evaluation.runSlots = slots.slice(dropped);
+    evaluation.skippedSlots = slots.slice(0, dropped);
+  } else if (current.length > 0) {
+    evaluation.runSlots = current;
+    evaluation.skippedSlots = [...missed];
+  } else if (missed.length > 0) {
+    evaluation.runSlots = [missed[missed.length - 1]];
+    evaluation.skippedSlots = missed.slice(0, -1);
+  }
+
+  return evaluation;
+}
 
-  return `Weekday ${field}`;
+/**
+ * Check if a schedule should run now.
+ * `timeZone` is the configured default; a schedule's own `timezone` takes precedence.
+ */
+export function shouldRunNow(
+  schedule: Schedule,
+  lastRun?: string | null,
+  date?: Date,
+  jobId?: string,
+  timeZone?: string,
+  catchUp?: CatchUpPolicy,
+): boolean {
+  return evaluateSchedule(schedule, lastRun, date, jobId, timeZone, catchUp).runSlots.length > 0;
 }
 
 /**
- * Pad time value to 2 digits
+ * Parse a cron expression and return human-readable description
  */
-function padTime(value: string): string {
-  const num = parseInt(value, 10);
-  return isNaN(num) ? value : num.toString().padStart(2, '0');
+export function describeCron(cronExpr: string): string {
+  try {
+    return describeCronExpression(parseCronCached(cronExpr));
+  } catch {
+    return 'Invalid cron expression';
+  }
 }
 
 /**
  * Describe a one-time schedule
  */
-export function describeOnce(datetime: string): string {
-  const date = new Date(datetime);
+export function describeOnce(datetime: string, timeZone?: string): string {
+  const date = parseScheduleDatetime(datetime, timeZone);
   if (isNaN(date.getTime())) {
     return 'Invalid datetime';
   }
@@ -410,7 +674,7 @@ export function describeOnce(datetime: string): string {
   const diff = date.getTime() - now.getTime();
 
   if (diff < 0) {
-    return `Scheduled for ${formatDateTime(date)} (past)`;
+    return `Scheduled for ${formatDateTime(date, timeZone)} (past)`;
   }
 
   // Format relative time
@@ -429,14 +693,15 @@ export function describeOnce(datetime: string): string {
     relative = 'shortly';
   }
 
-  return `${formatDateTime(date)} (${relative})`;
+  return `${formatDateTime(date, timeZone)} (${relative})`;
 }
 
 /**
  * Format a date for display
  */
-function formatDateTime(date: Date): string {
+export function formatDateTime(date: Date, timeZone?: string): string {
   return date.toLocaleString('en-US', {
+    timeZone,
     year: 'numeric',
     month: 'short',
     day: 'numeric',
@@ -446,148 +711,100 @@ function formatDateTime(date: Date): string {
 }
 
 /**
- * Describe any schedule type
+ * Describe any schedule type.
+ * Times are described in the schedule's timezone (override, else `timeZone`),
+ * which is named in the output when it differs from host local time.
  */
-export function describeSchedule(schedule: Schedule): string {
+export function describeSchedule(schedule: Schedule, timeZone?: string): string {
+  if (schedule.type === 'after') {
+    return describeAfter(schedule);
+  }
+  const tz = resolveScheduleTimezone(schedule, timeZone);
+  const suffix = tz && tz !== Intl.DateTimeFormat().resolvedOptions().timeZone ? ` (${tz})` : '';
   if (schedule.type === 'cron') {
-    return describeCron(schedule.cron);
+    return describeCron(schedule.cron) + suffix;
   } else if (schedule.type === 'random-window') {
-    return describeRandomWindow(schedule);
+    return describeRandomWindow(schedule) + suffix;
   } else {
-    return describeOnce(schedule.datetime);
+    return describeOnce(schedule.datetime, tz) + suffix;
   }
 }
 
 /**
- * Validate a cron expression
+ * Validate a cron expression.
+ * Returns an error message string, or null if valid.
  */
 export function validateCron(cronExpr: string): string | null {
-  const parts = cronExpr.trim().split(/\s+/);
-
-  if (parts.length !== 5) {
-    return `Expected 5 fields, got ${parts.length}`;
-  }
-
-  const ranges = [
-    { min: 0, max: 59 },  // minute
-    { min: 0, max: 23 },  // hour
-    { min: 1, max: 31 },  // day
-    { min: 1, max: 12 },  // month
-    { min: 0, max: 7 },   // weekday (0 and 7 are Sunday)
-  ];
-
-  for (let i = 0; i < 5; i++) {
-    const field = parts[i];
-    const { min, max } = ranges[i];
-    const error = validateCronField(field, min, max);
-    if (error) {
-      return `${CRON_FIELDS[i]}: ${error}`;
-    }
+  try {
+    parseCronCached(cronExpr);
+    return null;
+  } catch (err) {
+    return err instanceof Error ? err.message : String(err);
   }
-
-  return null;
 }
 
+/** How far ahead next runs are searched for (covers schedules on Feb 29) */
+export const NEXT_RUN_MAX_LOOKAHEAD_YEARS = 8;
+
 /**
- * Validate a single cron field
+ * Get the next `count` run times of a schedule after `from`, oldest first.
+ * - cron: searched field by field up to NEXT_RUN_MAX_LOOKAHEAD_YEARS ahead
+ * - random-window: the deterministic minute picked for each upcoming window
+ * - once: the scheduled time (still returned when overdue, as it runs at the next tick)
+ * - after: none, as the job runs when its upstream jobs finish
  */
-function validateCronField(field: string, min: number, max: number): string | null {
-  if (field === '*') {
-    return null;
-  }
+export function getNextRuns(
+  schedule: Schedule,
+  jobId: string,
+  count: number,
+  from: Date = new Date(),
+  timeZone?: string,
+): Date[] {
+  if (count < 1) return [];
+  const tz = resolveScheduleTimezone(schedule, timeZone);
 
-  // Handle comma-separated values
-  if (field.includes(',')) {
-    for (const part of field.split(',')) {
-      const error = validateCronField(part.trim(), min, max);
-      if (error) return error;
-    }
-    return null;
+  if (schedule.type === 'once') {
+    const date = parseScheduleDatetime(schedule.datetime, tz);
+    return isNaN(date.getTime()) ? [] : [date];
   }
 
-  // Handle step values
-  if (field.includes('/')) {
-    const stepParts = field.split('/');
-    if (stepParts.length !== 2) {
-      return `Invalid step expression: ${field}`;
-    }
-    const [range, step] = stepParts;
-    if (!/^\d+$/.test(step)) {
-      return `Invalid step value: ${step}`;
-    }
-    const stepNum = Number(step);
-    if (stepNum < 1) {
-      return `Invalid step value: ${step}`;
-    }
-    if (range === '*') {
-      return null;
-    }
-    if (!/^(\d+)-(\d+)$/.test(range)) {
-      return `Invalid step expression: ${field}`;
-    }
-    return validateCronField(range, min, max);
+  if (schedule.type === 'after') {
+    return [];
   }
 
-  // Handle ranges
-  if (field.includes('-')) {
-    const rangeMatch = field.match(/^(\d+)-(\d+)$/);
-    if (!rangeMatch) {
-      return `Invalid range: ${field}`;
-    }
-    const start = Number(rangeMatch[1]);
-    const end = Number(rangeMatch[2]);
-    if (start < min || start > max) {
-      return `Start value ${start} out of range (${min}-${max})`;
-    }
-    if (end < min || end > max) {
-      return `End value ${end} out of range (${min}-${max})`;
-    }
-    if (start > end) {
-      return `Start value ${start} greater than end ${end}`;
-    }
-    return null;
-  }
+  const horizon = getZonedParts(from, tz);
+  const until = zonedTimeToDate(
+    horizon.year + NEXT_RUN_MAX_LOOKAHEAD_YEARS, horizon.month, horizon.day, horizon.hour, horizon.minute, tz,
+  );
 
-  // Handle single value
-  if (!/^\d+$/.test(field)) {
-    return `Invalid value: ${field}`;
-  }
-  const value = Number(field);
-  if (value < min || value > max) {
-    return `Value ${value} out of range (${min}-${max})`;
+  if (schedule.type === 'random-window') {
+    const runs: Date[] = [];
+    // Start a day early: a window spanning midnight may have started the day before
+    const lastDay = formatDateKey(getZonedParts(until, tz));
+    let day = shiftWallClock(horizon, -24 * 60);
+    while (runs.length < count) {
+      const slot = getRandomWindowSlot(schedule, jobId, day, tz);
+      if (slot && slot.target > from) {
+        runs.push(slot.target);
+      }
+      if (formatDateKey(day) === lastDay) break;
+      day = shiftWallClock(day, 24 * 60);
+    }
+    return runs;
   }
 
-  return null;
+  return findCronSlots(schedule.cron, from, until, tz, count);
 }
 
 /**
- * Get next run time for a cron expression (approximate)
+ * Get the next run time of a schedule, or null if none is known.
+ * Random-window schedules need the job ID, which picks the minute in each window.
  */
-export function getNextRun(schedule: Schedule): Date | null {
-  if (schedule.type === 'once') {
-    const date = new Date(schedule.datetime);
-    return isNaN(date.getTime()) ? null : date;
-  }
-
-  if (schedule.type === 'random-window') {
-    return null; // Can't predict without jobId context
-  }
-
-  // For cron, find the next matching minute
-  const now = new Date();
-  const check = new Date(now);
-  check.setSeconds(0);
-  check.setMilliseconds(0);
-
-  // Check up to 1 week ahead
-  for (let i = 0; i < 60 * 24 * 7; i++) {
-    check.setMinutes(check.getMinutes() + 1);
-    if (cronMatches(schedule.cron, check)) {
-      return check;
-    }
+export function getNextRun(schedule: Schedule, timeZone?: string, jobId?: string): Date | null {
+  if (schedule.type === 'random-window' && jobId === undefined) {
+    return null;
   }
-
-  return null;
+  return getNextRuns(schedule, jobId ?? '', 1, new Date(), timeZone)[0] ?? null;
 }
 
 /**
@@ -0,0 +1,296 @@
+/**
+ * JSON Schema validation
+ * schema/jobs.schema.json is generated from types.ts (`npm run schema`).
+ * This module checks documents against the subset of JSON Schema the
+ * generator emits and maps problems back to lines in the source text.
+ */
+
+import { createRequire } from 'node:module';
+
+/** A JSON Schema, limited to the keywords scripts/generate-schema.ts emits */
+export interface JsonSchema {
+  description?: string;
+  $ref?: string;
+  type?: string;
+  const?: unknown;
+  enum?: unknown[];
+  properties?: Record<string, JsonSchema>;
+  required?: string[];
+  additionalProperties?: boolean | JsonSchema;
+  items?: JsonSchema;
+  anyOf?: JsonSchema[];
+  definitions?: Record<string, JsonSchema>;
+}
+
+/** A value that does not match a schema */
+export interface SchemaError {
+  /** JSON pointer to the value (e.g. /jobs/0/schedule) */
+  path: string;
+  message: string;
+}
+
+/** Position in a JSON document (1-based) */
+export interface JsonLocation {
+  line: number;
+  column: number;
+}
+
+/**
+ * Get the JSON Schema for jobs.json
+ */
+export function getJobsSchema(): JsonSchema {
+  const require = createRequire(import.meta.url);
+  return require('../../schema/jobs.schema.json') as JsonSchema;
+}
+
+/**
+ * Append a property name or array index to a JSON pointer
+ */
+export function joinJsonPointer(pointer: string, key: string | number): string {
+  return `${pointer}/${String(key).replace(/~/g, '~0').replace(/\//g, '~1')}`;
+}
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function jsonType(value: unknown): string {
+  if (value === null) return 'null';
+  if (Array.isArray(value)) return 'array';
+  return typeof value;
+}
+
+function resolveRef(schema: JsonSchema, root: JsonSchema): JsonSchema {
+  if (!schema.$ref) return schema;
+  const name = schema.$ref.replace(/^#\/definitions\//, '');
+  const target = root.definitions?.[name];
+  if (!target) {
+    throw new Error(`Unknown schema reference ${schema.$ref}`);
+  }
+  return resolveRef(target, root);
+}
+
+/** Edit distance between two strings, for suggesting a misspelled property */
+function editDistance(a: string, b: string): number {
+  let previous = Array.from({ length: b.length + 1 }, (_, i) => i);
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    for (let j = 1; j <= b.length; j++) {
+      const substitution = previous[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1);
+      current[j] = Math.min(previous[j] + 1, current[j - 1] + 1, substitution);
+    }
+    previous = current;
+  }
+  return previous[b.length];
+}
+
+function unknownPropertyMessage(key: string, known: string[]): string {
+  const lower = key.toLowerCase();
+  const suggestion = known
+    .map((name) => ({ name, distance: editDistance(lower, name.toLowerCase()) }))
+    .filter(({ distance }) => distance <= 2)
+    .sort((a, b) => a.distance - b.distance)[0];
+  return suggestion
+    ? `Unknown property "${key}" (did you mean "${suggestion.name}"?)`
+    : `Unknown property "${key}"`;
+}
+
+/**
+ * Validate a union. Tagged unions (every branch has a constant `type`
+ * property, like jobs and schedules) are checked against the branch the
+ * value's `type` selects, so errors point at the actual problem.
+ */
+function validateAnyOf(value: unknown, branches: JsonSchema[], root: JsonSchema, path: string): SchemaError[] {
+  // Nested unions (e.g. a string or one of several references) count as one
+  const flatten = (branch: JsonSchema): JsonSchema[] => {
+    const schema = resolveRef(branch, root);
+    return schema.anyOf ? schema.anyOf.flatMap(flatten) : [schema];
+  };
+  const resolved = branches.flatMap(flatten);
+
+  const tags = resolved.map((branch) => branch.properties?.type?.const);
+  if (tags.every((tag) => typeof tag === 'string')) {
+    if (!isObject(value)) {
+      return [{ path, message: `Expected object, got ${jsonType(value)}` }];
+    }
+    if (value.type === undefined) {
+      return [{ path, message: 'Missing required property "type"' }];
+    }
+    const index = tags.indexOf(value.type as string);
+    if (index === -1) {
+      return [{ path: joinJsonPointer(path, 'type'), message: `Must be one of: ${tags.join(', ')}` }];
+    }
+    return validateSchema(value, resolved[index], root, path);
+  }
+
+  const results = resolved.map((branch) => validateSchema(value, branch, root, path));
+  if (results.some((errors) => errors.length === 0)) return [];
+
+  // Report the problems inside the closest branch of the same type, if there is one
+  const sameType = results
+    .filter((_errors, index) => resolved[index].type === jsonType(value))
+    .sort((a, b) => a.length - b.length);
+  if (sameType.length > 0) return sameType[0];
+  const expected = [...new Set(resolved.map((branch) => branch.type ?? JSON.stringify(branch.const)))];
+  return [{ path, message: `Expected ${expected.join(' or ')}, got ${jsonType(value)}` }];
+}
+
+/**
+ * Validate a value against a schema.
+ * `root` holds the definitions `$ref`s point to. Returns all errors found
+ * (empty when valid).
+ */
+export function validateSchema(
+  value: unknown,
+  schema: JsonSchema,
+  root: JsonSchema = schema,
+  path = '',
+): SchemaError[] {
+  const resolved = resolveRef(schema, root);
+
+  if (resolved.anyOf) {
+    return validateAnyOf(value, resolved.anyOf, root, path);
+  }
+  if (resolved.const !== undefined && value !== resolved.const) {
+    return [{ path, message: `Must be ${JSON.stringify(resolved.const)}` }];
+  }
+  if (resolved.type && jsonType(value) !== resolved.type) {
+    return [{ path, message: `Expected ${resolved.type}, got ${jsonType(value)}` }];
+  }
+  if (resolved.enum && !resolved.enum.includes(value)) {
+    return [{ path, message: `Must be one of: ${resolved.enum.join(', ')}` }];
+  }
+
+  const errors: SchemaError[] = [];
+
+  if (Array.isArray(value) && resolved.items) {
+    value.forEach((item, index) => {
+      errors.push(...validateSchema(item, resolved.items!, root, joinJsonPointer(path, index)));
+    });
+  }
+
+  if (isObject(value)) {
+    for (const name of resolved.required ?? []) {
+      if (!(name in value)) {
+        errors.push({ path, message: `Missing required property "${name}"` });
+      }
+    }
+    for (const [key, item] of Object.entries(value)) {
+      const itemPath = joinJsonPointer(path, key);
+      const propertySchema = resolved.properties?.[key];
+      if (propertySchema) {
+        errors.push(...validateSchema(item, propertySchema, root, itemPath));
+      } else if (resolved.additionalProperties === false) {
+        errors.push({ path: itemPath, message: unknownPropertyMessage(key, Object.keys(resolved.properties ?? {})) });
+      } else if (typeof resolved.additionalProperties === 'object') {
+        errors.push(...validateSchema(item, resolved.additionalProperties, root, itemPath));
+      }
+    }
+  }
+
+  return errors;
+}
+
+/**
+ * Map every value in a valid JSON document to its position, keyed by JSON
+ * pointer. Object properties point at their key, array items at the value.
+ */
+export function getJsonLocations(text: string): Map<string, JsonLocation> {
+  const locations = new Map<string, JsonLocation>();
+  let index = 0;
+  let line = 1;
+  let lineStart = 0;
+
+  const here = (): JsonLocation => ({ line, column: index - lineStart + 1 });
+
+  const skipWhitespace = (): void => {
+    while (index < text.length && /\s/.test(text[index])) {
+      if (text[index] === '\n') {
+        line++;
+        lineStart = index + 1;
+      }
+      index++;
+    }
+  };
+
+  const readString = (): string => {
+    const start = index;
+    index++;
+    while (index < text.length && text[index] !== '"') {
+      index += text[index] === '\\' ? 2 : 1;
+    }
+    index++;
+    return JSON.parse(text.slice(start, index)) as string;
+  };
+
+  const readValue = (pointer: string): void => {
+    skipWhitespace();
+    if (!locations.has(pointer)) locations.set(pointer, here());
+
+    const char = text[index];
+    if (char === '{' || char === '[') {
+      const isArray = char === '[';
+      const close = isArray ? ']' : '}';
+      index++;
+      for (let item = 0; ; item++) {
+        skipWhitespace();
+        if (text[index] === close) break;
+        if (isArray) {
+          readValue(joinJsonPointer(pointer, item));
+        } else {
+          const keyLocation = here();
+          const itemPointer = joinJsonPointer(pointer, readString());
+          locations.set(itemPointer, keyLocation);
+          skipWhitespace();
+          index++; // ':'
+          readValue(itemPointer);
+        }
+        skipWhitespace();
+        if (text[index] === ',') index++;
+      }
+      index++;
+    } else if (char === '"') {
+      readString();
+    } else {
+      while (index < text.length && !/[\s,\]}]/.test(text[index])) index++;
+    }
+  };
+
+  readValue('');
+  return locations;
+}
+
+/**
+ * Find the position of a JSON pointer, falling back to its closest
+ * located parent (e.g. for a missing property)
+ */
+export function findJsonLocation(locations: Map<string, JsonLocation>, pointer: string): JsonLocation | undefined {
+  for (let current = pointer; ; current = current.slice(0, current.lastIndexOf('/'))) {
+    const location = locations.get(current);
+    if (location || current === '') return location;
+  }
+}
+
+/**
+ * Get the position of a JSON.parse syntax error from its message
+ */
+export function locateJsonSyntaxError(text: string, message: string): JsonLocation | undefined {
+  const lineColumn = /\(line (\d+) column (\d+)\)/.exec(message);
+  if (lineColumn) {
+    return { line: Number(lineColumn[1]), column: Number(lineColumn[2]) };
+  }
+
+  const position = /at position (\d+)/.exec(message);
+  if (position) {
+    const before = text.slice(0, Number(position[1]));
+    const lines = before.split('\n');
+    return { line: lines.length, column: lines[lines.length - 1].length + 1 };
+  }
+
+  // Unexpected end of input
+  if (/end of (JSON )?input/i.test(message)) {
+    const lines = text.split('\n');
+    return { line: lines.length, column: lines[lines.length - 1].length + 1 };
+  }
+  return undefined;
+}
@@ -0,0 +1,283 @@
+/**
+ * Secret store and run-time env resolution
+ * Job env values can reference secrets, host env vars or files instead of
+ * holding the value in jobs.json. Secrets are kept in secrets.json, each
+ * encrypted with AES-256-GCM under a key stored outside the project
+ * directory.
+ */
+
+import * as crypto from 'node:crypto';
+import * as fs from 'node:fs';
+import * as os from 'node:os';
+import * as path from 'node:path';
+import type { Config, EnvRef, EnvValue, EnvVars, Job } from './types.js';
+import { isEnvRef } from './types.js';
+import { getSecretsPath, getSecretKeyPath } from './config.js';
+import { acquireLockSync, releaseLock } from './locks.js';
+import { writeFileAtomic } from './files.js';
+
+/** Env var holding a passphrase to use instead of the key file */
+export const SECRET_KEY_ENV = 'AGENT_OVEN_SECRET_KEY';
+
+/** How long a write waits for another process to finish updating secrets.json */
+const SECRETS_LOCK_TIMEOUT_MS = 5_000;
+
+const SECRET_NAME_PATTERN = /^[A-Za-z0-9][A-Za-z0-9._-]*$/;
+
+/** A secret as stored in secrets.json */
+interface EncryptedSecret {
+  /** Base64 initialization vector */
+  iv: string;
+  /** Base64 GCM authentication tag */
+  tag: string;
+  /** Base64 ciphertext */
+  data: string;
+  updatedAt: string;
+}
+
+/** The secrets.json file structure */
+interface SecretsFile {
+  version: 1;
+  secrets: Record<string, EncryptedSecret>;
+}
+
+/** A stored secret, without its value */
+export interface SecretInfo {
+  name: string;
+  updatedAt: string;
+}
+
+/**
+ * Check a secret name. Returns an error message, or null if valid.
+ */
+export function validateSecretName(name: string): string | null {
+  if (!SECRET_NAME_PATTERN.test(name)) {
+    return `Invalid secret name "${name}" (use letters, digits, '.', '_' and '-')`;
+  }
+  return null;
+}
+
+/**
+ * Load the encryption key: derived from $AGENT_OVEN_SECRET_KEY if set,
+ * otherwise read from the key file, which is generated (readable only by
+ * the owner) when `create` is set and it does not exist yet.
+ * @throws Error if there is no key and `create` is not set
+ */
+function loadSecretKey(create: boolean): Buffer {
+  const passphrase = process.env[SECRET_KEY_ENV];
+  if (passphrase) {
+    return crypto.scryptSync(passphrase, 'agent-oven-secrets', 32);
+  }
+
+  const keyPath = getSecretKeyPath();
+  if (!fs.existsSync(keyPath)) {
+    if (!create) {
+      throw new Error(`Secret key not found at ${keyPath} (set secrets with \`agent-oven secret set\`, or set ${SECRET_KEY_ENV})`);
+    }
+    fs.mkdirSync(path.dirname(keyPath), { recursive: true });
+    try {
+      fs.writeFileSync(keyPath, crypto.randomBytes(32).toString('base64') + '\n', { mode: 0o600, flag: 'wx' });
+    } catch (err) {
+      // Another process created it first
+      if ((err as NodeJS.ErrnoException).code !== 'EEXIST') throw err;
+    }
+  }
+
+  const key = Buffer.from(fs.readFileSync(keyPath, 'utf-8').trim(), 'base64');
+  if (key.length !== 32) {
+    throw new Error(`Invalid secret key in ${keyPath}`);
+  }
+  return key;
+}
+
+/**
+ * Read secrets.json (empty if it does not exist)
+ * @throws Error if the file cannot be parsed
+ */
+function readSecretsFile(config: Config): SecretsFile {
+  const secretsPath = getSecretsPath(config);
+  if (!fs.existsSync(secretsPath)) {
+    return { version: 1, secrets: {} };
+  }
+
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(fs.readFileSync(secretsPath, 'utf-8'));
+  } catch (err) {
+    const msg = err instanceof Error ? err.message : String(err);
+    throw new Error(`Failed to read ${secretsPath}: ${msg}`);
+  }
+  const secrets = (parsed as Partial<SecretsFile> | null)?.secrets;
+  if (typeof secrets !== 'object' || secrets === null || Array.isArray(secrets)) {
+    throw new Error(`Failed to read ${secretsPath}: missing "secrets" object`);
+  }
+  return { version: 1, secrets };
+}
+
+/**
+ * Read, modify and write secrets.json while holding its lock
+ */
+function modifySecretsFile<T>(config: Config, modify: (file: SecretsFile) => T): T {
+  const secretsPath = getSecretsPath(config);
+  const lockPath = `${secretsPath}.lock`;
+  acquireLockSync(lockPath, SECRETS_LOCK_TIMEOUT_MS);
+  try {
+    const file = readSecretsFile(config);
+    const result = modify(file);
+    writeFileAtomic(secretsPath, JSON.stringify(file, null, 2) + '\n');
+    return result;
+  } finally {
+    releaseLock(lockPath);
+  }
+}
+
+/**
+ * Store a secret, replacing any previous value
+ * @throws Error for an invalid name
+ */
+export function setSecret(config: Config, name: string, value: string): void {
+  const nameError = validateSecretName(name);
+  if (nameError) {
+    throw new Error(nameError);
+  }
+
+  const key = loadSecretKey(true);
+  const iv = crypto.randomBytes(12);
+  const cipher = crypto.createCipheriv('aes-256-gcm', key, iv);
+  // The name is authenticated so a value cannot be moved to another secret
+  cipher.setAAD(Buffer.from(name));
+  const data = Buffer.concat([cipher.update(value, 'utf-8'), cipher.final()]);
+
+  modifySecretsFile(config, (file) => {
+    file.secrets[name] = {
+      iv: iv.toString('base64'),
+      tag: cipher.getAuthTag().toString('base64'),
+      data: data.toString('base64'),
+      updatedAt: new Date().toISOString(),
+    };
+  });
+}
+
+/**
+ * Get a secret's value
+ * @throws Error if the secret does not exist or cannot be decrypted
+ */
+export function getSecret(config: Config, name: string): string {
+  const secret = readSecretsFile(config).secrets[name];
+  if (!secret) {
+    throw new Error(`Secret "${name}" is not set (use \`agent-oven secret set ${name}\`)`);
+  }
+
+  const decipher = crypto.createDecipheriv('aes-256-gcm', loadSecretKey(false), Buffer.from(secret.iv, 'base64'));
+  decipher.setAAD(Buffer.from(name));
+  decipher.setAuthTag(Buffer.from(secret.tag, 'base64'));
+  try {
+    return Buffer.concat([decipher.update(Buffer.from(secret.data, 'base64')), decipher.final()]).toString('utf-8');
+  } catch {
+    throw new Error(`Secret "${name}" cannot be decrypted (wrong key, or the store was modified)`);
+  }
+}
+
+/**
+ * List stored secrets by name
+ */
+export function listSecrets(config: Config): SecretInfo[] {
+  return Object.entries(readSecretsFile(config).secrets)
+    .map(([name, secret]) => ({ name, updatedAt: secret.updatedAt }))
+    .sort((a, b) => a.name.localeCompare(b.name));
+}
+
+/**
+ * Remove a secret. Returns false if it did not exist.
+ */
+export function removeSecret(config: Config, name: string): boolean {
+  if (!(name in readSecretsFile(config).secrets)) return false;
+  return modifySecretsFile(config, (file) => {
+    const existed = name in file.secrets;
+    delete file.secrets[name];
+    return existed;
+  });
+}
+
+/**
+ * Map each secret name referenced in job env to the IDs of the jobs using it
+ */
+export function getSecretReferences(jobs: Job[]): Map<string, string[]> {
+  const references = new Map<string, string[]>();
+  for (const job of jobs) {
+    for (const value of Object.values(job.env ?? {})) {
+      if (isEnvRef(value) && 'secret' in value) {
+        references.set(value.secret, [...(references.get(value.secret) ?? []), job.id]);
+      }
+    }
+  }
+  return references;
+}
+
+/**
+ * Resolve one env reference to its value
+ * @throws Error if the referenced secret, env var or file does not exist
+ */
+function resolveEnvRef(config: Config, ref: EnvRef): string {
+  if ('secret' in ref) {
+    return getSecret(config, ref.secret);
+  }
+  if ('fromEnv' in ref) {
+    const value = process.env[ref.fromEnv];
+    if (value === undefined) {
+      throw new Error(`Host env var ${ref.fromEnv} is not set`);
+    }
+    return value;
+  }
+
+  const filePath = ref.file.startsWith('~/')
+    ? path.join(os.homedir(), ref.file.slice(2))
+    : path.resolve(config.projectDir, ref.file);
+  try {
+    return fs.readFileSync(filePath, 'utf-8').replace(/\r?\n$/, '');
+  } catch (err) {
+    const msg = err instanceof Error ? err.message : String(err);
+    throw new Error(`Cannot read ${filePath}: ${msg}`);
+  }
+}
+
+/**
+ * Resolve a job's env to plain values for a run
+ * @throws Error naming the env var whose reference cannot be resolved
+ */
+export function resolveJobEnv(config: Config, env: EnvVars = {}): Record<string, string> {
+  const resolved: Record<string, string> = {};
+  for (const [key, value] of Object.entries(env)) {
+    try {
+      resolved[key] = isEnvRef(value) ? resolveEnvRef(config, value) : value;
+    } catch (err) {
+      const msg = err instanceof Error ? err.message : String(err);
+      throw new Error(`Env var ${key}: ${msg}`);
+    }
+  }
+  return resolved;
+}
+
+/**
+ * Describe an env value without revealing it, for log headers and `show`
+ */
+export function describeEnvValue(value: EnvValue): string {
+  if (!isEnvRef(value)) return 'value';
+  if ('secret' in value) return `secret "${value.secret}"`;
+  if ('fromEnv' in value) return `host env ${value.fromEnv}`;
+  return `file ${value.file}`;
+}
+
+/**
+ * Format env vars as a docker --env-file, so values are not passed on the
+ * command line where they would show up in logs and process listings
+ * @throws Error for a value docker cannot read from an env file
+ */
+export function formatEnvFile(env: Record<string, string>): string {
+  return Object.entries(env).map(([key, value]) => {
+    if (/[\r\n]/.test(value)) {
+      throw new Error(`Env var ${key} contains a line break, which cannot be passed to docker`);
+    }
+    return `${key}=${value}\n`;
+  }).join('');
+}
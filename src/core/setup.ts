@@ -82,62 +82,6 @@ export function setupFiles(projectDir: string): { created: string[]; existed: st
   return { created, existed };
 }
 
-/**
- * Scan images/ directory for subdirs containing Dockerfiles
- */
-export function discoverImages(projectDir: string): string[] {
-  const imagesDir = path.join(projectDir, 'images');
-  if (!fs.existsSync(imagesDir)) {
-    return [];
-  }
-
-  return fs.readdirSync(imagesDir)
-    .filter((name) => {
-      const dir = path.join(imagesDir, name);
-      return fs.statSync(dir).isDirectory() &&
-        fs.existsSync(path.join(dir, 'Dockerfile'));
-    });
-}
-
-/**
- * Build a Docker image from the images/ directory
- */
-export async function buildImage(
-  projectDir: string,
-  imageName: string,
-  onOutput?: (line: string) => void,
-): Promise<{ success: boolean; error?: string }> {
-  const contextDir = path.join(projectDir, 'images', imageName);
-  const tag = `agent-oven/${imageName}`;
-
-  try {
-    const proc = execa('docker', ['build', '-t', tag, contextDir]);
-
-    if (onOutput && proc.stdout) {
-      proc.stdout.on('data', (data: Buffer) => {
-        const lines = data.toString().split('\n').filter(Boolean);
-        for (const line of lines) {
-          onOutput(line);
-        }
-      });
-    }
-    if (onOutput && proc.stderr) {
-      proc.stderr.on('data', (data: Buffer) => {
-        const lines = data.toString().split('\n').filter(Boolean);
-        for (const line of lines) {
-          onOutput(line);
-        }
-      });
-    }
-
-    await proc;
-    return { success: true };
-  } catch (err) {
-    const message = err instanceof Error ? err.message : String(err);
-    return { success: false, error: message };
-  }
-}
-
 /**
  * Detect the system timezone
  */
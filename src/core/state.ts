@@ -0,0 +1,150 @@
+/**
+ * Job runtime state
+ * Last run times, exit codes and other values that change as jobs run are
+ * kept in state.json (keyed by job ID), so jobs.json only changes when the
+ * job definitions do.
+ */
+
+import * as fs from 'node:fs';
+import type { Config, JobState } from './types.js';
+import { getJobStatePath } from './config.js';
+import { acquireLockSync, releaseLock } from './locks.js';
+import { writeFileAtomic } from './files.js';
+import { parseStoredTimestamp } from './scheduler.js';
+
+/** How long a write waits for another process to finish updating state.json */
+const STATE_LOCK_TIMEOUT_MS = 5_000;
+
+/**
+ * Format a timestamp as stored in state.json (UTC, without milliseconds)
+ */
+function formatStateTimestamp(date: Date): string {
+  return date.toISOString().replace(/\.\d{3}Z$/, 'Z');
+}
+
+/**
+ * Read the state of all jobs, keyed by job ID.
+ * A missing or unreadable file counts as no state: it only holds values
+ * the scheduler records again as jobs run.
+ */
+export function readJobStates(config: Config): Record<string, JobState> {
+  const statePath = getJobStatePath(config);
+  if (!fs.existsSync(statePath)) {
+    return {};
+  }
+
+  try {
+    const parsed = JSON.parse(fs.readFileSync(statePath, 'utf-8')) as Record<string, JobState>;
+    return parsed && typeof parsed === 'object' && !Array.isArray(parsed) ? parsed : {};
+  } catch (err) {
+    console.error(`Warning: Failed to read ${statePath}:`, err);
+    return {};
+  }
+}
+
+/**
+ * Get a job's state (empty if it has never run)
+ */
+export function getJobState(config: Config, jobId: string): JobState {
+  return readJobStates(config)[jobId] ?? {};
+}
+
+/**
+ * Read, modify and write state.json while holding its lock
+ */
+function modifyJobStates<T>(config: Config, modify: (states: Record<string, JobState>) => T): T {
+  const statePath = getJobStatePath(config);
+  const lockPath = `${statePath}.lock`;
+  acquireLockSync(lockPath, STATE_LOCK_TIMEOUT_MS);
+  try {
+    const states = readJobStates(config);
+    const result = modify(states);
+    writeFileAtomic(statePath, JSON.stringify(states, null, 2) + '\n');
+    return result;
+  } finally {
+    releaseLock(lockPath);
+  }
+}
+
+/**
+ * Merge values into a job's state
+ */
+export function updateJobState(config: Config, jobId: string, updates: Partial<JobState>): JobState {
+  return modifyJobStates(config, (states) => {
+    const state = { ...states[jobId], ...updates };
+    states[jobId] = state;
+    return state;
+  });
+}
+
+/**
+ * Update a job's last run timestamp (now if omitted)
+ */
+export function updateLastRun(config: Config, jobId: string, timestamp?: string): JobState {
+  return updateJobState(config, jobId, { lastRun: timestamp ?? formatStateTimestamp(new Date()) });
+}
+
+/**
+ * Record that the scheduler started a run for a scheduled time, so later
+ * ticks neither start it again nor count it as missed while the run goes on
+ */
+export function recordScheduledRun(config: Config, jobId: string, slot: Date): JobState {
+  return updateJobState(config, jobId, { lastScheduledRun: formatStateTimestamp(slot) });
+}
+
+/**
+ * Get the time up to which a job's schedule has been handled: the later of
+ * its last finished run and the newest scheduled time a run was started for
+ */
+export function getScheduledThrough(state: JobState): string | undefined {
+  const { lastRun, lastScheduledRun } = state;
+  if (!lastRun || !lastScheduledRun) return lastRun ?? lastScheduledRun;
+  return parseStoredTimestamp(lastScheduledRun) > parseStoredTimestamp(lastRun) ? lastScheduledRun : lastRun;
+}
+
+/**
+ * Record a finished run: its time, exit code, and the count of consecutive failures
+ */
+export function recordJobResult(config: Config, jobId: string, exitCode: number, finishedAt = new Date()): JobState {
+  return modifyJobStates(config, (states) => {
+    const previous = states[jobId] ?? {};
+    const state: JobState = {
+      ...previous,
+      lastRun: formatStateTimestamp(finishedAt),
+      lastExitCode: exitCode,
+      consecutiveFailures: exitCode === 0 ? 0 : (previous.consecutiveFailures ?? 0) + 1,
+    };
+    states[jobId] = state;
+    return state;
+  });
+}
+
+/**
+ * Drop a job's state (when the job is removed)
+ */
+export function clearJobState(config: Config, jobId: string): void {
+  if (!(jobId in readJobStates(config))) return;
+  modifyJobStates(config, (states) => {
+    delete states[jobId];
+  });
+}
+
+/**
+ * Move `last_run` values from job definitions into the state file.
+ * Values already in the state file are kept. Returns the number moved.
+ */
+export function migrateLastRuns(config: Config, lastRuns: Record<string, string>): number {
+  const current = readJobStates(config);
+  const entries = Object.entries(lastRuns).filter(([jobId]) => !current[jobId]?.lastRun);
+  if (entries.length === 0) return 0;
+
+  return modifyJobStates(config, (states) => {
+    let moved = 0;
+    for (const [jobId, lastRun] of entries) {
+      if (states[jobId]?.lastRun) continue;
+      states[jobId] = { ...states[jobId], lastRun };
+      moved++;
+    }
+    return moved;
+  });
+}
@@ -5,15 +5,19 @@
 /** Cron schedule - runs on a recurring schedule */
 export interface CronSchedule {
   type: 'cron';
-  /** Standard 5-field cron expression (minute hour day month weekday) */
+  /** Cron expression: minute hour day month weekday, an optional leading seconds field, or a macro like @daily */
   cron: string;
+  /** IANA timezone override (defaults to Config.timezone) */
+  timezone?: string;
 }
 
 /** One-time schedule - runs once at a specific datetime */
 export interface OneTimeSchedule {
   type: 'once';
-  /** ISO 8601 datetime string (YYYY-MM-DDTHH:MM:SS) */
+  /** ISO 8601 datetime string (YYYY-MM-DDTHH:MM:SS); without an offset it is read in the schedule timezone */
   datetime: string;
+  /** IANA timezone override (defaults to Config.timezone) */
+  timezone?: string;
 }
 
 /** Random-window schedule - runs once per day at a random time within a window */
@@ -25,16 +29,71 @@ export interface RandomWindowSchedule {
   end: string;
   /** Days of week using cron weekday syntax (0=Sun..6=Sat, 7=Sun), defaults to '*' */
   days?: string;
+  /** IANA timezone override (defaults to Config.timezone) */
+  timezone?: string;
 }
 
-export type Schedule = CronSchedule | OneTimeSchedule | RandomWindowSchedule;
+/** Upstream run outcome that triggers a dependent job */
+export type DependencyOutcome = 'success' | 'failure' | 'any';
+
+/** Dependency schedule - runs after upstream jobs finish */
+export interface AfterSchedule {
+  type: 'after';
+  /** IDs of the upstream jobs; with several, the job runs once all of them have finished */
+  jobs: string[];
+  /** Upstream outcome that triggers a run (default: success) */
+  on?: DependencyOutcome;
+}
+
+export type Schedule = CronSchedule | OneTimeSchedule | RandomWindowSchedule | AfterSchedule;
+
+/** Env value read from the secret store (`agent-oven secret set`) at run time */
+export interface SecretEnvRef {
+  /** Name of the secret */
+  secret: string;
+}
+
+/** Env value copied from the scheduler's own environment at run time */
+export interface HostEnvRef {
+  /** Name of the host environment variable */
+  fromEnv: string;
+}
+
+/** Env value read from a file at run time (trailing newline removed) */
+export interface FileEnvRef {
+  /** Path to the file; `~/` expands to the home directory, relative paths are resolved from the project directory */
+  file: string;
+}
+
+/** A reference to an env value that is resolved when the job runs, so it is not stored in jobs.json */
+export type EnvRef = SecretEnvRef | HostEnvRef | FileEnvRef;
+
+/** An env value: plain text, or a reference resolved at run time */
+export type EnvValue = string | EnvRef;
 
 /** Environment variables for a job */
-export type EnvVars = Record<string, string>;
+export type EnvVars = Record<string, EnvValue>;
 
 /** Auth mode for pipeline jobs */
 export type AuthMode = 'host-login' | 'api-key';
 
+/**
+ * How far a job's container is locked down:
+ * - strict: all capabilities dropped, no-new-privileges, read-only root
+ *   filesystem with a tmpfs /tmp, and network access only to allowed domains
+ * - standard: no-new-privileges and rarely needed capabilities dropped
+ * - none: Docker defaults
+ */
+export type SecurityProfile = 'strict' | 'standard' | 'none';
+
+/**
+ * When a Docker job's image is pulled before a run:
+ * - always: before every run, so a moving tag like latest is kept current
+ * - if-not-present: only when the image is not in the local image store
+ * - never: not at all; a missing image fails the run
+ */
+export type ImagePullPolicy = 'always' | 'if-not-present' | 'never';
+
 /** Source repository configuration for pipeline jobs */
 export interface SourceConfig {
   /** Git repository URL */
@@ -55,14 +114,76 @@ export interface ResourceConfig {
 
 /** Notification configuration */
 export interface NotificationConfig {
-  /** Slack webhook URL */
+  /** Slack incoming webhook URL */
   slack?: string;
-  /** Notify on failure */
+  /** Generic webhook URL (receives the run result as a JSON POST body) */
+  webhook?: string;
+  /** Local shell command (receives the run result as JSON on stdin) */
+  command?: string;
+  /** Notify on failure (default: true) */
   onFailure?: boolean;
-  /** Notify on success */
+  /** Notify on success (default: false) */
   onSuccess?: boolean;
 }
 
+/** Retry policy for failed runs */
+export interface RetryConfig {
+  /** Total attempts including the first run */
+  maxAttempts: number;
+  /** Seconds to wait before the first retry (default: 60) */
+  delay?: number;
+  /** Multiplier applied to the delay after each retry (default: 2) */
+  backoff?: number;
+  /** Exit codes that trigger a retry (default: any non-zero exit code) */
+  exitCodes?: number[];
+}
+
+/** A retry waiting for its delay to pass (persisted in logs/retries.json) */
+export interface PendingRetry {
+  jobId: string;
+  /** Attempt number the retry will run as (2 for the first retry) */
+  attempt: number;
+  /** When the retry becomes due (ISO 8601) */
+  dueAt: string;
+  /** Run ID of the first attempt of this logical run */
+  retryOf?: string;
+  /** Exit code of the failed attempt */
+  lastExitCode: number;
+}
+
+/** Runtime state of a job (persisted in state.json, apart from the job definitions) */
+export interface JobState {
+  /** When the job last ran (ISO 8601) */
+  lastRun?: string;
+  /** Newest scheduled time the scheduler started a run for (ISO 8601), recorded as the run starts */
+  lastScheduledRun?: string;
+  /** Exit code of the last finished run */
+  lastExitCode?: number;
+  /** Failed runs since the last successful one */
+  consecutiveFailures?: number;
+  /** Time picked for the next random-window run (ISO 8601) */
+  nextRandomWindowRun?: string;
+  /** Image ID (sha256 digest) a pinDigest job is pinned to, and the image it was taken from */
+  pinnedDigest?: string;
+  pinnedImage?: string;
+}
+
+/**
+ * How scheduled times missed while the scheduler was not running are handled:
+ * - none: skip them
+ * - latest: run once for the newest missed time
+ * - all: run once for every missed time (capped)
+ */
+export type CatchUpPolicy = 'none' | 'latest' | 'all';
+
+/**
+ * What the scheduler does when a job is due while its previous run is still going:
+ * - skip: do not start a new run
+ * - queue: start a new run once the current one finishes
+ * - replace: stop the current run and start a new one
+ */
+export type ConcurrencyPolicy = 'skip' | 'queue' | 'replace';
+
 /** Shared fields for all job types */
 interface BaseJob {
   /** Unique identifier for the job */
@@ -77,23 +198,75 @@ interface BaseJob {
   resources?: ResourceConfig;
   /** Notification settings */
   notifications?: NotificationConfig;
+  /** Overlap handling when the previous run is still going (default: skip) */
+  concurrencyPolicy?: ConcurrencyPolicy;
+  /** Retry policy for failed scheduled runs */
+  retry?: RetryConfig;
+  /** Handling of runs missed while the scheduler was not running (default: latest) */
+  catchUp?: CatchUpPolicy;
+  /** Mount a per-job outputs directory at /outputs, readable by dependent jobs under /inputs/<job-id> */
+  outputs?: boolean;
+  /** Security profile (default: none) */
+  security?: SecurityProfile;
+  /** Domains a strict job may reach through the egress proxy (e.g. registry.npmjs.org, *.example.com) */
+  allowedDomains?: string[];
+  /** Seccomp profile (JSON) replacing Docker's default; `~/` expands to the home directory, relative paths are resolved from the project directory */
+  seccomp?: string;
   /** Whether the job is enabled */
   enabled?: boolean;
-  /** Last run timestamp (ISO 8601) */
-  last_run?: string | null;
 }
 
 /** A Docker container job */
 export interface DockerJob extends BaseJob {
   type: 'docker';
-  /** Docker image to run */
-  image: string;
+  /** Docker image to run (required unless the job sets build) */
+  image?: string;
+  /** Build the job's own image instead, tagged agent-oven/job-<id>:<content hash> */
+  build?: DockerBuildConfig;
+  /** When to pull the image before a run (default: left to `docker run`, which pulls a missing image) */
+  pullPolicy?: ImagePullPolicy;
+  /** Refuse to run when the image digest differs from the one the job is pinned to (kept in state.json) */
+  pinDigest?: boolean;
   /** Command to execute (string or array of strings) */
   command: string | string[];
   /** Volume mounts (host:container[:mode]) */
   volumes?: string[];
   /** Timeout in seconds (legacy, prefer resources.timeout) */
   timeout?: number;
+  /** Docker network to connect to, or "none" for no network */
+  network?: string;
+  /** User (and group) to run as: name, UID, or user:group */
+  user?: string;
+  /** Working directory inside the container (absolute path) */
+  workdir?: string;
+  /** Entrypoint override for the image */
+  entrypoint?: string;
+  /** Mount the container's root filesystem read-only */
+  readOnly?: boolean;
+  /** Linux capabilities to drop (e.g. ALL, NET_RAW) */
+  capDrop?: string[];
+  /** Extra container labels (agent-oven.* labels are reserved) */
+  labels?: Record<string, string>;
+  /** Size of /dev/shm (e.g. 64m, 1g) */
+  shmSize?: string;
+  /** Maximum number of processes in the container */
+  pidsLimit?: number;
+  /**
+   * Further `docker run` options, passed before the image. Options agent-oven
+   * manages or that have a field of their own, and options granting host
+   * privileges, are rejected.
+   */
+  extraArgs?: string[];
+}
+
+/** How a Docker job builds its own image */
+export interface DockerBuildConfig {
+  /** Build context directory; `~/` expands to the home directory, relative paths are resolved from the project directory */
+  context: string;
+  /** Path to the Dockerfile, relative to the context (default: Dockerfile) */
+  dockerfile?: string;
+  /** Build arguments (`--build-arg`) */
+  args?: Record<string, string>;
 }
 
 /** An agent pipeline job */
@@ -120,8 +293,16 @@ export function isPipelineJob(job: Job): job is PipelineJob {
   return job.type === 'agent-pipeline';
 }
 
+/** Type guard for env values resolved at run time */
+export function isEnvRef(value: EnvValue): value is EnvRef {
+  return typeof value === 'object' && value !== null;
+}
+
 /** The jobs.json file structure */
 export interface JobsFile {
+  /** JSON Schema reference for editor completion and validation */
+  $schema?: string;
+  /** Job definitions */
   jobs: Job[];
 }
 
@@ -148,6 +329,14 @@ export interface AuthConfig {
   ghCredPath: string;
 }
 
+/** Extra rules for masking secrets in job and scheduler logs */
+export interface RedactionConfig {
+  /** Regular expressions whose matches are masked */
+  patterns?: string[];
+  /** Env var names whose values are masked, in addition to names that look secret (TOKEN, PASSWORD, ...) */
+  keys?: string[];
+}
+
 /** Application configuration */
 export interface Config {
   /** Path to the agent-oven project directory */
@@ -158,8 +347,16 @@ export interface Config {
   docker: DockerDefaults;
   /** Timezone for schedule evaluation */
   timezone: string;
+  /** Maximum number of jobs a scheduler tick runs at the same time (default: 4) */
+  maxConcurrentJobs?: number;
   /** Auth configuration for pipeline jobs */
   auth?: AuthConfig;
+  /** Extra rules for masking secrets in logs */
+  redaction?: RedactionConfig;
+  /** Format of job log files (default: text) */
+  logFormat?: LogFormat;
+  /** Build missing built-in images that due jobs use during the scheduler tick (default: false) */
+  autoBuildImages?: boolean;
 }
 
 /** Status of the container runtime (Colima on macOS, native Docker on Linux) */
@@ -185,22 +382,173 @@ export interface RunningContainer {
   status: string;
   image: string;
   jobId?: string;
+  /** Run ID from the container's agent-oven.run label */
+  runId?: string;
 }
 
+/** What started a job run */
+export type RunTrigger = 'scheduler' | 'manual' | 'api';
+
+/** A job run as recorded in the run history store (logs/runs.jsonl) */
+export interface RunRecord {
+  /** Unique run identifier */
+  runId: string;
+  jobId: string;
+  /** Run start (ISO 8601) */
+  startedAt: string;
+  /** Run end (ISO 8601), absent while running */
+  finishedAt?: string;
+  /** Container exit code, absent while running */
+  exitCode?: number;
+  /** What started the run (absent for runs imported from legacy logs) */
+  trigger?: RunTrigger;
+  /** Docker container name */
+  containerName?: string;
+  /** Docker container ID */
+  containerId?: string;
+  /** Image ID (sha256 digest) the container was started from */
+  imageDigest?: string;
+  /** Path to the run's log file */
+  logFile: string;
+  /** Error description for runs that did not exit normally (e.g. timeouts) */
+  error?: string;
+  /** Whether the container was stopped for exceeding the job's timeout */
+  timedOut?: boolean;
+  /** Final state of the container, from `docker inspect` */
+  container?: ContainerState;
+  /** Why the run failed, for runs that failed before docker was started (see getFailureReason) */
+  failureReason?: FailureReason;
+  /** Attempt number within a logical run (absent for first attempts) */
+  attempt?: number;
+  /** Run ID of the first attempt, for retries */
+  retryOf?: string;
+}
+
+/** Final state of a run's container, as reported by `docker inspect` */
+export interface ContainerState {
+  /** Container status (e.g. exited) */
+  status: string;
+  exitCode: number;
+  /** Whether the container was killed for exceeding its memory limit */
+  oomKilled: boolean;
+  /** Error docker reported for the container (empty if none) */
+  error: string;
+  /** When the container process started (0001-01-01T00:00:00Z if it never started) */
+  startedAt: string;
+  /** When the container process exited */
+  finishedAt: string;
+}
+
+/**
+ * Why a run failed:
+ * - timeout: stopped for exceeding the job's timeout
+ * - oom: killed for exceeding its memory limit
+ * - nonzero: the job's command exited with a non-zero code
+ * - startup-error: the container could not be started (e.g. missing image or secret)
+ * - build-error: the job's own image could not be built
+ * - pull-error: the image could not be pulled, or is missing under the never pull policy
+ * - digest-mismatch: the image digest differs from the one the job is pinned to
+ * - auth-error: credentials for the job's auth mode were missing
+ */
+export type FailureReason = 'timeout' | 'oom' | 'nonzero' | 'startup-error' | 'build-error' | 'pull-error' | 'digest-mismatch' | 'auth-error';
+
 /** Job execution log entry */
 export interface JobLogEntry {
   jobId: string;
   timestamp: string;
   logFile: string;
   exitCode?: number | 'running';
+  /** Run history identifier */
+  runId?: string;
+  /** What started the run */
+  trigger?: RunTrigger;
+  /** Run duration in milliseconds (finished runs only) */
+  durationMs?: number;
+  /** Error description for runs that did not exit normally */
+  error?: string;
+  /** Why the run failed (failed runs only) */
+  failureReason?: FailureReason;
+  /** Signal that ended the container, e.g. SIGKILL (when the exit code says so) */
+  signal?: string;
+  /** Attempt number within a logical run (absent for first attempts) */
+  attempt?: number;
+  /** Image ID (sha256 digest) the run used, once known */
+  imageDigest?: string;
+}
+
+/** A line of output from a running job */
+export interface OutputLine {
+  /** Where the line came from: the container, `docker build` for jobs that build their image, or `docker pull` */
+  stream: 'stdout' | 'stderr' | 'build' | 'pull';
+  /** The line, without its line break and with secrets masked */
+  text: string;
+  /** ISO 8601 time the line was received */
+  timestamp: string;
+}
+
+/** Format of job log files: `=== Key: value ===` banners (.log) or one JSON event per line (.jsonl) */
+export type LogFormat = 'text' | 'jsonl';
+
+/** First event of a run's log */
+export interface RunStartedEvent {
+  type: 'run_started';
+  timestamp: string;
+  jobId: string;
+  jobType: Job['type'];
+  runId: string;
+  /** Pipeline name, repo and branch (agent-pipeline jobs) */
+  pipeline?: string;
+  repo?: string;
+  branch?: string;
+  authMode?: AuthMode;
+  /** Effective security profile, and the domains a strict run may reach */
+  security?: SecurityProfile;
+  allowedDomains?: string[];
+  /** Env vars passed to the container and where their values come from, without the values */
+  env?: string[];
+  image?: string;
+  /** Image ID (sha256 digest) of the image, when it was checked before the run */
+  imageDigest?: string;
+  /** Resolved docker arguments (absent when the run failed before docker was started) */
+  args?: string[];
+}
+
+/** A line of container output */
+export interface OutputEvent extends OutputLine {
+  type: 'output';
 }
 
+/** A problem that did not stop the run */
+export interface WarningEvent {
+  type: 'warning';
+  timestamp: string;
+  message: string;
+}
+
+/** Last event of a run's log */
+export interface RunFinishedEvent {
+  type: 'run_finished';
+  timestamp: string;
+  exitCode: number;
+  durationMs: number;
+  /** Whether the container was killed for exceeding its memory limit (when known) */
+  oomKilled?: boolean;
+  error?: string;
+  /** More about the error, e.g. which secret could not be resolved */
+  detail?: string;
+}
+
+/** An event in a job log */
+export type JobLogEvent = RunStartedEvent | OutputEvent | WarningEvent | RunFinishedEvent;
+
 /** Result of running a job */
 export interface JobRunResult {
   success: boolean;
   exitCode: number;
   logFile: string;
   output?: string;
+  /** Run history identifier */
+  runId?: string;
 }
 
 /** Overall system status */
@@ -219,7 +567,7 @@ export interface SystemStatus {
 }
 
 /** Options for adding a new job */
-export type AddJobOptions = Omit<DockerJob, 'last_run'> | Omit<PipelineJob, 'last_run'>;
+export type AddJobOptions = DockerJob | PipelineJob;
 
 /** Options for updating an existing job */
 export type UpdateJobOptions = Partial<Omit<DockerJob, 'id' | 'type'>> | Partial<Omit<PipelineJob, 'id' | 'type'>>;
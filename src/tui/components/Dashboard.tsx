@@ -1,7 +1,7 @@
 import React, { useState, useEffect } from 'react';
 import { Box, Text } from 'ink';
 import Spinner from 'ink-spinner';
-import type { Config, SystemStatus } from '../../core/types.js';
+import type { Config, FailureReason, SystemStatus } from '../../core/types.js';
 import type { Screen } from '../types.js';
 import { getSystemStatus } from '../../core/docker.js';
 import { formatRelativeTime } from '../../core/scheduler.js';
@@ -177,26 +177,19 @@ interface RecentExecutionProps {
     jobId: string;
     timestamp: string;
     exitCode?: number | 'running';
+    failureReason?: FailureReason;
+    signal?: string;
   };
 }
 
 function RecentExecution({ execution }: RecentExecutionProps) {
-  const { jobId, timestamp, exitCode } = execution;
+  const { jobId, timestamp, exitCode, failureReason, signal } = execution;
 
-  // Parse timestamp (format: YYYYMMDD-HHMMSS)
+  // Timestamp is the run's ISO 8601 start time
   let timeAgo = timestamp;
-  try {
-    const year = timestamp.slice(0, 4);
-    const month = timestamp.slice(4, 6);
-    const day = timestamp.slice(6, 8);
-    const hour = timestamp.slice(9, 11);
-    const minute = timestamp.slice(11, 13);
-    const date = new Date(`${year}-${month}-${day}T${hour}:${minute}:00`);
-    if (!isNaN(date.getTime())) {
-      timeAgo = formatRelativeTime(date);
-    }
-  } catch {
-    // Keep original timestamp
+  const date = new Date(timestamp);
+  if (!isNaN(date.getTime())) {
+    timeAgo = formatRelativeTime(date);
   }
 
   const isRunning = exitCode === 'running';
@@ -211,8 +204,9 @@ function RecentExecution({ execution }: RecentExecutionProps) {
       <Text>{jobId.padEnd(20)}</Text>
       <Text dimColor>{timeAgo.padEnd(15)}</Text>
       <Text dimColor>
-        {isRunning ? 'running' : `exit ${exitCode}`}
+        {isRunning ? 'running' : `exit ${exitCode}${signal ? ` (${signal})` : ''}`}
       </Text>
+      {failureReason && <Text color="red"> {failureReason}</Text>}
     </Box>
   );
 }
@@ -4,12 +4,11 @@ import TextInput from 'ink-text-input';
 import Spinner from 'ink-spinner';
 import {
   setupFiles,
-  discoverImages,
-  buildImage,
   detectTimezone,
   verifyDocker,
   buildConfig,
 } from '../../core/setup.js';
+import { discoverImages, buildImage } from '../../core/images.js';
 import { platform } from '../../core/platform.js';
 
 interface DependencyStatus {
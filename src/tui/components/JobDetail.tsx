@@ -1,11 +1,14 @@
 import React, { useState, useEffect, useCallback } from 'react';
 import { Box, Text, useInput } from 'ink';
 import Spinner from 'ink-spinner';
-import type { Config, Job, JobLogEntry } from '../../core/types.js';
+import type { Config, Job, JobLogEntry, JobState, PendingRetry } from '../../core/types.js';
 import { isDockerJob, isPipelineJob } from '../../core/types.js';
-import { getJob, toggleJob, removeJob } from '../../core/jobs.js';
+import { getJob, listJobs, toggleJob, removeJob } from '../../core/jobs.js';
 import { runJob, getRecentExecutions, getJobLogFiles } from '../../core/docker.js';
 import { describeSchedule, getNextRun, formatRelativeTime } from '../../core/scheduler.js';
+import { getPendingRetry } from '../../core/retries.js';
+import { getJobState } from '../../core/state.js';
+import { formatDependencyGraph } from '../../core/dependencies.js';
 
 interface JobDetailProps {
   config: Config;
@@ -26,21 +29,31 @@ export function JobDetail({
 }: JobDetailProps) {
   const [job, setJob] = useState<Job | null>(null);
   const [recentLogs, setRecentLogs] = useState<JobLogEntry[]>([]);
+  const [pendingRetry, setPendingRetry] = useState<PendingRetry | undefined>();
+  const [jobState, setJobState] = useState<JobState>({});
+  const [dependencyGraph, setDependencyGraph] = useState<string[]>([]);
   const [running, setRunning] = useState(false);
   const [selectedLogIndex, setSelectedLogIndex] = useState(0);
   const [logSelectMode, setLogSelectMode] = useState(false);
 
   // Load job
   const loadJob = useCallback(() => {
-    const j = getJob(config, jobId);
+    let j: Job | null;
+    try {
+      j = getJob(config, jobId);
+    } catch (err) {
+      onMessage(err instanceof Error ? err.message : String(err), 'error');
+      return;
+    }
     setJob(j);
 
     if (j) {
-      const executions = getRecentExecutions(config, 20);
-      const jobExecs = executions.filter((e) => e.jobId === jobId);
-      setRecentLogs(jobExecs);
+      setRecentLogs(getRecentExecutions(config, 20, jobId));
+      setPendingRetry(getPendingRetry(config, jobId));
+      setJobState(getJobState(config, jobId));
+      setDependencyGraph(formatDependencyGraph(listJobs(config), jobId));
     }
-  }, [config, jobId]);
+  }, [config, jobId, onMessage]);
 
   useEffect(() => {
     loadJob();
@@ -96,7 +109,7 @@ export function JobDetail({
 
     setRunning(true);
     try {
-      const result = await runJob(config, job, { detach: true });
+      const result = await runJob(config, job, { detach: true, trigger: 'manual' });
       if (result.success) {
         onMessage(`Job "${job.name}" started`, 'success');
       } else {
@@ -147,8 +160,8 @@ export function JobDetail({
   }
 
   const enabled = job.enabled !== false;
-  const scheduleDesc = describeSchedule(job.schedule);
-  const nextRun = getNextRun(job.schedule);
+  const scheduleDesc = describeSchedule(job.schedule, config.timezone);
+  const nextRun = getNextRun(job.schedule, config.timezone, job.id);
 
   return (
     <Box flexDirection="column">
@@ -178,7 +191,14 @@ export function JobDetail({
         <DetailRow label="Type" value={job.type} />
         {isDockerJob(job) && (
           <>
-            <DetailRow label="Image" value={job.image} />
+            <DetailRow label="Image" value={job.image ?? `built from ${job.build?.context}`} />
+            {job.pullPolicy && <DetailRow label="Pull" value={job.pullPolicy} />}
+            {job.pinDigest && (
+              <DetailRow
+                label="Pinned"
+                value={jobState.pinnedImage === job.image && jobState.pinnedDigest ? jobState.pinnedDigest : 'on next run'}
+              />
+            )}
             <DetailRow
               label="Command"
               value={Array.isArray(job.command) ? job.command.join(' ') : job.command}
@@ -222,11 +242,41 @@ export function JobDetail({
         {job.env && Object.keys(job.env).length > 0 && (
           <DetailRow label="Env vars" value={Object.keys(job.env).join(', ')} />
         )}
-        {job.last_run && (
-          <DetailRow label="Last run" value={job.last_run} />
+        {jobState.lastRun && (
+          <DetailRow
+            label="Last run"
+            value={jobState.lastExitCode !== undefined ? `${jobState.lastRun} (exit ${jobState.lastExitCode})` : jobState.lastRun}
+          />
+        )}
+        {!!jobState.consecutiveFailures && (
+          <DetailRow label="Failures" value={`${jobState.consecutiveFailures} in a row`} />
+        )}
+        {job.outputs && (
+          <DetailRow label="Outputs" value={`outputs/${job.id} → /outputs`} />
+        )}
+        {job.retry && (
+          <DetailRow label="Retry" value={`up to ${job.retry.maxAttempts} attempts`} />
+        )}
+        {job.retry && pendingRetry && (
+          <DetailRow
+            label="Retrying"
+            value={`attempt ${pendingRetry.attempt}/${job.retry.maxAttempts} ${formatRelativeTime(new Date(pendingRetry.dueAt))}`}
+          />
         )}
       </Box>
 
+      {/* Dependencies */}
+      {dependencyGraph.length > 0 && (
+        <Box flexDirection="column" marginTop={1}>
+          <Text bold underline>Dependencies</Text>
+          <Box flexDirection="column" borderStyle="single" paddingX={1}>
+            {dependencyGraph.map((line, index) => (
+              <Text key={index}>{line}</Text>
+            ))}
+          </Box>
+        </Box>
+      )}
+
       {/* Recent Logs */}
       {logSelectMode ? (
         <Box flexDirection="column" marginTop={1}>
@@ -237,7 +287,7 @@ export function JobDetail({
                 <Text color={index === selectedLogIndex ? 'cyan' : undefined}>
                   {index === selectedLogIndex ? '▸ ' : '  '}
                   {log.timestamp}
-                  <Text dimColor> exit {log.exitCode}</Text>
+                  <Text dimColor> exit {log.exitCode}{log.failureReason ? ` · ${log.failureReason}` : ''}</Text>
                 </Text>
               </Box>
             ))}
@@ -293,7 +343,27 @@ function LogEntry({ log }: LogEntryProps) {
         {isRunning ? '◐' : isSuccess ? '✓' : '✗'}
       </Text>
       <Text> {log.timestamp}</Text>
-      <Text dimColor> {isRunning ? 'running' : `exit ${log.exitCode}`}</Text>
+      <Text dimColor> {isRunning ? 'running' : `exit ${log.exitCode}${log.signal ? ` (${log.signal})` : ''}`}</Text>
+      {log.failureReason && (
+        <Text color="red"> · {log.failureReason}</Text>
+      )}
+      {log.durationMs !== undefined && (
+        <Text dimColor> · {formatRunDuration(log.durationMs)}</Text>
+      )}
+      {log.trigger && (
+        <Text dimColor> · {log.trigger}</Text>
+      )}
+      {log.attempt && (
+        <Text dimColor> · attempt {log.attempt}</Text>
+      )}
     </Box>
   );
 }
+
+function formatRunDuration(ms: number): string {
+  const seconds = Math.round(ms / 1000);
+  if (seconds < 60) return `${seconds}s`;
+  const m = Math.floor(seconds / 60);
+  const s = seconds % 60;
+  return s > 0 ? `${m}m ${s}s` : `${m}m`;
+}
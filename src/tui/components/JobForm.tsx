@@ -1,8 +1,10 @@
 import React, { useState, useCallback } from 'react';
 import { Box, Text, useInput } from 'ink';
 import TextInput from 'ink-text-input';
-import type { Config, Job, DockerJob, Schedule } from '../../core/types.js';
-import { addJob, updateJob, validateJob, getBuiltInImages } from '../../core/jobs.js';
+import type { Config, Job, DockerJob, Schedule, DependencyOutcome } from '../../core/types.js';
+import { addJob, updateJob, validateJob, listJobs } from '../../core/jobs.js';
+import { getBuiltInImages } from '../../core/images.js';
+import { DEPENDENCY_OUTCOMES } from '../../core/dependencies.js';
 import { describeCron, validateCron, validateRandomWindow } from '../../core/scheduler.js';
 import type { RandomWindowSchedule } from '../../core/types.js';
 
@@ -13,9 +15,13 @@ interface JobFormProps {
   onCancel: () => void;
 }
 
-type Field = 'id' | 'name' | 'image' | 'command' | 'scheduleType' | 'cron' | 'datetime' | 'rwStart' | 'rwEnd' | 'rwDays' | 'volumes' | 'timeout';
+type Field = 'id' | 'name' | 'image' | 'command' | 'scheduleType' | 'cron' | 'datetime' | 'rwStart' | 'rwEnd' | 'rwDays' | 'afterJobs' | 'afterOn' | 'volumes' | 'timeout'
+  | 'network' | 'user' | 'workdir' | 'entrypoint' | 'readOnly' | 'capDrop' | 'labels' | 'shmSize' | 'pidsLimit' | 'extraArgs';
 
-const FIELDS: Field[] = ['id', 'name', 'image', 'command', 'scheduleType', 'cron', 'datetime', 'rwStart', 'rwEnd', 'rwDays', 'volumes', 'timeout'];
+const FIELDS: Field[] = [
+  'id', 'name', 'image', 'command', 'scheduleType', 'cron', 'datetime', 'rwStart', 'rwEnd', 'rwDays', 'afterJobs', 'afterOn', 'volumes', 'timeout',
+  'network', 'user', 'workdir', 'entrypoint', 'readOnly', 'capDrop', 'labels', 'shmSize', 'pidsLimit', 'extraArgs',
+];
 
 export function JobForm({ config, existingJob, onSave, onCancel }: JobFormProps) {
   const isEdit = !!existingJob;
@@ -25,13 +31,14 @@ export function JobForm({ config, existingJob, onSave, onCancel }: JobFormProps)
   // Form state
   const [id, setId] = useState(existingJob?.id ?? '');
   const [name, setName] = useState(existingJob?.name ?? '');
-  const [image, setImage] = useState(existingDocker?.image ?? 'agent-oven/python-tasks');
+  // Jobs that build their own image keep their build config while the image field is empty
+  const [image, setImage] = useState(existingDocker?.image ?? (existingDocker?.build ? '' : 'agent-oven/python-tasks'));
   const [command, setCommand] = useState(
     Array.isArray(existingDocker?.command)
       ? existingDocker.command.join(' ')
       : existingDocker?.command ?? ''
   );
-  const [scheduleType, setScheduleType] = useState<'cron' | 'once' | 'random-window'>(
+  const [scheduleType, setScheduleType] = useState<'cron' | 'once' | 'random-window' | 'after'>(
     existingJob?.schedule.type ?? 'cron'
   );
   const [cron, setCron] = useState(
@@ -49,8 +56,26 @@ export function JobForm({ config, existingJob, onSave, onCancel }: JobFormProps)
   const [rwDays, setRwDays] = useState(
     existingJob?.schedule.type === 'random-window' ? (existingJob.schedule.days ?? '*') : '*'
   );
+  const [afterJobs, setAfterJobs] = useState(
+    existingJob?.schedule.type === 'after' ? existingJob.schedule.jobs.join(', ') : ''
+  );
+  const [afterOn, setAfterOn] = useState<DependencyOutcome>(
+    existingJob?.schedule.type === 'after' ? (existingJob.schedule.on ?? 'success') : 'success'
+  );
   const [volumes, setVolumes] = useState(existingDocker?.volumes?.join('\n') ?? '');
   const [timeout, setTimeout] = useState(existingDocker?.timeout?.toString() ?? '300');
+  const [network, setNetwork] = useState(existingDocker?.network ?? '');
+  const [user, setUser] = useState(existingDocker?.user ?? '');
+  const [workdir, setWorkdir] = useState(existingDocker?.workdir ?? '');
+  const [entrypoint, setEntrypoint] = useState(existingDocker?.entrypoint ?? '');
+  const [readOnly, setReadOnly] = useState(existingDocker?.readOnly ?? false);
+  const [capDrop, setCapDrop] = useState(existingDocker?.capDrop?.join(', ') ?? '');
+  const [labels, setLabels] = useState(
+    Object.entries(existingDocker?.labels ?? {}).map(([key, value]) => `${key}=${value}`).join(', ')
+  );
+  const [shmSize, setShmSize] = useState(existingDocker?.shmSize ?? '');
+  const [pidsLimit, setPidsLimit] = useState(existingDocker?.pidsLimit?.toString() ?? '');
+  const [extraArgs, setExtraArgs] = useState(existingDocker?.extraArgs?.join(' ') ?? '');
 
   // UI state
   const [activeField, setActiveField] = useState<Field>(isEdit ? 'name' : 'id');
@@ -58,13 +83,14 @@ export function JobForm({ config, existingJob, onSave, onCancel }: JobFormProps)
   const [imageSelectMode, setImageSelectMode] = useState(false);
   const [imageIndex, setImageIndex] = useState(0);
 
-  const builtInImages = getBuiltInImages();
+  const builtInImages = getBuiltInImages(config.projectDir);
 
   // Navigate fields
   const shouldSkipField = useCallback((field: Field): boolean => {
     if (field === 'cron' && scheduleType !== 'cron') return true;
     if (field === 'datetime' && scheduleType !== 'once') return true;
     if ((field === 'rwStart' || field === 'rwEnd' || field === 'rwDays') && scheduleType !== 'random-window') return true;
+    if ((field === 'afterJobs' || field === 'afterOn') && scheduleType !== 'after') return true;
     return false;
   }, [scheduleType]);
 
@@ -119,6 +145,9 @@ export function JobForm({ config, existingJob, onSave, onCancel }: JobFormProps)
         return;
       }
       schedule = rwSchedule;
+    } else if (scheduleType === 'after') {
+      schedule = { type: 'after', jobs: afterJobs.split(',').map((j) => j.trim()).filter(Boolean) };
+      if (afterOn !== 'success') schedule.on = afterOn;
     } else {
       schedule = { type: 'once', datetime };
     }
@@ -126,25 +155,45 @@ export function JobForm({ config, existingJob, onSave, onCancel }: JobFormProps)
     // Parse command
     const cmdParts = command.trim().split(/\s+/);
 
+    // Parse labels: comma-separated KEY=VALUE pairs
+    const jobLabels: Record<string, string> = {};
+    for (const pair of labels.split(',').map((l) => l.trim()).filter(Boolean)) {
+      const eqIdx = pair.indexOf('=');
+      if (eqIdx <= 0) {
+        setError(`Invalid label "${pair}" (expected KEY=VALUE)`);
+        return;
+      }
+      jobLabels[pair.slice(0, eqIdx)] = pair.slice(eqIdx + 1);
+    }
+    const capabilities = capDrop.split(',').map((c) => c.trim()).filter(Boolean);
+    const extraArgList = extraArgs.trim().split(/\s+/).filter(Boolean);
+
     // Build job object (form creates Docker jobs only)
     const jobData: Partial<DockerJob> = {
       type: 'docker',
       id,
       name,
-      image,
+      image: image.trim() || undefined,
+      build: image.trim() ? undefined : existingDocker?.build,
       command: cmdParts.length > 1 ? cmdParts : command,
       schedule,
       volumes: volumes.trim() ? volumes.trim().split('\n').filter(Boolean) : undefined,
       timeout: timeout ? parseInt(timeout, 10) : undefined,
+      network: network.trim() || undefined,
+      user: user.trim() || undefined,
+      workdir: workdir.trim() || undefined,
+      entrypoint: entrypoint.trim() || undefined,
+      readOnly: readOnly || undefined,
+      capDrop: capabilities.length > 0 ? capabilities : undefined,
+      labels: Object.keys(jobLabels).length > 0 ? jobLabels : undefined,
+      shmSize: shmSize.trim() || undefined,
+      pidsLimit: pidsLimit ? Number(pidsLimit) : undefined,
+      extraArgs: extraArgList.length > 0 ? extraArgList : undefined,
       enabled: existingJob?.enabled ?? true,
     };
 
     // Validate
-    const errors = validateJob(jobData);
-    if (scheduleType === 'cron') {
-      const cronError = validateCron(cron);
-      if (cronError) errors.push(`Cron: ${cronError}`);
-    }
+    const errors = validateJob(jobData, listJobs(config));
 
     if (errors.length > 0) {
       setError(errors[0]);
@@ -157,10 +206,21 @@ export function JobForm({ config, existingJob, onSave, onCancel }: JobFormProps)
         savedJob = updateJob(config, existingJob.id, {
           name: jobData.name,
           image: jobData.image,
+          build: jobData.build,
           command: jobData.command,
           schedule: jobData.schedule,
           volumes: jobData.volumes,
           timeout: jobData.timeout,
+          network: jobData.network,
+          user: jobData.user,
+          workdir: jobData.workdir,
+          entrypoint: jobData.entrypoint,
+          readOnly: jobData.readOnly,
+          capDrop: jobData.capDrop,
+          labels: jobData.labels,
+          shmSize: jobData.shmSize,
+          pidsLimit: jobData.pidsLimit,
+          extraArgs: jobData.extraArgs,
         });
       } else {
         savedJob = addJob(config, jobData as Parameters<typeof addJob>[1]);
@@ -169,7 +229,8 @@ export function JobForm({ config, existingJob, onSave, onCancel }: JobFormProps)
     } catch (err) {
       setError(err instanceof Error ? err.message : 'Failed to save job');
     }
-  }, [config, existingJob, isEdit, id, name, image, command, scheduleType, cron, datetime, rwStart, rwEnd, rwDays, volumes, timeout, onSave]);
+  }, [config, existingJob, isEdit, id, name, image, command, scheduleType, cron, datetime, rwStart, rwEnd, rwDays, afterJobs, afterOn, volumes, timeout,
+    network, user, workdir, entrypoint, readOnly, capDrop, labels, shmSize, pidsLimit, extraArgs, onSave]);
 
   // Handle input
   useInput((input, key) => {
@@ -206,7 +267,27 @@ export function JobForm({ config, existingJob, onSave, onCancel }: JobFormProps)
     // Schedule type toggle
     if (activeField === 'scheduleType') {
       if (key.leftArrow || key.rightArrow || input === ' ') {
-        setScheduleType((t) => t === 'cron' ? 'random-window' : t === 'random-window' ? 'once' : 'cron');
+        setScheduleType((t) => t === 'cron' ? 'random-window' : t === 'random-window' ? 'once' : t === 'once' ? 'after' : 'cron');
+      } else if (key.return) {
+        nextField();
+      }
+      return;
+    }
+
+    // Dependency outcome toggle
+    if (activeField === 'afterOn') {
+      if (key.leftArrow || key.rightArrow || input === ' ') {
+        setAfterOn((o) => DEPENDENCY_OUTCOMES[(DEPENDENCY_OUTCOMES.indexOf(o) + 1) % DEPENDENCY_OUTCOMES.length]);
+      } else if (key.return) {
+        nextField();
+      }
+      return;
+    }
+
+    // Read-only toggle
+    if (activeField === 'readOnly') {
+      if (key.leftArrow || key.rightArrow || input === ' ') {
+        setReadOnly((r) => !r);
       } else if (key.return) {
         nextField();
       }
@@ -308,6 +389,10 @@ export function JobForm({ config, existingJob, onSave, onCancel }: JobFormProps)
             <Text color={scheduleType === 'once' ? 'cyan' : undefined}>
               ({scheduleType === 'once' ? '●' : '○'}) One-time
             </Text>
+            <Text>  </Text>
+            <Text color={scheduleType === 'after' ? 'cyan' : undefined}>
+              ({scheduleType === 'after' ? '●' : '○'}) After Jobs
+            </Text>
           </Box>
         </FormField>
 
@@ -369,7 +454,33 @@ export function JobForm({ config, existingJob, onSave, onCancel }: JobFormProps)
                   focus={activeField === 'rwDays'}
                   placeholder="*"
                 />
-                <Text dimColor> (cron weekday: * or 1-5)</Text>
+                <Text dimColor> (cron weekday: * or MON-FRI)</Text>
+              </Box>
+            </FormField>
+          </>
+        )}
+
+        {/* Dependency fields */}
+        {scheduleType === 'after' && (
+          <>
+            <FormField label="After" active={activeField === 'afterJobs'}>
+              <Box>
+                <TextInput
+                  value={afterJobs}
+                  onChange={setAfterJobs}
+                  focus={activeField === 'afterJobs'}
+                  placeholder="fetch-data"
+                />
+                <Text dimColor> (upstream job IDs, comma-separated)</Text>
+              </Box>
+            </FormField>
+            <FormField label="On" active={activeField === 'afterOn'}>
+              <Box>
+                {DEPENDENCY_OUTCOMES.map((outcome) => (
+                  <Text key={outcome} color={afterOn === outcome ? 'cyan' : undefined}>
+                    ({afterOn === outcome ? '●' : '○'}) {outcome}{'  '}
+                  </Text>
+                ))}
               </Box>
             </FormField>
           </>
@@ -397,6 +508,91 @@ export function JobForm({ config, existingJob, onSave, onCancel }: JobFormProps)
             <Text dimColor> seconds</Text>
           </Box>
         </FormField>
+
+        {/* Run options */}
+        <FormField label="Network" active={activeField === 'network'}>
+          <TextInput
+            value={network}
+            onChange={setNetwork}
+            focus={activeField === 'network'}
+            placeholder="default (or none)"
+          />
+        </FormField>
+        <FormField label="User" active={activeField === 'user'}>
+          <TextInput
+            value={user}
+            onChange={setUser}
+            focus={activeField === 'user'}
+            placeholder="image default (e.g. 1000:1000)"
+          />
+        </FormField>
+        <FormField label="Workdir" active={activeField === 'workdir'}>
+          <TextInput
+            value={workdir}
+            onChange={setWorkdir}
+            focus={activeField === 'workdir'}
+            placeholder="image default"
+          />
+        </FormField>
+        <FormField label="Entrypoint" active={activeField === 'entrypoint'}>
+          <TextInput
+            value={entrypoint}
+            onChange={setEntrypoint}
+            focus={activeField === 'entrypoint'}
+            placeholder="image default"
+          />
+        </FormField>
+        <FormField label="Read-only" active={activeField === 'readOnly'}>
+          <Text color={readOnly ? 'cyan' : undefined}>
+            [{readOnly ? 'x' : ' '}] Read-only root filesystem
+          </Text>
+        </FormField>
+        <FormField label="Cap drop" active={activeField === 'capDrop'}>
+          <Box>
+            <TextInput
+              value={capDrop}
+              onChange={setCapDrop}
+              focus={activeField === 'capDrop'}
+              placeholder="ALL"
+            />
+            <Text dimColor> (comma-separated)</Text>
+          </Box>
+        </FormField>
+        <FormField label="Labels" active={activeField === 'labels'}>
+          <Box>
+            <TextInput
+              value={labels}
+              onChange={setLabels}
+              focus={activeField === 'labels'}
+              placeholder="team=data"
+            />
+            <Text dimColor> (KEY=VALUE, comma-separated)</Text>
+          </Box>
+        </FormField>
+        <FormField label="Shm size" active={activeField === 'shmSize'}>
+          <TextInput
+            value={shmSize}
+            onChange={setShmSize}
+            focus={activeField === 'shmSize'}
+            placeholder="64m"
+          />
+        </FormField>
+        <FormField label="Pids limit" active={activeField === 'pidsLimit'}>
+          <TextInput
+            value={pidsLimit}
+            onChange={setPidsLimit}
+            focus={activeField === 'pidsLimit'}
+            placeholder="unlimited"
+          />
+        </FormField>
+        <FormField label="Extra args" active={activeField === 'extraArgs'}>
+          <TextInput
+            value={extraArgs}
+            onChange={setExtraArgs}
+            focus={activeField === 'extraArgs'}
+            placeholder="--add-host=db:10.0.0.5"
+          />
+        </FormField>
       </Box>
 
       {/* Error */}
@@ -22,9 +22,12 @@ export function JobList({ config, onSelect, onAdd, onBack, onMessage }: JobListP
 
   // Load jobs
   const loadJobs = useCallback(() => {
-    const allJobs = listJobs(config);
-    setJobs(allJobs);
-  }, [config]);
+    try {
+      setJobs(listJobs(config));
+    } catch (err) {
+      onMessage(err instanceof Error ? err.message : String(err), 'error');
+    }
+  }, [config, onMessage]);
 
   useEffect(() => {
     loadJobs();
@@ -96,7 +99,7 @@ export function JobList({ config, onSelect, onAdd, onBack, onMessage }: JobListP
   const handleRunJob = async (job: Job) => {
     setRunning(job.id);
     try {
-      const result = await runJob(config, job, { detach: true });
+      const result = await runJob(config, job, { detach: true, trigger: 'manual' });
       if (result.success) {
         onMessage(`Job "${job.name}" started`, 'success');
       } else {
@@ -186,6 +189,8 @@ function JobRow({ job, selected, running }: JobRowProps) {
     ? job.schedule.cron
     : job.schedule.type === 'random-window'
     ? `~${job.schedule.start}-${job.schedule.end}`
+    : job.schedule.type === 'after'
+    ? `after ${job.schedule.jobs.join(',')}`
     : 'one-time';
 
   return (
@@ -2,6 +2,7 @@ import React, { useState, useEffect, useCallback, useRef } from 'react';
 import { Box, Text, useInput, useStdout } from 'ink';
 import type { Config } from '../../core/types.js';
 import { readJobLog, readSchedulerLog, getJobLogFiles } from '../../core/docker.js';
+import { replaceLogExtension } from '../../core/job-log.js';
 
 interface LogViewerProps {
   config: Config;
@@ -152,7 +153,7 @@ export function LogViewer({ config, jobId, logFile, onBack }: LogViewerProps) {
     const parts = selectedFile.split('/');
     const filename = parts[parts.length - 1];
     const jobFolder = parts[parts.length - 2];
-    title = `Logs: ${jobFolder} - ${filename.replace('.log', '')}`;
+    title = `Logs: ${jobFolder} - ${replaceLogExtension(filename, '')}`;
   } else if (jobId) {
     title = `Logs: ${jobId}`;
   }
@@ -165,7 +166,7 @@ export function LogViewer({ config, jobId, logFile, onBack }: LogViewerProps) {
         <Box flexDirection="column" marginTop={1} borderStyle="single" paddingX={1}>
           {availableFiles.map((file, index) => {
             const parts = file.split('/');
-            const filename = parts[parts.length - 1].replace('.log', '');
+            const filename = replaceLogExtension(parts[parts.length - 1], '');
             return (
               <Box key={file}>
                 <Text color={index === fileSelectIndex ? 'cyan' : undefined}>
@@ -254,6 +255,16 @@ function formatLogLine(line: string): React.ReactNode {
     return <Text color="green">{line}</Text>;
   }
 
+  // Job output: time and stream, then the line
+  const output = line.match(/^(\S+ (?:stdout|stderr) \|) (.*)/);
+  if (output) {
+    return (
+      <Text>
+        <Text dimColor>{output[1]}</Text> {output[2]}
+      </Text>
+    );
+  }
+
   // Timestamp pattern
   if (/^\[\d{4}-\d{2}-\d{2}/.test(line)) {
     const match = line.match(/^(\[[^\]]+\])\s*(.*)/);